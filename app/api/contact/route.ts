@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server"
+import { CONTACT_INTERESTS, validateContactSubmission } from "@/utils/contact/schema"
+import { createRateLimiter } from "@/utils/contact/rate-limit"
+import { clientIp, isHoneypotFilled, readJsonBody } from "@/utils/contact/request"
+import { getSubmissionTransport } from "@/utils/contact/transport"
+
+export const runtime = "nodejs"
+
+// Five messages per client every ten minutes
+const rateLimiter = createRateLimiter({ limit: 5, windowMs: 10 * 60 * 1000 })
+
+export async function POST(request: Request) {
+  const ip = clientIp(request)
+
+  const limit = rateLimiter.check(ip)
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: "Too many messages. Please try again later." },
+      { status: 429, headers: { "Retry-After": String(Math.ceil(limit.retryAfterMs / 1000)) } },
+    )
+  }
+
+  const parsed = await readJsonBody(request)
+  if (!parsed.ok) {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 })
+  }
+
+  // Pretend it worked so bots don't learn to skip the field
+  if (isHoneypotFilled(parsed.body)) {
+    return NextResponse.json({ ok: true })
+  }
+
+  const { data, errors } = validateContactSubmission(parsed.body)
+  if (!data) {
+    return NextResponse.json({ error: "Please correct the highlighted fields", fieldErrors: errors }, { status: 422 })
+  }
+
+  try {
+    await getSubmissionTransport().deliver({
+      kind: "contact",
+      data,
+      receivedAt: new Date().toISOString(),
+      ip,
+      userAgent: request.headers.get("user-agent"),
+      email: {
+        replyTo: { name: data.name, email: data.email },
+        subject: data.subject,
+        text: [
+          `Name: ${data.name}`,
+          `Email: ${data.email}`,
+          `Phone: ${data.phone || "Not provided"}`,
+          `Interest: ${data.interest ? CONTACT_INTERESTS[data.interest] : "Not specified"}`,
+          "",
+          data.message,
+        ].join("\n"),
+      },
+    })
+  } catch (error) {
+    console.error("Failed to deliver contact submission", error)
+    return NextResponse.json({ error: "We couldn't send your message. Please try again." }, { status: 502 })
+  }
+
+  return NextResponse.json({ ok: true })
+}
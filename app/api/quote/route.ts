@@ -0,0 +1,84 @@
+import { randomUUID } from "node:crypto"
+import { NextResponse } from "next/server"
+import { createRateLimiter } from "@/utils/contact/rate-limit"
+import { clientIp, isHoneypotFilled, readJsonBody } from "@/utils/contact/request"
+import { getSubmissionTransport } from "@/utils/contact/transport"
+import { getCatalog } from "@/utils/catalog"
+import { DEFAULT_CURRENCY } from "@/constants/currency"
+import { isCurrencyCode } from "@/utils/money"
+import { buildQuote, formatQuoteText, validateQuoteCustomer, validateQuoteItems } from "@/utils/quote"
+
+export const runtime = "nodejs"
+
+// Three quote requests per client every ten minutes
+const rateLimiter = createRateLimiter({ limit: 3, windowMs: 10 * 60 * 1000 })
+
+export async function POST(request: Request) {
+  const ip = clientIp(request)
+
+  const limit = rateLimiter.check(ip)
+  if (!limit.allowed) {
+    return NextResponse.json(
+      { error: "Too many quote requests. Please try again later." },
+      { status: 429, headers: { "Retry-After": String(Math.ceil(limit.retryAfterMs / 1000)) } },
+    )
+  }
+
+  const parsed = await readJsonBody(request)
+  if (!parsed.ok) {
+    return NextResponse.json({ error: "Invalid request body" }, { status: 400 })
+  }
+  const body = (parsed.body ?? {}) as { customer?: unknown; items?: unknown; currency?: unknown }
+
+  if (isHoneypotFilled(body.customer)) {
+    return NextResponse.json({ ok: true })
+  }
+
+  const customer = validateQuoteCustomer(body.customer)
+  if (!customer.data) {
+    return NextResponse.json(
+      { error: "Please correct the highlighted fields", fieldErrors: customer.errors },
+      { status: 422 },
+    )
+  }
+
+  // Prices always come from the catalog, never from the client
+  const { products } = getCatalog()
+  const cart = validateQuoteItems(body.items, products)
+  if (!cart.items) {
+    return NextResponse.json({ error: cart.error }, { status: 422 })
+  }
+
+  const quote = buildQuote(cart.items, products, isCurrencyCode(body.currency) ? body.currency : DEFAULT_CURRENCY)
+  const receivedAt = new Date()
+  const day = receivedAt.toISOString().slice(0, 10).replace(/-/g, "")
+  const reference = `Q-${day}-${randomUUID().slice(0, 6).toUpperCase()}`
+
+  try {
+    await getSubmissionTransport().deliver({
+      kind: "quote",
+      data: { reference, customer: customer.data, quote },
+      receivedAt: receivedAt.toISOString(),
+      ip,
+      userAgent: request.headers.get("user-agent"),
+      email: {
+        replyTo: { name: customer.data.name, email: customer.data.email },
+        subject: `Quote request ${reference}`,
+        text: [
+          `Name: ${customer.data.name}`,
+          `Email: ${customer.data.email}`,
+          `Phone: ${customer.data.phone || "Not provided"}`,
+          `Company: ${customer.data.company || "Not provided"}`,
+          "",
+          formatQuoteText(quote),
+          ...(customer.data.notes ? ["", "Notes:", customer.data.notes] : []),
+        ].join("\n"),
+      },
+    })
+  } catch (error) {
+    console.error("Failed to deliver quote request", error)
+    return NextResponse.json({ error: "We couldn't send your quote request. Please try again." }, { status: 502 })
+  }
+
+  return NextResponse.json({ ok: true, reference, quote })
+}
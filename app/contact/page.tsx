@@ -1,7 +1,5 @@
 "use client"
 
-import type React from "react"
-
 import { useState, useEffect, useRef } from "react"
 import { motion, useAnimation } from "framer-motion"
 import { Mail, Phone, MapPin, Send, CheckCircle, AlertCircle, ArrowRight, Zap, SunMedium, Leaf } from "lucide-react"
@@ -9,7 +7,8 @@ import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Textarea } from "@/components/ui/textarea"
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
-import { Label } from "@/components/ui/label"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { useForm, type Resolver } from "react-hook-form"
 import Navigation from "@/components/shared/navigation"
 import {
   GreenBackgroundAnimation,
@@ -20,18 +19,40 @@ import {
   FloatingIconAnimation,
 } from "@/components/animations/shared-animations"
 import gsap from "gsap"
+import {
+  CONTACT_HONEYPOT_FIELD,
+  CONTACT_INTERESTS,
+  EMPTY_CONTACT_SUBMISSION,
+  ContactField,
+  ContactFieldErrors,
+  ContactSubmission,
+  validateContactSubmission,
+} from "@/utils/contact/schema"
+
+type ContactFormValues = ContactSubmission & { [CONTACT_HONEYPOT_FIELD]: string }
+
+// Runs the same checks as the server before anything is sent
+const contactResolver: Resolver<ContactFormValues> = async (values) => {
+  const { errors } = validateContactSubmission(values)
+  if (!errors) return { values, errors: {} }
+  return {
+    values: {},
+    errors: Object.fromEntries(
+      Object.entries(errors).map(([field, message]) => [field, { type: "validate", message }]),
+    ),
+  }
+}
+
+const inputClassName = "bg-slate-700/50 border-slate-600 text-white placeholder:text-slate-400"
 
 export default function ContactPage() {
   const [isVisible, setIsVisible] = useState(false)
-  const [formState, setFormState] = useState({
-    name: "",
-    email: "",
-    phone: "",
-    subject: "",
-    message: "",
-    interest: "",
+  const form = useForm<ContactFormValues>({
+    resolver: contactResolver,
+    defaultValues: { ...EMPTY_CONTACT_SUBMISSION, [CONTACT_HONEYPOT_FIELD]: "" },
   })
   const [formStatus, setFormStatus] = useState<"idle" | "submitting" | "success" | "error">("idle")
+  const [submitError, setSubmitError] = useState<string | null>(null)
   const formControls = useAnimation()
   const mapRef = useRef<HTMLDivElement>(null)
 
@@ -71,17 +92,7 @@ export default function ContactPage() {
     }
   }, [])
 
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>) => {
-    const { name, value } = e.target
-    setFormState((prev) => ({ ...prev, [name]: value }))
-  }
-
-  const handleSelectChange = (value: string) => {
-    setFormState((prev) => ({ ...prev, interest: value }))
-  }
-
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
+  const handleSubmit = async (values: ContactFormValues) => {
     setFormStatus("submitting")
 
     // Animate form submission
@@ -90,28 +101,40 @@ export default function ContactPage() {
       transition: { duration: 0.3 },
     })
 
-    // Simulate API call
-    setTimeout(() => {
-      // 90% chance of success for demo purposes
-      if (Math.random() > 0.1) {
-        setFormStatus("success")
-        setFormState({
-          name: "",
-          email: "",
-          phone: "",
-          subject: "",
-          message: "",
-          interest: "",
-        })
-      } else {
-        setFormStatus("error")
+    let response: Response
+    try {
+      response = await fetch("/api/contact", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(values),
+      })
+    } catch {
+      response = Response.json({ error: "Please check your connection and try again." }, { status: 503 })
+    }
+    const result: { error?: string; fieldErrors?: ContactFieldErrors } = await response.json().catch(() => ({}))
+
+    // Field problems go back onto the form, which stays filled in for correction
+    if (response.status === 422 && result.fieldErrors) {
+      for (const [field, message] of Object.entries(result.fieldErrors)) {
+        form.setError(field as ContactField, { type: "server", message }, { shouldFocus: true })
       }
+      setFormStatus("idle")
+      return
+    }
+
+    if (response.ok) {
+      setFormStatus("success")
+      form.reset()
+    } else {
+      setSubmitError(result.error ?? null)
+      setFormStatus("error")
+    }
 
-      // Reset form status after 3 seconds
-      setTimeout(() => {
-        setFormStatus("idle")
-      }, 3000)
-    }, 1500)
+    // Reset form status after 3 seconds
+    setTimeout(() => {
+      setFormStatus("idle")
+      setSubmitError(null)
+    }, 3000)
   }
 
   const fadeIn = {
@@ -225,142 +248,182 @@ export default function ContactPage() {
                       >
                         <AlertCircle className="h-12 w-12 text-red-500 mx-auto mb-4" />
                         <h3 className="text-xl font-semibold mb-2">Something went wrong</h3>
-                        <p className="text-slate-300">Please try again or contact us directly.</p>
+                        <p className="text-slate-300">{submitError ?? "Please try again or contact us directly."}</p>
                       </motion.div>
                     ) : (
-                      <form onSubmit={handleSubmit} className="space-y-6" id="contact-form">
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                          <div className="space-y-2">
-                            <Label htmlFor="name">Your Name</Label>
-                            <Input
-                              id="name"
+                      <Form {...form}>
+                        <form
+                          onSubmit={form.handleSubmit(handleSubmit)}
+                          className="space-y-6"
+                          id="contact-form"
+                          noValidate
+                        >
+                          {/* Honeypot: hidden from people and screen readers, tempting to bots */}
+                          <input
+                            {...form.register(CONTACT_HONEYPOT_FIELD)}
+                            type="text"
+                            tabIndex={-1}
+                            autoComplete="off"
+                            aria-hidden="true"
+                            className="absolute -left-[9999px] h-0 w-0 opacity-0"
+                          />
+
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                            <FormField
+                              control={form.control}
                               name="name"
-                              value={formState.name}
-                              onChange={handleInputChange}
-                              placeholder="John Doe"
-                              required
-                              className="bg-slate-700/50 border-slate-600 text-white placeholder:text-slate-400"
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>Your Name</FormLabel>
+                                  <FormControl>
+                                    <Input {...field} placeholder="John Doe" className={inputClassName} />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
                             />
-                          </div>
 
-                          <div className="space-y-2">
-                            <Label htmlFor="email">Email Address</Label>
-                            <Input
-                              id="email"
+                            <FormField
+                              control={form.control}
                               name="email"
-                              type="email"
-                              value={formState.email}
-                              onChange={handleInputChange}
-                              placeholder="john@example.com"
-                              required
-                              className="bg-slate-700/50 border-slate-600 text-white placeholder:text-slate-400"
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>Email Address</FormLabel>
+                                  <FormControl>
+                                    <Input
+                                      {...field}
+                                      type="email"
+                                      placeholder="john@example.com"
+                                      className={inputClassName}
+                                    />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
                             />
                           </div>
-                        </div>
 
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                          <div className="space-y-2">
-                            <Label htmlFor="phone">Phone Number (Optional)</Label>
-                            <Input
-                              id="phone"
+                          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                            <FormField
+                              control={form.control}
                               name="phone"
-                              value={formState.phone}
-                              onChange={handleInputChange}
-                              placeholder="+1 (555) 123-4567"
-                              className="bg-slate-700/50 border-slate-600 text-white placeholder:text-slate-400"
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>Phone Number (Optional)</FormLabel>
+                                  <FormControl>
+                                    <Input {...field} placeholder="+1 (555) 123-4567" className={inputClassName} />
+                                  </FormControl>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
                             />
-                          </div>
 
-                          <div className="space-y-2">
-                            <Label htmlFor="interest">I'm interested in</Label>
-                            <Select value={formState.interest} onValueChange={handleSelectChange}>
-                              <SelectTrigger className="bg-slate-700/50 border-slate-600 text-white">
-                                <SelectValue placeholder="Select an option" />
-                              </SelectTrigger>
-                              <SelectContent className="bg-slate-800 border-slate-700 text-white">
-                                <SelectItem value="solar">Solar Energy</SelectItem>
-                                <SelectItem value="mirt">Mirt Stove</SelectItem>
-                                <SelectItem value="ethanol">Ethanol Products</SelectItem>
-                                <SelectItem value="training">Training Programs</SelectItem>
-                                <SelectItem value="other">Other</SelectItem>
-                              </SelectContent>
-                            </Select>
+                            <FormField
+                              control={form.control}
+                              name="interest"
+                              render={({ field }) => (
+                                <FormItem>
+                                  <FormLabel>I'm interested in</FormLabel>
+                                  <Select value={field.value} onValueChange={field.onChange}>
+                                    <FormControl>
+                                      <SelectTrigger className="bg-slate-700/50 border-slate-600 text-white">
+                                        <SelectValue placeholder="Select an option" />
+                                      </SelectTrigger>
+                                    </FormControl>
+                                    <SelectContent className="bg-slate-800 border-slate-700 text-white">
+                                      {Object.entries(CONTACT_INTERESTS).map(([value, label]) => (
+                                        <SelectItem key={value} value={value}>
+                                          {label}
+                                        </SelectItem>
+                                      ))}
+                                    </SelectContent>
+                                  </Select>
+                                  <FormMessage />
+                                </FormItem>
+                              )}
+                            />
                           </div>
-                        </div>
 
-                        <div className="space-y-2">
-                          <Label htmlFor="subject">Subject</Label>
-                          <Input
-                            id="subject"
+                          <FormField
+                            control={form.control}
                             name="subject"
-                            value={formState.subject}
-                            onChange={handleInputChange}
-                            placeholder="How can we help you?"
-                            required
-                            className="bg-slate-700/50 border-slate-600 text-white placeholder:text-slate-400"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Subject</FormLabel>
+                                <FormControl>
+                                  <Input {...field} placeholder="How can we help you?" className={inputClassName} />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
                           />
-                        </div>
 
-                        <div className="space-y-2">
-                          <Label htmlFor="message">Message</Label>
-                          <Textarea
-                            id="message"
+                          <FormField
+                            control={form.control}
                             name="message"
-                            value={formState.message}
-                            onChange={handleInputChange}
-                            placeholder="Tell us about your project or inquiry..."
-                            required
-                            className="bg-slate-700/50 border-slate-600 text-white placeholder:text-slate-400 min-h-[120px]"
+                            render={({ field }) => (
+                              <FormItem>
+                                <FormLabel>Message</FormLabel>
+                                <FormControl>
+                                  <Textarea
+                                    {...field}
+                                    placeholder="Tell us about your project or inquiry..."
+                                    className={`${inputClassName} min-h-[120px]`}
+                                  />
+                                </FormControl>
+                                <FormMessage />
+                              </FormItem>
+                            )}
                           />
-                        </div>
 
-                        <motion.div whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }}>
-                          <Button
-                            type="submit"
-                            className="w-full bg-[#3DD56D] hover:bg-[#2bb757] text-white relative overflow-hidden group"
-                            disabled={formStatus === "submitting"}
-                          >
-                            <span className="relative z-10 flex items-center justify-center">
-                              {formStatus === "submitting" ? (
-                                <div className="flex items-center">
-                                  <svg
-                                    className="animate-spin -ml-1 mr-3 h-5 w-5 text-white"
-                                    xmlns="http://www.w3.org/2000/svg"
-                                    fill="none"
-                                    viewBox="0 0 24 24"
-                                  >
-                                    <circle
-                                      className="opacity-25"
-                                      cx="12"
-                                      cy="12"
-                                      r="10"
-                                      stroke="currentColor"
-                                      strokeWidth="4"
-                                    ></circle>
-                                    <path
-                                      className="opacity-75"
-                                      fill="currentColor"
-                                      d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
-                                    ></path>
-                                  </svg>
-                                  Sending...
-                                </div>
-                              ) : (
-                                <>
-                                  Send Message
-                                  <Send className="ml-2 h-4 w-4" />
-                                </>
-                              )}
-                            </span>
-                            <motion.span
-                              className="absolute inset-0 bg-[#2bb757]"
-                              initial={{ x: "-100%" }}
-                              whileHover={{ x: 0 }}
-                              transition={{ duration: 0.3 }}
-                            />
-                          </Button>
-                        </motion.div>
-                      </form>
+                          <motion.div whileHover={{ scale: 1.02 }} whileTap={{ scale: 0.98 }}>
+                            <Button
+                              type="submit"
+                              className="w-full bg-[#3DD56D] hover:bg-[#2bb757] text-white relative overflow-hidden group"
+                              disabled={formStatus === "submitting"}
+                            >
+                              <span className="relative z-10 flex items-center justify-center">
+                                {formStatus === "submitting" ? (
+                                  <div className="flex items-center">
+                                    <svg
+                                      className="animate-spin -ml-1 mr-3 h-5 w-5 text-white"
+                                      xmlns="http://www.w3.org/2000/svg"
+                                      fill="none"
+                                      viewBox="0 0 24 24"
+                                    >
+                                      <circle
+                                        className="opacity-25"
+                                        cx="12"
+                                        cy="12"
+                                        r="10"
+                                        stroke="currentColor"
+                                        strokeWidth="4"
+                                      ></circle>
+                                      <path
+                                        className="opacity-75"
+                                        fill="currentColor"
+                                        d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+                                      ></path>
+                                    </svg>
+                                    Sending...
+                                  </div>
+                                ) : (
+                                  <>
+                                    Send Message
+                                    <Send className="ml-2 h-4 w-4" />
+                                  </>
+                                )}
+                              </span>
+                              <motion.span
+                                className="absolute inset-0 bg-[#2bb757]"
+                                initial={{ x: "-100%" }}
+                                whileHover={{ x: 0 }}
+                                transition={{ duration: 0.3 }}
+                              />
+                            </Button>
+                          </motion.div>
+                        </form>
+                      </Form>
                     )}
                   </motion.div>
                 </Card3DEffect>
@@ -0,0 +1,31 @@
+"use client"
+
+import Navigation from "@/components/shared/navigation"
+import SystemDesigner from "@/components/designer/SystemDesigner"
+
+export default function DesignerPage() {
+  return (
+    <>
+      <Navigation />
+      <div className="min-h-screen bg-[#0a1628] text-white relative">
+        <section className="relative py-20 px-4 sm:px-6 mt-16">
+          <div className="max-w-7xl mx-auto">
+            <div className="mb-8">
+              <div className="inline-flex items-center rounded-full px-3 py-1 text-xs font-medium mb-4 bg-[#3DD56D]/20 text-[#3DD56D] border border-[#3DD56D]/20">
+                System Designer
+              </div>
+              <h1 className="text-3xl md:text-4xl font-bold mb-3">
+                Design your <span className="text-[#3DD56D]">solar system</span>
+              </h1>
+              <p className="text-slate-300 max-w-2xl">
+                Drag components onto the canvas, connect them with the blue ports, then press Simulate to watch the
+                power flow. Save the layout as JSON to pick it up again later.
+              </p>
+            </div>
+            <SystemDesigner />
+          </div>
+        </section>
+      </div>
+    </>
+  )
+}
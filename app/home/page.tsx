@@ -6,6 +6,8 @@ import { motion } from "framer-motion"
 import { ArrowRight, SunMedium, Battery, Zap, Wind, Leaf, ChevronDown } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import Navigation from "@/components/shared/navigation"
+import { useEnergySystemStore } from "@/store/energySystemStore"
+import { useDemoUrlState } from "@/hooks/useDemoUrlState"
 import {
   GreenBackgroundAnimation,
   PulsingElementAnimation,
@@ -19,130 +21,14 @@ import {
 
 export default function HomePage() {
   const [isVisible, setIsVisible] = useState(false)
-  const [inverterActive, setInverterActive] = useState(false)
-  const [switchActive, setSwitchActive] = useState(false)
-  const [bulbActive, setBulbActive] = useState(false)
-  const [wordActive, setWordActive] = useState(false)
-  const [animationPhase, setAnimationPhase] = useState(0)
-  const [windowHeight, setWindowHeight] = useState(0)
-  const [windowWidth, setWindowWidth] = useState(0)
+  // The inverter → switch → bulb → word chain is shared with the landing demo
+  const { switchActive } = useEnergySystemStore()
+  useDemoUrlState()
 
   useEffect(() => {
     setIsVisible(true)
-    setWindowHeight(window.innerHeight)
-    setWindowWidth(window.innerWidth)
-
-    const handleResize = () => {
-      setWindowHeight(window.innerHeight)
-      setWindowWidth(window.innerWidth)
-    }
-
-    window.addEventListener("resize", handleResize)
-    return () => window.removeEventListener("resize", handleResize)
   }, [])
 
-  // Update the inverter activation handler
-  const handleInverterChange = (active: boolean) => {
-    setInverterActive(active)
-
-    // If turning off the inverter, turn off all other components
-    if (!active) {
-      setSwitchActive(false)
-      setBulbActive(false)
-      setWordActive(false)
-    }
-  }
-
-  // Update the switch activation handler
-  const handleSwitchChange = (active: boolean) => {
-    // Only allow switch activation if inverter is on
-    if (inverterActive) {
-      setSwitchActive(active)
-
-      // When switch is activated, also activate bulb and word
-      if (active) {
-        setBulbActive(true)
-        setWordActive(true)
-      } else {
-        // When switch is deactivated, turn off bulb and word
-        setBulbActive(false)
-        setWordActive(false)
-      }
-    }
-  }
-
-  // Update animation phase based on inverter state
-  useEffect(() => {
-    if (inverterActive) {
-      const timer = setTimeout(() => {
-        setAnimationPhase(1)
-      }, 1000)
-      return () => clearTimeout(timer)
-    } else {
-      setAnimationPhase(0)
-    }
-  }, [inverterActive])
-
-  // Update the getComponentPositions function to match the diagram layout
-  const getComponentPositions = () => {
-    // Fixed dimensions for the diagram container
-    const containerWidth = Math.min(windowWidth * 0.9, 1000) // 90% of window width, max 1000px
-
-    // Fixed height based on screen size - increased to accommodate inverter
-    // Make container height responsive to viewport height
-    let containerHeight = Math.min(windowHeight * 0.5, 450) // 50% of viewport height, max 450px
-    if (windowWidth < 480) containerHeight = Math.min(windowHeight * 0.4, 300)
-    else if (windowWidth < 640) containerHeight = Math.min(windowHeight * 0.45, 350)
-    else if (windowWidth < 768) containerHeight = Math.min(windowHeight * 0.5, 400)
-
-    // Calculate positions as percentages of container width
-    // Position inverter on the left side
-    const inverterX = containerWidth * 0.15
-
-    // Position other components in a horizontal line to the right of the inverter
-    const switchX = containerWidth * 0.5 // Middle
-    const bulbX = containerWidth * 0.7 // Right of middle
-    const wordX = containerWidth * 0.85 // Far right
-
-    // Y positions - align all components on the same horizontal line
-    const componentY = containerHeight * 0.5 // Center vertically
-    const inverterY = componentY // Keep inverter on same line
-
-    // Calculate inverter scale based on container height
-    const maxInverterHeight = containerHeight * 0.7
-    const inverterScale = maxInverterHeight / 590
-
-    // Scale factor for other components based on screen width
-    let scale = 0.7 // Default scale
-    if (windowWidth < 480) scale = 0.2
-    else if (windowWidth < 640) scale = 0.25
-    else if (windowWidth < 768) scale = 0.3
-    else if (windowWidth < 1024) scale = 0.4
-    else if (windowWidth < 1280) scale = 0.5
-
-    return {
-      inverterPosition: { x: inverterX, y: inverterY },
-      switchPosition: { x: switchX, y: componentY },
-      bulbPosition: { x: bulbX, y: componentY },
-      wordPosition: { x: wordX, y: componentY },
-      scale,
-      inverterScale,
-      containerHeight,
-      containerWidth,
-    }
-  }
-
-  const {
-    inverterPosition,
-    switchPosition,
-    bulbPosition,
-    wordPosition,
-    scale,
-    inverterScale,
-    containerHeight,
-    containerWidth,
-  } = getComponentPositions()
-
   const fadeIn = {
     hidden: { opacity: 0, y: 20 },
     visible: { opacity: 1, y: 0 },
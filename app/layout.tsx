@@ -1,6 +1,6 @@
 import type React from "react"
 import type { Metadata } from "next"
-import { Inter } from "next/font/google"
+import { Inter, Noto_Sans_Ethiopic } from "next/font/google"
 import "./globals.css"
 import "../styles/layout.css"
 import dynamic from 'next/dynamic'
@@ -10,6 +10,8 @@ const MainLayoutWrapper = dynamic(() => import('@/components/layout/MainLayoutWr
 })
 
 const inter = Inter({ subsets: ["latin"] })
+// Inter has no Ge'ez glyphs; pages switch to this face when shown in Amharic
+const ethiopic = Noto_Sans_Ethiopic({ subsets: ["ethiopic", "latin"], variable: "--font-ethiopic", preload: false })
 
 export const metadata: Metadata = {
   title: "GREAN WORLD Energy Technology",
@@ -24,7 +26,7 @@ export default function RootLayout({
 }>) {
   return (
     <html lang="en">
-      <body className={inter.className}>
+      <body className={`${inter.className} ${ethiopic.variable}`}>
         <MainLayoutWrapper>
           {children}
         </MainLayoutWrapper>
@@ -3,6 +3,7 @@
 import { useState, useEffect, useRef } from "react"
 import { useWindowDimensions } from "@/hooks/useWindowDimensions"
 import { useEnergySystemStore } from "@/store/energySystemStore"
+import { useDemoUrlState } from "@/hooks/useDemoUrlState"
 import PremiumBackground from "@/components/premium/PremiumBackground"
 import PremiumHeader from "@/components/premium/PremiumHeader"
 import PremiumHeroSection from "@/components/premium/PremiumHeroSection"
@@ -33,6 +34,9 @@ export default function LandingPage() {
   // Get energy system state from store
   const { inverterActive, switchActive, bulbActive, wordActive } = useEnergySystemStore()
 
+  // Mirror the demo state into the URL so it can be shared
+  useDemoUrlState()
+
   // Track previous bulb state for animations
   useEffect(() => {
     setPrevBulbState(bulbActive)
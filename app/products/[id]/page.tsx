@@ -0,0 +1,38 @@
+import type { Metadata } from "next"
+import { notFound } from "next/navigation"
+import ProductDetailView from "@/components/products/ProductDetailView"
+import { getCatalog, getCategoryName, getProduct, getRelatedProducts } from "@/utils/catalog"
+
+interface ProductPageProps {
+  params: Promise<{ id: string }>
+}
+
+// Every catalog product gets a pre-rendered page; unknown ids 404
+export const dynamicParams = false
+
+export function generateStaticParams() {
+  return getCatalog().products.map((product) => ({ id: product.id }))
+}
+
+export async function generateMetadata({ params }: ProductPageProps): Promise<Metadata> {
+  const product = getProduct((await params).id)
+  if (!product) return {}
+  return {
+    title: `${product.name} | GREAN WORLD Energy Technology`,
+    description: product.description,
+  }
+}
+
+export default async function ProductPage({ params }: ProductPageProps) {
+  const product = getProduct((await params).id)
+  if (!product) notFound()
+
+  return (
+    <ProductDetailView
+      product={product}
+      categoryName={getCategoryName(product.category)}
+      relatedProducts={getRelatedProducts(product)}
+      products={getCatalog().products}
+    />
+  )
+}
@@ -5,9 +5,13 @@ import { motion } from "framer-motion"
 import { Leaf, ArrowRight } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import Navigation from "@/components/shared/navigation"
+import { HighlightedTitle } from "@/components/shared/PageIntro"
+import { useTranslation } from "@/hooks/useTranslation"
 import { GreenBackgroundAnimation } from "@/components/animations/background/GreenBackgroundAnimation"
 
 export default function BiomassPage() {
+  const { t } = useTranslation()
+
   return (
     <>
       <Navigation />
@@ -23,13 +27,13 @@ export default function BiomassPage() {
               transition={{ duration: 0.7 }}
               className="inline-flex items-center rounded-full px-3 py-1 text-xs font-medium mb-6 bg-[#3DD56D]/20 text-[#3DD56D] border border-[#3DD56D]/20"
             >
-              Biomass Energy Solutions
+              {t("biomass.badge")}
             </motion.div>
             <h1 className="text-4xl md:text-5xl lg:text-6xl font-bold mb-6 leading-tight">
-              Clean & Efficient <span className="text-[#3DD56D]">Biomass</span> for Rural Communities
+              <HighlightedTitle title={t("biomass.title")} highlight={t("biomass.titleHighlight")} />
             </h1>
             <p className="text-slate-300 text-lg mb-8 max-w-2xl mx-auto">
-              Discover how our biomass solutions provide sustainable, affordable, and clean energy for cooking and heating, reducing deforestation and improving health outcomes.
+              {t("biomass.intro")}
             </p>
           </div>
         </section>
@@ -41,12 +45,12 @@ export default function BiomassPage() {
               transition={{ duration: 0.7 }}
               className="text-left"
             >
-              <h2 className="text-2xl font-bold mb-4 text-[#3DD56D]">Why Biomass?</h2>
+              <h2 className="text-2xl font-bold mb-4 text-[#3DD56D]">{t("biomass.whyTitle")}</h2>
               <ul className="list-disc list-inside text-slate-300 space-y-3">
-                <li>Reduces reliance on traditional wood fuels and deforestation</li>
-                <li>Improves indoor air quality and health</li>
-                <li>Affordable and accessible for rural households</li>
-                <li>Supports local economies and job creation</li>
+                <li>{t("biomass.point1")}</li>
+                <li>{t("biomass.point2")}</li>
+                <li>{t("biomass.point3")}</li>
+                <li>{t("biomass.point4")}</li>
               </ul>
             </motion.div>
             <motion.div
@@ -61,13 +65,13 @@ export default function BiomassPage() {
         </section>
         <section className="relative z-10 py-16 px-4 sm:px-6">
           <div className="max-w-4xl mx-auto text-center">
-            <h2 className="text-3xl font-bold mb-4">Ready to Embrace Biomass Energy?</h2>
+            <h2 className="text-3xl font-bold mb-4">{t("biomass.ctaTitle")}</h2>
             <p className="text-slate-300 text-lg mb-8 max-w-2xl mx-auto">
-              Contact our team to learn more about our biomass cookstoves, fuel briquettes, and community programs.
+              {t("biomass.ctaText")}
             </p>
             <Link href="/contact">
               <Button className="bg-[#3DD56D] hover:bg-[#2bb757] text-white px-6 py-5">
-                Get in Touch <ArrowRight className="ml-2 h-4 w-4" />
+                {t("nav.getInTouch")} <ArrowRight className="ml-2 h-4 w-4" />
               </Button>
             </Link>
           </div>
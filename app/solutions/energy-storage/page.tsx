@@ -5,9 +5,13 @@ import { motion } from "framer-motion"
 import { Battery, ArrowRight } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import Navigation from "@/components/shared/navigation"
+import { HighlightedTitle } from "@/components/shared/PageIntro"
+import { useTranslation } from "@/hooks/useTranslation"
 import { GreenBackgroundAnimation } from "@/components/animations/background/GreenBackgroundAnimation"
 
 export default function EnergyStoragePage() {
+  const { t } = useTranslation()
+
   return (
     <>
       <Navigation />
@@ -23,13 +27,13 @@ export default function EnergyStoragePage() {
               transition={{ duration: 0.7 }}
               className="inline-flex items-center rounded-full px-3 py-1 text-xs font-medium mb-6 bg-[#3DD56D]/20 text-[#3DD56D] border border-[#3DD56D]/20"
             >
-              Energy Storage Solutions
+              {t("storage.badge")}
             </motion.div>
             <h1 className="text-4xl md:text-5xl lg:text-6xl font-bold mb-6 leading-tight">
-              Reliable <span className="text-[#3DD56D]">Energy Storage</span> for Every Need
+              <HighlightedTitle title={t("storage.title")} highlight={t("storage.titleHighlight")} />
             </h1>
             <p className="text-slate-300 text-lg mb-8 max-w-2xl mx-auto">
-              Explore our advanced battery and storage solutions that ensure uninterrupted power for homes, businesses, and communities.
+              {t("storage.intro")}
             </p>
           </div>
         </section>
@@ -41,12 +45,12 @@ export default function EnergyStoragePage() {
               transition={{ duration: 0.7 }}
               className="text-left"
             >
-              <h2 className="text-2xl font-bold mb-4 text-[#3DD56D]">Why Energy Storage?</h2>
+              <h2 className="text-2xl font-bold mb-4 text-[#3DD56D]">{t("storage.whyTitle")}</h2>
               <ul className="list-disc list-inside text-slate-300 space-y-3">
-                <li>Provides backup power during outages</li>
-                <li>Enables use of renewable energy day and night</li>
-                <li>Improves energy reliability and independence</li>
-                <li>Reduces reliance on diesel generators</li>
+                <li>{t("storage.point1")}</li>
+                <li>{t("storage.point2")}</li>
+                <li>{t("storage.point3")}</li>
+                <li>{t("storage.point4")}</li>
               </ul>
             </motion.div>
             <motion.div
@@ -61,13 +65,13 @@ export default function EnergyStoragePage() {
         </section>
         <section className="relative z-10 py-16 px-4 sm:px-6">
           <div className="max-w-4xl mx-auto text-center">
-            <h2 className="text-3xl font-bold mb-4">Ready for Reliable Energy?</h2>
+            <h2 className="text-3xl font-bold mb-4">{t("storage.ctaTitle")}</h2>
             <p className="text-slate-300 text-lg mb-8 max-w-2xl mx-auto">
-              Contact us to learn more about our battery systems, installation services, and how we can help you achieve energy security.
+              {t("storage.ctaText")}
             </p>
             <Link href="/contact">
               <Button className="bg-[#3DD56D] hover:bg-[#2bb757] text-white px-6 py-5">
-                Get in Touch <ArrowRight className="ml-2 h-4 w-4" />
+                {t("nav.getInTouch")} <ArrowRight className="ml-2 h-4 w-4" />
               </Button>
             </Link>
           </div>
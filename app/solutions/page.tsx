@@ -7,13 +7,28 @@ import { ArrowRight, SunMedium, ClipboardList, GraduationCap, Network, ArrowDown
 import { Button } from "@/components/ui/button"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import Navigation from "@/components/shared/navigation"
+import { HighlightedTitle } from "@/components/shared/PageIntro"
+import { useTranslation } from "@/hooks/useTranslation"
+import type { MessageKey } from "@/utils/i18n"
 import {
   GreenBackgroundAnimation,
   EnergyFlowAnimation,
   PulsingElementAnimation,
 } from "@/components/animations/shared-animations"
 
+interface Solution {
+  id: string
+  icon: React.ReactNode
+  title: MessageKey
+  description: MessageKey
+  benefits: MessageKey[]
+  link: string
+  tool?: { label: MessageKey; href: string }
+  position: { x: number; y: number }
+}
+
 export default function SolutionsPage() {
+  const { t } = useTranslation()
   const [isVisible, setIsVisible] = useState(false)
   const [activeTab, setActiveTab] = useState("overview")
   const [flowActive, setFlowActive] = useState(false)
@@ -34,48 +49,50 @@ export default function SolutionsPage() {
     visible: { opacity: 1, y: 0 },
   }
 
-  const solutions = [
+  const solutions: Solution[] = [
     {
       id: "solar",
       icon: <SunMedium className="h-6 w-6" />,
-      title: "Solar Panel Services",
-      description: "Complete solar energy solutions from specification and design to installation and ongoing support.",
+      title: "solutions.solar.title",
+      description: "solutions.solar.description",
       benefits: [
-        "Specification & Design",
-        "Professional Installation",
-        "Aftersales Support",
-        "System Monitoring",
-        "Maintenance & Repairs",
+        "solutions.solar.design",
+        "solutions.solar.installation",
+        "solutions.solar.aftersales",
+        "solutions.solar.monitoring",
+        "solutions.solar.maintenance",
       ],
       link: "/solutions/solar-energy",
+      tool: { label: "solutions.sizeSystem", href: "/solutions/sizing" },
       position: { x: 150, y: 150 },
     },
     {
       id: "consultancy",
       icon: <ClipboardList className="h-6 w-6" />,
-      title: "Energy Consultancy",
-      description: "Expert guidance to optimize your energy usage and transition to sustainable energy solutions.",
+      title: "solutions.consultancy.title",
+      description: "solutions.consultancy.description",
       benefits: [
-        "Energy Surveys & Audits",
-        "Usage Analysis",
-        "Compliance Support",
-        "ROI Calculations",
-        "Sustainability Planning",
+        "solutions.consultancy.audits",
+        "solutions.consultancy.usage",
+        "solutions.consultancy.compliance",
+        "solutions.consultancy.roi",
+        "solutions.consultancy.planning",
       ],
       link: "/solutions/energy-consultancy",
+      tool: { label: "solutions.calculateRoi", href: "/solutions/roi" },
       position: { x: 300, y: 150 },
     },
     {
       id: "training",
       icon: <GraduationCap className="h-6 w-6" />,
-      title: "Training Programs",
-      description: "Comprehensive training in renewable energy technologies for professionals and communities.",
+      title: "solutions.training.title",
+      description: "solutions.training.description",
       benefits: [
-        "Engineering Design",
-        "Manufacturing & Installation Skills",
-        "Maintenance Training",
-        "Certification Programs",
-        "Hands-on Workshops",
+        "solutions.training.design",
+        "solutions.training.skills",
+        "solutions.training.maintenance",
+        "solutions.training.certification",
+        "solutions.training.workshops",
       ],
       link: "/solutions/training",
       position: { x: 450, y: 150 },
@@ -83,14 +100,14 @@ export default function SolutionsPage() {
     {
       id: "hubs",
       icon: <Network className="h-6 w-6" />,
-      title: "Energy Hubs Support",
-      description: "Community-focused energy centers providing multiple services and infrastructure support.",
+      title: "solutions.hubs.title",
+      description: "solutions.hubs.description",
       benefits: [
-        "Charging Stations",
-        "Cooling & Refrigeration",
-        "Retail Sales of Solar Parts",
-        "Community Internet Access",
-        "Energy Education Centers",
+        "solutions.hubs.charging",
+        "solutions.hubs.cooling",
+        "solutions.hubs.retail",
+        "solutions.hubs.internet",
+        "solutions.hubs.education",
       ],
       link: "/solutions/energy-hubs",
       position: { x: 150, y: 300 },
@@ -104,30 +121,26 @@ export default function SolutionsPage() {
     { from: solutions[2].position, to: solutions[3].position }, // Training to Hubs
   ]
 
-  const integrationCases = [
+  const integrationCases: { title: MessageKey; description: MessageKey; solutions: MessageKey[] }[] = [
     {
-      title: "Community Solar Projects",
-      description:
-        "Combining solar installation services with energy hub support to create sustainable community energy centers.",
-      solutions: ["Solar Panel Services", "Energy Hubs Support"],
+      title: "solutions.community.title",
+      description: "solutions.community.description",
+      solutions: ["solutions.solar.title", "solutions.hubs.title"],
     },
     {
-      title: "Commercial Energy Transition",
-      description:
-        "Comprehensive energy consultancy paired with solar solutions to help businesses reduce costs and carbon footprint.",
-      solutions: ["Energy Consultancy", "Solar Panel Services"],
+      title: "solutions.commercial.title",
+      description: "solutions.commercial.description",
+      solutions: ["solutions.consultancy.title", "solutions.solar.title"],
     },
     {
-      title: "Workforce Development",
-      description:
-        "Training programs that prepare local technicians to support the growing network of energy hubs and solar installations.",
-      solutions: ["Training Programs", "Energy Hubs Support"],
+      title: "solutions.workforce.title",
+      description: "solutions.workforce.description",
+      solutions: ["solutions.training.title", "solutions.hubs.title"],
     },
     {
-      title: "Sustainable Campus Initiative",
-      description:
-        "Integrated approach combining consultancy, solar implementation, and training for educational institutions.",
-      solutions: ["Energy Consultancy", "Solar Panel Services", "Training Programs"],
+      title: "solutions.campus.title",
+      description: "solutions.campus.description",
+      solutions: ["solutions.consultancy.title", "solutions.solar.title", "solutions.training.title"],
     },
   ]
 
@@ -154,26 +167,23 @@ export default function SolutionsPage() {
               className="text-center max-w-3xl mx-auto"
             >
               <div className="inline-flex items-center rounded-full px-3 py-1 text-xs font-medium mb-6 bg-[#3DD56D]/20 text-[#3DD56D] border border-[#3DD56D]/20">
-                Comprehensive Energy Solutions
+                {t("solutions.badge")}
               </div>
               <h1 className="text-4xl md:text-5xl lg:text-6xl font-bold mb-6 leading-tight">
-                Our <span className="text-[#3DD56D]">Services</span> & Solutions
+                <HighlightedTitle title={t("solutions.title")} highlight={t("solutions.titleHighlight")} />
               </h1>
-              <p className="text-slate-300 text-lg mb-8">
-                Grean World offers end-to-end services to bring clean energy solutions closer to communities and
-                businesses.
-              </p>
+              <p className="text-slate-300 text-lg mb-8">{t("solutions.intro")}</p>
               <div className="flex flex-wrap justify-center gap-4">
                 <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
                   <Button className="bg-[#3DD56D] hover:bg-[#2bb757] text-white">
-                    Explore Solutions
+                    {t("solutions.explore")}
                     <ArrowDown className="ml-2 h-4 w-4" />
                   </Button>
                 </motion.div>
                 <Link href="/contact">
                   <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
                     <Button variant="outline" className="border-white text-white hover:bg-white/10">
-                      Contact Us
+                      {t("solutions.contact")}
                     </Button>
                   </motion.div>
                 </Link>
@@ -193,11 +203,8 @@ export default function SolutionsPage() {
               transition={{ duration: 0.7 }}
               className="text-center mb-12"
             >
-              <h2 className="text-3xl md:text-4xl font-bold mb-4">Our Services</h2>
-              <p className="text-slate-300 max-w-2xl mx-auto">
-                We provide comprehensive services to support the transition to renewable energy, from consultation to
-                implementation and ongoing support.
-              </p>
+              <h2 className="text-3xl md:text-4xl font-bold mb-4">{t("solutions.servicesTitle")}</h2>
+              <p className="text-slate-300 max-w-2xl mx-auto">{t("solutions.servicesIntro")}</p>
             </motion.div>
 
             <Tabs
@@ -215,7 +222,7 @@ export default function SolutionsPage() {
                   value="overview"
                   className="data-[state=active]:bg-[#3DD56D] data-[state=active]:text-white"
                 >
-                  Overview
+                  {t("solutions.overview")}
                 </TabsTrigger>
                 {solutions.map((solution) => (
                   <TabsTrigger
@@ -223,7 +230,7 @@ export default function SolutionsPage() {
                     value={solution.id}
                     className="data-[state=active]:bg-[#3DD56D] data-[state=active]:text-white"
                   >
-                    {solution.title}
+                    {t(solution.title)}
                   </TabsTrigger>
                 ))}
               </TabsList>
@@ -244,15 +251,15 @@ export default function SolutionsPage() {
                         <div className="text-[#3DD56D]">{solution.icon}</div>
                       </PulsingElementAnimation>
                       <div className="pl-12">
-                        <h3 className="text-xl font-semibold mb-3">{solution.title}</h3>
-                        <p className="text-slate-300 text-sm mb-4">{solution.description}</p>
+                        <h3 className="text-xl font-semibold mb-3">{t(solution.title)}</h3>
+                        <p className="text-slate-300 text-sm mb-4">{t(solution.description)}</p>
                         <Link href={solution.link}>
                           <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
                             <Button
                               variant="outline"
                               className="mt-2 border-[#3DD56D] text-[#3DD56D] hover:bg-[#3DD56D]/10"
                             >
-                              Learn More
+                              {t("solutions.learnMore")}
                               <ArrowRight className="ml-2 h-4 w-4" />
                             </Button>
                           </motion.div>
@@ -274,9 +281,9 @@ export default function SolutionsPage() {
                     className="grid grid-cols-1 lg:grid-cols-2 gap-8 items-center"
                   >
                     <div className="bg-slate-800/30 backdrop-blur-sm p-6 rounded-lg border border-slate-700/50">
-                      <h3 className="text-2xl font-semibold mb-4">{solution.title}</h3>
-                      <p className="text-slate-300 mb-6">{solution.description}</p>
-                      <h4 className="text-lg font-medium text-[#3DD56D] mb-3">Key Benefits</h4>
+                      <h3 className="text-2xl font-semibold mb-4">{t(solution.title)}</h3>
+                      <p className="text-slate-300 mb-6">{t(solution.description)}</p>
+                      <h4 className="text-lg font-medium text-[#3DD56D] mb-3">{t("solutions.keyBenefits")}</h4>
                       <ul className="space-y-2">
                         {solution.benefits.map((benefit, index) => (
                           <motion.li
@@ -287,19 +294,28 @@ export default function SolutionsPage() {
                             transition={{ delay: 0.3 + index * 0.1 }}
                           >
                             <ArrowRight className="h-5 w-5 text-[#3DD56D] mr-2 mt-0.5" />
-                            <span className="text-slate-300">{benefit}</span>
+                            <span className="text-slate-300">{t(benefit)}</span>
                           </motion.li>
                         ))}
                       </ul>
-                      <div className="mt-6">
+                      <div className="mt-6 flex flex-wrap gap-4">
                         <Link href={solution.link}>
                           <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
                             <Button className="bg-[#3DD56D] hover:bg-[#2bb757] text-white">
-                              Explore {solution.title}
+                              {t("solutions.exploreService", { service: t(solution.title) })}
                               <ArrowRight className="ml-2 h-4 w-4" />
                             </Button>
                           </motion.div>
                         </Link>
+                        {solution.tool && (
+                          <Link href={solution.tool.href}>
+                            <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
+                              <Button variant="outline" className="border-[#3DD56D] text-[#3DD56D] hover:bg-[#3DD56D]/10">
+                                {t(solution.tool.label)}
+                              </Button>
+                            </motion.div>
+                          </Link>
+                        )}
                       </div>
                     </div>
 
@@ -354,11 +370,8 @@ export default function SolutionsPage() {
               transition={{ duration: 0.7 }}
               className="text-center mb-12"
             >
-              <h2 className="text-3xl md:text-4xl font-bold mb-4">Integrated Service Approach</h2>
-              <p className="text-slate-300 max-w-2xl mx-auto">
-                Our services work together seamlessly to provide comprehensive energy solutions tailored to your
-                specific needs.
-              </p>
+              <h2 className="text-3xl md:text-4xl font-bold mb-4">{t("solutions.integrationTitle")}</h2>
+              <p className="text-slate-300 max-w-2xl mx-auto">{t("solutions.integrationIntro")}</p>
             </motion.div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -376,8 +389,8 @@ export default function SolutionsPage() {
                     boxShadow: "0 10px 30px rgba(61, 213, 109, 0.1)",
                   }}
                 >
-                  <h3 className="text-xl font-semibold mb-3">{integration.title}</h3>
-                  <p className="text-slate-300 text-sm mb-4">{integration.description}</p>
+                  <h3 className="text-xl font-semibold mb-3">{t(integration.title)}</h3>
+                  <p className="text-slate-300 text-sm mb-4">{t(integration.description)}</p>
                   <div className="flex flex-wrap gap-2">
                     {integration.solutions.map((sol, i) => (
                       <motion.span
@@ -391,7 +404,7 @@ export default function SolutionsPage() {
                         animate={{ opacity: 1, scale: 1 }}
                         transition={{ delay: 0.5 + i * 0.1 }}
                       >
-                        {sol}
+                        {t(sol)}
                       </motion.span>
                     ))}
                   </div>
@@ -411,16 +424,13 @@ export default function SolutionsPage() {
               variants={fadeIn}
               transition={{ duration: 0.7 }}
             >
-              <h2 className="text-3xl md:text-4xl font-bold text-white mb-6">Ready to Transform Your Energy Future?</h2>
-              <p className="text-slate-300 text-lg mb-8 max-w-2xl mx-auto">
-                Contact us today to discuss how GREAN WORLD's services can help you achieve your energy goals with
-                sustainable, efficient solutions.
-              </p>
+              <h2 className="text-3xl md:text-4xl font-bold text-white mb-6">{t("solutions.ctaTitle")}</h2>
+              <p className="text-slate-300 text-lg mb-8 max-w-2xl mx-auto">{t("solutions.ctaText")}</p>
               <div className="flex flex-wrap gap-4 justify-center">
                 <Link href="/contact">
                   <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
                     <Button className="bg-[#3DD56D] hover:bg-[#2bb757] text-white px-8 py-6 text-lg">
-                      Request a Consultation
+                      {t("solutions.requestConsultation")}
                       <ArrowRight className="ml-2 h-5 w-5" />
                     </Button>
                   </motion.div>
@@ -428,7 +438,7 @@ export default function SolutionsPage() {
                 <Link href="/about">
                   <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
                     <Button variant="outline" className="border-white text-white hover:bg-white/10 px-8 py-6 text-lg">
-                      Learn About Us
+                      {t("solutions.learnAboutUs")}
                     </Button>
                   </motion.div>
                 </Link>
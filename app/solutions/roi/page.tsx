@@ -0,0 +1,35 @@
+import type { Metadata } from "next"
+import Navigation from "@/components/shared/navigation"
+import PageIntro from "@/components/shared/PageIntro"
+import RoiCalculator from "@/components/finance/RoiCalculator"
+import QuoteCart from "@/components/products/QuoteCart"
+import { getCatalog } from "@/utils/catalog"
+
+export const metadata: Metadata = {
+  title: "Solar ROI Calculator | GREAN WORLD Energy Technology",
+  description: "Payback, net present value, internal rate of return and cost of energy for a solar investment.",
+}
+
+export default function RoiPage() {
+  const { products } = getCatalog()
+
+  return (
+    <>
+      <Navigation />
+      <div className="min-h-screen bg-[#0a1628] text-white relative">
+        <section className="relative py-20 px-4 sm:px-6 mt-16 print:mt-0 print:py-0">
+          <div className="max-w-7xl mx-auto">
+            <PageIntro
+              badge="roi.badge"
+              title="roi.title"
+              highlight="roi.titleHighlight"
+              intro="roi.intro"
+            />
+            <RoiCalculator products={products} />
+          </div>
+        </section>
+      </div>
+      <QuoteCart products={products} />
+    </>
+  )
+}
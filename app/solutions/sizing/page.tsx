@@ -0,0 +1,35 @@
+import type { Metadata } from "next"
+import Navigation from "@/components/shared/navigation"
+import PageIntro from "@/components/shared/PageIntro"
+import SizingWizard from "@/components/sizing/SizingWizard"
+import QuoteCart from "@/components/products/QuoteCart"
+import { getCatalog } from "@/utils/catalog"
+
+export const metadata: Metadata = {
+  title: "Solar System Sizing | GREAN WORLD Energy Technology",
+  description: "Work out the solar array, battery and inverter your home needs, priced from our catalog.",
+}
+
+export default function SizingPage() {
+  const { products } = getCatalog()
+
+  return (
+    <>
+      <Navigation />
+      <div className="min-h-screen bg-[#0a1628] text-white relative">
+        <section className="relative py-20 px-4 sm:px-6 mt-16">
+          <div className="max-w-5xl mx-auto">
+            <PageIntro
+              badge="sizing.badge"
+              title="sizing.title"
+              highlight="sizing.titleHighlight"
+              intro="sizing.intro"
+            />
+            <SizingWizard products={products} />
+          </div>
+        </section>
+      </div>
+      <QuoteCart products={products} />
+    </>
+  )
+}
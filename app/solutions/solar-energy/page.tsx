@@ -7,8 +7,18 @@ import { ArrowRight, SunMedium, Check, Home, Building2, Factory, Zap, Shield, Ba
 import { Button } from "@/components/ui/button"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import Navigation from "@/components/shared/navigation"
+import { HighlightedTitle } from "@/components/shared/PageIntro"
+import { useTranslation } from "@/hooks/useTranslation"
+import type { MessageKey } from "@/utils/i18n"
+
+interface SolarSolution {
+  title: MessageKey
+  description: MessageKey
+  features: MessageKey[]
+}
 
 export default function SolarEnergyPage() {
+  const { t } = useTranslation()
   const [isVisible, setIsVisible] = useState(false)
   const [activeTab, setActiveTab] = useState("residential")
 
@@ -21,184 +31,210 @@ export default function SolarEnergyPage() {
     visible: { opacity: 1, y: 0 },
   }
 
-  const solarTypes = {
+  const benefits: { icon: React.ReactNode; title: MessageKey; description: MessageKey }[] = [
+    {
+      icon: <Zap className="h-6 w-6" />,
+      title: "solar.costs.title",
+      description: "solar.costs.description",
+    },
+    {
+      icon: <Shield className="h-6 w-6" />,
+      title: "solar.independence.title",
+      description: "solar.independence.description",
+    },
+    {
+      icon: <Leaf className="h-6 w-6" />,
+      title: "solar.environment.title",
+      description: "solar.environment.description",
+    },
+    {
+      icon: <BarChart3 className="h-6 w-6" />,
+      title: "solar.value.title",
+      description: "solar.value.description",
+    },
+    {
+      icon: <SunMedium className="h-6 w-6" />,
+      title: "solar.reliable.title",
+      description: "solar.reliable.description",
+    },
+    {
+      icon: <Building2 className="h-6 w-6" />,
+      title: "solar.incentives.title",
+      description: "solar.incentives.description",
+    },
+  ]
+
+  const solarTypes: Record<"residential" | "commercial" | "utility", SolarSolution[]> = {
     residential: [
       {
-        title: "Rooftop Solar Systems",
-        description:
-          "Custom designed solar panel systems for residential rooftops, optimized for your home's energy needs.",
+        title: "solar.rooftop.title",
+        description: "solar.rooftop.description",
         features: [
-          "Customized system design",
-          "High-efficiency panels",
-          "Minimal maintenance",
-          "25+ year lifespan",
-          "Smart monitoring system",
+          "solar.rooftop.feature1",
+          "solar.rooftop.feature2",
+          "solar.rooftop.feature3",
+          "solar.rooftop.feature4",
+          "solar.rooftop.feature5",
         ],
       },
       {
-        title: "Solar + Storage",
-        description: "Integrated solar and battery storage solutions for energy independence and backup power.",
+        title: "solar.storage.title",
+        description: "solar.storage.description",
         features: [
-          "Backup power during outages",
-          "Time-of-use optimization",
-          "Reduced grid dependence",
-          "Scalable capacity",
-          "Smart energy management",
+          "solar.storage.feature1",
+          "solar.storage.feature2",
+          "solar.storage.feature3",
+          "solar.storage.feature4",
+          "solar.storage.feature5",
         ],
       },
       {
-        title: "Solar Water Heating",
-        description: "Efficient solar thermal systems for domestic hot water and space heating needs.",
+        title: "solar.waterHeating.title",
+        description: "solar.waterHeating.description",
         features: [
-          "Reduced water heating costs",
-          "Works even in cloudy conditions",
-          "Compatible with existing systems",
-          "Low maintenance requirements",
-          "Year-round operation",
+          "solar.waterHeating.feature1",
+          "solar.waterHeating.feature2",
+          "solar.waterHeating.feature3",
+          "solar.waterHeating.feature4",
+          "solar.waterHeating.feature5",
         ],
       },
     ],
     commercial: [
       {
-        title: "Commercial Rooftop",
-        description: "Large-scale solar installations for commercial buildings, warehouses, and office complexes.",
+        title: "solar.commercialRooftop.title",
+        description: "solar.commercialRooftop.description",
         features: [
-          "Reduced operational costs",
-          "Minimal business disruption",
-          "Custom designed for load profile",
-          "Enhanced property value",
-          "Corporate sustainability goals",
+          "solar.commercialRooftop.feature1",
+          "solar.commercialRooftop.feature2",
+          "solar.commercialRooftop.feature3",
+          "solar.commercialRooftop.feature4",
+          "solar.commercialRooftop.feature5",
         ],
       },
       {
-        title: "Carport Solar",
-        description: "Dual-purpose solar installations that provide both clean energy and covered parking.",
+        title: "solar.carport.title",
+        description: "solar.carport.description",
         features: [
-          "Utilizes unused parking space",
-          "Weather protection for vehicles",
-          "Visible sustainability commitment",
-          "Optional EV charging integration",
-          "Enhanced customer experience",
+          "solar.carport.feature1",
+          "solar.carport.feature2",
+          "solar.carport.feature3",
+          "solar.carport.feature4",
+          "solar.carport.feature5",
         ],
       },
       {
-        title: "Building Integrated PV",
-        description: "Seamlessly integrated solar solutions that become part of the building's architecture.",
+        title: "solar.bipv.title",
+        description: "solar.bipv.description",
         features: [
-          "Aesthetic integration",
-          "Replaces conventional materials",
-          "Dual functionality",
-          "Modern architectural statement",
-          "Maximizes available space",
+          "solar.bipv.feature1",
+          "solar.bipv.feature2",
+          "solar.bipv.feature3",
+          "solar.bipv.feature4",
+          "solar.bipv.feature5",
         ],
       },
     ],
     utility: [
       {
-        title: "Ground-Mounted Solar Farms",
-        description: "Large-scale solar installations designed for maximum energy production and grid support.",
+        title: "solar.farm.title",
+        description: "solar.farm.description",
         features: [
-          "Megawatt-scale capacity",
-          "Optimized for high yield",
-          "Remote monitoring and control",
-          "Grid stabilization capabilities",
-          "Low maintenance requirements",
+          "solar.farm.feature1",
+          "solar.farm.feature2",
+          "solar.farm.feature3",
+          "solar.farm.feature4",
+          "solar.farm.feature5",
         ],
       },
       {
-        title: "Floating Solar",
-        description: "Innovative solar installations deployed on water bodies, maximizing land use efficiency.",
+        title: "solar.floating.title",
+        description: "solar.floating.description",
         features: [
-          "No land use required",
-          "Enhanced cooling efficiency",
-          "Reduced water evaporation",
-          "Minimal environmental impact",
-          "Dual-use of water resources",
+          "solar.floating.feature1",
+          "solar.floating.feature2",
+          "solar.floating.feature3",
+          "solar.floating.feature4",
+          "solar.floating.feature5",
         ],
       },
       {
-        title: "Solar + Storage Microgrids",
-        description: "Integrated power systems that can operate independently or in conjunction with the main grid.",
+        title: "solar.microgrid.title",
+        description: "solar.microgrid.description",
         features: [
-          "Energy resilience and security",
-          "Peak demand management",
-          "Frequency and voltage support",
-          "Islanding capability",
-          "Scalable and modular design",
+          "solar.microgrid.feature1",
+          "solar.microgrid.feature2",
+          "solar.microgrid.feature3",
+          "solar.microgrid.feature4",
+          "solar.microgrid.feature5",
         ],
       },
     ],
   }
 
-  const technologies = [
+  const technologies: { icon: React.ReactNode; title: MessageKey; description: MessageKey }[] = [
     {
       icon: <SunMedium className="h-6 w-6" />,
-      title: "Monocrystalline Panels",
-      description:
-        "High-efficiency silicon panels with excellent performance and longevity, ideal for limited space applications.",
+      title: "solar.mono.title",
+      description: "solar.mono.description",
     },
     {
       icon: <SunMedium className="h-6 w-6" />,
-      title: "Polycrystalline Panels",
-      description:
-        "Cost-effective solar panels with good efficiency, suitable for larger installations with ample space.",
+      title: "solar.poly.title",
+      description: "solar.poly.description",
     },
     {
       icon: <SunMedium className="h-6 w-6" />,
-      title: "Thin-Film Solar",
-      description:
-        "Flexible, lightweight solar technology that can be integrated into various surfaces and building materials.",
+      title: "solar.thinFilm.title",
+      description: "solar.thinFilm.description",
     },
     {
       icon: <SunMedium className="h-6 w-6" />,
-      title: "Bifacial Panels",
-      description:
-        "Double-sided panels that capture reflected light from the ground, increasing energy yield by up to 30%.",
+      title: "solar.bifacial.title",
+      description: "solar.bifacial.description",
     },
     {
       icon: <Zap className="h-6 w-6" />,
-      title: "Microinverters",
-      description:
-        "Panel-level power conversion that optimizes performance and provides detailed monitoring capabilities.",
+      title: "solar.microinverters.title",
+      description: "solar.microinverters.description",
     },
     {
       icon: <Zap className="h-6 w-6" />,
-      title: "String Inverters",
-      description: "Cost-effective power conversion for multiple panels, ideal for installations with minimal shading.",
+      title: "solar.stringInverters.title",
+      description: "solar.stringInverters.description",
     },
   ]
 
-  const processSteps = [
+  const processSteps: { number: string; title: MessageKey; description: MessageKey }[] = [
     {
       number: "01",
-      title: "Initial Consultation",
-      description: "We assess your energy needs, site conditions, and goals to determine the best solar solution.",
+      title: "solar.consultation.title",
+      description: "solar.consultation.description",
     },
     {
       number: "02",
-      title: "Custom Design",
-      description: "Our engineers create a tailored solar system design optimized for your specific requirements.",
+      title: "solar.design.title",
+      description: "solar.design.description",
     },
     {
       number: "03",
-      title: "Permitting & Approvals",
-      description: "We handle all necessary permits, utility applications, and regulatory requirements.",
+      title: "solar.permits.title",
+      description: "solar.permits.description",
     },
     {
       number: "04",
-      title: "Professional Installation",
-      description: "Our certified technicians install your solar system with minimal disruption to your property.",
+      title: "solar.installation.title",
+      description: "solar.installation.description",
     },
     {
       number: "05",
-      title: "System Commissioning",
-      description: "We thoroughly test the system to ensure everything is functioning correctly and safely.",
+      title: "solar.commissioning.title",
+      description: "solar.commissioning.description",
     },
     {
       number: "06",
-      title: "Monitoring & Support",
-      description:
-        "Ongoing performance monitoring and maintenance support to maximize your system's lifespan and output.",
+      title: "solar.support.title",
+      description: "solar.support.description",
     },
   ]
 
@@ -229,15 +265,12 @@ export default function SolarEnergyPage() {
               className="text-center max-w-3xl mx-auto"
             >
               <div className="inline-flex items-center rounded-full px-3 py-1 text-xs font-medium mb-6 bg-[#3DD56D]/20 text-[#3DD56D] border border-[#3DD56D]/20">
-                Solar Energy Solutions
+                {t("solar.badge")}
               </div>
               <h1 className="text-4xl md:text-5xl lg:text-6xl font-bold mb-6 leading-tight">
-                Harness the Power of the <span className="text-[#3DD56D]">Sun</span>
+                <HighlightedTitle title={t("solar.title")} highlight={t("solar.titleHighlight")} />
               </h1>
-              <p className="text-slate-300 text-lg mb-8">
-                Our advanced solar energy solutions convert abundant sunlight into clean, renewable electricity for
-                homes, businesses, and utilities.
-              </p>
+              <p className="text-slate-300 text-lg mb-8">{t("solar.intro")}</p>
             </motion.div>
           </div>
         </section>
@@ -253,45 +286,12 @@ export default function SolarEnergyPage() {
               transition={{ duration: 0.7 }}
               className="text-center mb-12"
             >
-              <h2 className="text-3xl md:text-4xl font-bold mb-4">Benefits of Solar Energy</h2>
-              <p className="text-slate-300 max-w-2xl mx-auto">
-                Solar power offers numerous advantages for the environment, your finances, and energy independence.
-              </p>
+              <h2 className="text-3xl md:text-4xl font-bold mb-4">{t("solar.benefitsTitle")}</h2>
+              <p className="text-slate-300 max-w-2xl mx-auto">{t("solar.benefitsIntro")}</p>
             </motion.div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-              {[
-                {
-                  icon: <Zap className="h-6 w-6" />,
-                  title: "Reduced Energy Costs",
-                  description: "Lower your electricity bills by generating your own clean power from the sun.",
-                },
-                {
-                  icon: <Shield className="h-6 w-6" />,
-                  title: "Energy Independence",
-                  description: "Decrease reliance on the grid and protect against rising utility rates.",
-                },
-                {
-                  icon: <Leaf className="h-6 w-6" />,
-                  title: "Environmental Impact",
-                  description: "Reduce your carbon footprint with zero-emission electricity generation.",
-                },
-                {
-                  icon: <BarChart3 className="h-6 w-6" />,
-                  title: "Increased Property Value",
-                  description: "Solar installations can increase your property's market value and appeal.",
-                },
-                {
-                  icon: <SunMedium className="h-6 w-6" />,
-                  title: "Reliable Performance",
-                  description: "Solar systems operate reliably for 25+ years with minimal maintenance.",
-                },
-                {
-                  icon: <Building2 className="h-6 w-6" />,
-                  title: "Available Incentives",
-                  description: "Take advantage of tax credits, rebates, and incentives to reduce costs.",
-                },
-              ].map((benefit, index) => (
+              {benefits.map((benefit, index) => (
                 <motion.div
                   key={index}
                   initial="hidden"
@@ -304,8 +304,8 @@ export default function SolarEnergyPage() {
                   <div className="w-12 h-12 rounded-full bg-[#3DD56D]/10 flex items-center justify-center mb-4 text-[#3DD56D]">
                     {benefit.icon}
                   </div>
-                  <h3 className="text-xl font-semibold mb-2">{benefit.title}</h3>
-                  <p className="text-slate-300 text-sm">{benefit.description}</p>
+                  <h3 className="text-xl font-semibold mb-2">{t(benefit.title)}</h3>
+                  <p className="text-slate-300 text-sm">{t(benefit.description)}</p>
                 </motion.div>
               ))}
             </div>
@@ -323,10 +323,8 @@ export default function SolarEnergyPage() {
               transition={{ duration: 0.7 }}
               className="text-center mb-12"
             >
-              <h2 className="text-3xl md:text-4xl font-bold mb-4">Solar Solutions for Every Need</h2>
-              <p className="text-slate-300 max-w-2xl mx-auto">
-                We offer customized solar energy systems for residential, commercial, and utility-scale applications.
-              </p>
+              <h2 className="text-3xl md:text-4xl font-bold mb-4">{t("solar.solutionsTitle")}</h2>
+              <p className="text-slate-300 max-w-2xl mx-auto">{t("solar.solutionsIntro")}</p>
             </motion.div>
 
             <Tabs defaultValue="residential" className="w-full" onValueChange={setActiveTab}>
@@ -336,21 +334,21 @@ export default function SolarEnergyPage() {
                   className="data-[state=active]:bg-[#3DD56D] data-[state=active]:text-white"
                 >
                   <Home className="h-4 w-4 mr-2" />
-                  Residential
+                  {t("solar.residential")}
                 </TabsTrigger>
                 <TabsTrigger
                   value="commercial"
                   className="data-[state=active]:bg-[#3DD56D] data-[state=active]:text-white"
                 >
                   <Building2 className="h-4 w-4 mr-2" />
-                  Commercial
+                  {t("solar.commercial")}
                 </TabsTrigger>
                 <TabsTrigger
                   value="utility"
                   className="data-[state=active]:bg-[#3DD56D] data-[state=active]:text-white"
                 >
                   <Factory className="h-4 w-4 mr-2" />
-                  Utility-Scale
+                  {t("solar.utility")}
                 </TabsTrigger>
               </TabsList>
 
@@ -367,15 +365,15 @@ export default function SolarEnergyPage() {
                         transition={{ duration: 0.5, delay: index * 0.1 }}
                         className="bg-slate-800/30 backdrop-blur-sm p-6 rounded-lg border border-slate-700/50 hover:border-[#3DD56D]/30 transition-all h-full flex flex-col"
                       >
-                        <h3 className="text-xl font-semibold mb-3">{solution.title}</h3>
-                        <p className="text-slate-300 text-sm mb-4">{solution.description}</p>
+                        <h3 className="text-xl font-semibold mb-3">{t(solution.title)}</h3>
+                        <p className="text-slate-300 text-sm mb-4">{t(solution.description)}</p>
                         <div className="mt-auto">
-                          <h4 className="text-sm font-medium text-[#3DD56D] mb-2">Key Features</h4>
+                          <h4 className="text-sm font-medium text-[#3DD56D] mb-2">{t("solar.keyFeatures")}</h4>
                           <ul className="space-y-2">
                             {solution.features.map((feature, i) => (
                               <li key={i} className="flex items-start">
                                 <Check className="h-4 w-4 text-[#3DD56D] mr-2 mt-0.5" />
-                                <span className="text-slate-300 text-sm">{feature}</span>
+                                <span className="text-slate-300 text-sm">{t(feature)}</span>
                               </li>
                             ))}
                           </ul>
@@ -400,10 +398,8 @@ export default function SolarEnergyPage() {
               transition={{ duration: 0.7 }}
               className="text-center mb-12"
             >
-              <h2 className="text-3xl md:text-4xl font-bold mb-4">Solar Technologies</h2>
-              <p className="text-slate-300 max-w-2xl mx-auto">
-                We utilize the latest solar technologies to ensure optimal performance, efficiency, and reliability.
-              </p>
+              <h2 className="text-3xl md:text-4xl font-bold mb-4">{t("solar.technologiesTitle")}</h2>
+              <p className="text-slate-300 max-w-2xl mx-auto">{t("solar.technologiesIntro")}</p>
             </motion.div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -420,8 +416,8 @@ export default function SolarEnergyPage() {
                   <div className="w-12 h-12 rounded-full bg-[#3DD56D]/10 flex items-center justify-center mb-4 text-[#3DD56D]">
                     {tech.icon}
                   </div>
-                  <h3 className="text-xl font-semibold mb-2">{tech.title}</h3>
-                  <p className="text-slate-300 text-sm">{tech.description}</p>
+                  <h3 className="text-xl font-semibold mb-2">{t(tech.title)}</h3>
+                  <p className="text-slate-300 text-sm">{t(tech.description)}</p>
                 </motion.div>
               ))}
             </div>
@@ -439,11 +435,8 @@ export default function SolarEnergyPage() {
               transition={{ duration: 0.7 }}
               className="text-center mb-12"
             >
-              <h2 className="text-3xl md:text-4xl font-bold mb-4">Our Solar Installation Process</h2>
-              <p className="text-slate-300 max-w-2xl mx-auto">
-                We follow a comprehensive approach to ensure your solar energy system is perfectly tailored to your
-                needs.
-              </p>
+              <h2 className="text-3xl md:text-4xl font-bold mb-4">{t("solar.processTitle")}</h2>
+              <p className="text-slate-300 max-w-2xl mx-auto">{t("solar.processIntro")}</p>
             </motion.div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -458,8 +451,8 @@ export default function SolarEnergyPage() {
                   className="bg-slate-800/30 backdrop-blur-sm p-6 rounded-lg border border-slate-700/50 hover:border-[#3DD56D]/30 transition-all"
                 >
                   <div className="text-4xl font-bold text-[#3DD56D]/30 mb-4">{step.number}</div>
-                  <h3 className="text-xl font-semibold mb-2">{step.title}</h3>
-                  <p className="text-slate-300 text-sm">{step.description}</p>
+                  <h3 className="text-xl font-semibold mb-2">{t(step.title)}</h3>
+                  <p className="text-slate-300 text-sm">{t(step.description)}</p>
                 </motion.div>
               ))}
             </div>
@@ -487,21 +480,18 @@ export default function SolarEnergyPage() {
               variants={fadeIn}
               transition={{ duration: 0.7 }}
             >
-              <h2 className="text-3xl md:text-4xl font-bold text-white mb-6">Ready to Harness Solar Energy?</h2>
-              <p className="text-slate-300 text-lg mb-8 max-w-2xl mx-auto">
-                Contact us today to schedule a free consultation and learn how solar energy can benefit your home or
-                business.
-              </p>
+              <h2 className="text-3xl md:text-4xl font-bold text-white mb-6">{t("solar.ctaTitle")}</h2>
+              <p className="text-slate-300 text-lg mb-8 max-w-2xl mx-auto">{t("solar.ctaText")}</p>
               <div className="flex flex-wrap gap-4 justify-center">
                 <Link href="/contact">
                   <Button className="bg-[#3DD56D] hover:bg-[#2bb757] text-white px-8 py-6 text-lg">
-                    Get a Free Consultation
+                    {t("solar.freeConsultation")}
                     <ArrowRight className="ml-2 h-5 w-5" />
                   </Button>
                 </Link>
                 <Link href="/solutions">
                   <Button variant="outline" className="border-white text-white hover:bg-white/10 px-8 py-6 text-lg">
-                    Explore Other Solutions
+                    {t("solar.otherSolutions")}
                   </Button>
                 </Link>
               </div>
@@ -5,9 +5,13 @@ import { motion } from "framer-motion"
 import { Users, ArrowRight } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import Navigation from "@/components/shared/navigation"
+import { HighlightedTitle } from "@/components/shared/PageIntro"
+import { useTranslation } from "@/hooks/useTranslation"
 import { GreenBackgroundAnimation } from "@/components/animations/background/GreenBackgroundAnimation"
 
 export default function TrainingPage() {
+  const { t } = useTranslation()
+
   return (
     <>
       <Navigation />
@@ -23,13 +27,13 @@ export default function TrainingPage() {
               transition={{ duration: 0.7 }}
               className="inline-flex items-center rounded-full px-3 py-1 text-xs font-medium mb-6 bg-[#3DD56D]/20 text-[#3DD56D] border border-[#3DD56D]/20"
             >
-              Training & Capacity Building
+              {t("training.badge")}
             </motion.div>
             <h1 className="text-4xl md:text-5xl lg:text-6xl font-bold mb-6 leading-tight">
-              Empowering <span className="text-[#3DD56D]">Communities</span> through Training
+              <HighlightedTitle title={t("training.title")} highlight={t("training.titleHighlight")} />
             </h1>
             <p className="text-slate-300 text-lg mb-8 max-w-2xl mx-auto">
-              Learn about our training programs for entrepreneurs, technicians, and community leaders to ensure the success and sustainability of clean energy projects.
+              {t("training.intro")}
             </p>
           </div>
         </section>
@@ -41,12 +45,12 @@ export default function TrainingPage() {
               transition={{ duration: 0.7 }}
               className="text-left"
             >
-              <h2 className="text-2xl font-bold mb-4 text-[#3DD56D]">Our Training Focus</h2>
+              <h2 className="text-2xl font-bold mb-4 text-[#3DD56D]">{t("training.whyTitle")}</h2>
               <ul className="list-disc list-inside text-slate-300 space-y-3">
-                <li>Entrepreneurship and business skills for local energy leaders</li>
-                <li>Technical training for installation and maintenance</li>
-                <li>Community awareness and engagement programs</li>
-                <li>Ongoing support and mentorship</li>
+                <li>{t("training.point1")}</li>
+                <li>{t("training.point2")}</li>
+                <li>{t("training.point3")}</li>
+                <li>{t("training.point4")}</li>
               </ul>
             </motion.div>
             <motion.div
@@ -61,13 +65,13 @@ export default function TrainingPage() {
         </section>
         <section className="relative z-10 py-16 px-4 sm:px-6">
           <div className="max-w-4xl mx-auto text-center">
-            <h2 className="text-3xl font-bold mb-4">Interested in Our Training Programs?</h2>
+            <h2 className="text-3xl font-bold mb-4">{t("training.ctaTitle")}</h2>
             <p className="text-slate-300 text-lg mb-8 max-w-2xl mx-auto">
-              Contact us to learn more about upcoming workshops, custom training, and partnership opportunities.
+              {t("training.ctaText")}
             </p>
             <Link href="/contact">
               <Button className="bg-[#3DD56D] hover:bg-[#2bb757] text-white px-6 py-5">
-                Get in Touch <ArrowRight className="ml-2 h-4 w-4" />
+                {t("nav.getInTouch")} <ArrowRight className="ml-2 h-4 w-4" />
               </Button>
             </Link>
           </div>
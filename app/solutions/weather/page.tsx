@@ -0,0 +1,46 @@
+import type { Metadata } from "next"
+import Navigation from "@/components/shared/navigation"
+import PageIntro from "@/components/shared/PageIntro"
+import WeatherStressTest, { DEFAULT_STRESS_TEST_SYSTEM, StressTestSystem } from "@/components/weather/WeatherStressTest"
+
+export const metadata: Metadata = {
+  title: "Weather Stress Test | GREAN WORLD Energy Technology",
+  description: "See how a solar home system holds up through a rainy season, dusty haze or days of overcast sky.",
+}
+
+type SearchParams = Promise<Record<string, string | string[] | undefined>>
+
+// Reads a positive number from the query, e.g. when arriving from the sizing wizard
+const numberParam = (value: string | string[] | undefined, fallback: number) => {
+  const number = Number(Array.isArray(value) ? value[0] : value)
+  return Number.isFinite(number) && number > 0 ? number : fallback
+}
+
+export default async function WeatherPage({ searchParams }: { searchParams: SearchParams }) {
+  const params = await searchParams
+  const system: StressTestSystem = {
+    pvWp: numberParam(params.pv, DEFAULT_STRESS_TEST_SYSTEM.pvWp),
+    batteryKWh: numberParam(params.battery, DEFAULT_STRESS_TEST_SYSTEM.batteryKWh),
+    dailyLoadKWh: numberParam(params.load, DEFAULT_STRESS_TEST_SYSTEM.dailyLoadKWh),
+    inverterKVA: numberParam(params.inverter, DEFAULT_STRESS_TEST_SYSTEM.inverterKVA),
+  }
+
+  return (
+    <>
+      <Navigation />
+      <div className="min-h-screen bg-[#0a1628] text-white relative">
+        <section className="relative py-20 px-4 sm:px-6 mt-16">
+          <div className="max-w-7xl mx-auto">
+            <PageIntro
+              badge="weatherTest.badge"
+              title="weatherTest.title"
+              highlight="weatherTest.titleHighlight"
+              intro="weatherTest.intro"
+            />
+            <WeatherStressTest initialSystem={system} />
+          </div>
+        </section>
+      </div>
+    </>
+  )
+}
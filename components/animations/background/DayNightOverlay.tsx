@@ -0,0 +1,32 @@
+"use client"
+
+import { useSimulationClockStore } from "@/store/simulationClockStore"
+import { daylightFactor } from "@/utils/simulation/solar"
+
+interface DayNightOverlayProps {
+  // Darkness of the overlay at midnight, 0-1
+  maxDarkness?: number
+  className?: string
+}
+
+/**
+ * Tints whatever it covers with the simulated time of day: clear at noon, warm
+ * around sunrise and sunset, deep blue at night.
+ */
+export function DayNightOverlay({ maxDarkness = 0.6, className = "" }: DayNightOverlayProps) {
+  const timeOfDay = useSimulationClockStore((state) => state.timeOfDay)
+  const daylight = daylightFactor(timeOfDay)
+  // Strongest while the sun is low but up
+  const glow = daylight > 0 ? Math.max(0, 1 - daylight * 3) : 0
+
+  return (
+    <div
+      aria-hidden
+      className={`absolute inset-0 pointer-events-none ${className}`}
+      style={{
+        background: `linear-gradient(to bottom, rgba(2, 6, 23, ${(1 - daylight) * maxDarkness}), rgba(2, 6, 23, ${(1 - daylight) * maxDarkness * 0.7})), radial-gradient(ellipse at 50% 100%, rgba(251, 146, 60, ${glow * 0.25}), transparent 70%)`,
+        transition: "background 0.5s linear",
+      }}
+    />
+  )
+}
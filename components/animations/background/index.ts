@@ -1,3 +1,4 @@
 export { GreenBackgroundAnimation } from "./GreenBackgroundAnimation"
 export { AnimatedGradientBackground } from "./AnimatedGradientBackground"
-export { AnimatedBlobBackground } from "./AnimatedBlobBackground" 
\ No newline at end of file
+export { AnimatedBlobBackground } from "./AnimatedBlobBackground"
+export { DayNightOverlay } from "./DayNightOverlay" 
\ No newline at end of file
@@ -0,0 +1,55 @@
+"use client"
+
+import type React from "react"
+import { SunMedium, Battery, Zap, Monitor, Wrench, ToggleLeft, Lightbulb } from "lucide-react"
+import type { TopologyNodeType } from "@/types/topology"
+
+// MIME type used to carry the node type through a drag-and-drop
+export const PALETTE_DRAG_TYPE = "application/x-grean-node"
+
+export interface PaletteItem {
+  type: TopologyNodeType
+  label: string
+  icon: React.ReactNode
+}
+
+export const PALETTE_ITEMS: PaletteItem[] = [
+  { type: "solarPanel", label: "Solar panel", icon: <SunMedium className="h-4 w-4" /> },
+  { type: "battery", label: "Battery", icon: <Battery className="h-4 w-4" /> },
+  { type: "inverter", label: "Inverter", icon: <Zap className="h-4 w-4" /> },
+  { type: "monitor", label: "Monitor", icon: <Monitor className="h-4 w-4" /> },
+  { type: "accessory", label: "Accessory", icon: <Wrench className="h-4 w-4" /> },
+  { type: "switch", label: "Switch", icon: <ToggleLeft className="h-4 w-4" /> },
+  { type: "bulb", label: "Bulb", icon: <Lightbulb className="h-4 w-4" /> },
+]
+
+interface DesignerPaletteProps {
+  disabled?: boolean
+}
+
+export default function DesignerPalette({ disabled = false }: DesignerPaletteProps) {
+  return (
+    <div className="flex flex-col gap-2">
+      <h2 className="text-sm font-semibold text-green-400 uppercase tracking-wide">Components</h2>
+      {PALETTE_ITEMS.map((item) => (
+        <div
+          key={item.type}
+          draggable={!disabled}
+          onDragStart={(event) => {
+            event.dataTransfer.setData(PALETTE_DRAG_TYPE, item.type)
+            event.dataTransfer.effectAllowed = "copy"
+          }}
+          className={`flex items-center gap-2 rounded-lg border border-green-500/20 bg-slate-800/60 px-3 py-2 text-sm text-white ${
+            disabled ? "opacity-50 cursor-not-allowed" : "cursor-grab hover:border-green-400/60"
+          }`}
+        >
+          <span className="text-green-400">{item.icon}</span>
+          {item.label}
+        </div>
+      ))}
+      <p className="text-xs text-slate-400 mt-2">
+        Drag components onto the canvas. Click a node&apos;s port, then another node, to connect them.
+      </p>
+    </div>
+  )
+}
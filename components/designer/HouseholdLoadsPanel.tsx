@@ -0,0 +1,106 @@
+"use client"
+
+import { Bar, BarChart, ReferenceLine, XAxis } from "recharts"
+import { AlertTriangle, Minus, Plus } from "lucide-react"
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart"
+import { APPLIANCES, ApplianceId, HouseholdLoad } from "@/constants/appliances"
+import { INVERTER_FAULTS, INVERTER_LIMITS } from "@/utils/simulation/inverter-faults"
+import { buildLoadProfile, peakStartingDemand } from "@/utils/simulation/load-profile"
+import { useTranslation } from "@/hooks/useTranslation"
+
+const formatHour = (hours: number) => {
+  const minutes = Math.round(hours * 60)
+  return `${Math.floor(minutes / 60).toString().padStart(2, "0")}:${(minutes % 60).toString().padStart(2, "0")}`
+}
+
+interface HouseholdLoadsPanelProps {
+  // Unset for an inverter that runs the generic household profile
+  loads?: HouseholdLoad[]
+  onChange: (loads: HouseholdLoad[]) => void
+  // Continuous rating of the inverter supplying the household
+  inverterWatts: number
+}
+
+// Appliance counts for the household an inverter supplies, with the demand curve they add up to
+export default function HouseholdLoadsPanel({ loads = [], onChange, inverterWatts }: HouseholdLoadsPanelProps) {
+  const { t, tNode, locale } = useTranslation()
+  const chartConfig = {
+    watts: { label: t("loads.demand"), color: "#3DD56D" },
+  } satisfies ChartConfig
+  const profile = buildLoadProfile(loads)
+  const chartData = profile.map((watts, hour) => ({ hour, watts: Math.round(watts) }))
+  const dailyKWh = profile.reduce((sum, watts) => sum + watts, 0) / 1000
+  const peak = peakStartingDemand(loads)
+  const surgeLimit = (inverterWatts * INVERTER_LIMITS.surgePercent) / 100
+  const overload = INVERTER_FAULTS.overload
+
+  const quantityOf = (id: ApplianceId) => loads.find((load) => load.appliance === id)?.quantity ?? 0
+
+  const setQuantity = (id: ApplianceId, quantity: number) => {
+    const others = loads.filter((load) => load.appliance !== id)
+    onChange(quantity > 0 ? [...others, { appliance: id, quantity }] : others)
+  }
+
+  return (
+    <div>
+      <h2 className="text-sm font-semibold text-green-400 mb-2">{t("loads.title")}</h2>
+      <ul className="flex flex-col gap-1">
+        {Object.values(APPLIANCES).map((appliance) => {
+          const quantity = quantityOf(appliance.id)
+          const name = t(`appliance.${appliance.id}`)
+          return (
+            <li key={appliance.id} className="flex items-center justify-between gap-2 text-xs">
+              <span className={quantity > 0 ? "text-white" : "text-slate-400"}>
+                {name} <span className="text-slate-500">{appliance.ratedWatts} W</span>
+              </span>
+              <div className="flex items-center gap-1 shrink-0">
+                <button
+                  className="text-slate-400 hover:text-white disabled:opacity-30"
+                  onClick={() => setQuantity(appliance.id, quantity - 1)}
+                  disabled={quantity === 0}
+                  aria-label={t("loads.removeOne", { name })}
+                >
+                  <Minus className="h-3 w-3" />
+                </button>
+                <span className="w-4 text-center">{quantity}</span>
+                <button
+                  className="text-slate-400 hover:text-white"
+                  onClick={() => setQuantity(appliance.id, quantity + 1)}
+                  aria-label={t("loads.addOne", { name })}
+                >
+                  <Plus className="h-3 w-3" />
+                </button>
+              </div>
+            </li>
+          )
+        })}
+      </ul>
+
+      <ChartContainer config={chartConfig} className="mt-3 h-[110px] w-full aspect-auto">
+        <BarChart data={chartData} margin={{ left: 0, right: 0, top: 4, bottom: 0 }}>
+          <XAxis dataKey="hour" tickLine={false} axisLine={false} ticks={[0, 6, 12, 18]} fontSize={10} />
+          <ReferenceLine y={inverterWatts} stroke="#f87171" strokeDasharray="3 3" />
+          <ChartTooltip
+            content={<ChartTooltipContent labelFormatter={(_, payload) => formatHour(payload[0]?.payload.hour)} />}
+          />
+          <Bar dataKey="watts" fill="var(--color-watts)" radius={1} />
+        </BarChart>
+      </ChartContainer>
+      <p className="text-xs text-slate-400">{t("loads.dailyEnergy", { energy: dailyKWh.toFixed(2) })}</p>
+
+      {peak && peak.watts >= surgeLimit && (
+        <p className="mt-2 flex gap-1 text-xs text-amber-400">
+          <AlertTriangle className="h-3.5 w-3.5 shrink-0" />
+          {t("loads.surgeWarning", {
+            appliance: t(`appliance.${peak.appliance}`).toLocaleLowerCase(locale),
+            time: formatHour(peak.timeOfDay),
+            watts: Math.round(peak.watts),
+            limit: surgeLimit,
+            fault: tNode(overload.name).toLocaleLowerCase(locale),
+            code: overload.code,
+          })}
+        </p>
+      )}
+    </div>
+  )
+}
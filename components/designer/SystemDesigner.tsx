@@ -0,0 +1,442 @@
+"use client"
+
+import type React from "react"
+import { useEffect, useMemo, useRef, useState } from "react"
+import { Play, Square, Save, FolderOpen, Trash2, X, AlertTriangle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import TopologyRenderer from "@/components/topology/TopologyRenderer"
+import SimulationClockControls from "@/components/shared/SimulationClockControls"
+import { DayNightOverlay } from "@/components/animations/background/DayNightOverlay"
+import DesignerPalette, { PALETTE_DRAG_TYPE, PALETTE_ITEMS } from "./DesignerPalette"
+import HouseholdLoadsPanel from "./HouseholdLoadsPanel"
+import { DEFAULT_HOUSEHOLD_LOADS, HouseholdLoad } from "@/constants/appliances"
+import { useEnergySimulation } from "@/hooks/useEnergySimulation"
+import { usePowerFlowStore } from "@/store/powerFlowStore"
+import {
+  NODE_SIZES,
+  TopologyIssue,
+  connectionKind,
+  layoutTopology,
+  parseTopology,
+  serializeTopology,
+  validateConnection,
+  validateTopology,
+} from "@/utils/topology"
+import type { SystemTopology, TopologyNode, TopologyNodeType } from "@/types/topology"
+
+// Node scale on the designer canvas, small enough to fit a whole system
+const DESIGNER_SCALES: Record<TopologyNodeType, number> = {
+  inverter: 0.25,
+  solarPanel: 0.3,
+  battery: 0.45,
+  monitor: 0.45,
+  switch: 0.5,
+  bulb: 0.5,
+  word: 0.5,
+  accessory: 0.45,
+}
+
+const CANVAS_HEIGHT = 560
+// Rating of an inverter whose props don't set one, as StaticInverterNode defaults it
+const DEFAULT_INVERTER_WATTS = 3000
+
+const EMPTY_TOPOLOGY: SystemTopology = {
+  id: "custom-system",
+  name: "Custom system",
+  nodes: [],
+  edges: [],
+}
+
+function createNode(type: TopologyNodeType, id: string, x: number, y: number): TopologyNode {
+  const base = {
+    id,
+    label: PALETTE_ITEMS.find((item) => item.type === type)?.label,
+    position: { x, y },
+    scale: DESIGNER_SCALES[type],
+  }
+  switch (type) {
+    case "inverter":
+      return { ...base, type, props: { mode: "pv", appliances: DEFAULT_HOUSEHOLD_LOADS } }
+    case "battery":
+      return { ...base, type, props: { type: "lithium", preset: "powerVault5kWh" } }
+    case "monitor":
+      return { ...base, type, props: { type: "hub" } }
+    default:
+      return { ...base, type } as TopologyNode
+  }
+}
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value))
+
+export default function SystemDesigner() {
+  const [topology, setTopology] = useState<SystemTopology>(EMPTY_TOPOLOGY)
+  const [connectFrom, setConnectFrom] = useState<string | null>(null)
+  const [connectionError, setConnectionError] = useState<{ nodeId: string; message: string } | null>(null)
+  const [fileIssues, setFileIssues] = useState<TopologyIssue[]>([])
+  const [simulating, setSimulating] = useState(false)
+  const [canvasWidth, setCanvasWidth] = useState(0)
+  const canvasRef = useRef<HTMLDivElement>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const dragRef = useRef<{ nodeId: string; pointerId: number } | null>(null)
+  const nextIdRef = useRef(1)
+
+  const { handleInverterChange, controller, deactivateFullSystem } = useEnergySimulation({ trackMetrics: false })
+  const flow = usePowerFlowStore((state) => state.flow)
+
+  const issues = useMemo(() => validateTopology(topology), [topology])
+  const positions = useMemo(() => layoutTopology(topology, canvasWidth, CANVAS_HEIGHT), [topology, canvasWidth])
+
+  // Track the canvas width so fractional positions map onto pixels
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    const observer = new ResizeObserver(([entry]) => setCanvasWidth(entry.contentRect.width))
+    observer.observe(canvas)
+    return () => observer.disconnect()
+  }, [])
+
+  // Escape cancels a pending connection
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === "Escape") setConnectFrom(null)
+    }
+    window.addEventListener("keydown", handleKeyDown)
+    return () => window.removeEventListener("keydown", handleKeyDown)
+  }, [])
+
+  const toCanvasFraction = (clientX: number, clientY: number) => {
+    const rect = canvasRef.current!.getBoundingClientRect()
+    return { x: clamp((clientX - rect.left) / rect.width), y: clamp((clientY - rect.top) / rect.height) }
+  }
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    const type = event.dataTransfer.getData(PALETTE_DRAG_TYPE) as TopologyNodeType
+    if (!type || !NODE_SIZES[type] || simulating) return
+    event.preventDefault()
+
+    // Skip ids already taken, e.g. by a loaded layout
+    let id = `${type}-${nextIdRef.current++}`
+    while (topology.nodes.some((node) => node.id === id)) id = `${type}-${nextIdRef.current++}`
+
+    const { x, y } = toCanvasFraction(event.clientX, event.clientY)
+    setTopology((prev) => ({ ...prev, nodes: [...prev.nodes, createNode(type, id, x, y)] }))
+  }
+
+  const moveNode = (nodeId: string, clientX: number, clientY: number) => {
+    const position = toCanvasFraction(clientX, clientY)
+    setTopology((prev) => ({
+      ...prev,
+      nodes: prev.nodes.map((node) => (node.id === nodeId ? { ...node, position } : node)),
+    }))
+  }
+
+  const removeNode = (nodeId: string) => {
+    setTopology((prev) => ({
+      ...prev,
+      nodes: prev.nodes.filter((node) => node.id !== nodeId),
+      edges: prev.edges.filter((edge) => edge.from !== nodeId && edge.to !== nodeId),
+    }))
+    if (connectFrom === nodeId) setConnectFrom(null)
+  }
+
+  const removeEdge = (edgeId: string) => {
+    setTopology((prev) => ({ ...prev, edges: prev.edges.filter((edge) => edge.id !== edgeId) }))
+  }
+
+  // Second click of a connection: validate, then add the edge
+  const completeConnection = (toId: string) => {
+    if (!connectFrom) return
+    const error = validateConnection(topology, connectFrom, toId)
+    if (error) {
+      setConnectionError({ nodeId: toId, message: error })
+      setConnectFrom(null)
+      return
+    }
+
+    const from = topology.nodes.find((node) => node.id === connectFrom)!
+    const to = topology.nodes.find((node) => node.id === toId)!
+    setTopology((prev) => ({
+      ...prev,
+      edges: [
+        ...prev.edges,
+        { id: `${from.id}-${to.id}`, from: from.id, to: to.id, kind: connectionKind(from.type, to.type), corner: "auto" },
+      ],
+    }))
+    setConnectionError(null)
+    setConnectFrom(null)
+  }
+
+  const startSimulation = () => {
+    setConnectFrom(null)
+    setSimulating(true)
+    handleInverterChange(true)
+    controller.activateSwitchWithCascade()
+  }
+
+  const stopSimulation = () => {
+    deactivateFullSystem()
+    setSimulating(false)
+  }
+
+  const saveLayout = () => {
+    const blob = new Blob([serializeTopology(topology)], { type: "application/json" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `${topology.id}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const loadLayout = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    try {
+      const { topology: loaded, issues: loadIssues } = parseTopology(await file.text())
+      if (!loaded) {
+        setFileIssues(loadIssues)
+        return
+      }
+      stopSimulation()
+      setFileIssues([])
+      setConnectionError(null)
+      setTopology(loaded)
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error)
+      setFileIssues([{ message: `The layout could not be opened: ${reason}` }])
+    }
+  }
+
+  const inverter = topology.nodes.find((node) => node.type === "inverter")
+  const hasInverter = Boolean(inverter)
+
+  // The household hangs off the first inverter, and can change while the simulation runs
+  const setAppliances = (appliances: HouseholdLoad[]) => {
+    setTopology((prev) => ({
+      ...prev,
+      nodes: prev.nodes.map((node) =>
+        node.id === inverter?.id && node.type === "inverter" ? { ...node, props: { ...node.props, appliances } } : node,
+      ),
+    }))
+  }
+  const nodeIssues = (nodeId: string) => issues.filter((issue) => issue.nodeId === nodeId)
+
+  return (
+    <div className="grid gap-6 lg:grid-cols-[200px_1fr_260px]">
+      <DesignerPalette disabled={simulating} />
+
+      <div className="flex flex-col gap-3">
+        {/* Toolbar */}
+        <div className="flex flex-wrap items-center gap-2">
+          {simulating ? (
+            <Button onClick={stopSimulation} variant="destructive" size="sm">
+              <Square className="h-4 w-4 mr-1" /> Stop
+            </Button>
+          ) : (
+            <Button
+              onClick={startSimulation}
+              size="sm"
+              className="bg-green-500 hover:bg-green-600 text-white"
+              disabled={!hasInverter}
+              title={hasInverter ? undefined : "Add an inverter to simulate"}
+            >
+              <Play className="h-4 w-4 mr-1" /> Simulate
+            </Button>
+          )}
+          <Button onClick={saveLayout} variant="outline" size="sm" disabled={topology.nodes.length === 0}>
+            <Save className="h-4 w-4 mr-1" /> Save
+          </Button>
+          <Button onClick={() => fileInputRef.current?.click()} variant="outline" size="sm">
+            <FolderOpen className="h-4 w-4 mr-1" /> Open
+          </Button>
+          <input ref={fileInputRef} type="file" accept="application/json,.json" className="hidden" onChange={loadLayout} />
+          <SimulationClockControls className="ml-auto" />
+          {connectFrom && (
+            <span className="text-xs text-sky-300">
+              Connecting from {connectFrom}: click another node, or press Esc to cancel
+            </span>
+          )}
+        </div>
+
+        {fileIssues.map((issue, i) => (
+          <p key={i} className="text-sm text-red-400">
+            {issue.message}
+          </p>
+        ))}
+
+        {/* Canvas */}
+        <div
+          ref={canvasRef}
+          className="relative w-full overflow-hidden rounded-xl border border-green-500/20 bg-[#0a1628]"
+          style={{ height: `${CANVAS_HEIGHT}px` }}
+          onDragOver={(event) => {
+            if (!simulating) event.preventDefault()
+          }}
+          onDrop={handleDrop}
+        >
+          <DayNightOverlay maxDarkness={0.5} />
+          {canvasWidth > 0 && <TopologyRenderer topology={topology} width={canvasWidth} height={CANVAS_HEIGHT} />}
+
+          {topology.nodes.length === 0 && (
+            <div className="absolute inset-0 flex items-center justify-center text-slate-500 text-sm pointer-events-none">
+              Drop components here to start a design
+            </div>
+          )}
+
+          {/* Editing handles over each node */}
+          {!simulating &&
+            topology.nodes.map((node) => {
+              const position = positions[node.id]
+              if (!position) return null
+              const size = NODE_SIZES[node.type]
+              const scale = node.scale ?? DESIGNER_SCALES[node.type]
+              const width = size.width * scale
+              const height = size.height * scale
+              const problems = nodeIssues(node.id)
+              const error = connectionError?.nodeId === node.id ? connectionError.message : null
+
+              return (
+                <div
+                  key={node.id}
+                  className={`absolute rounded-md border cursor-move ${
+                    connectFrom === node.id
+                      ? "border-sky-400"
+                      : error || problems.length > 0
+                        ? "border-red-400/70"
+                        : "border-transparent hover:border-green-400/50"
+                  }`}
+                  style={{
+                    left: `${position.x - width / 2}px`,
+                    top: `${position.y - height / 2}px`,
+                    width: `${width}px`,
+                    height: `${height}px`,
+                    zIndex: 20,
+                  }}
+                  onPointerDown={(event) => {
+                    if (connectFrom) {
+                      completeConnection(node.id)
+                      return
+                    }
+                    dragRef.current = { nodeId: node.id, pointerId: event.pointerId }
+                    event.currentTarget.setPointerCapture(event.pointerId)
+                  }}
+                  onPointerMove={(event) => {
+                    if (dragRef.current?.pointerId === event.pointerId) {
+                      moveNode(dragRef.current.nodeId, event.clientX, event.clientY)
+                    }
+                  }}
+                  onPointerUp={() => {
+                    dragRef.current = null
+                  }}
+                >
+                  {/* Connection port */}
+                  <button
+                    type="button"
+                    aria-label={`Connect ${node.label ?? node.id}`}
+                    className="absolute -right-2 -top-2 h-4 w-4 rounded-full border-2 border-sky-400 bg-slate-900 hover:bg-sky-400"
+                    onPointerDown={(event) => {
+                      event.stopPropagation()
+                      setConnectionError(null)
+                      setConnectFrom((current) => (current === node.id ? null : node.id))
+                    }}
+                  />
+                  <button
+                    type="button"
+                    aria-label={`Remove ${node.label ?? node.id}`}
+                    className="absolute -left-2 -top-2 h-4 w-4 rounded-full bg-slate-800 text-slate-300 hover:text-red-400 flex items-center justify-center"
+                    onPointerDown={(event) => {
+                      event.stopPropagation()
+                      removeNode(node.id)
+                    }}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+
+                  {(error || problems.length > 0) && (
+                    <div className="absolute left-1/2 top-full mt-1 w-48 -translate-x-1/2 rounded bg-red-950/90 px-2 py-1 text-[11px] text-red-300">
+                      {error ?? problems[0].message}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+        </div>
+      </div>
+
+      {/* Side panel: live flow while simulating, otherwise connections and problems */}
+      <div className="flex flex-col gap-4 text-sm text-white">
+        {simulating && (
+          <div className="rounded-lg border border-green-500/20 bg-slate-800/60 p-3">
+            <h2 className="text-sm font-semibold text-green-400 mb-2">Power flow</h2>
+            <dl className="grid grid-cols-2 gap-y-1 text-xs">
+              <dt className="text-slate-400">PV</dt>
+              <dd>{flow.pvWatts.toFixed(0)} W</dd>
+              <dt className="text-slate-400">Load</dt>
+              <dd>{flow.loadWatts.toFixed(0)} W</dd>
+              <dt className="text-slate-400">Battery</dt>
+              <dd>
+                {flow.batteryWatts > 0 ? "+" : ""}
+                {flow.batteryWatts.toFixed(0)} W
+              </dd>
+              <dt className="text-slate-400">State of charge</dt>
+              <dd>{flow.batterySoc.toFixed(1)}%</dd>
+              <dt className="text-slate-400">Inverter loss</dt>
+              <dd>{flow.inverterLossWatts.toFixed(0)} W</dd>
+              <dt className="text-slate-400">Unserved</dt>
+              <dd>{flow.unservedWatts.toFixed(0)} W</dd>
+            </dl>
+          </div>
+        )}
+
+        {inverter?.type === "inverter" && (
+          <HouseholdLoadsPanel
+            loads={inverter.props?.appliances}
+            onChange={setAppliances}
+            inverterWatts={inverter.props?.ratedPower ?? DEFAULT_INVERTER_WATTS}
+          />
+        )}
+
+        <div>
+          <h2 className="text-sm font-semibold text-green-400 mb-2">Connections</h2>
+          {topology.edges.length === 0 ? (
+            <p className="text-xs text-slate-400">No connections yet</p>
+          ) : (
+            <ul className="flex flex-col gap-1">
+              {topology.edges.map((edge) => (
+                <li key={edge.id} className="flex items-center justify-between text-xs">
+                  <span>
+                    {edge.from} → {edge.to} <span className="text-slate-400 uppercase">{edge.kind}</span>
+                  </span>
+                  <button
+                    type="button"
+                    aria-label={`Remove connection ${edge.id}`}
+                    className="text-slate-400 hover:text-red-400"
+                    onClick={() => removeEdge(edge.id)}
+                    disabled={simulating}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {issues.length > 0 && (
+          <div>
+            <h2 className="text-sm font-semibold text-amber-400 mb-2 flex items-center gap-1">
+              <AlertTriangle className="h-4 w-4" /> Problems
+            </h2>
+            <ul className="flex flex-col gap-1 text-xs text-amber-200">
+              {issues.map((issue, i) => (
+                <li key={i}>{issue.message}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
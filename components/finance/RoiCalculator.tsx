@@ -0,0 +1,400 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Bar, CartesianGrid, ComposedChart, Line, ReferenceLine, XAxis, YAxis } from "recharts"
+import { Download, Minus, Plus, Printer, ShoppingCart, Trash2 } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart"
+import { useQuoteCartStore } from "@/store/quoteCartStore"
+import { useCurrency } from "@/hooks/useCurrency"
+import { useTranslation } from "@/hooks/useTranslation"
+import { money } from "@/utils/money"
+import { SIZING_ASSUMPTIONS, SUN_HOUR_PROFILES } from "@/constants/sizing"
+import { buildQuote, QuoteCartItem } from "@/utils/quote"
+import { DEFAULT_FINANCIAL_INPUT, FinancialInput, analyzeInvestment, financialResultToCsv } from "@/utils/finance"
+import type { Product } from "@/types/product"
+
+const inputClassName = "bg-slate-700/50 border-slate-600 text-white placeholder:text-slate-400"
+
+interface NumberFieldProps {
+  id: string
+  label: string
+  value: number
+  onChange: (value: number) => void
+  suffix?: string
+  step?: number
+  // Show and edit a fraction as a percentage
+  percent?: boolean
+}
+
+function NumberField({ id, label, value, onChange, suffix, step = 1, percent }: NumberFieldProps) {
+  const shown = percent ? Math.round(value * 10000) / 100 : value
+  return (
+    <div>
+      <Label htmlFor={id} className="text-slate-300 text-sm">
+        {label}
+      </Label>
+      <div className="relative mt-1">
+        <Input
+          id={id}
+          type="number"
+          min={0}
+          step={step}
+          value={shown}
+          onChange={(e) => {
+            const number = Math.max(0, Number(e.target.value) || 0)
+            onChange(percent ? number / 100 : number)
+          }}
+          className={`${inputClassName} pr-14`}
+        />
+        {(suffix || percent) && (
+          <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-slate-400">
+            {percent ? "%" : suffix}
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
+
+// First-year output of the panels in `items`, at a given site
+function estimateAnnualOutput(items: QuoteCartItem[], products: Product[], peakSunHours: number) {
+  const pvWatts = items.reduce((sum, item) => {
+    const sizing = products.find((product) => product.id === item.productId)?.sizing
+    return sizing?.role === "pv" ? sum + sizing.watts * item.quantity : sum
+  }, 0)
+  return (pvWatts * peakSunHours * SIZING_ASSUMPTIONS.performanceRatio * 365) / 1000
+}
+
+export default function RoiCalculator({ products }: { products: Product[] }) {
+  const cartItems = useQuoteCartStore((state) => state.items)
+  const hydrateCart = useQuoteCartStore((state) => state.hydrate)
+  const [costSource, setCostSource] = useState<"catalog" | "manual">("catalog")
+  const [items, setItems] = useState<QuoteCartItem[]>([])
+  const { currency, convert, toCatalog, format } = useCurrency()
+  const { t } = useTranslation()
+  // Typed amounts are kept in the catalog currency, so switching currency converts them
+  const [manualCost, setManualCost] = useState(3000)
+  const [locationId, setLocationId] = useState(SUN_HOUR_PROFILES[0].id)
+  const [input, setInput] = useState<Omit<FinancialInput, "systemCost">>(DEFAULT_FINANCIAL_INPUT)
+
+  useEffect(() => {
+    hydrateCart()
+  }, [hydrateCart])
+
+  const catalogQuote = buildQuote(items, products, currency)
+  const systemCost = costSource === "catalog" ? catalogQuote.total : convert(manualCost)
+  const location = SUN_HOUR_PROFILES.find((profile) => profile.id === locationId) ?? SUN_HOUR_PROFILES[0]
+  const estimatedOutput = estimateAnnualOutput(items, products, location.peakSunHours)
+  const financialInput: FinancialInput = { ...input, annualEnergySpend: convert(input.annualEnergySpend), systemCost }
+  const result = analyzeInvestment(financialInput)
+
+  const chartData = [
+    { year: 0, net: -systemCost, cumulative: -systemCost },
+    ...result.cashFlows.map((row) => ({ year: row.year, net: row.net, cumulative: row.cumulative })),
+  ]
+
+  const chartConfig = {
+    net: { label: t("roi.net"), color: "#3DD56D" },
+    cumulative: { label: t("roi.cumulative"), color: "#60a5fa" },
+  } satisfies ChartConfig
+
+  const wholeUnits = (value: number) => format(money(value, currency), { maximumFractionDigits: 0 })
+
+  const update = (changes: Partial<FinancialInput>) => setInput((current) => ({ ...current, ...changes }))
+
+  const setItemQuantity = (productId: string, quantity: number) =>
+    setItems((current) =>
+      quantity <= 0
+        ? current.filter((item) => item.productId !== productId)
+        : current.some((item) => item.productId === productId)
+          ? current.map((item) => (item.productId === productId ? { ...item, quantity } : item))
+          : [...current, { productId, quantity }],
+    )
+
+  const exportCsv = () => {
+    const blob = new Blob([financialResultToCsv(financialInput, result, currency)], { type: "text/csv" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = "solar-roi.csv"
+    link.click()
+    // Revoking straight after click() can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 0)
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-5 gap-8">
+      {/* Inputs */}
+      <div className="lg:col-span-2 space-y-6 print:hidden">
+        <div className="bg-slate-800/30 backdrop-blur-sm rounded-lg border border-slate-700/50 p-6">
+          <h3 className="text-lg font-semibold mb-4">{t("roi.systemCost")}</h3>
+          <Tabs value={costSource} onValueChange={(value) => setCostSource(value as "catalog" | "manual")}>
+            <TabsList className="grid grid-cols-2 bg-slate-900/50 mb-4">
+              <TabsTrigger value="catalog" className="data-[state=active]:bg-[#3DD56D] data-[state=active]:text-white">
+                {t("roi.fromCatalog")}
+              </TabsTrigger>
+              <TabsTrigger value="manual" className="data-[state=active]:bg-[#3DD56D] data-[state=active]:text-white">
+                {t("roi.enterAmount")}
+              </TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="catalog" className="space-y-3">
+              {products.map((product) => {
+                const quantity = items.find((item) => item.productId === product.id)?.quantity ?? 0
+                return (
+                  <div key={product.id} className="flex items-center justify-between gap-2 text-sm">
+                    <span className={quantity > 0 ? "text-white" : "text-slate-400"}>{product.name}</span>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <button
+                        className="text-slate-400 hover:text-white disabled:opacity-30"
+                        onClick={() => setItemQuantity(product.id, quantity - 1)}
+                        disabled={quantity === 0}
+                        aria-label={t("roi.removeOne", { name: product.name })}
+                      >
+                        <Minus className="h-4 w-4" />
+                      </button>
+                      <span className="w-6 text-center text-white">{quantity}</span>
+                      <button
+                        className="text-slate-400 hover:text-white"
+                        onClick={() => setItemQuantity(product.id, quantity + 1)}
+                        aria-label={t("roi.addOne", { name: product.name })}
+                      >
+                        <Plus className="h-4 w-4" />
+                      </button>
+                    </div>
+                  </div>
+                )
+              })}
+              <div className="flex flex-wrap gap-2 pt-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="border-slate-600 bg-transparent text-white hover:bg-slate-800"
+                  onClick={() => setItems(cartItems)}
+                  disabled={cartItems.length === 0}
+                >
+                  <ShoppingCart className="h-4 w-4 mr-2" />
+                  {t("roi.useQuote")}
+                </Button>
+                {items.length > 0 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="text-slate-300 hover:text-white"
+                    onClick={() => setItems([])}
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    {t("roi.clear")}
+                  </Button>
+                )}
+              </div>
+              <div className="flex justify-between border-t border-slate-700 pt-3 font-semibold">
+                <span>{t("roi.catalogTotal")}</span>
+                <span>{format(money(catalogQuote.total, currency))}</span>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="manual">
+              <NumberField
+                id="system-cost"
+                label={t("roi.installedCost")}
+                value={Math.round(convert(manualCost))}
+                onChange={(cost) => setManualCost(toCatalog(cost))}
+                suffix={currency}
+              />
+            </TabsContent>
+          </Tabs>
+        </div>
+
+        <div className="bg-slate-800/30 backdrop-blur-sm rounded-lg border border-slate-700/50 p-6 grid grid-cols-2 gap-4">
+          <h3 className="col-span-2 text-lg font-semibold">{t("roi.energyToday")}</h3>
+          <NumberField
+            id="annual-spend"
+            label={t("roi.annualSpend")}
+            value={Math.round(convert(input.annualEnergySpend))}
+            onChange={(annualEnergySpend) => update({ annualEnergySpend: toCatalog(annualEnergySpend) })}
+            suffix={currency}
+            step={10}
+          />
+          <NumberField
+            id="spend-offset"
+            label={t("roi.spendOffset")}
+            value={input.spendOffset}
+            onChange={(spendOffset) => update({ spendOffset: Math.min(1, spendOffset) })}
+            percent
+          />
+          <NumberField
+            id="tariff-escalation"
+            label={t("roi.tariffEscalation")}
+            value={input.tariffEscalation}
+            onChange={(tariffEscalation) => update({ tariffEscalation })}
+            percent
+            step={0.5}
+          />
+          <div>
+            <NumberField
+              id="annual-output"
+              label={t("roi.annualOutput")}
+              value={Math.round(input.annualEnergyKWh)}
+              onChange={(annualEnergyKWh) => update({ annualEnergyKWh })}
+              suffix="kWh"
+              step={50}
+            />
+            {costSource === "catalog" && estimatedOutput > 0 && (
+              <button
+                className="mt-1 text-xs text-[#3DD56D] hover:underline"
+                onClick={() => update({ annualEnergyKWh: estimatedOutput })}
+              >
+                {t("roi.usePanelEstimate", { output: Math.round(estimatedOutput) })}
+              </button>
+            )}
+          </div>
+          <div className="col-span-2">
+            <Label className="text-slate-300 text-sm">{t("roi.location")}</Label>
+            <Select value={locationId} onValueChange={setLocationId}>
+              <SelectTrigger className="mt-1 bg-slate-700/50 border-slate-600 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-800 border-slate-700 text-white">
+                {SUN_HOUR_PROFILES.map((profile) => (
+                  <SelectItem key={profile.id} value={profile.id}>
+                    {profile.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="bg-slate-800/30 backdrop-blur-sm rounded-lg border border-slate-700/50 p-6 grid grid-cols-2 gap-4">
+          <h3 className="col-span-2 text-lg font-semibold">{t("roi.assumptions")}</h3>
+          <NumberField
+            id="degradation"
+            label={t("roi.degradation")}
+            value={input.degradation}
+            onChange={(degradation) => update({ degradation: Math.min(1, degradation) })}
+            percent
+            step={0.1}
+          />
+          <NumberField
+            id="discount-rate"
+            label={t("roi.discountRate")}
+            value={input.discountRate}
+            onChange={(discountRate) => update({ discountRate })}
+            percent
+            step={0.5}
+          />
+          <NumberField
+            id="maintenance-rate"
+            label={t("roi.maintenanceRate")}
+            value={input.maintenanceRate}
+            onChange={(maintenanceRate) => update({ maintenanceRate })}
+            percent
+            step={0.5}
+          />
+          <NumberField
+            id="lifetime"
+            label={t("roi.lifetime")}
+            value={input.lifetimeYears}
+            onChange={(lifetimeYears) =>
+              update({ lifetimeYears: Math.min(40, Math.max(1, Math.round(lifetimeYears))) })
+            }
+            suffix={t("roi.years")}
+          />
+        </div>
+      </div>
+
+      {/* Results */}
+      <div className="lg:col-span-3 space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {[
+            {
+              label: t("roi.simplePayback"),
+              value:
+                result.simplePaybackYears === null
+                  ? t("roi.never")
+                  : t("roi.paybackYears", { years: result.simplePaybackYears.toFixed(1) }),
+            },
+            { label: t("roi.netPresentValue"), value: wholeUnits(result.netPresentValue) },
+            {
+              label: t("roi.internalRateOfReturn"),
+              value:
+                result.internalRateOfReturn === null
+                  ? t("roi.notApplicable")
+                  : `${(result.internalRateOfReturn * 100).toFixed(1)}%`,
+            },
+            {
+              label: t("roi.costOfEnergy"),
+              value:
+                result.levelizedCostOfEnergy === null
+                  ? t("roi.notApplicable")
+                  : `${format(money(result.levelizedCostOfEnergy, currency), { maximumFractionDigits: 3 })}/kWh`,
+            },
+          ].map((item) => (
+            <div key={item.label} className="rounded-lg border border-slate-700/50 bg-slate-800/30 p-4">
+              <div className="text-xl font-bold text-white">{item.value}</div>
+              <div className="text-sm text-slate-400">{item.label}</div>
+            </div>
+          ))}
+        </div>
+
+        <div className="bg-slate-800/30 backdrop-blur-sm rounded-lg border border-slate-700/50 p-6">
+          <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+            <div>
+              <h3 className="text-lg font-semibold">{t("roi.cashFlowTitle")}</h3>
+              <p className="text-sm text-slate-400">
+                {t("roi.cashFlowSummary", {
+                  savings: wholeUnits(result.lifetimeSavings),
+                  years: input.lifetimeYears,
+                  cost: wholeUnits(systemCost),
+                })}
+              </p>
+            </div>
+            <div className="flex gap-2 print:hidden">
+              <Button
+                variant="outline"
+                size="sm"
+                className="border-slate-600 bg-transparent text-white hover:bg-slate-800"
+                onClick={exportCsv}
+              >
+                <Download className="h-4 w-4 mr-2" />
+                CSV
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="border-slate-600 bg-transparent text-white hover:bg-slate-800"
+                onClick={() => window.print()}
+              >
+                <Printer className="h-4 w-4 mr-2" />
+                {t("roi.print")}
+              </Button>
+            </div>
+          </div>
+          <ChartContainer config={chartConfig} className="h-[320px] w-full aspect-auto">
+            <ComposedChart data={chartData} margin={{ left: 12, right: 12 }}>
+              <CartesianGrid vertical={false} stroke="#334155" />
+              <XAxis dataKey="year" tickLine={false} axisLine={false} />
+              <YAxis tickLine={false} axisLine={false} tickFormatter={wholeUnits} width={96} />
+              <ReferenceLine y={0} stroke="#64748b" />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) => t("roi.year", { year: payload[0]?.payload.year })}
+                  />
+                }
+              />
+              <Bar dataKey="net" fill="var(--color-net)" radius={2} />
+              <Line dataKey="cumulative" stroke="var(--color-cumulative)" strokeWidth={2} dot={false} />
+            </ComposedChart>
+          </ChartContainer>
+        </div>
+      </div>
+    </div>
+  )
+}
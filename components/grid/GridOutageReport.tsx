@@ -0,0 +1,439 @@
+"use client"
+
+import { useMemo, useRef, useState } from "react"
+import { Bar, CartesianGrid, ComposedChart, Line, XAxis, YAxis } from "recharts"
+import { FileUp, Shuffle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart"
+import type { StressTestSystem } from "@/components/weather/WeatherStressTest"
+import { SAMPLE_GRID_SCHEDULE } from "@/constants/grid"
+import { WEATHER_SCENARIOS, WeatherScenarioId } from "@/constants/weather"
+import { useGridStore } from "@/store/gridStore"
+import { createBatterySpec } from "@/utils/simulation/battery"
+import { GRID_ACCEPTANCE, GridScheduleIssue, RandomGridSettings, runGridScenario } from "@/utils/simulation/grid"
+import {
+  DEFAULT_SOURCE_PRIORITY,
+  OUTPUT_PRIORITY_CODES,
+  OutputSourcePriority,
+  SourceTransferReason,
+} from "@/utils/simulation/source-priority"
+import { buildWeatherSeries, getWeatherScenario } from "@/utils/simulation/weather"
+import { useTranslation } from "@/hooks/useTranslation"
+import type { MessageKey } from "@/utils/i18n"
+
+const inputClassName = "bg-slate-700/50 border-slate-600 text-white placeholder:text-slate-400"
+
+const INVERTER_EFFICIENCY = 93
+const HOURS_PER_WEEK = 7 * 24
+
+const OUTPUT_PRIORITY_LABELS: Record<OutputSourcePriority, MessageKey> = {
+  utility_first: "gridTest.output.utility_first",
+  solar_utility_battery: "gridTest.output.solar_utility_battery",
+  solar_battery_utility: "gridTest.output.solar_battery_utility",
+}
+
+const TRANSFER_REASON_LABELS: Record<SourceTransferReason, MessageKey> = {
+  grid_lost: "gridTest.reason.grid_lost",
+  priority: "gridTest.reason.priority",
+  solar_available: "gridTest.reason.solar_available",
+  solar_short: "gridTest.reason.solar_short",
+  battery_low: "gridTest.reason.battery_low",
+  battery_recovered: "gridTest.reason.battery_recovered",
+}
+
+const MODE_LABELS: Record<"normal" | "pv" | "battery", MessageKey> = {
+  normal: "gridTest.mode.normal",
+  pv: "gridTest.mode.pv",
+  battery: "gridTest.mode.battery",
+}
+
+interface NumberFieldProps {
+  id: string
+  label: string
+  value: number
+  onChange: (value: number) => void
+  suffix: string
+  step?: number
+}
+
+function NumberField({ id, label, value, onChange, suffix, step = 1 }: NumberFieldProps) {
+  return (
+    <div>
+      <Label htmlFor={id} className="text-slate-300 text-sm">
+        {label}
+      </Label>
+      <div className="relative mt-1">
+        <Input
+          id={id}
+          type="number"
+          min={0}
+          step={step}
+          value={value}
+          onChange={(e) => onChange(Math.max(0, Number(e.target.value) || 0))}
+          className={`${inputClassName} pr-14`}
+        />
+        <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-slate-400">{suffix}</span>
+      </div>
+    </div>
+  )
+}
+
+const WEEKDAY_NAMES: MessageKey[] = [
+  "gridTest.weekday.mon",
+  "gridTest.weekday.tue",
+  "gridTest.weekday.wed",
+  "gridTest.weekday.thu",
+  "gridTest.weekday.fri",
+  "gridTest.weekday.sat",
+  "gridTest.weekday.sun",
+]
+
+const pad = (value: number) => value.toString().padStart(2, "0")
+
+export default function GridOutageReport({ initialSystem }: { initialSystem: StressTestSystem }) {
+  const grid = useGridStore()
+  const { t } = useTranslation()
+  const [scheduleDraft, setScheduleDraft] = useState(grid.scheduleText)
+  const [scheduleIssues, setScheduleIssues] = useState<GridScheduleIssue[]>([])
+  const [system, setSystem] = useState(initialSystem)
+  const [output, setOutput] = useState<OutputSourcePriority>("solar_utility_battery")
+  const [weatherId, setWeatherId] = useState<WeatherScenarioId>("clear_week")
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const chartConfig = {
+    coveredMinutes: { label: t("gridTest.outageCovered"), color: "#3DD56D" },
+    uncoveredMinutes: { label: t("gridTest.outageNotCovered"), color: "#f87171" },
+    batterySoc: { label: t("weatherTest.battery"), color: "#60a5fa" },
+  } satisfies ChartConfig
+
+  // Hours and times since the start of the grid's week, which begins on a Monday
+  const weekday = (day: number) => t(WEEKDAY_NAMES[day % 7])
+  const formatHour = (hour: number) => `${weekday(Math.floor(hour / 24))} ${pad(hour % 24)}:00`
+  const formatTime = (ms: number) => {
+    const minutes = Math.floor(ms / 60_000)
+    return `${weekday(Math.floor(minutes / 1440))} ${pad(Math.floor((minutes % 1440) / 60))}:${pad(minutes % 60)}`
+  }
+
+  // A lithium bank sized to the design, run through one week
+  const battery = useMemo(() => createBatterySpec("lithium", system.batteryKWh * 1000), [system.batteryKWh])
+  const weather = useMemo(() => {
+    // Scenarios shorter than the grid's week start over to fill it
+    const series = buildWeatherSeries(getWeatherScenario(weatherId))
+    return Array.from({ length: HOURS_PER_WEEK }, (_, hour) => ({ ...series[hour % series.length], hour }))
+  }, [weatherId])
+  const report = useMemo(
+    () =>
+      runGridScenario(grid.events, weather, {
+        pvRatedWatts: system.pvWp,
+        battery,
+        initialSoc: 100,
+        dailyLoadWh: system.dailyLoadKWh * 1000,
+        inverterRatedWatts: system.inverterKVA * 1000,
+        inverterEfficiency: INVERTER_EFFICIENCY,
+        sourcePriority: { ...DEFAULT_SOURCE_PRIORITY, output },
+      }),
+    [grid.events, weather, system, battery, output],
+  )
+  const chartData = report.hours.map((hour) => ({
+    ...hour,
+    uncoveredMinutes: hour.outageMinutes - hour.coveredMinutes,
+  }))
+  const coveredShare = report.outageHours > 0 ? report.coveredHours / report.outageHours : 1
+
+  const update = (changes: Partial<StressTestSystem>) => setSystem((current) => ({ ...current, ...changes }))
+  const updateRandom = (changes: Partial<RandomGridSettings>) => grid.setRandomSettings(changes)
+
+  const editSchedule = (text: string, name: string | null) => {
+    setScheduleDraft(text)
+    setScheduleIssues(grid.importSchedule(text, name))
+  }
+
+  const importFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (file) editSchedule(await file.text(), file.name)
+  }
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-5 gap-8">
+      {/* Inputs */}
+      <div className="lg:col-span-2 space-y-6">
+        <div className="bg-slate-800/30 backdrop-blur-sm rounded-lg border border-slate-700/50 p-6">
+          <div className="flex items-center justify-between mb-3">
+            <h3 className="text-lg font-semibold">{t("gridTest.calendar")}</h3>
+            <div className="flex gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                className="border-slate-600 bg-transparent text-white hover:bg-slate-800"
+                onClick={() => editSchedule(SAMPLE_GRID_SCHEDULE, null)}
+              >
+                {t("gridTest.example")}
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="border-slate-600 bg-transparent text-white hover:bg-slate-800"
+                onClick={() => fileInputRef.current?.click()}
+              >
+                <FileUp className="h-4 w-4 mr-1" />
+                {t("gridTest.import")}
+              </Button>
+              <input ref={fileInputRef} type="file" accept="text/plain,.txt" className="hidden" onChange={importFile} />
+            </div>
+          </div>
+          <Textarea
+            value={scheduleDraft}
+            onChange={(e) => editSchedule(e.target.value, grid.scheduleName)}
+            placeholder={"mon,wed,fri 18:00-22:00 outage\nsat 12:00-12:20 sag 175"}
+            rows={7}
+            spellCheck={false}
+            aria-label={t("gridTest.calendarLabel")}
+            className={`${inputClassName} font-mono text-xs`}
+          />
+          {scheduleIssues.length > 0 ? (
+            <ul className="mt-2 text-xs text-amber-400 space-y-1">
+              {scheduleIssues.map((issue) => (
+                <li key={issue.line}>
+                  {t("gridTest.issue", { line: issue.line, message: issue.message })}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="mt-2 text-xs text-slate-400">
+              {grid.scheduleName
+                ? t("gridTest.rulesFrom", { count: grid.schedule.length, name: grid.scheduleName })
+                : t("gridTest.rules", { count: grid.schedule.length })}{" "}
+              {t("gridTest.scheduleHelp")}
+            </p>
+          )}
+        </div>
+
+        <div className="bg-slate-800/30 backdrop-blur-sm rounded-lg border border-slate-700/50 p-6 grid grid-cols-2 gap-4">
+          <div className="col-span-2 flex items-center justify-between">
+            <h3 className="text-lg font-semibold">{t("gridTest.unplanned")}</h3>
+            <div className="flex items-center gap-2">
+              <Switch id="grid-random" checked={grid.randomEnabled} onCheckedChange={grid.setRandomEnabled} />
+              <Label htmlFor="grid-random" className="text-slate-300">
+                {t("gridTest.on")}
+              </Label>
+            </div>
+          </div>
+          <NumberField
+            id="grid-outages"
+            label={t("gridTest.outages")}
+            value={grid.random.outagesPerWeek}
+            onChange={(outagesPerWeek) => updateRandom({ outagesPerWeek })}
+            suffix={t("gridTest.perWeek")}
+          />
+          <NumberField
+            id="grid-outage-hours"
+            label={t("gridTest.typicalLength")}
+            value={grid.random.meanOutageHours}
+            onChange={(meanOutageHours) => updateRandom({ meanOutageHours })}
+            suffix={t("gridTest.hoursUnit")}
+            step={0.5}
+          />
+          <NumberField
+            id="grid-sags"
+            label={t("gridTest.voltageSags")}
+            value={grid.random.sagsPerWeek}
+            onChange={(sagsPerWeek) => updateRandom({ sagsPerWeek })}
+            suffix={t("gridTest.perWeek")}
+          />
+          <NumberField
+            id="grid-frequency"
+            label={t("gridTest.frequencySwings")}
+            value={grid.random.frequencyEventsPerWeek}
+            onChange={(frequencyEventsPerWeek) => updateRandom({ frequencyEventsPerWeek })}
+            suffix={t("gridTest.perWeek")}
+          />
+          <div className="col-span-2 flex items-center justify-between gap-4">
+            <p className="text-xs text-slate-400">
+              {t("gridTest.acceptance", {
+                voltage: GRID_ACCEPTANCE.minVoltage,
+                min: GRID_ACCEPTANCE.minFrequency,
+                max: GRID_ACCEPTANCE.maxFrequency,
+              })}
+            </p>
+            <Button
+              variant="outline"
+              size="sm"
+              className="border-slate-600 bg-transparent text-white hover:bg-slate-800 shrink-0"
+              onClick={grid.reseed}
+              disabled={!grid.randomEnabled}
+            >
+              <Shuffle className="h-4 w-4 mr-1" />
+              {t("gridTest.anotherWeek")}
+            </Button>
+          </div>
+        </div>
+
+        <div className="bg-slate-800/30 backdrop-blur-sm rounded-lg border border-slate-700/50 p-6 grid grid-cols-2 gap-4">
+          <h3 className="col-span-2 text-lg font-semibold">{t("weatherTest.system")}</h3>
+          <NumberField
+            id="grid-pv"
+            label={t("weatherTest.solarArray")}
+            value={system.pvWp}
+            onChange={(pvWp) => update({ pvWp })}
+            suffix="Wp"
+            step={50}
+          />
+          <NumberField
+            id="grid-battery"
+            label={t("weatherTest.batteryBank")}
+            value={system.batteryKWh}
+            onChange={(batteryKWh) => update({ batteryKWh })}
+            suffix="kWh"
+            step={0.5}
+          />
+          <NumberField
+            id="grid-load"
+            label={t("weatherTest.dailyUse")}
+            value={system.dailyLoadKWh}
+            onChange={(dailyLoadKWh) => update({ dailyLoadKWh })}
+            suffix="kWh"
+            step={0.1}
+          />
+          <NumberField
+            id="grid-inverter"
+            label={t("weatherTest.inverter")}
+            value={system.inverterKVA}
+            onChange={(inverterKVA) => update({ inverterKVA })}
+            suffix="kVA"
+            step={0.1}
+          />
+          <div className="col-span-2">
+            <Label className="text-slate-300 text-sm">{t("gridTest.outputPriority")}</Label>
+            <Select value={output} onValueChange={(value) => setOutput(value as OutputSourcePriority)}>
+              <SelectTrigger
+                className="mt-1 bg-slate-700/50 border-slate-600 text-white"
+                aria-label={t("gridTest.outputPriority")}
+              >
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-800 border-slate-700 text-white">
+                {(Object.keys(OUTPUT_PRIORITY_LABELS) as OutputSourcePriority[]).map((priority) => (
+                  <SelectItem key={priority} value={priority}>
+                    {OUTPUT_PRIORITY_CODES[priority]}: {t(OUTPUT_PRIORITY_LABELS[priority])}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="col-span-2">
+            <Label className="text-slate-300 text-sm">{t("weatherTest.weather")}</Label>
+            <Select value={weatherId} onValueChange={(value) => setWeatherId(value as WeatherScenarioId)}>
+              <SelectTrigger
+                className="mt-1 bg-slate-700/50 border-slate-600 text-white"
+                aria-label={t("weatherTest.weather")}
+              >
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-800 border-slate-700 text-white">
+                {WEATHER_SCENARIOS.map((option) => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {t(`weather.${option.id}.name`)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </div>
+
+      {/* Results */}
+      <div className="lg:col-span-3 space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {[
+            {
+              label: t("gridTest.hoursWithoutGrid"),
+              value: t("weatherTest.hours", { hours: report.outageHours.toFixed(1) }),
+              warn: false,
+            },
+            {
+              label: t("gridTest.outageHoursCovered"),
+              value: t("weatherTest.hours", { hours: report.coveredHours.toFixed(1) }),
+              warn: coveredShare < 1,
+            },
+            { label: t("gridTest.sourceTransfers"), value: String(report.transfers.length), warn: false },
+            {
+              label: t("gridTest.gridImport"),
+              value: `${(report.gridImportWh / 1000).toFixed(1)} kWh`,
+              warn: false,
+            },
+          ].map((item) => (
+            <div key={item.label} className="rounded-lg border border-slate-700/50 bg-slate-800/30 p-4">
+              <div className={`text-xl font-bold ${item.warn ? "text-amber-400" : "text-white"}`}>{item.value}</div>
+              <div className="text-sm text-slate-400">{item.label}</div>
+            </div>
+          ))}
+        </div>
+
+        <div className="bg-slate-800/30 backdrop-blur-sm rounded-lg border border-slate-700/50 p-6">
+          <div className="mb-4">
+            <h3 className="text-lg font-semibold">{t("weatherTest.hourByHour")}</h3>
+            <p className="text-sm text-slate-400">
+              {report.outageHours === 0
+                ? t("gridTest.neverFailed")
+                : coveredShare === 1
+                  ? t("gridTest.allCovered", { hours: report.outageHours.toFixed(1) })
+                  : t("gridTest.wentDark", {
+                      dark: (report.outageHours - report.coveredHours).toFixed(1),
+                      total: report.outageHours.toFixed(1),
+                      unserved: (report.unservedWh / 1000).toFixed(1),
+                    })}
+            </p>
+          </div>
+          <ChartContainer config={chartConfig} className="h-[320px] w-full aspect-auto">
+            <ComposedChart data={chartData} margin={{ left: 12, right: 12 }}>
+              <CartesianGrid vertical={false} stroke="#334155" />
+              <XAxis
+                dataKey="hour"
+                tickLine={false}
+                axisLine={false}
+                ticks={WEEKDAY_NAMES.map((_, day) => day * 24)}
+                tickFormatter={(hour: number) => weekday(hour / 24)}
+              />
+              <YAxis yAxisId="minutes" domain={[0, 60]} tickLine={false} axisLine={false} unit=" min" width={64} />
+              <YAxis yAxisId="soc" orientation="right" domain={[0, 100]} tickLine={false} axisLine={false} unit="%" />
+              <ChartTooltip
+                content={<ChartTooltipContent labelFormatter={(_, payload) => formatHour(payload[0]?.payload.hour)} />}
+              />
+              <Bar yAxisId="minutes" dataKey="coveredMinutes" stackId="outage" fill="var(--color-coveredMinutes)" />
+              <Bar yAxisId="minutes" dataKey="uncoveredMinutes" stackId="outage" fill="var(--color-uncoveredMinutes)" />
+              <Line yAxisId="soc" dataKey="batterySoc" stroke="var(--color-batterySoc)" strokeWidth={2} dot={false} />
+            </ComposedChart>
+          </ChartContainer>
+        </div>
+
+        <div className="bg-slate-800/30 backdrop-blur-sm rounded-lg border border-slate-700/50 p-6">
+          <h3 className="text-lg font-semibold mb-3">{t("gridTest.transferLog")}</h3>
+          {report.transfers.length === 0 ? (
+            <p className="text-sm text-slate-400">{t("gridTest.oneSource")}</p>
+          ) : (
+            <ul className="max-h-64 overflow-y-auto text-sm space-y-1 pr-1">
+              {report.transfers.map((transfer, index) => (
+                <li key={`${transfer.time}-${index}`} className="flex justify-between gap-4">
+                  <span>
+                    <span className="text-slate-400">{formatTime(transfer.time)}</span>{" "}
+                    {t(MODE_LABELS[transfer.from])} → {t(MODE_LABELS[transfer.to])}{" "}
+                    <span className="text-slate-400">({t(TRANSFER_REASON_LABELS[transfer.reason])})</span>
+                  </span>
+                  <span className={transfer.transferMs > 0 ? "text-amber-400" : "text-slate-500"}>
+                    {transfer.transferMs > 0 ? t("gridTest.break", { ms: transfer.transferMs }) : t("gridTest.noBreak")}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -1,6 +1,7 @@
 "use client"
 
 import { motion } from "framer-motion"
+import { DayNightOverlay } from "@/components/animations/background/DayNightOverlay"
 
 export default function ThreeDBackground() {
   return (
@@ -153,6 +154,9 @@ export default function ThreeDBackground() {
           }}
         />
       ))}
+
+      {/* Day and night follow the simulated clock */}
+      <DayNightOverlay maxDarkness={0.4} />
     </div>
   )
 } 
\ No newline at end of file
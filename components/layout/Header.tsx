@@ -5,6 +5,10 @@ import Link from "next/link"
 import Image from "next/image"
 import { useEnergySystemStore } from "@/store/energySystemStore"
 import { LEDTextDisplay } from "@/components/ui/LEDTextDisplay"
+import { useTranslation } from "@/hooks/useTranslation"
+import type { MessageKey } from "@/utils/i18n"
+
+const TICKER_MESSAGES: MessageKey[] = ["ticker.africa", "ticker.services", "ticker.carbon", "ticker.support"]
 
 interface HeaderProps {
   scrolled: boolean
@@ -12,6 +16,7 @@ interface HeaderProps {
 
 export default function Header({ scrolled }: HeaderProps) {
   const { switchActive } = useEnergySystemStore()
+  const { t } = useTranslation()
 
   return (
     <motion.header
@@ -93,14 +98,7 @@ export default function Header({ scrolled }: HeaderProps) {
 
         {/* LED Text Display - positioned in the highlighted area */}
         <div className="flex-1">
-          <LEDTextDisplay
-            messages={[
-              "POWERING SUSTAINABLE ENERGY SOLUTIONS ACROSS AFRICA",
-              "SOLAR INSTALLATIONS • ENERGY STORAGE • SMART GRIDS",
-              "REDUCING CARBON FOOTPRINT SINCE 2015",
-              "24/7 CUSTOMER SUPPORT: +251-911-123456",
-            ]}
-          />
+          <LEDTextDisplay messages={TICKER_MESSAGES.map((key) => t(key))} />
         </div>
       </div>
     </motion.header>
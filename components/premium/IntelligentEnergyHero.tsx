@@ -2,20 +2,48 @@
 
 import { motion } from "framer-motion"
 import TealEnergyBackground from "./TealEnergyBackground"
-import { useEffect, useState } from "react"
+import { useEffect } from "react"
 import { Zap } from "lucide-react"
+import { Slider } from "@/components/ui/slider"
+import { useEnergySystemStore } from "@/store/energySystemStore"
+import { useInverterSettingsStore } from "@/store/inverterSettingsStore"
+import { useDemoUrlState } from "@/hooks/useDemoUrlState"
+import { useTranslation } from "@/hooks/useTranslation"
+import { decodeDemoState } from "@/utils/demo-url-state"
+import type { InverterMode } from "@/components/static-nodes/inverter/types"
+
+// Sizing of the system pictured in the hero
+const RATED_OUTPUT_KW = 5
+const BATTERY_CAPACITY_KWH = 10
+
+const MODE_LABELS: Record<InverterMode, string> = {
+  normal: "GRID",
+  pv: "SOLAR",
+  battery: "BATTERY",
+}
 
 export default function IntelligentEnergyHero() {
-  const [isActive, setIsActive] = useState(false)
+  const { bulbActive: isActive, activateFullSystem, deactivateFullSystem } = useEnergySystemStore()
+  const { mode, batteryLevel, loadPercentage, setMode, setBatteryLevel, setLoadPercentage } =
+    useInverterSettingsStore()
+  useDemoUrlState()
+  const { t, tNode, formatNumber } = useTranslation()
+  const lcdNumber = (value: number, digits = 1) =>
+    formatNumber(value, { minimumFractionDigits: digits, maximumFractionDigits: digits })
+
+  const storedKwh = (batteryLevel / 100) * BATTERY_CAPACITY_KWH
+  const usageKw = (loadPercentage / 100) * RATED_OUTPUT_KW
 
-  // Auto-activate after 2 seconds
+  // Auto-activate after 2 seconds, unless the page was opened from a shared scenario
   useEffect(() => {
+    if (decodeDemoState(new URLSearchParams(window.location.search))) return
+
     const timer = setTimeout(() => {
-      setIsActive(true)
+      activateFullSystem()
     }, 2000)
 
     return () => clearTimeout(timer)
-  }, [])
+  }, [activateFullSystem])
 
   return (
     <div className="relative min-h-screen w-full overflow-hidden">
@@ -68,39 +96,39 @@ export default function IntelligentEnergyHero() {
               {/* Inverter Screen */}
               <div className="m-3 flex-1 bg-slate-900 rounded-md p-3 overflow-hidden">
                 <div className="text-xs text-teal-500 mb-1 flex justify-between">
-                  <span>GENERATION</span>
-                  <span>EFFICIENCY</span>
-                  <span>STATUS</span>
+                  <span>{tNode("GENERATION")}</span>
+                  <span>{tNode("EFFICIENCY")}</span>
+                  <span>{tNode("STATUS")}</span>
                 </div>
 
                 <div className="grid grid-cols-3 gap-2 text-center">
                   <div className="text-teal-400 text-sm">
-                    <div className="font-mono">10.1 kW</div>
-                    <div className="text-xs text-teal-600">CURRENT</div>
+                    <div className="font-mono">{lcdNumber(10.1)} kW</div>
+                    <div className="text-xs text-teal-600">{tNode("CURRENT")}</div>
                   </div>
                   <div className="text-teal-400 text-sm">
-                    <div className="font-mono">98.5%</div>
-                    <div className="text-xs text-teal-600">RATE</div>
+                    <div className="font-mono">{lcdNumber(98.5)}%</div>
+                    <div className="text-xs text-teal-600">{tNode("RATE")}</div>
                   </div>
                   <div className="text-teal-400 text-sm">
-                    <div className="font-mono">ACTIVE</div>
-                    <div className="text-xs text-teal-600">SYSTEM</div>
+                    <div className="font-mono">{tNode(isActive ? MODE_LABELS[mode] : "STANDBY")}</div>
+                    <div className="text-xs text-teal-600">{tNode("SYSTEM")}</div>
                   </div>
                 </div>
 
                 <div className="mt-3 border-t border-teal-900/50 pt-2">
                   <div className="grid grid-cols-3 gap-2 text-center">
                     <div className="text-teal-400 text-sm">
-                      <div className="font-mono">8.2kWh</div>
-                      <div className="text-xs text-teal-600">STORED</div>
+                      <div className="font-mono">{lcdNumber(storedKwh)}kWh</div>
+                      <div className="text-xs text-teal-600">{tNode("STORED")}</div>
                     </div>
                     <div className="text-teal-400 text-sm">
-                      <div className="font-mono">3.7kW</div>
-                      <div className="text-xs text-teal-600">USAGE</div>
+                      <div className="font-mono">{lcdNumber(usageKw)}kW</div>
+                      <div className="text-xs text-teal-600">{tNode("USAGE")}</div>
                     </div>
                     <div className="text-teal-400 text-sm">
-                      <div className="font-mono">13.4h</div>
-                      <div className="text-xs text-teal-600">BACKUP</div>
+                      <div className="font-mono">{usageKw > 0 ? `${lcdNumber(storedKwh / usageKw)}h` : "--"}</div>
+                      <div className="text-xs text-teal-600">{tNode("BACKUP")}</div>
                     </div>
                   </div>
                 </div>
@@ -108,23 +136,23 @@ export default function IntelligentEnergyHero() {
                 <div className="mt-3 border-t border-teal-900/50 pt-2">
                   <div className="grid grid-cols-3 gap-2 text-center">
                     <div className="text-teal-400 text-sm">
-                      <div className="font-mono">31.5 kWh</div>
-                      <div className="text-xs text-teal-600">TODAY</div>
+                      <div className="font-mono">{lcdNumber(31.5)} kWh</div>
+                      <div className="text-xs text-teal-600">{tNode("TODAY")}</div>
                     </div>
                     <div className="text-teal-400 text-sm">
-                      <div className="font-mono">0.0</div>
-                      <div className="text-xs text-teal-600">ALERTS</div>
+                      <div className="font-mono">{lcdNumber(0)}</div>
+                      <div className="text-xs text-teal-600">{tNode("ALERTS")}</div>
                     </div>
                     <div className="text-teal-400 text-sm">
-                      <div className="font-mono">13.5°C</div>
-                      <div className="text-xs text-teal-600">TEMP</div>
+                      <div className="font-mono">{lcdNumber(13.5)}°C</div>
+                      <div className="text-xs text-teal-600">{tNode("TEMP")}</div>
                     </div>
                   </div>
                 </div>
               </div>
 
               {/* Inverter Label */}
-              <div className="text-center py-2 text-teal-400 font-medium tracking-widest">INVERTER</div>
+              <div className="text-center py-2 text-teal-400 font-medium tracking-widest">{tNode("INVERTER")}</div>
             </div>
           </motion.div>
 
@@ -137,7 +165,7 @@ export default function IntelligentEnergyHero() {
           >
             <div
               className={`w-[80px] h-[80px] rounded-md bg-slate-800/80 border border-teal-900 flex items-center justify-center cursor-pointer transition-all duration-300 ${isActive ? "shadow-[0_0_15px_rgba(0,255,200,0.5)]" : ""}`}
-              onClick={() => setIsActive(!isActive)}
+              onClick={() => (isActive ? deactivateFullSystem() : activateFullSystem())}
             >
               <div
                 className={`w-12 h-12 rounded-full flex items-center justify-center transition-all duration-500 ${isActive ? "bg-teal-500/20" : "bg-slate-700"}`}
@@ -298,6 +326,49 @@ export default function IntelligentEnergyHero() {
           </svg>
         </div>
 
+        {/* Scenario Controls */}
+        <motion.div
+          className="max-w-3xl mx-auto mt-12 grid gap-6 md:grid-cols-3 text-sm text-teal-100/80"
+          initial={{ opacity: 0, y: 30 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 2.5, duration: 0.8 }}
+        >
+          <div>
+            <div className="mb-2 text-teal-400">{t("hero.inverterMode")}</div>
+            <div className="flex gap-2">
+              {(Object.keys(MODE_LABELS) as InverterMode[]).map((option) => (
+                <button
+                  key={option}
+                  className={`px-3 py-1 rounded-full border text-xs transition-all duration-300 ${mode === option ? "bg-teal-500/30 border-teal-400 text-teal-100" : "bg-teal-900/30 border-teal-700/50 text-teal-400 hover:bg-teal-800/40"}`}
+                  onClick={() => setMode(option)}
+                >
+                  {tNode(MODE_LABELS[option])}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div>
+            <div className="mb-2 text-teal-400">{t("hero.battery", { level: batteryLevel })}</div>
+            <Slider
+              value={[batteryLevel]}
+              min={0}
+              max={100}
+              step={1}
+              onValueChange={([value]) => setBatteryLevel(value)}
+            />
+          </div>
+          <div>
+            <div className="mb-2 text-teal-400">{t("hero.load", { level: loadPercentage })}</div>
+            <Slider
+              value={[loadPercentage]}
+              min={0}
+              max={100}
+              step={1}
+              onValueChange={([value]) => setLoadPercentage(value)}
+            />
+          </div>
+        </motion.div>
+
         {/* Feature Buttons */}
         <motion.div
           className="flex flex-wrap justify-center gap-4 mt-16"
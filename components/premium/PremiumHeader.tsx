@@ -6,6 +6,17 @@ import Image from "next/image"
 import { useEnergySystemStore } from "@/store/energySystemStore"
 import { useState, useEffect } from "react"
 import { LEDTextDisplay } from "@/components/ui/LEDTextDisplay"
+import { useTranslation } from "@/hooks/useTranslation"
+import type { MessageKey } from "@/utils/i18n"
+
+// News ticker messages
+const TICKER_MESSAGES: MessageKey[] = [
+  "ticker.welcome",
+  "ticker.tagline",
+  "ticker.smartGrid",
+  "ticker.innovation",
+  "ticker.monitoring",
+]
 
 interface PremiumHeaderProps {
   scrolled: boolean
@@ -14,6 +25,7 @@ interface PremiumHeaderProps {
 export default function PremiumHeader({ scrolled }: PremiumHeaderProps) {
   const { switchActive } = useEnergySystemStore()
   const [energyLevel, setEnergyLevel] = useState(0)
+  const { t } = useTranslation()
 
   // Animate energy level
   useEffect(() => {
@@ -29,14 +41,7 @@ export default function PremiumHeader({ scrolled }: PremiumHeaderProps) {
     return () => clearInterval(interval)
   }, [switchActive])
 
-  // News ticker messages
-  const tickerMessages = [
-    "Welcome to GREAN WORLD Energy Technology",
-    "Sustainable energy solutions for a greener future",
-    "Smart grid technology for efficient power management",
-    "Reducing carbon footprint with innovative energy systems",
-    "24/7 monitoring and support for all energy solutions",
-  ]
+  const tickerMessages = TICKER_MESSAGES.map((key) => t(key))
 
   return (
     <AnimatePresence>
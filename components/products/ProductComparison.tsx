@@ -0,0 +1,156 @@
+"use client"
+
+import { Fragment, useState } from "react"
+import Link from "next/link"
+import { Check, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import ProductPreview from "./ProductPreview"
+import { cn } from "@/lib/utils"
+import { MAX_COMPARED_PRODUCTS, MIN_COMPARED_PRODUCTS, buildComparison } from "@/utils/compare"
+import { useCurrency } from "@/hooks/useCurrency"
+import { useTranslation } from "@/hooks/useTranslation"
+import type { Product } from "@/types/product"
+
+interface ProductComparisonProps {
+  // Every product that can be picked
+  products: Product[]
+  selectedIds: string[]
+  onToggle: (productId: string) => void
+}
+
+export default function ProductComparison({ products, selectedIds, onToggle }: ProductComparisonProps) {
+  const [differencesOnly, setDifferencesOnly] = useState(false)
+
+  const selected = selectedIds
+    .map((id) => products.find((product) => product.id === id))
+    .filter((product): product is Product => Boolean(product))
+  const { formatPrice } = useCurrency()
+  const { t } = useTranslation()
+  const sections = buildComparison(selected, formatPrice, {
+    overview: t("compare.overview"),
+    performance: t("compare.performance"),
+    specifications: t("compare.specifications"),
+    price: t("compare.price"),
+    rating: t("compare.rating"),
+    tags: t("compare.tags"),
+  })
+  const isFull = selected.length >= MAX_COMPARED_PRODUCTS
+
+  return (
+    <div>
+      {/* Product picker */}
+      <div className="flex flex-wrap justify-center gap-2 mb-8">
+        {products.map((product) => {
+          const isSelected = selectedIds.includes(product.id)
+          return (
+            <Button
+              key={product.id}
+              variant="outline"
+              size="sm"
+              disabled={!isSelected && isFull}
+              onClick={() => onToggle(product.id)}
+              aria-pressed={isSelected}
+              className={cn(
+                "border-slate-600 bg-transparent text-white hover:bg-slate-800",
+                isSelected && "border-[#3DD56D] bg-[#3DD56D]/10 text-[#3DD56D]",
+              )}
+            >
+              {isSelected && <Check className="h-3 w-3 mr-1" />}
+              {product.name}
+            </Button>
+          )
+        })}
+      </div>
+
+      {selected.length < MIN_COMPARED_PRODUCTS ? (
+        <p className="text-center text-slate-400 py-12">
+          {t("compare.pickRange", { min: MIN_COMPARED_PRODUCTS, max: MAX_COMPARED_PRODUCTS })}
+        </p>
+      ) : (
+        <>
+          <div className="flex items-center justify-end gap-2 mb-4">
+            <Switch id="differences-only" checked={differencesOnly} onCheckedChange={setDifferencesOnly} />
+            <Label htmlFor="differences-only" className="text-slate-300">
+              {t("compare.differencesOnly")}
+            </Label>
+          </div>
+
+          <Table className="min-w-[720px] table-fixed">
+            <TableHeader>
+              <TableRow className="border-slate-700 hover:bg-transparent">
+                <TableHead className="w-40" />
+                {selected.map((product) => (
+                  <TableHead key={product.id} className="text-center text-white align-top py-4">
+                    <div className="relative h-36 rounded-lg bg-gradient-to-br from-slate-800/50 to-slate-900/50 overflow-hidden mb-3">
+                      <div className="absolute inset-0 flex items-center justify-center">
+                        <ProductPreview preview={product.preview} active />
+                      </div>
+                      <button
+                        className="absolute top-2 right-2 text-slate-400 hover:text-white"
+                        onClick={() => onToggle(product.id)}
+                        aria-label={t("compare.remove", { name: product.name })}
+                      >
+                        <X className="h-4 w-4" />
+                      </button>
+                    </div>
+                    <Link href={`/products/${product.id}`} className="font-semibold hover:text-[#3DD56D]">
+                      {product.name}
+                    </Link>
+                  </TableHead>
+                ))}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sections.map((section) => {
+                const rows = differencesOnly ? section.rows.filter((row) => row.differs) : section.rows
+                if (rows.length === 0) return null
+                return (
+                  <Fragment key={section.title}>
+                    <TableRow className="border-slate-700 hover:bg-transparent">
+                      <TableCell
+                        colSpan={selected.length + 1}
+                        className="pt-6 text-xs font-semibold uppercase tracking-wider text-[#3DD56D]"
+                      >
+                        {section.title}
+                      </TableCell>
+                    </TableRow>
+                    {rows.map((row) => (
+                      <TableRow
+                        key={row.label}
+                        className={cn("border-slate-700/50", row.differs ? "bg-amber-500/5" : "hover:bg-transparent")}
+                      >
+                        <TableCell className="text-slate-300">
+                          {row.differs && <span className="inline-block h-2 w-2 rounded-full bg-amber-400 mr-2" />}
+                          {row.label}
+                        </TableCell>
+                        {row.values.map((value, index) => (
+                          <TableCell
+                            key={selected[index].id}
+                            className={cn(
+                              "text-center",
+                              value === null ? "text-slate-500" : "text-white",
+                              row.best === index && "text-[#3DD56D] font-semibold",
+                            )}
+                          >
+                            {value ?? "—"}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </Fragment>
+                )
+              })}
+            </TableBody>
+          </Table>
+          <p className="mt-4 text-xs text-slate-400">
+            <span className="inline-block h-2 w-2 rounded-full bg-amber-400 mr-2" />
+            {t("compare.legend")}
+          </p>
+        </>
+      )}
+    </div>
+  )
+}
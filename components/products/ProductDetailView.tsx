@@ -0,0 +1,200 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { motion } from "framer-motion"
+import { ArrowLeft, FileText, Power, Star } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Input } from "@/components/ui/input"
+import Navigation from "@/components/shared/navigation"
+import { Card3DEffect, GreenBackgroundAnimation } from "@/components/animations/shared-animations"
+import ProductPreview from "./ProductPreview"
+import QuoteCart from "./QuoteCart"
+import { useQuoteCartStore } from "@/store/quoteCartStore"
+import { useCurrency } from "@/hooks/useCurrency"
+import { useTranslation } from "@/hooks/useTranslation"
+import { MAX_QUOTE_QUANTITY } from "@/utils/quote"
+import type { Product } from "@/types/product"
+
+interface ProductDetailViewProps {
+  product: Product
+  categoryName: string
+  relatedProducts: Product[]
+  // The whole catalog, for pricing the quote cart
+  products: Product[]
+}
+
+export default function ProductDetailView({
+  product,
+  categoryName,
+  relatedProducts,
+  products,
+}: ProductDetailViewProps) {
+  const [previewOn, setPreviewOn] = useState(true)
+  const [quantity, setQuantity] = useState(1)
+  const addToQuote = useQuoteCartStore((state) => state.addItem)
+  const [hoveredProduct, setHoveredProduct] = useState<string | null>(null)
+  const { formatPrice } = useCurrency()
+  const { t } = useTranslation()
+
+  return (
+    <>
+      <Navigation />
+      <div className="min-h-screen bg-[#0a1628] text-white custom-scrollbar overflow-y-auto relative">
+        <GreenBackgroundAnimation intensity="low" theme="products" />
+
+        <section className="relative py-20 px-4 sm:px-6 mt-16">
+          <div className="max-w-7xl mx-auto relative z-10">
+            <Link href="/products" className="inline-flex items-center text-slate-300 hover:text-[#3DD56D] mb-8">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              {t("products.backToAll")}
+            </Link>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-12">
+              {/* Live component preview */}
+              <motion.div
+                initial={{ opacity: 0, x: -20 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{ duration: 0.5 }}
+                className="relative h-[420px] rounded-lg border border-slate-700/50 bg-gradient-to-br from-slate-800/50 to-slate-900/50 overflow-hidden"
+              >
+                <div className="absolute inset-0 flex items-center justify-center">
+                  <div className="transform scale-150">
+                    <ProductPreview preview={product.preview} active={previewOn} />
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="absolute bottom-4 right-4 border-slate-600 bg-slate-900/70 text-white hover:bg-slate-800"
+                  onClick={() => setPreviewOn((on) => !on)}
+                >
+                  <Power className={`h-4 w-4 mr-2 ${previewOn ? "text-[#3DD56D]" : "text-slate-400"}`} />
+                  {previewOn ? t("products.turnOff") : t("products.turnOn")}
+                </Button>
+              </motion.div>
+
+              {/* Summary */}
+              <motion.div
+                initial={{ opacity: 0, x: 20 }}
+                animate={{ opacity: 1, x: 0 }}
+                transition={{ duration: 0.5 }}
+              >
+                <p className="text-[#3DD56D] font-medium mb-2">{categoryName}</p>
+                <h1 className="text-4xl font-bold mb-4">{product.name}</h1>
+                <div className="flex items-center gap-4 mb-6">
+                  <div className="flex items-baseline gap-2">
+                    <span className="text-3xl font-bold">{formatPrice(product.price)}</span>
+                    {product.oldPrice && (
+                      <span className="text-slate-400 line-through">{formatPrice(product.oldPrice)}</span>
+                    )}
+                  </div>
+                  <div className="flex items-center">
+                    <Star className="w-4 h-4 text-yellow-400 mr-1" />
+                    <span className="text-slate-300">{product.rating}</span>
+                  </div>
+                </div>
+                <p className="text-slate-300 text-lg mb-6">{product.description}</p>
+                <div className="flex flex-wrap gap-2 mb-8">
+                  {product.tags.map((tag) => (
+                    <Badge key={tag} variant="outline" className="bg-[#3DD56D]/10 text-[#3DD56D] border-[#3DD56D]/20">
+                      {tag}
+                    </Badge>
+                  ))}
+                </div>
+
+                <div className="flex items-center gap-3 mb-8">
+                  <Input
+                    type="number"
+                    min={1}
+                    max={MAX_QUOTE_QUANTITY}
+                    value={quantity}
+                    onChange={(e) =>
+                      setQuantity(Math.max(1, Math.min(MAX_QUOTE_QUANTITY, Math.round(Number(e.target.value)) || 1)))
+                    }
+                    className="w-20 bg-slate-700/50 border-slate-600 text-white"
+                    aria-label={t("products.quantity")}
+                  />
+                  <Button
+                    className="bg-[#3DD56D] hover:bg-[#2bb757] text-white"
+                    onClick={() => addToQuote(product.id, quantity)}
+                  >
+                    <FileText className="h-4 w-4 mr-2" />
+                    {t("products.addToQuoteButton")}
+                  </Button>
+                </div>
+
+                {product.metrics && product.metrics.length > 0 && (
+                  <div className="grid grid-cols-3 gap-4 mb-8">
+                    {product.metrics.map((metric) => (
+                      <div
+                        key={metric.label}
+                        className="bg-slate-800/30 backdrop-blur-sm rounded-lg border border-slate-700/50 p-4 text-center"
+                      >
+                        <div className="text-2xl font-bold text-white">
+                          {metric.value}
+                          {metric.unit && <span className="text-sm text-slate-400 ml-1">{metric.unit}</span>}
+                        </div>
+                        <div className="text-xs text-slate-400 mt-1">{metric.label}</div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {product.specifications && product.specifications.length > 0 && (
+                  <div>
+                    <h2 className="text-xl font-semibold mb-4">{t("products.specifications")}</h2>
+                    <table className="w-full border-collapse">
+                      <tbody>
+                        {product.specifications.map((spec) => (
+                          <tr key={spec.label}>
+                            <td className="py-3 pr-4 text-slate-400 border-b border-slate-700/50">{spec.label}</td>
+                            <td className="py-3 text-white border-b border-slate-700/50">{spec.value}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </motion.div>
+            </div>
+          </div>
+        </section>
+
+        {relatedProducts.length > 0 && (
+          <section className="py-16 px-4 sm:px-6 relative">
+            <div className="max-w-7xl mx-auto">
+              <h2 className="text-3xl font-bold mb-8">{t("products.related")}</h2>
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-8">
+                {relatedProducts.map((related) => (
+                  <Link
+                    key={related.id}
+                    href={`/products/${related.id}`}
+                    onMouseEnter={() => setHoveredProduct(related.id)}
+                    onMouseLeave={() => setHoveredProduct(null)}
+                  >
+                    <Card3DEffect depth="low">
+                      <div className="bg-slate-800/30 backdrop-blur-sm rounded-lg border border-slate-700/50 overflow-hidden h-full hover:border-[#3DD56D]/50 transition-colors duration-300">
+                        <div className="h-40 bg-gradient-to-br from-slate-800/50 to-slate-900/50 relative overflow-hidden">
+                          <div className="absolute inset-0 flex items-center justify-center">
+                            <ProductPreview preview={related.preview} active={hoveredProduct === related.id} />
+                          </div>
+                        </div>
+                        <div className="p-6 flex justify-between items-start">
+                          <h3 className="text-lg font-semibold text-white">{related.name}</h3>
+                          <span className="text-white font-bold">{formatPrice(related.price)}</span>
+                        </div>
+                      </div>
+                    </Card3DEffect>
+                  </Link>
+                ))}
+              </div>
+            </div>
+          </section>
+        )}
+      </div>
+      <QuoteCart products={products} />
+    </>
+  )
+}
@@ -0,0 +1,120 @@
+"use client"
+
+import { Star } from "lucide-react"
+import { Slider } from "@/components/ui/slider"
+import { Switch } from "@/components/ui/switch"
+import { Label } from "@/components/ui/label"
+import { cn } from "@/lib/utils"
+import { useTranslation } from "@/hooks/useTranslation"
+import { useCurrency } from "@/hooks/useCurrency"
+import type { ProductFilters } from "@/utils/product-search"
+
+interface ProductFacetsProps {
+  filters: ProductFilters
+  onChange: (changes: Partial<ProductFilters>) => void
+  // Lowest and highest catalog price, in the catalog currency: the slider's range
+  priceRange: [number, number]
+  tags: string[]
+}
+
+const RATING_STEPS = [0, 3, 4, 4.5]
+
+export default function ProductFacets({ filters, onChange, priceRange, tags }: ProductFacetsProps) {
+  const { t, formatNumber } = useTranslation()
+  const { formatPrice } = useCurrency()
+  const [lowest, highest] = priceRange
+  // Filters keep catalog prices so shared links work in any currency; only the labels convert
+  const selectedPrice: [number, number] = [filters.minPrice ?? lowest, filters.maxPrice ?? highest]
+
+  const toggleTag = (tag: string) =>
+    onChange({
+      tags: filters.tags.includes(tag) ? filters.tags.filter((selected) => selected !== tag) : [...filters.tags, tag],
+    })
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 rounded-lg border border-slate-700/50 bg-slate-800/30 backdrop-blur-sm p-6 mb-8">
+      {/* Price range */}
+      <div>
+        <div className="flex justify-between text-sm mb-3">
+          <span className="text-slate-300">{t("facets.price")}</span>
+          <span className="text-white">
+            {formatPrice(selectedPrice[0], { maximumFractionDigits: 0 })} –{" "}
+            {formatPrice(selectedPrice[1], { maximumFractionDigits: 0 })}
+          </span>
+        </div>
+        <Slider
+          min={lowest}
+          max={highest}
+          step={1}
+          minStepsBetweenThumbs={1}
+          value={selectedPrice}
+          // Ends dragged back to the catalog bounds count as no limit
+          onValueChange={([min, max]) =>
+            onChange({ minPrice: min > lowest ? min : null, maxPrice: max < highest ? max : null })
+          }
+          aria-label={t("facets.priceRange")}
+          valueText={(price) => formatPrice(price, { maximumFractionDigits: 0 })}
+        />
+      </div>
+
+      {/* Minimum rating */}
+      <div>
+        <span className="block text-sm text-slate-300 mb-3">{t("facets.rating")}</span>
+        <div className="flex flex-wrap gap-2">
+          {RATING_STEPS.map((rating) => (
+            <button
+              key={rating}
+              onClick={() => onChange({ minRating: rating })}
+              aria-pressed={filters.minRating === rating}
+              className={cn(
+                "flex items-center rounded-full border px-3 py-1 text-xs transition-colors",
+                filters.minRating === rating
+                  ? "border-[#3DD56D] bg-[#3DD56D]/10 text-[#3DD56D]"
+                  : "border-slate-600 text-slate-300 hover:border-slate-400",
+              )}
+            >
+              {rating === 0 ? (
+                t("facets.any")
+              ) : (
+                <>
+                  <Star className="h-3 w-3 mr-1 text-yellow-400" />
+                  {formatNumber(rating)}+
+                </>
+              )}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Tags */}
+      <div>
+        <span className="block text-sm text-slate-300 mb-3">{t("facets.features")}</span>
+        <div className="flex flex-wrap gap-2">
+          {tags.map((tag) => (
+            <button
+              key={tag}
+              onClick={() => toggleTag(tag)}
+              aria-pressed={filters.tags.includes(tag)}
+              className={cn(
+                "rounded-full border px-3 py-1 text-xs transition-colors",
+                filters.tags.includes(tag)
+                  ? "border-[#3DD56D] bg-[#3DD56D]/10 text-[#3DD56D]"
+                  : "border-slate-600 text-slate-300 hover:border-slate-400",
+              )}
+            >
+              {tag}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* On sale */}
+      <div className="flex items-center gap-3">
+        <Switch id="on-sale" checked={filters.onSale} onCheckedChange={(onSale) => onChange({ onSale })} />
+        <Label htmlFor="on-sale" className="text-slate-300">
+          {t("facets.onSale")}
+        </Label>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,110 @@
+"use client"
+
+import { Flame } from "lucide-react"
+import StaticSolarPanelNode from "@/components/static-nodes/static-solar-panel-node"
+import StaticInverterNode from "@/components/static-nodes/static-inverter-node"
+import StaticBatteryNode from "@/components/static-nodes/static-battery-node"
+import StaticAccessoryNode from "@/components/static-nodes/static-accessory-node"
+import { useTranslation } from "@/hooks/useTranslation"
+import type { ProductPreview as ProductPreviewConfig } from "@/types/product"
+
+interface ProductPreviewProps {
+  preview: ProductPreviewConfig
+  // Hovered or otherwise highlighted previews show the product switched on
+  active: boolean
+}
+
+// Center position for all components
+const position = { x: 0, y: 0 }
+
+export default function ProductPreview({ preview, active }: ProductPreviewProps) {
+  const { tNode } = useTranslation()
+
+  switch (preview.component) {
+    case "solar-panel":
+      return (
+        <div className="flex items-center justify-center w-full h-full">
+          <div className="transform scale-75">
+            <StaticSolarPanelNode
+              position={position}
+              scale={preview.scale || 0.5}
+              panelOn={active}
+              sunIntensity={active ? 80 : 50}
+              ratedPower={preview.ratedPower}
+            />
+          </div>
+        </div>
+      )
+    case "inverter":
+      return (
+        <div className="flex items-center justify-center w-full h-full">
+          <div className="transform scale-75">
+            <StaticInverterNode
+              position={position}
+              scale={0.6}
+              inverterOn={active}
+              onInverterChange={() => {}}
+              t={tNode}
+            />
+          </div>
+        </div>
+      )
+    case "battery":
+      return (
+        <div className="flex items-center justify-center w-full h-full">
+          <div className="transform scale-75">
+            <StaticBatteryNode
+              position={position}
+              scale={0.5}
+              batteryOn={active}
+              isCharging={active}
+              type={preview.type}
+            />
+          </div>
+        </div>
+      )
+    case "accessory":
+      return (
+        <div className="flex items-center justify-center w-full h-full">
+          <div className="transform scale-75">
+            <StaticAccessoryNode position={position} scale={0.6} type={preview.type} showDetails={active} />
+          </div>
+        </div>
+      )
+    case "appliance":
+      return (
+        <div className="flex items-center justify-center w-full h-full">
+          <div className="transform scale-75">
+            {preview.type === "stove" ? (
+              <div className="relative">
+                <div
+                  className={`w-32 h-32 rounded-full ${active ? "bg-orange-600/30" : "bg-gray-700/30"} flex items-center justify-center`}
+                >
+                  <Flame className={`h-16 w-16 ${active ? "text-orange-500" : "text-gray-500"}`} />
+                </div>
+                <div className="absolute -bottom-2 left-1/2 transform -translate-x-1/2 w-40 h-8 bg-gray-800 rounded-lg"></div>
+              </div>
+            ) : preview.type === "ethanol" ? (
+              <div className="relative">
+                <div
+                  className={`w-32 h-20 rounded-lg ${active ? "bg-blue-600/30" : "bg-gray-700/30"} flex items-center justify-center`}
+                >
+                  <div className="absolute top-0 left-1/2 transform -translate-x-1/2 w-16 h-4 bg-gray-600 rounded-t-lg"></div>
+                  <Flame className={`h-12 w-12 ${active ? "text-blue-400" : "text-gray-500"}`} />
+                </div>
+              </div>
+            ) : (
+              <div className="relative">
+                <div
+                  className={`w-20 h-32 rounded-lg ${active ? "bg-green-600/30" : "bg-gray-700/30"} flex items-center justify-center`}
+                >
+                  <div className="absolute top-0 left-1/2 transform -translate-x-1/2 w-8 h-6 bg-gray-600 rounded-t-lg"></div>
+                  <div className={`w-16 h-24 rounded-lg ${active ? "bg-green-500/50" : "bg-gray-600/50"}`}></div>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )
+  }
+}
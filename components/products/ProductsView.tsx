@@ -0,0 +1,670 @@
+"use client"
+
+import { useRef } from "react"
+import { useState, useEffect } from "react"
+import { motion } from "framer-motion"
+import Link from "next/link"
+import {
+  GreenBackgroundAnimation,
+  ParticleWaveAnimation,
+  Card3DEffect,
+  AnimatedBlobBackground,
+  TypingTextAnimation,
+} from "@/components/animations/shared-animations"
+import { SunMedium, ArrowRight, Search, X, Filter, Flame, Home, Star, Battery, Wrench, Plus, GitCompare } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import Navigation from "@/components/shared/navigation"
+import { FloatingIconAnimation } from "@/components/animations/shared-animations"
+import ProductPreview from "./ProductPreview"
+import QuoteCart from "./QuoteCart"
+import ProductComparison from "./ProductComparison"
+import ProductFacets from "./ProductFacets"
+import { useQuoteCartStore } from "@/store/quoteCartStore"
+import { DEFAULT_COMPARED_PRODUCT_IDS } from "@/constants/products"
+import { MAX_COMPARED_PRODUCTS } from "@/utils/compare"
+import { useProductSearchParams } from "@/hooks/useProductSearchParams"
+import { useTranslation } from "@/hooks/useTranslation"
+import { useCurrency } from "@/hooks/useCurrency"
+import {
+  PRODUCT_SORT_OPTIONS,
+  ProductSort,
+  collectTags,
+  countActiveFilters,
+  filterProducts,
+  priceBounds,
+} from "@/utils/product-search"
+import { cn } from "@/lib/utils"
+import type { ProductCatalog } from "@/types/product"
+
+// The filter value that shows every category
+const ALL_CATEGORIES_ID = "all"
+
+export default function ProductsView({ catalog }: { catalog: ProductCatalog }) {
+  const [isVisible, setIsVisible] = useState(false)
+  const { filters, updateFilters, resetFilters } = useProductSearchParams()
+  const { t } = useTranslation()
+  const { formatPrice } = useCurrency()
+  const [showFilters, setShowFilters] = useState(false)
+  const [hoveredProduct, setHoveredProduct] = useState<string | null>(null)
+  const productRefs = useRef<{ [key: string]: HTMLDivElement | null }>({})
+  const addToQuote = useQuoteCartStore((state) => state.addItem)
+  const [comparedIds, setComparedIds] = useState(DEFAULT_COMPARED_PRODUCT_IDS)
+
+  const toggleCompared = (productId: string) =>
+    setComparedIds((ids) =>
+      ids.includes(productId)
+        ? ids.filter((id) => id !== productId)
+        : ids.length < MAX_COMPARED_PRODUCTS
+          ? [...ids, productId]
+          : ids,
+    )
+
+  useEffect(() => {
+    setIsVisible(true)
+  }, [])
+
+  const fadeIn = {
+    hidden: { opacity: 0, y: 20 },
+    visible: { opacity: 1, y: 0 },
+  }
+
+  const { products } = catalog
+  const categories = [{ id: ALL_CATEGORIES_ID, name: t("products.all") }, ...catalog.categories]
+  const categoryName = (id: string) => categories.find((category) => category.id === id)?.name ?? id
+
+  const filteredProducts = filterProducts(products, filters)
+  const activeFilterCount = countActiveFilters(filters)
+
+  return (
+    <>
+      <Navigation />
+      <div className="min-h-screen bg-[#0a1628] text-white custom-scrollbar overflow-y-auto relative">
+        {/* Animated Background */}
+        <GreenBackgroundAnimation intensity="low" theme="products" />
+
+        {/* Floating Icons */}
+        <FloatingIconAnimation icon={<SunMedium />} delay={0} />
+        <FloatingIconAnimation icon={<Flame />} delay={2} />
+        <FloatingIconAnimation icon={<Home />} delay={4} />
+
+        {/* Products Hero Section */}
+        <section className="relative py-20 px-4 sm:px-6 overflow-hidden mt-16">
+          {/* Add animated blob background */}
+          <AnimatedBlobBackground color="#4ade80" opacity={0.05} count={3} speed="slow" />
+
+          <div className="max-w-7xl mx-auto relative z-10">
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.7 }}
+              className="text-center max-w-3xl mx-auto"
+            >
+              <motion.div
+                className="inline-flex items-center rounded-full px-3 py-1 text-xs font-medium mb-6 bg-[#3DD56D]/20 text-[#3DD56D] border border-[#3DD56D]/20"
+                initial={{ opacity: 0, y: -20 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ duration: 0.7, delay: 0.2 }}
+              >
+                <motion.span
+                  animate={{
+                    scale: [1, 1.1, 1],
+                  }}
+                  transition={{ duration: 2, repeat: Number.POSITIVE_INFINITY }}
+                >
+                  Clean Energy Solutions
+                </motion.span>
+              </motion.div>
+
+              <h1 className="text-4xl md:text-5xl lg:text-6xl font-bold mb-6 leading-tight">
+                <TypingTextAnimation text="Explore Our Products" speed="medium" className="text-white" />
+              </h1>
+
+              <motion.p
+                className="text-slate-300 text-lg mb-8"
+                initial={{ opacity: 0 }}
+                animate={{ opacity: 1 }}
+                transition={{ duration: 1, delay: 0.8 }}
+              >
+                Grean World supplies clean, efficient, and locally-appropriate energy solutions for communities across
+                Ethiopia.
+              </motion.p>
+            </motion.div>
+          </div>
+        </section>
+
+        {/* Featured Products Section */}
+        <section className="py-16 px-4 sm:px-6 relative">
+          <ParticleWaveAnimation color="#4ade80" density="low" speed="slow" />
+
+          <div className="max-w-7xl mx-auto">
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              whileInView={{ opacity: 1, y: 0 }}
+              viewport={{ once: true }}
+              transition={{ duration: 0.7 }}
+              className="text-center mb-12"
+            >
+              <h2 className="text-3xl font-bold mb-4">{t("products.featured")}</h2>
+              <p className="text-slate-300 max-w-2xl mx-auto">
+                Our most popular and innovative energy solutions, designed for Ethiopian communities.
+              </p>
+            </motion.div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-12 mb-16">
+              {/* Featured Product 1 */}
+              <Card3DEffect depth="medium">
+                <motion.div
+                  initial={{ opacity: 0, x: -20 }}
+                  whileInView={{ opacity: 1, x: 0 }}
+                  viewport={{ once: true }}
+                  transition={{ duration: 0.5 }}
+                  className="bg-slate-800/30 backdrop-blur-sm rounded-lg border border-slate-700/50 overflow-hidden h-full"
+                >
+                  <div className="h-64 bg-gradient-to-br from-green-900/50 to-slate-900/50 relative overflow-hidden">
+                    <motion.div
+                      className="absolute inset-0 flex items-center justify-center"
+                      animate={{
+                        scale: [1, 1.05, 1],
+                        opacity: [0.8, 1, 0.8],
+                      }}
+                      transition={{
+                        duration: 4,
+                        repeat: Number.POSITIVE_INFINITY,
+                        ease: "easeInOut",
+                      }}
+                    >
+                      <SunMedium className="h-32 w-32 text-[#3DD56D]/50" />
+                    </motion.div>
+                    <div className="absolute top-4 left-4 bg-[#3DD56D] text-white text-xs font-bold px-2 py-1 rounded">
+                      BESTSELLER
+                    </div>
+                  </div>
+
+                  <div className="p-6">
+                    <h3 className="text-2xl font-semibold text-white mb-2">Solar Home System 200W</h3>
+                    <p className="text-[#3DD56D] font-medium mb-4">Complete Home Energy Solution</p>
+                    <p className="text-slate-300 mb-4">
+                      Our flagship solar home system with everything needed to power a small household, including
+                      lighting, phone charging, and TV capability.
+                    </p>
+
+                    <ul className="space-y-2 mb-6">
+                      <li className="flex items-start">
+                        <div className="mr-2 mt-1">
+                          <div className="w-4 h-4 rounded-full bg-[#3DD56D]/20 flex items-center justify-center">
+                            <div className="w-2 h-2 rounded-full bg-[#3DD56D]"></div>
+                          </div>
+                        </div>
+                        <span className="text-slate-300">200W solar panel with mounting hardware</span>
+                      </li>
+                      <li className="flex items-start">
+                        <div className="mr-2 mt-1">
+                          <div className="w-4 h-4 rounded-full bg-[#3DD56D]/20 flex items-center justify-center">
+                            <div className="w-2 h-2 rounded-full bg-[#3DD56D]"></div>
+                          </div>
+                        </div>
+                        <span className="text-slate-300">4 LED lights and mobile charging ports</span>
+                      </li>
+                      <li className="flex items-start">
+                        <div className="mr-2 mt-1">
+                          <div className="w-4 h-4 rounded-full bg-[#3DD56D]/20 flex items-center justify-center">
+                            <div className="w-2 h-2 rounded-full bg-[#3DD56D]"></div>
+                          </div>
+                        </div>
+                        <span className="text-slate-300">2-year warranty with local support</span>
+                      </li>
+                    </ul>
+
+                    <div className="flex justify-between items-center">
+                      <span className="text-white text-2xl font-bold">{formatPrice(299.99)}</span>
+                      <Button className="bg-[#3DD56D] hover:bg-[#2bb757] text-white">{t("products.viewDetails")}</Button>
+                    </div>
+                  </div>
+                </motion.div>
+              </Card3DEffect>
+
+              {/* Featured Product 2 */}
+              <Card3DEffect depth="medium">
+                <motion.div
+                  initial={{ opacity: 0, x: 20 }}
+                  whileInView={{ opacity: 1, x: 0 }}
+                  viewport={{ once: true }}
+                  transition={{ duration: 0.5 }}
+                  className="bg-slate-800/30 backdrop-blur-sm rounded-lg border border-slate-700/50 overflow-hidden h-full"
+                >
+                  <div className="h-64 bg-gradient-to-br from-orange-900/50 to-slate-900/50 relative overflow-hidden">
+                    <motion.div
+                      className="absolute inset-0 flex items-center justify-center"
+                      animate={{
+                        scale: [1, 1.05, 1],
+                        opacity: [0.8, 1, 0.8],
+                      }}
+                      transition={{
+                        duration: 4,
+                        repeat: Number.POSITIVE_INFINITY,
+                        ease: "easeInOut",
+                      }}
+                    >
+                      <Flame className="h-32 w-32 text-orange-500/50" />
+                    </motion.div>
+                    <div className="absolute top-4 left-4 bg-orange-500 text-white text-xs font-bold px-2 py-1 rounded">
+                      POPULAR
+                    </div>
+                  </div>
+
+                  <div className="p-6">
+                    <h3 className="text-2xl font-semibold text-white mb-2">Mirt Stove Deluxe</h3>
+                    <p className="text-orange-400 font-medium mb-4">Efficient Injera Baking Solution</p>
+                    <p className="text-slate-300 mb-4">
+                      The enhanced Mirt stove made from durable sand and cement mortar, designed specifically for
+                      Ethiopian households to bake injera efficiently.
+                    </p>
+
+                    <ul className="space-y-2 mb-6">
+                      <li className="flex items-start">
+                        <div className="mr-2 mt-1">
+                          <div className="w-4 h-4 rounded-full bg-orange-500/20 flex items-center justify-center">
+                            <div className="w-2 h-2 rounded-full bg-orange-500"></div>
+                          </div>
+                        </div>
+                        <span className="text-slate-300">Bakes up to 30 injeras per day</span>
+                      </li>
+                      <li className="flex items-start">
+                        <div className="mr-2 mt-1">
+                          <div className="w-4 h-4 rounded-full bg-orange-500/20 flex items-center justify-center">
+                            <div className="w-2 h-2 rounded-full bg-orange-500"></div>
+                          </div>
+                        </div>
+                        <span className="text-slate-300">Reduces fuel consumption by 50%</span>
+                      </li>
+                      <li className="flex items-start">
+                        <div className="mr-2 mt-1">
+                          <div className="w-4 h-4 rounded-full bg-orange-500/20 flex items-center justify-center">
+                            <div className="w-2 h-2 rounded-full bg-orange-500"></div>
+                          </div>
+                        </div>
+                        <span className="text-slate-300">5+ year lifespan with proper maintenance</span>
+                      </li>
+                    </ul>
+
+                    <div className="flex justify-between items-center">
+                      <span className="text-white text-2xl font-bold">{formatPrice(79.99)}</span>
+                      <Button className="bg-orange-500 hover:bg-orange-600 text-white">{t("products.viewDetails")}</Button>
+                    </div>
+                  </div>
+                </motion.div>
+              </Card3DEffect>
+            </div>
+          </div>
+        </section>
+
+        {/* Search and Filter Section */}
+        <section className="py-8 px-4 sm:px-6">
+          <div className="max-w-7xl mx-auto">
+            <motion.div
+              initial={{ opacity: 0, y: -20 }}
+              animate={{ opacity: 1, y: 0 }}
+              transition={{ duration: 0.5, delay: 0.3 }}
+              className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-8"
+            >
+              <div className="relative w-full md:w-auto md:min-w-[300px]">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-slate-400 h-4 w-4" />
+                <Input
+                  type="text"
+                  placeholder={t("products.searchPlaceholder")}
+                  value={filters.query}
+                  onChange={(e) => updateFilters({ query: e.target.value })}
+                  className="pl-10 bg-slate-800/50 border-slate-700 text-white placeholder:text-slate-400 w-full"
+                />
+                {filters.query && (
+                  <motion.button
+                    onClick={() => updateFilters({ query: "" })}
+                    className="absolute right-3 top-1/2 transform -translate-y-1/2 text-slate-400 hover:text-white"
+                    whileHover={{ scale: 1.2, rotate: 90 }}
+                    whileTap={{ scale: 0.9 }}
+                  >
+                    <X className="h-4 w-4" />
+                  </motion.button>
+                )}
+              </div>
+
+              <div className="flex items-center gap-2 w-full md:w-auto">
+                <motion.div whileHover={{ scale: 1.05 }} whileTap={{ scale: 0.95 }}>
+                  <Button
+                    variant="outline"
+                    className="border-slate-700 text-slate-300 hover:bg-slate-700/50 md:hidden"
+                    onClick={() => setShowFilters(!showFilters)}
+                  >
+                    <Filter className="h-4 w-4 mr-2" />
+                    {t("products.filters")}
+                  </Button>
+                </motion.div>
+
+                <div className={`md:flex items-center gap-2 w-full ${showFilters ? "flex" : "hidden"}`}>
+                  <Select value={filters.category} onValueChange={(category) => updateFilters({ category })}>
+                    <SelectTrigger className="bg-slate-800/50 border-slate-700 text-white w-full md:w-[180px]">
+                      <SelectValue placeholder={t("products.category")} />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-800 border-slate-700 text-white">
+                      {categories.map((category) => (
+                        <SelectItem key={category.id} value={category.id}>
+                          {category.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+
+                  {filters.category !== ALL_CATEGORIES_ID && (
+                    <motion.div whileHover={{ scale: 1.1 }} whileTap={{ scale: 0.9 }}>
+                      <Button
+                        variant="ghost"
+                        className="text-slate-300 hover:text-white p-2 h-auto"
+                        onClick={() => updateFilters({ category: ALL_CATEGORIES_ID })}
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    </motion.div>
+                  )}
+
+                  <Select value={filters.sort} onValueChange={(sort) => updateFilters({ sort: sort as ProductSort })}>
+                    <SelectTrigger className="bg-slate-800/50 border-slate-700 text-white w-full md:w-[180px]">
+                      <SelectValue placeholder={t("products.sortBy")} />
+                    </SelectTrigger>
+                    <SelectContent className="bg-slate-800 border-slate-700 text-white">
+                      {(Object.keys(PRODUCT_SORT_OPTIONS) as ProductSort[]).map((value) => (
+                        <SelectItem key={value} value={value}>
+                          {t(`sort.${value}`)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </motion.div>
+
+            <div className={`md:block ${showFilters ? "block" : "hidden"}`}>
+              <ProductFacets
+                filters={filters}
+                onChange={updateFilters}
+                priceRange={priceBounds(products)}
+                tags={collectTags(products)}
+              />
+            </div>
+
+            {/* Results summary */}
+            <motion.div
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              transition={{ duration: 0.5, delay: 0.5 }}
+              className="flex justify-between items-center mb-6"
+            >
+              <p className="text-slate-300 text-sm">
+                {t("products.showing", { count: filteredProducts.length, total: products.length })}
+              </p>
+              <div className="flex items-center gap-2">
+                {filters.category !== ALL_CATEGORIES_ID && (
+                  <motion.div
+                    initial={{ scale: 0.8, opacity: 0 }}
+                    animate={{ scale: 1, opacity: 1 }}
+                    transition={{ type: "spring", stiffness: 500, damping: 30 }}
+                  >
+                    <Badge variant="outline" className="bg-[#3DD56D]/10 text-[#3DD56D] border-[#3DD56D]/20">
+                      {categoryName(filters.category)}
+                      <button className="ml-2" onClick={() => updateFilters({ category: ALL_CATEGORIES_ID })}>
+                        <X className="h-3 w-3" />
+                      </button>
+                    </Badge>
+                  </motion.div>
+                )}
+                {activeFilterCount > 0 && (
+                  <Button variant="ghost" size="sm" className="text-slate-300 hover:text-white" onClick={resetFilters}>
+                    {t("products.clearAll")}
+                  </Button>
+                )}
+              </div>
+            </motion.div>
+          </div>
+        </section>
+
+        {/* Product Grid Section */}
+        <section className="py-16 px-4 sm:px-6 relative">
+          <div className="max-w-7xl mx-auto">
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              whileInView={{ opacity: 1, y: 0 }}
+              viewport={{ once: true }}
+              transition={{ duration: 0.7 }}
+              className="text-center mb-12"
+            >
+              <h2 className="text-3xl font-bold mb-4">{t("products.all")}</h2>
+              <p className="text-slate-300 max-w-2xl mx-auto">{t("products.allIntro")}</p>
+            </motion.div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-8">
+              {filteredProducts.map((product, index) => (
+                <motion.div
+                  key={product.id}
+                  initial={{ opacity: 0, y: 20 }}
+                  whileInView={{ opacity: 1, y: 0 }}
+                  viewport={{ once: true }}
+                  transition={{ duration: 0.5, delay: index * 0.1 }}
+                  className="group"
+                  onMouseEnter={() => setHoveredProduct(product.id)}
+                  onMouseLeave={() => setHoveredProduct(null)}
+                >
+                  <Card3DEffect depth="low">
+                    <div className="bg-slate-800/30 backdrop-blur-sm rounded-lg border border-slate-700/50 overflow-hidden h-full hover:border-[#3DD56D]/50 transition-colors duration-300">
+                      <div className="h-48 bg-gradient-to-br from-slate-800/50 to-slate-900/50 relative overflow-hidden">
+                        <div className="absolute inset-0 flex items-center justify-center">
+                          <ProductPreview preview={product.preview} active={hoveredProduct === product.id} />
+                        </div>
+                        {product.tags.map((tag, tagIndex) => (
+                          <div
+                            key={tagIndex}
+                            className={cn(
+                              "absolute top-4 left-4 text-xs font-bold px-2 py-1 rounded",
+                              tagIndex === 0 ? "bg-[#3DD56D] text-white" : "bg-slate-700 text-white ml-20"
+                            )}
+                          >
+                            {tag}
+                          </div>
+                        ))}
+                      </div>
+
+                      <div className="p-6">
+                        <div className="flex justify-between items-start mb-2">
+                          <h3 className="text-xl font-semibold text-white">{product.name}</h3>
+                          <div className="flex items-center">
+                            <Star className="w-4 h-4 text-yellow-400 mr-1" />
+                            <span className="text-slate-300">{product.rating}</span>
+                          </div>
+                        </div>
+
+                        <p className="text-[#3DD56D] font-medium mb-4">{categoryName(product.category)}</p>
+                        <p className="text-slate-300 mb-4 line-clamp-2">{product.description}</p>
+
+                        <div className="flex justify-between items-center">
+                          <div className="flex items-baseline gap-2">
+                            <span className="text-white text-2xl font-bold">{formatPrice(product.price)}</span>
+                            {product.oldPrice && (
+                              <span className="text-slate-400 line-through">{formatPrice(product.oldPrice)}</span>
+                            )}
+                          </div>
+                          <div className="flex gap-2">
+                            <Button
+                              variant="outline"
+                              size="icon"
+                              className={cn(
+                                "border-slate-600 bg-transparent text-white hover:bg-slate-800",
+                                comparedIds.includes(product.id) && "border-[#3DD56D] text-[#3DD56D]",
+                              )}
+                              onClick={() => toggleCompared(product.id)}
+                              disabled={!comparedIds.includes(product.id) && comparedIds.length >= MAX_COMPARED_PRODUCTS}
+                              aria-pressed={comparedIds.includes(product.id)}
+                              aria-label={t("products.compare", { name: product.name })}
+                            >
+                              <GitCompare className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="outline"
+                              size="icon"
+                              className="border-slate-600 bg-transparent text-white hover:bg-slate-800"
+                              onClick={() => addToQuote(product.id)}
+                              aria-label={t("products.addToQuote", { name: product.name })}
+                            >
+                              <Plus className="h-4 w-4" />
+                            </Button>
+                            <Button asChild className="bg-[#3DD56D] hover:bg-[#2bb757] text-white">
+                              <Link href={`/products/${product.id}`}>{t("products.viewDetails")}</Link>
+                            </Button>
+                          </div>
+                        </div>
+                      </div>
+                    </div>
+                  </Card3DEffect>
+                </motion.div>
+              ))}
+            </div>
+
+            {filteredProducts.length === 0 && (
+              <div className="text-center py-16">
+                <p className="text-slate-300 mb-4">{t("products.noMatches")}</p>
+                <Button
+                  variant="outline"
+                  className="border-slate-700 text-slate-300 hover:bg-slate-700/50"
+                  onClick={resetFilters}
+                >
+                  {t("products.clearFilters")}
+                </Button>
+              </div>
+            )}
+          </div>
+        </section>
+
+        {/* Product Comparison Section */}
+        <section className="py-16 px-4 sm:px-6 bg-slate-900/50 relative">
+          <div className="absolute inset-0 overflow-hidden pointer-events-none z-0">
+            <motion.div
+              className="absolute rounded-full"
+              style={{
+                backgroundColor: "rgb(74, 222, 128)",
+                opacity: 0.05,
+                filter: "blur(50px)",
+                width: "27.4223%",
+                height: "23.524%",
+                left: "32.024%",
+                top: "62.8802%",
+                borderRadius: "40% 60% 65.9722% 34.0278% / 54.0278% 47.9167% 46.111% 51.9445%",
+              }}
+              animate={{
+                x: [-40, 0, -40],
+                y: [-43, 0, -43],
+              }}
+              transition={{
+                duration: 20,
+                repeat: Number.POSITIVE_INFINITY,
+                ease: "easeInOut",
+              }}
+            />
+            <motion.div
+              className="absolute rounded-full"
+              style={{
+                backgroundColor: "rgb(74, 222, 128)",
+                opacity: 0.05,
+                filter: "blur(50px)",
+                width: "26.3157%",
+                height: "29.3121%",
+                left: "44.8283%",
+                top: "48.7357%",
+                borderRadius: "40% 60% 65.9722% 34.0278% / 54.0278% 47.9167% 46.111% 51.9445%",
+              }}
+              animate={{
+                x: [11, -11, 11],
+                y: [-38, 0, -38],
+              }}
+              transition={{
+                duration: 18,
+                repeat: Number.POSITIVE_INFINITY,
+                ease: "easeInOut",
+              }}
+            />
+          </div>
+
+          <div className="max-w-7xl mx-auto">
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              whileInView={{ opacity: 1, y: 0 }}
+              viewport={{ once: true }}
+              transition={{ duration: 0.7 }}
+              className="text-center mb-12"
+            >
+              <h2 className="text-3xl font-bold mb-4">{t("products.comparison")}</h2>
+              <p className="text-slate-300 max-w-2xl mx-auto">
+                {t("products.comparisonIntro", { count: MAX_COMPARED_PRODUCTS })}
+              </p>
+            </motion.div>
+
+            <div id="compare">
+              <ProductComparison products={products} selectedIds={comparedIds} onToggle={toggleCompared} />
+            </div>
+          </div>
+        </section>
+
+        {/* Need Help Section */}
+        <section className="py-16 px-4 sm:px-6 bg-gradient-to-br from-slate-900 to-slate-800 relative overflow-hidden">
+          <div className="max-w-4xl mx-auto text-center relative z-10">
+            <motion.div
+              initial={{ opacity: 0, y: 20 }}
+              whileInView={{ opacity: 1, y: 0 }}
+              viewport={{ once: true }}
+              transition={{ duration: 0.7 }}
+            >
+              <h2 className="text-3xl md:text-4xl font-bold text-white mb-6">
+                Need Help Choosing the Right Products?
+              </h2>
+              <p className="text-slate-300 text-lg mb-8 max-w-2xl mx-auto">
+                Our energy experts can help you find the perfect clean energy solution for your home, business, or community.
+              </p>
+              <div className="flex flex-wrap gap-4 justify-center">
+                <motion.div
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  transition={{ type: "spring", stiffness: 400, damping: 10 }}
+                >
+                  <Button
+                    className="bg-[#3DD56D] hover:bg-[#2bb757] text-white px-8 py-6 text-lg"
+                  >
+                    Get Expert Advice
+                    <ArrowRight className="ml-2 h-5 w-5" />
+                  </Button>
+                </motion.div>
+                <motion.div
+                  whileHover={{ scale: 1.05 }}
+                  whileTap={{ scale: 0.95 }}
+                  transition={{ type: "spring", stiffness: 400, damping: 10 }}
+                >
+                  <Button
+                    variant="outline"
+                    className="border-white text-white hover:bg-white/10 px-8 py-6 text-lg"
+                  >
+                    Explore Solutions
+                  </Button>
+                </motion.div>
+              </div>
+            </motion.div>
+          </div>
+        </section>
+
+        {/* Footer Section */}
+        <footer className="py-8 px-4 sm:px-6 border-t border-slate-800">
+          <div className="max-w-7xl mx-auto text-center text-slate-400">
+          </div>
+        </footer>
+      </div>
+      <QuoteCart products={products} />
+    </>
+  )
+}
@@ -0,0 +1,332 @@
+"use client"
+
+import { useEffect, useMemo, useState } from "react"
+import { FileText, Minus, Plus, ShoppingCart, Trash2, CheckCircle } from "lucide-react"
+import { useForm, type Resolver } from "react-hook-form"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Textarea } from "@/components/ui/textarea"
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet"
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form"
+import { useQuoteCartStore } from "@/store/quoteCartStore"
+import { useTranslation } from "@/hooks/useTranslation"
+import { useCurrency } from "@/hooks/useCurrency"
+import { money } from "@/utils/money"
+import { CONTACT_HONEYPOT_FIELD } from "@/utils/contact/schema"
+import {
+  EMPTY_QUOTE_CUSTOMER,
+  MAX_QUOTE_QUANTITY,
+  Quote,
+  QuoteCustomer,
+  QuoteCustomerErrors,
+  buildQuote,
+  validateQuoteCustomer,
+} from "@/utils/quote"
+import type { Product } from "@/types/product"
+
+type QuoteFormValues = QuoteCustomer & { [CONTACT_HONEYPOT_FIELD]: string }
+
+const quoteResolver: Resolver<QuoteFormValues> = async (values) => {
+  const { errors } = validateQuoteCustomer(values)
+  if (!errors) return { values, errors: {} }
+  return {
+    values: {},
+    errors: Object.fromEntries(
+      Object.entries(errors).map(([field, message]) => [field, { type: "validate", message }]),
+    ),
+  }
+}
+
+const inputClassName = "bg-slate-700/50 border-slate-600 text-white placeholder:text-slate-400"
+
+function QuoteTotals({ quote }: { quote: Quote }) {
+  const { format } = useCurrency()
+  const price = (value: number) => format(money(value, quote.currency))
+  return (
+    <dl className="space-y-1 text-sm">
+      <div className="flex justify-between text-slate-300">
+        <dt>Subtotal</dt>
+        <dd>{price(quote.subtotal)}</dd>
+      </div>
+      {quote.discount > 0 && (
+        <div className="flex justify-between text-[#3DD56D]">
+          <dt>Discounts</dt>
+          <dd>-{price(quote.discount)}</dd>
+        </div>
+      )}
+      <div className="flex justify-between text-lg font-bold text-white pt-2 border-t border-slate-700">
+        <dt>Total</dt>
+        <dd>{price(quote.total)}</dd>
+      </div>
+    </dl>
+  )
+}
+
+interface SubmittedQuote {
+  reference: string
+  quote: Quote
+  requestedAt: Date
+}
+
+/**
+ * Floating quote cart. Products are added from the product pages; the cart opens
+ * in a sheet where quantities are adjusted and the quote is requested.
+ */
+export default function QuoteCart({ products }: { products: Product[] }) {
+  const { items, hydrate, setQuantity, removeItem, clear } = useQuoteCartStore()
+  const { t, formatNumber, formatDate } = useTranslation()
+  const { currency, format } = useCurrency()
+  const [step, setStep] = useState<"cart" | "details" | "done">("cart")
+  const [submitError, setSubmitError] = useState<string | null>(null)
+  const [submitted, setSubmitted] = useState<SubmittedQuote | null>(null)
+  const form = useForm<QuoteFormValues>({
+    resolver: quoteResolver,
+    defaultValues: { ...EMPTY_QUOTE_CUSTOMER, [CONTACT_HONEYPOT_FIELD]: "" },
+  })
+
+  useEffect(() => {
+    hydrate()
+  }, [hydrate])
+
+  const quote = useMemo(() => buildQuote(items, products, currency), [items, products, currency])
+  const price = (value: number, of: Quote = quote) => format(money(value, of.currency))
+  const itemCount = items.reduce((sum, item) => sum + item.quantity, 0)
+
+  const handleOpenChange = (open: boolean) => {
+    // Start over from the cart each time, unless a quote was just sent
+    if (open && step !== "done") setStep("cart")
+    if (!open && step === "done") setStep("cart")
+    setSubmitError(null)
+  }
+
+  const handleSubmit = async ({ [CONTACT_HONEYPOT_FIELD]: honeypot, ...customer }: QuoteFormValues) => {
+    setSubmitError(null)
+
+    let response: Response
+    try {
+      response = await fetch("/api/quote", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ customer: { ...customer, [CONTACT_HONEYPOT_FIELD]: honeypot }, items, currency }),
+      })
+    } catch {
+      setSubmitError("Please check your connection and try again.")
+      return
+    }
+    const result: { error?: string; fieldErrors?: QuoteCustomerErrors; reference?: string; quote?: Quote } =
+      await response.json().catch(() => ({}))
+
+    if (response.status === 422 && result.fieldErrors) {
+      for (const [field, message] of Object.entries(result.fieldErrors)) {
+        form.setError(field as keyof QuoteCustomer, { type: "server", message }, { shouldFocus: true })
+      }
+      return
+    }
+    if (!response.ok || !result.reference || !result.quote) {
+      setSubmitError(result.error ?? "We couldn't send your quote request. Please try again.")
+      return
+    }
+
+    setSubmitted({ reference: result.reference, quote: result.quote, requestedAt: new Date() })
+    setStep("done")
+    clear()
+    form.reset()
+  }
+
+  return (
+    <Sheet onOpenChange={handleOpenChange}>
+      <SheetTrigger asChild>
+        <Button
+          className="fixed bottom-6 right-6 z-40 rounded-full h-14 px-5 bg-[#3DD56D] hover:bg-[#2bb757] text-white shadow-lg"
+          aria-label={t("quote.openWithItems", { count: itemCount })}
+        >
+          <ShoppingCart className="h-5 w-5 mr-2" />
+          {t("quote.open")}
+          {itemCount > 0 && (
+            <span className="ml-2 rounded-full bg-white text-[#0a1628] text-xs font-bold px-2 py-0.5">{formatNumber(itemCount)}</span>
+          )}
+        </Button>
+      </SheetTrigger>
+
+      <SheetContent className="bg-[#0a1628] border-slate-700 text-white w-full sm:max-w-md overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="text-white">
+            {step === "done" ? "Quote requested" : step === "details" ? "Your details" : "Your quote"}
+          </SheetTitle>
+          <SheetDescription className="text-slate-400">
+            {step === "done"
+              ? "Our team will contact you to confirm availability and delivery."
+              : "Request a quote and our team will follow up. No payment is taken."}
+          </SheetDescription>
+        </SheetHeader>
+
+        {step === "done" && submitted ? (
+          <div className="mt-6 space-y-6">
+            <div className="flex items-center gap-3 rounded-lg bg-green-500/20 border border-green-500/30 p-4">
+              <CheckCircle className="h-6 w-6 text-green-500 shrink-0" />
+              <div>
+                <div className="font-semibold">{t("quote.reference", { reference: submitted.reference })}</div>
+                <div className="text-sm text-slate-300">
+                  {t("quote.requestedOn", { date: formatDate(submitted.requestedAt) })}
+                </div>
+                <div className="text-sm text-slate-300">Keep this for when we get in touch.</div>
+              </div>
+            </div>
+            <ul className="space-y-3">
+              {submitted.quote.lines.map((line) => (
+                <li key={line.productId} className="flex justify-between text-sm">
+                  <span>
+                    {line.quantity} × {line.name}
+                  </span>
+                  <span>{price(line.total, submitted.quote)}</span>
+                </li>
+              ))}
+            </ul>
+            <QuoteTotals quote={submitted.quote} />
+          </div>
+        ) : quote.lines.length === 0 ? (
+          <div className="mt-12 text-center text-slate-400">
+            <FileText className="h-10 w-10 mx-auto mb-3" />
+            Your quote is empty. Add products to get started.
+          </div>
+        ) : step === "cart" ? (
+          <div className="mt-6 space-y-6">
+            <ul className="space-y-4">
+              {quote.lines.map((line) => (
+                <li key={line.productId} className="rounded-lg border border-slate-700/50 bg-slate-800/30 p-4">
+                  <div className="flex justify-between items-start mb-3">
+                    <div>
+                      <div className="font-medium">{line.name}</div>
+                      <div className="text-sm text-slate-400">
+                        {price(line.unitPrice)} each
+                        {line.discount > 0 && <span className="ml-2 line-through">{price(line.listPrice)}</span>}
+                      </div>
+                    </div>
+                    <button
+                      className="text-slate-400 hover:text-red-400"
+                      onClick={() => removeItem(line.productId)}
+                      aria-label={`Remove ${line.name}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <div className="flex items-center gap-2">
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        className="h-8 w-8 border-slate-600 bg-transparent"
+                        onClick={() => setQuantity(line.productId, line.quantity - 1)}
+                        disabled={line.quantity <= 1}
+                        aria-label="Decrease quantity"
+                      >
+                        <Minus className="h-3 w-3" />
+                      </Button>
+                      <Input
+                        type="number"
+                        min={1}
+                        max={MAX_QUOTE_QUANTITY}
+                        value={line.quantity}
+                        onChange={(e) => setQuantity(line.productId, Number(e.target.value) || 1)}
+                        className={`${inputClassName} h-8 w-16 text-center`}
+                        aria-label={`Quantity of ${line.name}`}
+                      />
+                      <Button
+                        variant="outline"
+                        size="icon"
+                        className="h-8 w-8 border-slate-600 bg-transparent"
+                        onClick={() => setQuantity(line.productId, line.quantity + 1)}
+                        aria-label="Increase quantity"
+                      >
+                        <Plus className="h-3 w-3" />
+                      </Button>
+                    </div>
+                    <span className="font-semibold">{price(line.total)}</span>
+                  </div>
+                </li>
+              ))}
+            </ul>
+            <QuoteTotals quote={quote} />
+            <Button className="w-full bg-[#3DD56D] hover:bg-[#2bb757] text-white" onClick={() => setStep("details")}>
+              Request Quote
+            </Button>
+          </div>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(handleSubmit)} className="mt-6 space-y-4" noValidate>
+              <input
+                {...form.register(CONTACT_HONEYPOT_FIELD)}
+                type="text"
+                tabIndex={-1}
+                autoComplete="off"
+                aria-hidden="true"
+                className="absolute -left-[9999px] h-0 w-0 opacity-0"
+              />
+              {(
+                [
+                  { name: "name", label: "Your Name", placeholder: "John Doe" },
+                  { name: "email", label: "Email Address", placeholder: "john@example.com" },
+                  { name: "phone", label: "Phone Number (Optional)", placeholder: "+251 91 123 4567" },
+                  { name: "company", label: "Company (Optional)", placeholder: "Organisation or project" },
+                ] as const
+              ).map(({ name, label, placeholder }) => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{label}</FormLabel>
+                      <FormControl>
+                        <Input {...field} placeholder={placeholder} className={inputClassName} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+              <FormField
+                control={form.control}
+                name="notes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Notes (Optional)</FormLabel>
+                    <FormControl>
+                      <Textarea
+                        {...field}
+                        placeholder="Site location, installation needs, timing..."
+                        className={inputClassName}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <QuoteTotals quote={quote} />
+              {submitError && <p className="text-sm text-red-400">{submitError}</p>}
+
+              <div className="flex gap-3">
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="flex-1 border-slate-600 bg-transparent text-white hover:bg-slate-800"
+                  onClick={() => setStep("cart")}
+                >
+                  Back
+                </Button>
+                <Button
+                  type="submit"
+                  className="flex-1 bg-[#3DD56D] hover:bg-[#2bb757] text-white"
+                  disabled={form.formState.isSubmitting}
+                >
+                  {form.formState.isSubmitting ? "Sending..." : "Send Request"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        )}
+      </SheetContent>
+    </Sheet>
+  )
+}
@@ -0,0 +1,34 @@
+"use client"
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { cn } from "@/lib/utils"
+import { CURRENCIES, EXCHANGE_RATES } from "@/constants/currency"
+import { useCurrencyStore } from "@/store/currencyStore"
+import { useCurrency } from "@/hooks/useCurrency"
+import { useTranslation } from "@/hooks/useTranslation"
+import type { CurrencyCode } from "@/types/money"
+
+export default function CurrencySwitcher({ className }: { className?: string }) {
+  const setCurrency = useCurrencyStore((state) => state.setCurrency)
+  const { currency } = useCurrency()
+  const { t, formatDate } = useTranslation()
+
+  return (
+    <Select value={currency} onValueChange={(value) => setCurrency(value as CurrencyCode)}>
+      <SelectTrigger
+        aria-label={t("nav.currency")}
+        title={t("nav.ratesAsOf", { date: formatDate(new Date(EXCHANGE_RATES.asOf)) })}
+        className={cn("h-9 w-[88px] border-slate-700/40 bg-slate-900/80 text-xs text-slate-200", className)}
+      >
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="bg-slate-800 border-slate-700 text-white">
+        {Object.values(CURRENCIES).map((option) => (
+          <SelectItem key={option.code} value={option.code}>
+            {option.code} <span className="text-slate-400">· {option.name}</span>
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
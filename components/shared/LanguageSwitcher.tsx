@@ -0,0 +1,37 @@
+"use client"
+
+import { Languages } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { useLocaleStore } from "@/store/localeStore"
+import { useTranslation } from "@/hooks/useTranslation"
+import { Locale, LOCALES } from "@/utils/i18n"
+
+export default function LanguageSwitcher({ className }: { className?: string }) {
+  const setLocale = useLocaleStore((state) => state.setLocale)
+  const { locale, t } = useTranslation()
+
+  return (
+    <div
+      role="group"
+      aria-label={t("nav.language")}
+      className={cn("flex items-center gap-1 rounded-lg border border-slate-700/40 bg-slate-900/80 p-1", className)}
+    >
+      <Languages className="h-4 w-4 mx-1 text-green-400" />
+      {(Object.keys(LOCALES) as Locale[]).map((option) => (
+        <button
+          key={option}
+          lang={option}
+          onClick={() => setLocale(option)}
+          aria-pressed={locale === option}
+          title={LOCALES[option].name}
+          className={cn(
+            "rounded-md px-2 py-1 text-xs font-medium transition-colors",
+            locale === option ? "bg-green-500/20 text-green-400" : "text-slate-300 hover:text-white",
+          )}
+        >
+          {LOCALES[option].nativeName}
+        </button>
+      ))}
+    </div>
+  )
+}
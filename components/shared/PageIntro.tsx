@@ -0,0 +1,40 @@
+"use client"
+
+import { useTranslation } from "@/hooks/useTranslation"
+import type { MessageKey } from "@/utils/i18n"
+
+// A translated title with the `{highlight}` placeholder picked out in the brand green
+export function HighlightedTitle({ title, highlight }: { title: string; highlight: string }) {
+  const [before, after = ""] = title.split("{highlight}")
+  return (
+    <>
+      {before}
+      <span className="text-[#3DD56D]">{highlight}</span>
+      {after}
+    </>
+  )
+}
+
+interface PageIntroProps {
+  badge: MessageKey
+  title: MessageKey
+  highlight: MessageKey
+  intro: MessageKey
+}
+
+// Badge, heading and lead paragraph of a tool page, so server-rendered pages can show them in the visitor's language
+export default function PageIntro({ badge, title, highlight, intro }: PageIntroProps) {
+  const { t } = useTranslation()
+
+  return (
+    <div className="mb-8">
+      <div className="inline-flex items-center rounded-full px-3 py-1 text-xs font-medium mb-4 bg-[#3DD56D]/20 text-[#3DD56D] border border-[#3DD56D]/20">
+        {t(badge)}
+      </div>
+      <h1 className="text-3xl md:text-4xl font-bold mb-3">
+        <HighlightedTitle title={t(title)} highlight={t(highlight)} />
+      </h1>
+      <p className="text-slate-300 max-w-2xl">{t(intro)}</p>
+    </div>
+  )
+}
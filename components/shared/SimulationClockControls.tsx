@@ -0,0 +1,87 @@
+"use client"
+
+import { Moon, Pause, Play, Sun } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { Slider } from "@/components/ui/slider"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { WEATHER_SCENARIOS, WeatherScenarioId } from "@/constants/weather"
+import { CLOCK_SPEEDS, useSimulationClockStore } from "@/store/simulationClockStore"
+import { useWeatherStore } from "@/store/weatherStore"
+import { daylightFactor } from "@/utils/simulation/solar"
+import { useTranslation } from "@/hooks/useTranslation"
+
+const formatClockTime = (hours: number) => {
+  const minutes = Math.floor(hours * 60)
+  return `${Math.floor(minutes / 60).toString().padStart(2, "0")}:${(minutes % 60).toString().padStart(2, "0")}`
+}
+
+// Play/pause, speed and time-of-day controls for the shared simulated clock, and the weather it runs through
+export default function SimulationClockControls({ className }: { className?: string }) {
+  const { playing, speed, timeOfDay, day, togglePlaying, setSpeed, setTimeOfDay } = useSimulationClockStore()
+  const { scenarioId, setScenario } = useWeatherStore()
+  const isDay = daylightFactor(timeOfDay) > 0
+  const { t } = useTranslation()
+
+  return (
+    <div
+      role="group"
+      aria-label={t("clock.label")}
+      className={cn("flex items-center gap-2 rounded-lg border border-slate-700/40 bg-slate-900/80 p-1", className)}
+    >
+      <button
+        onClick={togglePlaying}
+        aria-label={playing ? t("clock.pause") : t("clock.play")}
+        className="rounded-md p-1.5 text-green-400 hover:bg-green-500/20"
+      >
+        {playing ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+      </button>
+
+      <div className="flex items-center gap-1 text-xs text-slate-200 tabular-nums whitespace-nowrap">
+        {isDay ? <Sun className="h-4 w-4 text-amber-400" /> : <Moon className="h-4 w-4 text-sky-300" />}
+        {t("clock.dayTime", { day, time: formatClockTime(timeOfDay) })}
+      </div>
+
+      <Slider
+        value={[timeOfDay]}
+        min={0}
+        max={23.99}
+        step={0.25}
+        onValueChange={([hour]) => setTimeOfDay(hour)}
+        aria-label={t("clock.timeOfDay")}
+        className="w-28"
+      />
+
+      <div className="flex items-center gap-1">
+        {CLOCK_SPEEDS.map((option) => (
+          <button
+            key={option}
+            onClick={() => setSpeed(option)}
+            aria-pressed={speed === option}
+            className={cn(
+              "rounded-md px-2 py-1 text-xs font-medium transition-colors",
+              speed === option ? "bg-green-500/20 text-green-400" : "text-slate-300 hover:text-white",
+            )}
+          >
+            {option}x
+          </button>
+        ))}
+      </div>
+
+      <Select value={scenarioId} onValueChange={(value) => setScenario(value as WeatherScenarioId)}>
+        <SelectTrigger
+          className="h-7 w-auto gap-1 border-0 bg-transparent px-2 text-xs text-slate-200"
+          aria-label={t("clock.weather")}
+        >
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="bg-slate-800 border-slate-700 text-white">
+          {WEATHER_SCENARIOS.map((option) => (
+            <SelectItem key={option.id} value={option.id}>
+              {t(`weather.${option.id}.name`)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  )
+}
@@ -7,6 +7,9 @@ import { usePathname } from "next/navigation"
 import { motion } from "framer-motion"
 import { Menu, X, ArrowRight, SunMedium, Leaf, Zap, Battery, Wind } from "lucide-react"
 import { Button } from "@/components/ui/button"
+import LanguageSwitcher from "@/components/shared/LanguageSwitcher"
+import CurrencySwitcher from "@/components/shared/CurrencySwitcher"
+import { useTranslation } from "@/hooks/useTranslation"
 
 export default function Navigation() {
   const [isOpen, setIsOpen] = useState(false)
@@ -14,6 +17,7 @@ export default function Navigation() {
   const [activeNavItem, setActiveNavItem] = useState<string | null>(null)
   const [activeSubmenu, setActiveSubmenu] = useState<string | null>(null)
   const pathname = usePathname()
+  const { t } = useTranslation()
 
   useEffect(() => {
     const handleScroll = () => {
@@ -39,21 +43,21 @@ export default function Navigation() {
 
   // Navigation items with enhanced animations
   const navItems = [
-    { name: "Home", icon: <SunMedium size={12} className="text-green-400" />, href: "/home" },
-    { name: "About", icon: <Leaf size={12} className="text-green-400" />, href: "/about" },
+    { name: t("nav.home"), icon: <SunMedium size={12} className="text-green-400" />, href: "/home" },
+    { name: t("nav.about"), icon: <Leaf size={12} className="text-green-400" />, href: "/about" },
     {
-      name: "Solutions",
+      name: t("nav.solutions"),
       icon: <Zap size={12} className="text-green-400" />,
       href: "/solutions",
       submenu: [
-        { name: "Solar Energy", href: "/solutions/solar-energy" },
-        { name: "Energy Storage", href: "/solutions/energy-storage" },
-        { name: "Biomass", href: "/solutions/biomass" },
-        { name: "Training", href: "/solutions/training" },
+        { name: t("nav.solarEnergy"), href: "/solutions/solar-energy" },
+        { name: t("nav.energyStorage"), href: "/solutions/energy-storage" },
+        { name: t("nav.biomass"), href: "/solutions/biomass" },
+        { name: t("nav.training"), href: "/solutions/training" },
       ],
     },
-    { name: "Products", icon: <Battery size={12} className="text-green-400" />, href: "/products" },
-    { name: "Contact", icon: <Wind size={12} className="text-green-400" />, href: "/contact" },
+    { name: t("nav.products"), icon: <Battery size={12} className="text-green-400" />, href: "/products" },
+    { name: t("nav.contact"), icon: <Wind size={12} className="text-green-400" />, href: "/contact" },
   ]
 
   return (
@@ -109,7 +113,7 @@ export default function Navigation() {
           <ul className="flex gap-6 lg:gap-8">
             {navItems.map((item, index) => (
               <motion.li
-                key={item.name}
+                key={item.href}
                 initial={{ opacity: 0, y: -10 }}
                 animate={{ opacity: 1, y: 0 }}
                 transition={{ duration: 0.3, delay: 0.3 + index * 0.1 }}
@@ -170,7 +174,7 @@ export default function Navigation() {
                   <div className="absolute left-0 mt-2 w-56 opacity-0 invisible group-hover:opacity-100 group-hover:visible transition-all duration-300 z-50">
                     <div className="py-2 bg-slate-800/95 rounded-md shadow-xl border border-slate-700/50">
                       {item.submenu.map((subItem) => (
-                        <Link key={subItem.name} href={subItem.href}>
+                        <Link key={subItem.href} href={subItem.href}>
                           <div className="block px-4 py-2 text-sm text-slate-300 hover:bg-green-500/10 hover:text-[#3DD56D] rounded-md transition-all duration-200">
                             {subItem.name}
                           </div>
@@ -185,14 +189,16 @@ export default function Navigation() {
         </motion.nav>
 
         <motion.div
-          className="hidden md:flex items-center"
+          className="hidden md:flex items-center gap-3"
           initial={{ opacity: 0, x: 20 }}
           animate={{ opacity: 1, x: 0 }}
           transition={{ duration: 0.5 }}
         >
+          <LanguageSwitcher />
+          <CurrencySwitcher />
           <Link href="/contact">
             <Button className="bg-[#3DD56D] hover:bg-[#2bb757] text-white">
-              Get in Touch
+              {t("nav.getInTouch")}
               <ArrowRight className="ml-2 h-4 w-4" />
             </Button>
           </Link>
@@ -222,7 +228,7 @@ export default function Navigation() {
         >
           <div className="px-4 pt-2 pb-6 space-y-4">
             {navItems.map((item) => (
-              <div key={item.name} className="py-3">
+              <div key={item.href} className="py-3">
                 <Link
                   href={item.href}
                   className={`flex items-center justify-between text-base font-medium ${
@@ -231,7 +237,7 @@ export default function Navigation() {
                   onClick={(e) => {
                     if (item.submenu) {
                       e.preventDefault()
-                      setActiveSubmenu(activeSubmenu === item.name ? null : item.name)
+                      setActiveSubmenu(activeSubmenu === item.href ? null : item.href)
                     }
                   }}
                 >
@@ -250,7 +256,7 @@ export default function Navigation() {
                       strokeWidth="2"
                       strokeLinecap="round"
                       strokeLinejoin="round"
-                      className={`transition-transform ${activeSubmenu === item.name ? "rotate-180" : ""}`}
+                      className={`transition-transform ${activeSubmenu === item.href ? "rotate-180" : ""}`}
                     >
                       <path d="m6 9 6 6 6-6" />
                     </svg>
@@ -258,11 +264,11 @@ export default function Navigation() {
                 </Link>
 
                 {/* Mobile Submenu */}
-                {item.submenu && activeSubmenu === item.name && (
+                {item.submenu && activeSubmenu === item.href && (
                   <div className="mt-2 ml-6 space-y-2 border-l-2 border-slate-700 pl-4">
                     {item.submenu.map((subItem) => (
                       <Link
-                        key={subItem.name}
+                        key={subItem.href}
                         href={subItem.href}
                         className="block py-2 text-sm text-slate-300 hover:text-[#3DD56D]"
                       >
@@ -274,10 +280,15 @@ export default function Navigation() {
               </div>
             ))}
 
+            <div className="flex items-center gap-3">
+              <LanguageSwitcher className="w-fit" />
+              <CurrencySwitcher />
+            </div>
+
             <div className="pt-4">
               <Link href="/contact">
                 <Button className="w-full bg-[#3DD56D] hover:bg-[#2bb757] text-white">
-                  Get in Touch
+                  {t("nav.getInTouch")}
                   <ArrowRight className="ml-2 h-4 w-4" />
                 </Button>
               </Link>
@@ -0,0 +1,433 @@
+"use client"
+
+import { useRef, useState } from "react"
+import Link from "next/link"
+import { motion } from "framer-motion"
+import {
+  ArrowLeft,
+  ArrowRight,
+  Battery,
+  CloudRain,
+  Cpu,
+  FileText,
+  Plus,
+  PlugZap,
+  SunMedium,
+  Trash2,
+  Zap,
+} from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Slider } from "@/components/ui/slider"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useQuoteCartStore } from "@/store/quoteCartStore"
+import { useCurrency } from "@/hooks/useCurrency"
+import { useTranslation } from "@/hooks/useTranslation"
+import { money } from "@/utils/money"
+import { cn } from "@/lib/utils"
+import {
+  AUTONOMY_DAYS_RANGE,
+  DEFAULT_SIZING_APPLIANCES,
+  SIZING_ASSUMPTIONS,
+  SUN_HOUR_PROFILES,
+} from "@/constants/sizing"
+import { ApplianceLoad, SIZING_UNITS, SizingRole, computeRequirements, recommendSystem } from "@/utils/sizing"
+import type { MessageKey } from "@/utils/i18n"
+import type { Product } from "@/types/product"
+
+type ApplianceRow = ApplianceLoad & { id: number }
+
+const STEPS: MessageKey[] = ["sizing.stepAppliances", "sizing.stepLocation", "sizing.stepSystem"]
+
+const ROLE_NAMES: Record<SizingRole, MessageKey> = {
+  pv: "sizing.role.pv",
+  battery: "sizing.role.battery",
+  inverter: "sizing.role.inverter",
+}
+
+const inputClassName = "bg-slate-700/50 border-slate-600 text-white placeholder:text-slate-400"
+
+export default function SizingWizard({ products }: { products: Product[] }) {
+  const nextId = useRef(DEFAULT_SIZING_APPLIANCES.length)
+  const [step, setStep] = useState(0)
+  const [appliances, setAppliances] = useState<ApplianceRow[]>(() =>
+    DEFAULT_SIZING_APPLIANCES.map((appliance, index) => ({ ...appliance, id: index })),
+  )
+  const [locationId, setLocationId] = useState(SUN_HOUR_PROFILES[0].id)
+  const [autonomyDays, setAutonomyDays] = useState(AUTONOMY_DAYS_RANGE.min)
+  const [addedToQuote, setAddedToQuote] = useState(false)
+  const addToQuote = useQuoteCartStore((state) => state.addItem)
+  const { currency, format } = useCurrency()
+  const { t, formatNumber: formatLocaleNumber } = useTranslation()
+  const formatNumber = (value: number, digits = 0) =>
+    formatLocaleNumber(value, { minimumFractionDigits: digits, maximumFractionDigits: digits })
+
+  const location = SUN_HOUR_PROFILES.find((profile) => profile.id === locationId) ?? SUN_HOUR_PROFILES[0]
+  const requirements = computeRequirements({ appliances, peakSunHours: location.peakSunHours, autonomyDays })
+  const design = recommendSystem(requirements, products, currency)
+  const price = (amount: number) => format(money(amount, design.quote.currency))
+  const hasLoad = requirements.dailyEnergyWh > 0
+  // The same system, run through a bad week of weather or of load shedding
+  const designQuery = new URLSearchParams({
+    pv: String(Math.round(requirements.pvWp)),
+    battery: requirements.batteryKWh.toFixed(1),
+    load: (requirements.dailyEnergyWh / 1000).toFixed(1),
+    inverter: requirements.inverterKVA.toFixed(1),
+  })
+  const stressTestHref = `/solutions/weather?${designQuery}`
+  const outageTestHref = `/solutions/grid?${designQuery}`
+
+  const updateAppliance = (id: number, changes: Partial<ApplianceLoad>) =>
+    setAppliances((rows) => rows.map((row) => (row.id === id ? { ...row, ...changes } : row)))
+
+  const addAppliance = () =>
+    setAppliances((rows) => [...rows, { id: nextId.current++, name: "", watts: 0, quantity: 1, hoursPerDay: 1 }])
+
+  const goTo = (next: number) => {
+    setStep(next)
+    setAddedToQuote(false)
+  }
+
+  const handleAddToQuote = () => {
+    design.lines.forEach((line) => addToQuote(line.product.id, line.quantity))
+    setAddedToQuote(true)
+  }
+
+  return (
+    <div className="bg-slate-800/30 backdrop-blur-sm rounded-lg border border-slate-700/50 p-6">
+      {/* Step indicator */}
+      <ol className="flex flex-wrap gap-4 mb-8">
+        {STEPS.map((label, index) => (
+          <li key={label} className="flex items-center gap-2">
+            <span
+              className={cn(
+                "flex h-7 w-7 items-center justify-center rounded-full text-sm font-semibold",
+                index <= step ? "bg-[#3DD56D] text-white" : "bg-slate-700 text-slate-400",
+              )}
+            >
+              {index + 1}
+            </span>
+            <span className={index === step ? "text-white" : "text-slate-400"}>{t(label)}</span>
+          </li>
+        ))}
+      </ol>
+
+      {step === 0 && (
+        <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }}>
+          <p className="text-slate-300 mb-4">{t("sizing.appliancesIntro")}</p>
+          <Table>
+            <TableHeader>
+              <TableRow className="border-slate-700 hover:bg-transparent">
+                <TableHead className="text-slate-300">{t("sizing.appliance")}</TableHead>
+                <TableHead className="text-slate-300 w-28">{t("sizing.watts")}</TableHead>
+                <TableHead className="text-slate-300 w-24">{t("sizing.quantity")}</TableHead>
+                <TableHead className="text-slate-300 w-28">{t("sizing.hoursPerDay")}</TableHead>
+                <TableHead className="text-slate-300 text-right w-28">{t("sizing.whPerDay")}</TableHead>
+                <TableHead className="w-12" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {appliances.map((appliance) => (
+                <TableRow key={appliance.id} className="border-slate-700/50 hover:bg-transparent">
+                  <TableCell>
+                    <Input
+                      value={appliance.name}
+                      placeholder={t("sizing.appliancePlaceholder")}
+                      onChange={(e) => updateAppliance(appliance.id, { name: e.target.value })}
+                      className={inputClassName}
+                      aria-label={t("sizing.applianceName")}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={0}
+                      value={appliance.watts}
+                      onChange={(e) =>
+                        updateAppliance(appliance.id, { watts: Math.max(0, Number(e.target.value) || 0) })
+                      }
+                      className={inputClassName}
+                      aria-label={t("sizing.watts")}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={1}
+                      value={appliance.quantity}
+                      onChange={(e) =>
+                        updateAppliance(appliance.id, {
+                          quantity: Math.max(1, Math.round(Number(e.target.value)) || 1),
+                        })
+                      }
+                      className={inputClassName}
+                      aria-label={t("sizing.quantity")}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={24}
+                      step={0.5}
+                      value={appliance.hoursPerDay}
+                      onChange={(e) =>
+                        updateAppliance(appliance.id, {
+                          hoursPerDay: Math.min(24, Math.max(0, Number(e.target.value) || 0)),
+                        })
+                      }
+                      className={inputClassName}
+                      aria-label={t("sizing.hoursPerDayLabel")}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right text-white">
+                    {formatNumber(appliance.watts * appliance.quantity * appliance.hoursPerDay)}
+                  </TableCell>
+                  <TableCell>
+                    <button
+                      className="text-slate-400 hover:text-red-400"
+                      onClick={() => setAppliances((rows) => rows.filter((row) => row.id !== appliance.id))}
+                      aria-label={t("sizing.remove", { name: appliance.name || t("sizing.unnamedAppliance") })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+            <TableFooter className="bg-transparent border-slate-700">
+              <TableRow className="hover:bg-transparent">
+                <TableCell colSpan={4} className="text-slate-300">
+                  {t("sizing.dailyEnergy")}
+                </TableCell>
+                <TableCell className="text-right text-white font-semibold">
+                  {formatNumber(requirements.dailyEnergyWh)} Wh
+                </TableCell>
+                <TableCell />
+              </TableRow>
+            </TableFooter>
+          </Table>
+          <div className="flex justify-between mt-6">
+            <Button
+              variant="outline"
+              className="border-slate-600 bg-transparent text-white hover:bg-slate-800"
+              onClick={addAppliance}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              {t("sizing.addAppliance")}
+            </Button>
+            <Button className="bg-[#3DD56D] hover:bg-[#2bb757] text-white" onClick={() => goTo(1)} disabled={!hasLoad}>
+              {t("sizing.next")}
+              <ArrowRight className="h-4 w-4 ml-2" />
+            </Button>
+          </div>
+        </motion.div>
+      )}
+
+      {step === 1 && (
+        <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} className="space-y-8 max-w-xl">
+          <div>
+            <Label className="text-slate-300 mb-2 block">{t("sizing.location")}</Label>
+            <Select value={locationId} onValueChange={setLocationId}>
+              <SelectTrigger className="bg-slate-800/50 border-slate-700 text-white">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent className="bg-slate-800 border-slate-700 text-white">
+                {SUN_HOUR_PROFILES.map((profile) => (
+                  <SelectItem key={profile.id} value={profile.id}>
+                    {t("sizing.peakSunHours", { name: profile.name, hours: profile.peakSunHours })}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <div className="flex justify-between mb-3">
+              <Label className="text-slate-300">{t("sizing.autonomy")}</Label>
+              <span className="text-white">{t("sizing.days", { count: autonomyDays })}</span>
+            </div>
+            <Slider
+              min={AUTONOMY_DAYS_RANGE.min}
+              max={AUTONOMY_DAYS_RANGE.max}
+              step={1}
+              value={[autonomyDays]}
+              onValueChange={([days]) => setAutonomyDays(days)}
+              aria-label={t("sizing.autonomy")}
+            />
+            <p className="text-sm text-slate-400 mt-2">{t("sizing.autonomyHint")}</p>
+          </div>
+          <div className="flex justify-between">
+            <Button
+              variant="outline"
+              className="border-slate-600 bg-transparent text-white hover:bg-slate-800"
+              onClick={() => goTo(0)}
+            >
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              {t("sizing.back")}
+            </Button>
+            <Button className="bg-[#3DD56D] hover:bg-[#2bb757] text-white" onClick={() => goTo(2)}>
+              {t("sizing.sizeSystem")}
+              <ArrowRight className="h-4 w-4 ml-2" />
+            </Button>
+          </div>
+        </motion.div>
+      )}
+
+      {step === 2 && (
+        <motion.div initial={{ opacity: 0, y: 10 }} animate={{ opacity: 1, y: 0 }} className="space-y-8">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              {
+                icon: <Zap />,
+                label: t("sizing.dailyEnergy"),
+                value: formatNumber(requirements.dailyEnergyWh),
+                unit: "Wh",
+              },
+              {
+                icon: <SunMedium />,
+                label: t("sizing.solarArray"),
+                value: formatNumber(requirements.pvWp),
+                unit: "Wp",
+              },
+              {
+                icon: <Battery />,
+                label: t("sizing.batteryBank"),
+                value: formatNumber(requirements.batteryKWh, 1),
+                unit: "kWh",
+              },
+              {
+                icon: <Cpu />,
+                label: t("sizing.inverter"),
+                value: formatNumber(requirements.inverterKVA, 1),
+                unit: "kVA",
+              },
+            ].map((item) => (
+              <div key={item.unit} className="rounded-lg border border-slate-700/50 bg-slate-900/40 p-4">
+                <div className="text-[#3DD56D] h-5 w-5 mb-2">{item.icon}</div>
+                <div className="text-2xl font-bold text-white">
+                  {item.value}
+                  <span className="text-sm font-normal text-slate-400 ml-1">{item.unit}</span>
+                </div>
+                <div className="text-sm text-slate-400">{item.label}</div>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <h3 className="text-lg font-semibold mb-3">{t("sizing.billOfMaterials")}</h3>
+            <Table>
+              <TableHeader>
+                <TableRow className="border-slate-700 hover:bg-transparent">
+                  <TableHead className="text-slate-300">{t("sizing.product")}</TableHead>
+                  <TableHead className="text-slate-300">{t("sizing.covers")}</TableHead>
+                  <TableHead className="text-slate-300 text-right">{t("sizing.qty")}</TableHead>
+                  <TableHead className="text-slate-300 text-right">{t("sizing.unitPrice")}</TableHead>
+                  <TableHead className="text-slate-300 text-right">{t("sizing.total")}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {design.lines.map((line, index) => {
+                  // Quote lines follow the bill of materials, priced in the visitor's currency
+                  const priced = design.quote.lines[index]
+                  const unit = SIZING_UNITS[line.role]
+                  const digits = line.role === "pv" ? 0 : 1
+                  return (
+                    <TableRow key={line.product.id} className="border-slate-700/50 hover:bg-transparent">
+                      <TableCell>
+                        <Link href={`/products/${line.product.id}`} className="text-white hover:text-[#3DD56D]">
+                          {line.product.name}
+                        </Link>
+                      </TableCell>
+                      <TableCell className="text-slate-300">
+                        {t("sizing.coverage", {
+                          provided: `${formatNumber(line.provided, digits)} ${unit}`,
+                          required: `${formatNumber(line.required, digits)} ${unit}`,
+                        })}
+                      </TableCell>
+                      <TableCell className="text-right text-white">{line.quantity}</TableCell>
+                      <TableCell className="text-right text-white">{price(priced.unitPrice)}</TableCell>
+                      <TableCell className="text-right text-white">{price(priced.total)}</TableCell>
+                    </TableRow>
+                  )
+                })}
+              </TableBody>
+              <TableFooter className="bg-transparent border-slate-700">
+                {design.quote.discount > 0 && (
+                  <TableRow className="hover:bg-transparent">
+                    <TableCell colSpan={4} className="text-[#3DD56D]">
+                      {t("sizing.discounts")}
+                    </TableCell>
+                    <TableCell className="text-right text-[#3DD56D]">
+                      {price(design.quote.discount)}
+                    </TableCell>
+                  </TableRow>
+                )}
+                <TableRow className="hover:bg-transparent">
+                  <TableCell colSpan={4} className="text-white font-semibold">
+                    {t("sizing.total")}
+                  </TableCell>
+                  <TableCell className="text-right text-white text-lg font-bold">
+                    {price(design.quote.total)}
+                  </TableCell>
+                </TableRow>
+              </TableFooter>
+            </Table>
+            {design.unavailable.length > 0 && (
+              <p className="text-sm text-amber-400 mt-3">
+                {t("sizing.unavailable", {
+                  roles: design.unavailable.map((role) => t(ROLE_NAMES[role])).join(t("sizing.or")),
+                })}
+              </p>
+            )}
+            {design.tooLarge.length > 0 && (
+              <p className="text-sm text-amber-400 mt-3">
+                {t("sizing.tooLarge", {
+                  roles: design.tooLarge.map((role) => t(ROLE_NAMES[role])).join(t("sizing.or")),
+                })}
+              </p>
+            )}
+            <p className="text-xs text-slate-400 mt-3">
+              {t("sizing.assumptions", {
+                performance: Math.round(SIZING_ASSUMPTIONS.performanceRatio * 100),
+                depth: Math.round(SIZING_ASSUMPTIONS.depthOfDischarge * 100),
+              })}
+            </p>
+          </div>
+
+          <div className="flex flex-wrap justify-between gap-4">
+            <Button
+              variant="outline"
+              className="border-slate-600 bg-transparent text-white hover:bg-slate-800"
+              onClick={() => goTo(1)}
+            >
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              {t("sizing.back")}
+            </Button>
+            <Button asChild variant="outline" className="border-slate-600 bg-transparent text-white hover:bg-slate-800">
+              <Link href={stressTestHref}>
+                <CloudRain className="h-4 w-4 mr-2" />
+                {t("sizing.stressTest")}
+              </Link>
+            </Button>
+            <Button asChild variant="outline" className="border-slate-600 bg-transparent text-white hover:bg-slate-800">
+              <Link href={outageTestHref}>
+                <PlugZap className="h-4 w-4 mr-2" />
+                {t("sizing.outageTest")}
+              </Link>
+            </Button>
+            <Button
+              className="bg-[#3DD56D] hover:bg-[#2bb757] text-white"
+              onClick={handleAddToQuote}
+              disabled={design.lines.length === 0 || addedToQuote}
+            >
+              <FileText className="h-4 w-4 mr-2" />
+              {addedToQuote ? t("sizing.addedToQuote") : t("sizing.addToQuote")}
+            </Button>
+          </div>
+        </motion.div>
+      )}
+    </div>
+  )
+}
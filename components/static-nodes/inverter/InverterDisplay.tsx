@@ -1,19 +1,94 @@
 "use client"
 
+import { useState } from "react"
 import { motion } from "framer-motion"
 import { InverterState } from "./types"
+import {
+  INVERTER_FAULTS,
+  InverterModelEvent,
+  OUTPUT_PRIORITY_CODES,
+  SourcePrioritySettings,
+  SourceTransferReason,
+} from "@/utils/simulation"
 
 interface InverterDisplayProps {
   state: InverterState
   inverterOn: boolean
   scale: number
+  sourcePriority: SourcePrioritySettings
+  onCycleOutputPriority?: () => void
+  onResetFaults?: () => void
+  t?: (key: string) => string
 }
 
-export function InverterDisplay({ state, inverterOn, scale }: InverterDisplayProps) {
+// The Display button steps through these pages in order
+const DISPLAY_PAGES = ["status", "battery", "grid", "history"] as const
+type DisplayPage = (typeof DISPLAY_PAGES)[number]
+
+const TRANSFER_REASON_LABELS: Record<SourceTransferReason, string> = {
+  grid_lost: "GRID LOST",
+  priority: "PRIORITY",
+  solar_available: "SOLAR OK",
+  solar_short: "SOLAR LOW",
+  battery_low: "BATT LOW",
+  battery_recovered: "BATT OK",
+}
+
+// Simulated time since the inverter started, as hh:mm:ss
+const formatSimTime = (ms: number) => {
+  const seconds = Math.floor(ms / 1000)
+  return [Math.floor(seconds / 3600), Math.floor(seconds / 60) % 60, seconds % 60]
+    .map((part) => part.toString().padStart(2, "0"))
+    .join(":")
+}
+
+export function InverterDisplay({
+  state,
+  inverterOn,
+  scale,
+  sourcePriority,
+  onCycleOutputPriority,
+  onResetFaults,
+  t = (key: string) => key,
+}: InverterDisplayProps) {
+  const [page, setPage] = useState<DisplayPage>("status")
+
   const formatNumber = (num: number, digits: number) => {
     return num.toString().padStart(digits, "0")
   }
 
+  // Faults take over the status page; warnings only get a corner badge
+  const activeDefinitions = state.faults.map((fault) => INVERTER_FAULTS[fault.id])
+  const fault = activeDefinitions.find((definition) => definition.severity === "fault")
+  const warning = activeDefinitions.find((definition) => definition.severity === "warning")
+  const otherFaults = activeDefinitions.filter((definition) => definition.severity === "fault").length - 1
+
+  // Faults and source transfers in one list, newest first
+  const history: InverterModelEvent[] = [...state.faultLog, ...state.transferLog].sort((a, b) => b.time - a.time)
+
+  const describeEvent = (event: InverterModelEvent) => {
+    if (event.type === "source_transfer") {
+      const reason = t(TRANSFER_REASON_LABELS[event.reason])
+      const transfer = `${t(event.from.toUpperCase())} → ${t(event.to.toUpperCase())} ${reason}`
+      return event.transferMs > 0 ? `${transfer} ${event.transferMs}ms` : transfer
+    }
+    const definition = INVERTER_FAULTS[event.fault]
+    const label = event.type === "fault_raised" ? t("RAISED") : event.by === "reset" ? t("RESET") : t("CLEARED")
+    return `${definition.code} ${t(definition.name)} ${label}`
+  }
+
+  const lastTransfer = state.transferLog[state.transferLog.length - 1]
+  const gridStatus = !state.gridConnected
+    ? "NO GRID"
+    : state.gridVoltage === 0
+      ? "OUTAGE"
+      : state.gridAvailable
+        ? "OK"
+        : "OUT OF RANGE"
+
+  const eventColor = (event: InverterModelEvent) =>
+    event.type === "source_transfer" ? "text-sky-400" : event.type === "fault_raised" ? "text-red-400" : "text-green-400"
+
   return (
     <motion.div
       className="relative"
@@ -91,14 +166,87 @@ export function InverterDisplay({ state, inverterOn, scale }: InverterDisplayPro
               opacity: state.screenBrightness,
             }}
           >
-            {state.screenActive && (
+            {state.screenActive && page === "history" && (
+              <div className="p-4 text-white h-full flex flex-col">
+                <div className="text-sm mb-2">{t("EVENT LOG")}</div>
+                <div className="flex-1 overflow-y-auto text-xs space-y-1 pr-1">
+                  {history.length === 0 && <div className="text-gray-400">{t("NO EVENTS")}</div>}
+                  {history.map((event, index) => (
+                    <div key={`${event.time}-${event.type}-${index}`} className={eventColor(event)}>
+                      {formatSimTime(event.time)} {describeEvent(event)}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {state.screenActive && page === "battery" && (
+              <div className="p-4 text-white">
+                <div className="text-sm mb-2">{t("BATTERY")}</div>
+                {state.batteryConnected ? (
+                  <>
+                    <div className="text-sm mb-2">{t("SOC:")} {Math.round(state.batteryLevel)}%</div>
+                    <div className="text-sm mb-2">{t("SOH:")} {state.batterySoh.toFixed(1)}%</div>
+                    <div className="text-sm mb-2">{t("Volt:")} {state.batteryVoltage.toFixed(1)} V</div>
+                    <div className="text-sm mb-2">
+                      {t("Curr:")} {state.batteryCurrent > 0 ? "+" : ""}
+                      {state.batteryCurrent.toFixed(1)} A
+                    </div>
+                    <div className="text-sm">{t("Cycles:")} {Math.floor(state.batteryCycles)}</div>
+                  </>
+                ) : (
+                  <div className="text-sm text-gray-400">{t("NO BATTERY")}</div>
+                )}
+              </div>
+            )}
+
+            {state.screenActive && page === "grid" && (
+              <div className="p-4 text-white">
+                <div className="text-sm mb-2">{t("GRID")}</div>
+                <div className={`text-sm mb-2 ${gridStatus === "OK" ? "" : "text-amber-400"}`}>
+                  {t("Status:")} {t(gridStatus)}
+                </div>
+                <div className="text-sm mb-2">{t("Volt:")} {Math.round(state.gridVoltage)} V</div>
+                <div className="text-sm mb-2">
+                  {t("Freq:")} {state.inputFrequency > 0 ? `${state.inputFrequency.toFixed(1)} Hz` : "--"}
+                </div>
+                <div className="text-sm">
+                  {t("Transfer:")}{" "}
+                  {lastTransfer ? `${formatSimTime(lastTransfer.time)} ${lastTransfer.transferMs}ms` : "--"}
+                </div>
+              </div>
+            )}
+
+            {state.screenActive && page === "status" && fault && (
+              <div className="p-4 text-red-400 h-full flex flex-col">
+                <div className="text-xs tracking-widest">{t("FAULT")}</div>
+                <div className="text-4xl font-bold">
+                  {fault.code}
+                  {otherFaults > 0 && <span className="text-sm ml-2">+{otherFaults}</span>}
+                </div>
+                <div className="text-sm uppercase mb-1">{t(fault.name)}</div>
+                <div className="text-xs text-red-300">{t(fault.action)}</div>
+                <div className="mt-auto text-xs animate-pulse">
+                  {fault.recovery.policy === "auto" ? t("AUTO RECOVERY") : t("PRESS RESET")}
+                </div>
+              </div>
+            )}
+
+            {state.screenActive && page === "status" && !fault && (
               <div className="p-4 text-white">
-                <div className="text-sm mb-2">Mode: {state.mode.toUpperCase()}</div>
-                <div className="text-sm mb-2">Load: {formatNumber(state.loadPercentage, 3)}%</div>
-                <div className="text-sm mb-2">Temp: {formatNumber(state.temperature, 2)}°C</div>
-                <div className="text-sm mb-2">Fan: {formatNumber(state.fanSpeed, 3)}%</div>
-                <div className="text-sm mb-2">Batt: {formatNumber(state.batteryLevel, 3)}%</div>
-                <div className="text-sm">Energy: {state.totalEnergyGenerated.toFixed(1)} kWh</div>
+                <div className="text-sm mb-2">
+                  {t("Mode:")} {t(state.mode.toUpperCase())} {OUTPUT_PRIORITY_CODES[sourcePriority.output]}
+                </div>
+                <div className="text-sm mb-2">{t("Load:")} {formatNumber(state.loadPercentage, 3)}%</div>
+                <div className="text-sm mb-2">{t("Temp:")} {formatNumber(state.temperature, 2)}°C</div>
+                <div className="text-sm mb-2">{t("Fan:")} {formatNumber(state.fanSpeed, 3)}%</div>
+                <div className="text-sm mb-2">{t("Batt:")} {formatNumber(state.batteryLevel, 3)}%</div>
+                <div className="text-sm">{t("Energy:")} {state.totalEnergyGenerated.toFixed(1)} kWh</div>
+                {warning && (
+                  <div className="absolute top-2 right-3 text-xs text-amber-400 animate-pulse" title={t(warning.name)}>
+                    {t("WARNING")} {warning.code}
+                  </div>
+                )}
               </div>
             )}
           </motion.div>
@@ -116,6 +264,7 @@ export function InverterDisplay({ state, inverterOn, scale }: InverterDisplayPro
             style={{
               boxShadow: "inset 0 1px 3px rgba(0,0,0,0.3)",
             }}
+            onClick={onCycleOutputPriority}
           >
             <span className="sr-only">Mode</span>
           </button>
@@ -124,14 +273,18 @@ export function InverterDisplay({ state, inverterOn, scale }: InverterDisplayPro
             style={{
               boxShadow: "inset 0 1px 3px rgba(0,0,0,0.3)",
             }}
+            onClick={onResetFaults}
           >
-            <span className="sr-only">Config</span>
+            <span className="sr-only">Reset</span>
           </button>
           <button
             className="w-12 h-12 rounded-full bg-gray-700 hover:bg-gray-600 transition-colors"
             style={{
               boxShadow: "inset 0 1px 3px rgba(0,0,0,0.3)",
             }}
+            onClick={() =>
+              setPage((current) => DISPLAY_PAGES[(DISPLAY_PAGES.indexOf(current) + 1) % DISPLAY_PAGES.length])
+            }
           >
             <span className="sr-only">Display</span>
           </button>
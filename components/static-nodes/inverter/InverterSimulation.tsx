@@ -1,129 +1,210 @@
 "use client"
 
-import { useEffect, useMemo, useCallback } from "react"
+import { useEffect, useId, useRef } from "react"
 import { InverterState } from "./types"
+import {
+  SimulationEngine,
+  INVERTER_TICK_MS,
+  InverterFaultId,
+  InverterModelState,
+  SourcePrioritySettings,
+  faultEffects,
+  gridConditionAt,
+  gridWithinLimits,
+  hourOfDay,
+  householdDemandAt,
+  loadProfileAt,
+  sourcePermissions,
+  stepInverter,
+} from "@/utils/simulation"
+import { usePowerFlowStore } from "@/store/powerFlowStore"
+import { useEnergySystemStore } from "@/store/energySystemStore"
+import { useInverterSettingsStore } from "@/store/inverterSettingsStore"
+import { useGridStore } from "@/store/gridStore"
+import { simulationClock, simulatedTimeAt } from "@/store/simulationClockStore"
+import { timeSeriesRecorder } from "@/store/timeSeriesStore"
+import type { HouseholdLoad } from "@/constants/appliances"
 
 interface InverterSimulationProps {
   inverterOn: boolean
   state: InverterState
   setState: React.Dispatch<React.SetStateAction<InverterState>>
+  // Inverter rating, and the household load at its evening peak, served on top of registered loads
+  ratedWatts: number
+  baseLoadWatts: number
+  seed?: number
+  sourcePriority: SourcePrioritySettings
+  simulatedFaults?: InverterFaultId[]
+  // When set, the load is whatever of these appliances is switched on, with their start-up surges
+  appliances?: HouseholdLoad[]
 }
 
-export function InverterSimulation({ inverterOn, state, setState }: InverterSimulationProps) {
-  // Memoize frequently used calculations
-  const loadFactor = useMemo(() => state.loadPercentage / 100, [state.loadPercentage])
-  const coolingEffect = useMemo(() => state.fanSpeed / 100, [state.fanSpeed])
-
-  // Memoize update functions
-  const updateTemperature = useCallback((currentTemp: number, targetTemp: number) => {
-    const heatRate = loadFactor * 1.5
-    const coolRate = coolingEffect * 2.5
-    return currentTemp < targetTemp 
-      ? Math.min(currentTemp + heatRate, targetTemp) 
-      : Math.max(currentTemp - coolRate, targetTemp)
-  }, [loadFactor, coolingEffect])
-
-  const calculateFanSpeed = useCallback((temp: number) => {
-    if (temp > 65) return 100
-    if (temp > 55) return 80 + Math.round(Math.random() * 5)
-    if (temp > 45) return 60 + Math.round(Math.random() * 5)
-    if (temp > 40) return 40 + Math.round(Math.random() * 5)
-    return 20 + Math.round(Math.random() * 5)
-  }, [])
-
-  // Memoize state update functions
-  const updateState = useCallback((updates: Partial<InverterState>) => {
-    setState(prev => ({ ...prev, ...updates }))
-  }, [setState])
+// How often the wall clock is checked for elapsed simulation ticks
+const UPDATE_INTERVAL_MS = 250
+
+export function InverterSimulation({
+  inverterOn,
+  state,
+  setState,
+  ratedWatts,
+  baseLoadWatts,
+  seed,
+  sourcePriority,
+  simulatedFaults = [],
+  appliances,
+}: InverterSimulationProps) {
+  // One engine per inverter, created once so the seeded sequence is never restarted. It runs
+  // on the shared simulated clock, so pausing or speeding up the clock does the same here.
+  const engineRef = useRef<SimulationEngine | null>(null)
+  const clockStartRef = useRef(0)
+  if (!engineRef.current) {
+    clockStartRef.current = simulationClock.now()
+    engineRef.current = new SimulationEngine({ seed, tickMs: INVERTER_TICK_MS, clock: simulationClock })
+  }
+
+  // Tick listeners read the latest props through refs instead of re-subscribing
+  const stateRef = useRef(state)
+  const inverterOnRef = useRef(inverterOn)
+  const baseLoadRef = useRef(baseLoadWatts)
+  const sourcePriorityRef = useRef(sourcePriority)
+  const simulatedFaultsRef = useRef(simulatedFaults)
+  const appliancesRef = useRef(appliances)
+  stateRef.current = state
+  inverterOnRef.current = inverterOn
+  baseLoadRef.current = baseLoadWatts
+  sourcePriorityRef.current = sourcePriority
+  simulatedFaultsRef.current = simulatedFaults
+  appliancesRef.current = appliances
+
+  // Only one inverter drives the shared power-flow model; any other mounted at the same time mirrors it
+  const inverterId = useId()
+  useEffect(() => {
+    usePowerFlowStore.getState().claimInverter(inverterId)
+    return () => usePowerFlowStore.getState().releaseInverter(inverterId)
+  }, [inverterId])
 
+  // Keep the shared power-flow model in step with this inverter's rating
   useEffect(() => {
-    if (!inverterOn) {
-      const cooldownInterval = setInterval(() => {
-        updateState({
-          temperature: Math.max(state.temperature - (state.temperature - 35) / 10, 35)
-        })
-      }, 1000)
-      return () => clearInterval(cooldownInterval)
+    if (usePowerFlowStore.getState().claimInverter(inverterId)) {
+      usePowerFlowStore.getState().setInverter(state.efficiency, ratedWatts)
     }
+  }, [inverterId, state.efficiency, ratedWatts])
 
-    const heatupInterval = setInterval(() => {
-      if (inverterOn) {
-        // Calculate target temperature
-        const randomVariation = Math.random() * 2 - 1
-        const targetTemp = 35 + loadFactor * 30 + randomVariation
-
-        // Update temperature and fan speed
-        const newTemp = updateTemperature(state.temperature, targetTemp)
-        const newFanSpeed = calculateFanSpeed(newTemp)
-        
-        updateState({
-          temperature: newTemp,
-          fanSpeed: newFanSpeed
+  useEffect(() => {
+    const engine = engineRef.current!
+    // What the ticks of one update add up to; the shared stores and this component take it in one write
+    let generatedKWh = 0
+    let resetSeen = false
+    let latest: InverterModelState | null = null
+
+    const unsubscribe = engine.onTick((context) => {
+      const current = stateRef.current
+      // Faults raised and the source chosen on earlier ticks decide what the inverter may do on this one
+      const effects = faultEffects(current.faults)
+      const flowState = usePowerFlowStore.getState()
+      const driving = flowState.claimInverter(inverterId)
+      const solarConnected = current.solarConnected && !effects.pvDisconnected
+      const pvAvailable = solarConnected
+        ? Object.values(flowState.sources).reduce((total, watts) => total + watts, 0)
+        : 0
+      // The grid and the household load follow the moment of the week this tick falls on
+      const simulatedTime = simulatedTimeAt(clockStartRef.current + context.time)
+      const timeOfDay = hourOfDay(simulatedTime)
+      const grid = gridConditionAt(useGridStore.getState().events, simulatedTime)
+      const gridUp = gridWithinLimits(grid)
+      // A grid that drops is bridged by the battery within milliseconds, before the transfer is logged
+      const permissions = sourcePermissions(
+        sourcePriorityRef.current,
+        current.mode === "normal" && !gridUp ? "battery" : current.mode,
+        pvAvailable,
+      )
+      // A household's appliances draw what's switched on right now; otherwise the base load follows the typical day
+      const demand = appliancesRef.current ? householdDemandAt(appliancesRef.current, timeOfDay) : null
+      const loadWatts = demand ? demand.watts + demand.surgeWatts : baseLoadRef.current * loadProfileAt(timeOfDay)
+      const power = inverterOnRef.current
+        ? {
+            flow: flowState.advance(
+              inverterId,
+              context.dtMs,
+              {
+                solarConnected,
+                batteryConnected: current.batteryConnected,
+                gridConnected: current.gridConnected && gridUp && permissions.useGrid,
+                inverterEnabled: !effects.outputStopped,
+                allowBatteryDischarge: permissions.allowBatteryDischarge,
+                gridChargeWatts: permissions.gridChargeWatts,
+              },
+              loadWatts,
+            ),
+            ratedWatts,
+            battery: flowState.battery,
+            batteryHealth: usePowerFlowStore.getState().batteryHealth,
+          }
+        : null
+
+      const { state: next } = stepInverter(current, inverterOnRef.current, context, power, {
+        sourcePriority: sourcePriorityRef.current,
+        forcedFaults: simulatedFaultsRef.current,
+        grid,
+      })
+
+      if (driving) {
+        timeSeriesRecorder.record({
+          time: simulatedTime,
+          pvWatts: power?.flow.pvWatts ?? 0,
+          loadWatts: power?.flow.loadWatts ?? 0,
+          batterySoc: power?.flow.batterySoc ?? flowState.batterySoc,
+          gridImportWatts: power?.flow.gridImportWatts ?? 0,
+          inverterTemperature: next.temperature,
         })
 
-        // Simulate energy generation
-        if (state.solarConnected && state.mode === "pv") {
-          const generationRate = 0.001 * (1 + (Math.random() * 0.2 - 0.1))
-          updateState({
-            totalEnergyGenerated: state.totalEnergyGenerated + generationRate
-          })
-        }
-
-        // Simulate battery charging/discharging
-        if (state.batteryConnected) {
-          if (state.solarConnected && state.loadPercentage < 80) {
-            const chargeRate = 0.01 * (1 - state.batteryLevel / 150)
-            updateState({
-              batteryCharging: true,
-              batteryLevel: Math.min(state.batteryLevel + chargeRate, 100)
-            })
-          } else if (state.loadPercentage > 0) {
-            const dischargeRate = 0.02 * (state.loadPercentage / 50)
-            updateState({
-              batteryCharging: false,
-              batteryLevel: Math.max(state.batteryLevel - dischargeRate, 0)
-            })
-
-            if (state.batteryLevel < 10 && !state.faultCondition && state.mode === "battery") {
-              updateState({ faultCondition: true })
-              setTimeout(() => updateState({ faultCondition: false }), 5000)
-            }
-          } else {
-            updateState({ batteryCharging: false })
-          }
-        }
+        generatedKWh += Math.max(0, next.totalEnergyGenerated - current.totalEnergyGenerated)
+      }
 
-        // Update frequencies
-        if (state.mode === "normal" && state.gridConnected) {
-          updateState({ inputFrequency: 49.8 + Math.random() * 0.4 })
-        } else if (state.mode === "pv" && state.solarConnected) {
-          updateState({ inputFrequency: 0 })
-        } else {
-          updateState({ inputFrequency: 0 })
+      resetSeen ||= current.faultResetRequested
+      latest = next
+      stateRef.current = { ...current, ...next }
+    })
+
+    // At the fastest clock speed one update runs hundreds of ticks
+    const update = () => {
+      engine.update()
+      if (!latest) return
+      const next = latest
+      const sawReset = resetSeen
+      latest = null
+      resetSeen = false
+
+      const flowState = usePowerFlowStore.getState()
+      flowState.commit()
+      if (flowState.claimInverter(inverterId)) {
+        // Generation counts towards the visitor's lifetime total, which outlives this component
+        if (generatedKWh > 0) useEnergySystemStore.getState().addEnergyGenerated(generatedKWh)
+
+        // The mode and whole-percent charge are shared settings; only real changes notify their subscribers
+        const settings = useInverterSettingsStore.getState()
+        const batteryLevel = Math.round(next.batteryLevel)
+        if (next.mode !== settings.mode || batteryLevel !== settings.batteryLevel) {
+          settings.applySettings({ mode: next.mode, batteryLevel })
         }
+      }
+      generatedKWh = 0
+
+      // A RESET pressed since the ticks read the state is kept for the next update
+      setState((prev) => ({
+        ...prev,
+        ...next,
+        faultResetRequested: next.faultResetRequested || (prev.faultResetRequested && !sawReset),
+      }))
+    }
 
-        if (inverterOn && state.outputFrequency > 0) {
-          updateState({ outputFrequency: 49.9 + Math.random() * 0.2 })
-        }
+    const interval = setInterval(update, UPDATE_INTERVAL_MS)
 
-        // Random fault condition
-        if (inverterOn && Math.random() < 0.001 && !state.faultCondition) {
-          updateState({ faultCondition: true })
-          setTimeout(() => updateState({ faultCondition: false }), 3000)
-        }
-      }
-    }, 1000)
-
-    return () => clearInterval(heatupInterval)
-  }, [
-    inverterOn,
-    state,
-    loadFactor,
-    coolingEffect,
-    updateTemperature,
-    calculateFanSpeed,
-    updateState
-  ])
+    return () => {
+      clearInterval(interval)
+      unsubscribe()
+    }
+  }, [setState, ratedWatts, inverterId])
 
   return null
-} 
\ No newline at end of file
+}
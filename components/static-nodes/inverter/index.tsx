@@ -1,12 +1,16 @@
 "use client"
 
-import { useState, useCallback, useRef } from "react"
+import { useState, useCallback, useEffect, useRef } from "react"
 import { motion } from "framer-motion"
 import { StaticInverterNodeProps, InverterState } from "./types"
 import { InverterAudio } from "./InverterAudio"
 import { InverterDisplay } from "./InverterDisplay"
 import { InverterStatus } from "./InverterStatus"
 import { InverterSimulation } from "./InverterSimulation"
+import { useEnergySystemStore } from "@/store/energySystemStore"
+import { useInverterSettingsStore } from "@/store/inverterSettingsStore"
+import { usePowerFlowStore } from "@/store/powerFlowStore"
+import { OUTPUT_PRIORITY_CODES, OutputSourcePriority, batteryTerminalVoltage } from "@/utils/simulation"
 
 export default function StaticInverterNode({
   position,
@@ -15,47 +19,95 @@ export default function StaticInverterNode({
   gridConnected: initialGridConnected = false,
   solarConnected: initialSolarConnected = false,
   batteryConnected: initialBatteryConnected = false,
-  loadPercentage: initialLoadPercentage = 0,
+  loadPercentage: loadPercentageProp,
   efficiency: initialEfficiency = 97,
   inputVoltage: initialInputVoltage = 48,
   outputVoltage: initialOutputVoltage = 230,
   frequency: initialFrequency = 50,
-  batteryLevel: initialBatteryLevel = 80,
+  batteryLevel: batteryLevelProp,
   batteryCharging: initialBatteryCharging = false,
   totalEnergyGenerated: initialTotalEnergyGenerated = 23.5,
   temperature: initialTemperature = 45,
   fanSpeed: initialFanSpeed = 40,
-  mode: initialMode = "normal",
+  mode: modeProp,
   scale = 0.35,
+  ratedPower = 3000,
+  seed,
+  simulatedFaults,
+  appliances,
+  t,
 }: StaticInverterNodeProps) {
+  // Remembered across visits: lifetime generation and LCD settings
+  const lifetimeGenerated = useEnergySystemStore((store) => store.energyGenerated)
+  const screenSettings = useInverterSettingsStore((store) => store.screen)
+  const sourcePriority = useInverterSettingsStore((store) => store.sourcePriority)
+  const setSourcePriority = useInverterSettingsStore((store) => store.setSourcePriority)
+  // Mode, battery and load come from the shared settings (a shared link, the hero controls or the
+  // last visit) unless the topology fixes them; the driving inverter writes its own changes back
+  const storedLoadPercentage = useInverterSettingsStore((store) => store.loadPercentage)
+  const loadPercentage = loadPercentageProp ?? storedLoadPercentage
+
   // State management
-  const [state, setState] = useState<InverterState>({
-    gridConnected: initialGridConnected,
-    solarConnected: initialSolarConnected,
-    batteryConnected: initialBatteryConnected,
-    temperature: initialTemperature,
-    loadPercentage: initialLoadPercentage,
-    efficiency: initialEfficiency,
-    inputVoltage: initialInputVoltage,
-    outputVoltage: initialOutputVoltage,
-    inputFrequency: 0,
-    outputFrequency: initialFrequency,
-    batteryLevel: initialBatteryLevel,
-    batteryCharging: initialBatteryCharging,
-    totalEnergyGenerated: initialTotalEnergyGenerated,
-    fanSpeed: initialFanSpeed,
-    mode: initialMode,
-    selectedMode: initialMode === "normal" ? 0 : initialMode === "pv" ? 1 : 2,
-    faultCondition: false,
-    screenActive: false,
-    configMode: false,
-    displayOption: 0,
-    screenBrightness: 1,
-    bootupPhase: 3,
-    hovered: false,
-    showActivatePrompt: !inverterOn,
+  const [state, setState] = useState<InverterState>(() => {
+    const { battery, batteryHealth } = usePowerFlowStore.getState()
+    const settings = useInverterSettingsStore.getState()
+    const initialBatteryLevel = batteryLevelProp ?? settings.batteryLevel
+    return {
+      gridConnected: initialGridConnected,
+      solarConnected: initialSolarConnected,
+      batteryConnected: initialBatteryConnected,
+      gridAvailable: true,
+      gridVoltage: 0,
+      temperature: initialTemperature,
+      loadPercentage,
+      efficiency: initialEfficiency,
+      inputVoltage: initialInputVoltage,
+      outputVoltage: initialOutputVoltage,
+      inputFrequency: 0,
+      outputFrequency: initialFrequency,
+      batteryLevel: initialBatteryLevel,
+      batteryCharging: initialBatteryCharging,
+      totalEnergyGenerated: initialTotalEnergyGenerated,
+      fanSpeed: initialFanSpeed,
+      mode: modeProp ?? settings.mode,
+      transferPending: null,
+      transferLog: [],
+      batteryVoltage: batteryTerminalVoltage(battery, initialBatteryLevel, 0),
+      batteryCurrent: 0,
+      batterySoh: batteryHealth.soh,
+      batteryCycles: batteryHealth.cycles,
+      pvVoltage: 0,
+      fanStalled: false,
+      faultCondition: false,
+      faults: [],
+      faultPending: {},
+      faultLog: [],
+      faultResetRequested: false,
+      screenActive: false,
+      configMode: false,
+      displayOption: screenSettings.displayOption,
+      screenBrightness: 1,
+      bootupPhase: 3,
+      hovered: false,
+      showActivatePrompt: !inverterOn,
+    }
   })
 
+  // Settings changed elsewhere after mount (a restored link, the hero controls) reach the running inverter
+  useEffect(
+    () =>
+      useInverterSettingsStore.subscribe((settings, previous) => {
+        if (settings.mode !== previous.mode) {
+          setState(prev => (prev.mode === settings.mode ? prev : { ...prev, mode: settings.mode }))
+        }
+        const flow = usePowerFlowStore.getState()
+        if (settings.batteryLevel !== previous.batteryLevel && settings.batteryLevel !== Math.round(flow.batterySoc)) {
+          flow.setBattery(flow.battery, settings.batteryLevel)
+        }
+      }),
+    [],
+  )
+
   const nodeRef = useRef<HTMLDivElement>(null)
   const connectionPointRef = useRef<HTMLDivElement>(null)
 
@@ -92,14 +144,14 @@ export default function StaticInverterNode({
         setTimeout(() => setState(prev => ({
           ...prev,
           bootupPhase: 3,
-          screenBrightness: 1
+          screenBrightness: screenSettings.screenBrightness
         })), 1500)
       }
 
       // Power on sequence
       setTimeout(() => setState(prev => ({
         ...prev,
-        loadPercentage: initialLoadPercentage || 0
+        loadPercentage: loadPercentage || 0
       })), 500)
 
       setTimeout(() => setState(prev => ({
@@ -111,29 +163,6 @@ export default function StaticInverterNode({
         ...prev,
         outputFrequency: initialFrequency || 50
       })), 1500)
-
-      // Set connections based on mode
-      if (state.mode === "pv") {
-        setState(prev => ({
-          ...prev,
-          solarConnected: true,
-          batteryConnected: true,
-          gridConnected: false
-        }))
-      } else if (state.mode === "normal") {
-        setState(prev => ({
-          ...prev,
-          gridConnected: true,
-          solarConnected: false
-        }))
-      } else if (state.mode === "battery") {
-        setState(prev => ({
-          ...prev,
-          batteryConnected: true,
-          gridConnected: false,
-          solarConnected: false
-        }))
-      }
     } else {
       // Power off sequence
       setState(prev => ({
@@ -146,18 +175,26 @@ export default function StaticInverterNode({
         screenBrightness: 0
       }))
     }
-  }, [inverterOn, initialLoadPercentage, initialFrequency, onInverterChange, state.mode, state.screenActive])
-
-  // Handle mode change
-  const changeMode = useCallback(() => {
-    const modes = ["normal", "pv", "battery"] as const
-    const newModeIndex = (state.selectedMode + 1) % 3
-    setState(prev => ({
-      ...prev,
-      selectedMode: newModeIndex,
-      mode: modes[newModeIndex]
-    }))
-  }, [state.selectedMode])
+  }, [
+    inverterOn,
+    loadPercentage,
+    initialFrequency,
+    onInverterChange,
+    state.screenActive,
+    screenSettings.screenBrightness,
+  ])
+
+  // Picked up by the simulation on its next tick, like a press on the unit's RESET key
+  const resetFaults = useCallback(() => {
+    setState(prev => ({ ...prev, faultResetRequested: true }))
+  }, [])
+
+  // The Mode key steps through the output source priorities; the simulation picks the source itself
+  const cycleOutputPriority = useCallback(() => {
+    const priorities = Object.keys(OUTPUT_PRIORITY_CODES) as OutputSourcePriority[]
+    const next = priorities[(priorities.indexOf(sourcePriority.output) + 1) % priorities.length]
+    setSourcePriority({ output: next })
+  }, [sourcePriority.output, setSourcePriority])
 
   return (
     <div
@@ -191,9 +228,13 @@ export default function StaticInverterNode({
         />
 
         <InverterDisplay
-          state={state}
+          state={{ ...state, totalEnergyGenerated: initialTotalEnergyGenerated + lifetimeGenerated }}
           inverterOn={inverterOn}
           scale={scale}
+          sourcePriority={sourcePriority}
+          onCycleOutputPriority={cycleOutputPriority}
+          onResetFaults={resetFaults}
+          t={t}
         />
 
         <InverterStatus
@@ -208,6 +249,12 @@ export default function StaticInverterNode({
           inverterOn={inverterOn}
           state={state}
           setState={setState}
+          ratedWatts={ratedPower}
+          baseLoadWatts={(loadPercentage / 100) * ratedPower}
+          seed={seed}
+          sourcePriority={sourcePriority}
+          simulatedFaults={simulatedFaults}
+          appliances={appliances}
         />
 
         {/* Connection point */}
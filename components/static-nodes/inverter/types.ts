@@ -1,3 +1,7 @@
+import type { ActiveInverterFault, InverterFaultEvent, InverterFaultId } from "@/utils/simulation/inverter-faults"
+import type { PendingTransfer, SourceTransferEvent } from "@/utils/simulation/source-priority"
+import type { HouseholdLoad } from "@/constants/appliances"
+
 export interface StaticInverterNodeProps {
   position: { x: number; y: number }
   inverterOn: boolean
@@ -5,6 +9,7 @@ export interface StaticInverterNodeProps {
   gridConnected?: boolean
   solarConnected?: boolean
   batteryConnected?: boolean
+  // Load, starting charge and mode fall back to the shared inverter settings when not given
   loadPercentage?: number
   efficiency?: number
   inputVoltage?: number
@@ -15,16 +20,31 @@ export interface StaticInverterNodeProps {
   totalEnergyGenerated?: number
   temperature?: number
   fanSpeed?: number
+  // Source the inverter starts on; from there it follows its priority settings
   mode?: "normal" | "pv" | "battery"
   scale?: number
+  // Continuous output rating in watts
+  ratedPower?: number
+  // Seed for the simulation; the same seed reproduces the same readings and faults
+  seed?: number
+  // Faults that trip regardless of the readings, for training scenarios
+  simulatedFaults?: InverterFaultId[]
+  // Appliances on the output; their load profile replaces the generic one scaled from loadPercentage
+  appliances?: HouseholdLoad[]
+  // Translates the LCD labels; defaults to the English text
+  t?: (key: string) => string
 }
 
 export type InverterMode = "normal" | "pv" | "battery"
 
 export interface InverterState {
+  // Which sources are wired to the inverter
   gridConnected: boolean
   solarConnected: boolean
   batteryConnected: boolean
+  // Whether the utility supply is live and within limits on the grid input, and its voltage
+  gridAvailable: boolean
+  gridVoltage: number
   temperature: number
   loadPercentage: number
   efficiency: number
@@ -36,9 +56,27 @@ export interface InverterState {
   batteryCharging: boolean
   totalEnergyGenerated: number
   fanSpeed: number
+  // Source currently powering the loads, chosen by the source priority settings
   mode: InverterMode
-  selectedMode: number
+  transferPending: PendingTransfer | null
+  transferLog: SourceTransferEvent[]
+  // Estimated battery and PV string voltages
+  batteryVoltage: number
+  pvVoltage: number
+  // Battery current in amps (positive while charging), state of health in percent and cycles so far
+  batteryCurrent: number
+  batterySoh: number
+  batteryCycles: number
+  // The cooling fan has seized and stays stopped until RESET
+  fanStalled: boolean
+  // Whether an active fault (not just a warning) is holding the inverter
   faultCondition: boolean
+  faults: ActiveInverterFault[]
+  // Simulated time each not-yet-tripped fault condition was first seen
+  faultPending: Partial<Record<InverterFaultId, number>>
+  faultLog: InverterFaultEvent[]
+  // Set by the RESET button; the simulation clears it on its next tick
+  faultResetRequested: boolean
   screenActive: boolean
   configMode: boolean
   displayOption: number
@@ -3,6 +3,14 @@
 import { useState, useEffect } from "react"
 import { motion } from "framer-motion"
 import { Battery, BatteryCharging } from "lucide-react"
+import { usePowerFlowStore } from "@/store/powerFlowStore"
+import type { BatterySpec } from "@/utils/simulation/power-flow"
+import {
+  BATTERY_CHEMISTRIES,
+  batteryCurrent,
+  batteryTerminalVoltage,
+  createBatterySpec,
+} from "@/utils/simulation/battery"
 
 interface StaticBatteryNodeProps {
   position: { x: number; y: number }
@@ -11,8 +19,17 @@ interface StaticBatteryNodeProps {
   isCharging?: boolean
   chargeLevel?: number
   type?: "lithium" | "flow" | "standard"
+  // Battery installed in the shared power-flow model when powerFlowId is set; defaults to a bank of `type`
+  spec?: BatterySpec
+  // Equivalent full cycles the installed battery has already been through
+  cycles?: number
+  // When set, charge level and power are read from the shared power-flow model
+  powerFlowId?: string
 }
 
+// Size of the bank installed when only a chemistry is given
+const DEFAULT_CAPACITY_WH = 5000
+
 export default function StaticBatteryNode({
   position,
   scale = 1,
@@ -20,8 +37,33 @@ export default function StaticBatteryNode({
   isCharging = false,
   chargeLevel = 80,
   type = "standard",
+  spec,
+  cycles,
+  powerFlowId,
 }: StaticBatteryNodeProps) {
   const [pulseVisible, setPulseVisible] = useState(false)
+  const batterySoc = usePowerFlowStore((state) => state.batterySoc)
+  const batteryWatts = usePowerFlowStore((state) => state.flow.batteryWatts)
+  const installed = usePowerFlowStore((state) => state.battery)
+  const health = usePowerFlowStore((state) => state.batteryHealth)
+
+  useEffect(() => {
+    if (powerFlowId) {
+      usePowerFlowStore.getState().setBattery(spec ?? createBatterySpec(type, DEFAULT_CAPACITY_WH), undefined, cycles)
+    }
+  }, [powerFlowId, spec, type, cycles])
+
+  // Live values come from the power-flow model; otherwise fall back to the props
+  const linked = Boolean(powerFlowId)
+  const chemistry = linked ? installed.chemistry : type
+  const level = linked ? Math.round(batterySoc) : chargeLevel
+  const charging = linked ? batteryWatts > 0 : isCharging
+  const current = batteryCurrent(batteryWatts, batteryTerminalVoltage(installed, batterySoc, batteryWatts))
+  const powerLabel = linked
+    ? `${batteryWatts > 0 ? "+" : ""}${(batteryWatts / 1000).toFixed(1)} kW`
+    : isCharging
+      ? "+2.5 kW"
+      : "-1.8 kW"
 
   useEffect(() => {
     if (batteryOn) {
@@ -33,7 +75,7 @@ export default function StaticBatteryNode({
   }, [batteryOn])
 
   const getBatteryColor = () => {
-    switch (type) {
+    switch (chemistry) {
       case "lithium":
         return "#3DD56D" // Green
       case "flow":
@@ -85,16 +127,16 @@ export default function StaticBatteryNode({
             className="absolute bottom-0 left-0 right-0 rounded-b-md"
             style={{
               backgroundColor: batteryOn ? batteryColor : "rgba(100, 116, 139, 0.3)",
-              height: `${chargeLevel}%`,
+              height: `${level}%`,
             }}
             animate={{
-              height: isCharging ? ["70%", "85%", "70%"] : `${chargeLevel}%`,
+              height: charging && !linked ? ["70%", "85%", "70%"] : `${level}%`,
               opacity: batteryOn ? 1 : 0.3,
             }}
             transition={{
               height: {
                 duration: 3,
-                repeat: isCharging ? Number.POSITIVE_INFINITY : 0,
+                repeat: charging && !linked ? Number.POSITIVE_INFINITY : 0,
                 ease: "easeInOut",
               },
               opacity: {
@@ -105,26 +147,37 @@ export default function StaticBatteryNode({
 
           {/* Battery Icon */}
           <div className="absolute top-4 left-1/2 transform -translate-x-1/2 text-white">
-            {isCharging ? <BatteryCharging className="h-8 w-8" /> : <Battery className="h-8 w-8" />}
+            {charging ? <BatteryCharging className="h-8 w-8" /> : <Battery className="h-8 w-8" />}
           </div>
 
           {/* Battery Type Label */}
           <div className="absolute top-16 left-1/2 transform -translate-x-1/2 text-white text-center">
-            <div className="text-xs font-semibold">
-              {type === "lithium" ? "Lithium-Ion" : type === "flow" ? "Flow Battery" : "Standard"}
-            </div>
+            <div className="text-xs font-semibold">{BATTERY_CHEMISTRIES[chemistry].name}</div>
           </div>
 
           {/* Battery Status */}
           <div className="absolute top-24 left-1/2 transform -translate-x-1/2 text-white text-center">
-            <div className="text-xs">{batteryOn ? (isCharging ? "Charging" : "Discharging") : "Standby"}</div>
-            <div className="text-sm font-bold mt-1">{chargeLevel}%</div>
+            <div className="text-xs">{batteryOn ? (charging ? "Charging" : "Discharging") : "Standby"}</div>
+            <div className="text-sm font-bold mt-1">{level}%</div>
           </div>
 
+          {/* Battery Health */}
+          {linked && (
+            <div className="absolute top-36 left-0 right-0 text-white text-center text-[10px] opacity-80">
+              SOH {health.soh.toFixed(1)}% · {Math.floor(health.cycles)} cycles
+            </div>
+          )}
+
           {/* Power Output */}
           <div className="absolute bottom-4 left-1/2 transform -translate-x-1/2 text-white text-center">
             <div className="text-xs">Power</div>
-            <div className="text-sm font-bold">{batteryOn ? (isCharging ? "+2.5 kW" : "-1.8 kW") : "0.0 kW"}</div>
+            <div className="text-sm font-bold">{batteryOn ? powerLabel : "0.0 kW"}</div>
+            {linked && batteryOn && (
+              <div className="text-[10px]">
+                {current > 0 ? "+" : ""}
+                {current.toFixed(1)} A
+              </div>
+            )}
           </div>
         </motion.div>
 
@@ -2,6 +2,7 @@
 
 import { useState, useEffect, useRef } from "react"
 import { motion, AnimatePresence } from "framer-motion"
+import { usePowerFlowStore } from "@/store/powerFlowStore"
 
 interface StaticBulbNodeProps {
   position?: { x: number; y: number }
@@ -9,6 +10,10 @@ interface StaticBulbNodeProps {
   onBulbToggle?: (value: boolean) => void
   t?: (key: string) => string
   scale?: number
+  // Power drawn while lit, in watts
+  ratedWatts?: number
+  // When set, this bulb draws its rated power from the shared power-flow model under this id
+  powerFlowId?: string
 }
 
 export default function StaticBulbNode({
@@ -17,6 +22,8 @@ export default function StaticBulbNode({
   onBulbToggle,
   t = (key: string) => key,
   scale = 1,
+  ratedWatts = 9,
+  powerFlowId,
 }: StaticBulbNodeProps) {
   const [pressed, setPressed] = useState(false)
   const [hovered, setHovered] = useState(false)
@@ -33,6 +40,17 @@ export default function StaticBulbNode({
     prevBulbState.current = bulbOn
   }, [bulbOn])
 
+  // Register the bulb's draw with the shared power-flow model
+  useEffect(() => {
+    if (!powerFlowId) return
+    usePowerFlowStore.getState().setLoad(powerFlowId, bulbOn ? ratedWatts : 0)
+  }, [powerFlowId, bulbOn, ratedWatts])
+
+  useEffect(() => {
+    if (!powerFlowId) return
+    return () => usePowerFlowStore.getState().removeLoad(powerFlowId)
+  }, [powerFlowId])
+
   // Light rays animation
   const lightRays = Array.from({ length: 8 }).map((_, i) => ({
     angle: i * 45,
@@ -46,7 +64,7 @@ export default function StaticBulbNode({
         className="relative flex flex-col items-center justify-center w-28 h-48 select-none transition-shadow"
         onMouseEnter={() => setHovered(true)}
         onMouseLeave={() => setHovered(false)}
-        title={bulbOn ? t("Bulb On") : t("Bulb Off")}
+        title={bulbOn ? `${t("Bulb On")} · ${ratedWatts} W` : t("Bulb Off")}
         style={{ background: "transparent" }}
         whileHover={{ scale: 1.05 }}
         transition={{ type: "spring", stiffness: 300, damping: 20 }}
@@ -3,6 +3,8 @@
 import { useState, useEffect, useCallback, useRef } from "react"
 import { motion } from "framer-motion"
 import { playSound } from "../../utils/audio-utils"
+import { BATTERY_PRESETS } from "@/utils/simulation/power-flow"
+import { batteryHealthAt, deratedBatterySpec, socAfter } from "@/utils/simulation/battery"
 
 interface StaticInverterNodeProps {
   position: { x: number; y: number }
@@ -24,8 +26,15 @@ interface StaticInverterNodeProps {
   mode?: "normal" | "pv" | "battery"
   scale?: number
   showHousing?: boolean
+  // Translates the display and button labels; English when left out
+  t?: (key: string) => string
 }
 
+// The preview runs a 3 kW inverter on a 5 kWh lithium bank, one step per second
+const PREVIEW_BATTERY = BATTERY_PRESETS.powerVault5kWh
+const PREVIEW_RATED_WATTS = 3000
+const PREVIEW_STEP_MS = 1000
+
 export default function StaticInverterNode({
   position,
   inverterOn,
@@ -46,6 +55,7 @@ export default function StaticInverterNode({
   mode: initialMode = "normal",
   scale = 0.35,
   showHousing = true,
+  t = (key: string) => key,
 }: StaticInverterNodeProps) {
   // State for inverter operation
   const [gridConnected, setGridConnected] = useState(initialGridConnected)
@@ -262,19 +272,27 @@ export default function StaticInverterNode({
 
         // Simulate battery charging/discharging with more realistic behavior
         if (batteryConnected) {
+          // Charge and discharge limits come from the battery's chemistry, tapering as it fills
+          const battery = deratedBatterySpec(
+            PREVIEW_BATTERY,
+            batteryHealthAt(PREVIEW_BATTERY.chemistry),
+            25,
+            batteryLevel,
+          )
           if (solarConnected && loadPercentage < 80) {
-            // Charging - slower as battery gets fuller
-            const chargeRate = 0.01 * (1 - batteryLevel / 150) // Slows down as battery fills
             setBatteryCharging(true)
-            setBatteryLevel((prev) => Math.min(prev + chargeRate, 100))
+            setBatteryLevel((prev) => Math.min(socAfter(battery, prev, battery.maxChargeW, PREVIEW_STEP_MS), 100))
           } else if (loadPercentage > 0) {
             // Discharging - faster as load increases
-            const dischargeRate = 0.02 * (loadPercentage / 50)
+            const dischargeWatts = Math.min(
+              ((loadPercentage / 100) * PREVIEW_RATED_WATTS) / (efficiency / 100),
+              battery.maxDischargeW,
+            )
             setBatteryCharging(false)
-            setBatteryLevel((prev) => Math.max(prev - dischargeRate, 0))
+            setBatteryLevel((prev) => Math.max(socAfter(battery, prev, -dischargeWatts, PREVIEW_STEP_MS), 0))
 
             // Set fault condition if battery gets too low
-            if (batteryLevel < 10 && !faultCondition && mode === "battery") {
+            if (batteryLevel < PREVIEW_BATTERY.minSoc && !faultCondition && mode === "battery") {
               setFaultCondition(true)
               // Reset fault after 5 seconds
               setTimeout(() => setFaultCondition(false), 5000)
@@ -323,6 +341,7 @@ export default function StaticInverterNode({
     faultCondition,
     outputFrequency,
     inputVoltage,
+    efficiency,
   ])
 
   // Play button click sound
@@ -668,7 +687,7 @@ export default function StaticInverterNode({
 
             {bootupPhase === 0 && (
               <div className="absolute inset-0 flex flex-col items-center justify-center">
-                <div className="text-emerald-400/70 text-sm mb-6">POWER INITIALIZING</div>
+                <div className="text-emerald-400/70 text-sm mb-6">{t("POWER INITIALIZING")}</div>
 
                 {/* Loading animation */}
                 <div className="w-4/5 h-1 bg-emerald-900/50 rounded-full overflow-hidden mb-4">
@@ -686,7 +705,7 @@ export default function StaticInverterNode({
                   animate={{ opacity: [0.3, 0.7, 0.3] }}
                   transition={{ duration: 0.8, repeat: Number.POSITIVE_INFINITY }}
                 >
-                  SYSTEM BOOT SEQUENCE
+                  {t("SYSTEM BOOT SEQUENCE")}
                 </motion.div>
 
                 {/* Diagnostic text */}
@@ -697,15 +716,15 @@ export default function StaticInverterNode({
                   transition={{ delay: 0.5 }}
                 >
                   <div className="flex flex-col items-center">
-                    <div>CHECKING HARDWARE...</div>
-                    <div className="mt-1">LOADING FIRMWARE v3.2.1</div>
+                    <div>{t("CHECKING HARDWARE...")}</div>
+                    <div className="mt-1">{t("LOADING FIRMWARE")} v3.2.1</div>
                     <motion.div
                       className="mt-1"
                       initial={{ opacity: 0 }}
                       animate={{ opacity: 1 }}
                       transition={{ delay: 0.8 }}
                     >
-                      INITIALIZING POWER MODULES
+                      {t("INITIALIZING POWER MODULES")}
                     </motion.div>
                   </div>
                 </motion.div>
@@ -743,7 +762,7 @@ export default function StaticInverterNode({
 
             {bootupPhase === 2 && (
               <div className="absolute inset-0 flex flex-col items-center justify-center">
-                <div className="text-emerald-400 text-lg mb-2">SYSTEM CHECK</div>
+                <div className="text-emerald-400 text-lg mb-2">{t("SYSTEM CHECK")}</div>
                 <div className="w-3/4 h-2 bg-emerald-900 rounded-full overflow-hidden">
                   <motion.div
                     className="h-full bg-emerald-400"
@@ -766,8 +785,8 @@ export default function StaticInverterNode({
                       animate={{ opacity: 1 }}
                       transition={{ delay: 0.4, duration: 0.3 }}
                     >
-                      <span>CPU</span>
-                      <span className="text-emerald-500">OK</span>
+                      <span>{t("CPU")}</span>
+                      <span className="text-emerald-500">{t("OK")}</span>
                     </motion.div>
                     <motion.div
                       className="flex justify-between"
@@ -775,8 +794,8 @@ export default function StaticInverterNode({
                       animate={{ opacity: 1 }}
                       transition={{ delay: 0.6, duration: 0.3 }}
                     >
-                      <span>MEMORY</span>
-                      <span className="text-emerald-500">OK</span>
+                      <span>{t("MEMORY")}</span>
+                      <span className="text-emerald-500">{t("OK")}</span>
                     </motion.div>
                     <motion.div
                       className="flex justify-between"
@@ -784,8 +803,8 @@ export default function StaticInverterNode({
                       animate={{ opacity: 1 }}
                       transition={{ delay: 0.8, duration: 0.3 }}
                     >
-                      <span>SENSORS</span>
-                      <span className="text-emerald-500">OK</span>
+                      <span>{t("SENSORS")}</span>
+                      <span className="text-emerald-500">{t("OK")}</span>
                     </motion.div>
                     <motion.div
                       className="flex justify-between"
@@ -793,8 +812,8 @@ export default function StaticInverterNode({
                       animate={{ opacity: 1 }}
                       transition={{ delay: 1.0, duration: 0.3 }}
                     >
-                      <span>CALIBRATION</span>
-                      <span className="text-emerald-500">OK</span>
+                      <span>{t("CALIBRATION")}</span>
+                      <span className="text-emerald-500">{t("OK")}</span>
                     </motion.div>
                   </div>
                 </motion.div>
@@ -832,7 +851,7 @@ export default function StaticInverterNode({
                       <circle cx="9" cy="9" r="1.5" fill="currentColor" />
                       <circle cx="15" cy="9" r="1.5" fill="currentColor" />
                     </svg>
-                    <span className="text-[10px]">Normal</span>
+                    <span className="text-[10px]">{t("Normal")}</span>
                   </div>
                   <div
                     className={`text-xs flex flex-col items-center ${
@@ -846,7 +865,7 @@ export default function StaticInverterNode({
                       <line x1="16" y1="8" x2="16" y2="16" stroke="currentColor" strokeWidth="1.5" />
                       <line x1="6" y1="12" x2="18" y2="12" stroke="currentColor" strokeWidth="1.5" />
                     </svg>
-                    <span className="text-[10px]">PV Mode</span>
+                    <span className="text-[10px]">{t("PV Mode")}</span>
                   </div>
                   <div
                     className={`text-xs flex flex-col items-center ${
@@ -859,7 +878,7 @@ export default function StaticInverterNode({
                       <line x1="14" y1="4" x2="14" y2="6" stroke="currentColor" strokeWidth="1.5" />
                       <line x1="10" y1="9" x2="14" y2="9" stroke="currentColor" strokeWidth="1.5" />
                     </svg>
-                    <span className="text-[10px]">Batt. Mode</span>
+                    <span className="text-[10px]">{t("Batt. Mode")}</span>
                   </div>
                 </div>
 
@@ -870,7 +889,7 @@ export default function StaticInverterNode({
                     {/* AC Input */}
                     <div className="mb-1">
                       <div className="text-xs flex items-center">
-                        <span>AC INPUT</span>
+                        <span>{t("AC INPUT")}</span>
                         {gridConnected && inverterOn && (
                           <motion.span
                             className="ml-1 inline-block h-1.5 w-1.5 rounded-full bg-emerald-400"
@@ -914,7 +933,7 @@ export default function StaticInverterNode({
                     {/* Total Energy Generated */}
                     <div className="mb-1">
                       <div className="text-xs flex items-center">
-                        <span>TOTAL ENERGY</span>
+                        <span>{t("TOTAL ENERGY")}</span>
                         {inverterOn && (
                           <motion.span
                             className="ml-1 inline-block h-1.5 w-1.5 rounded-full bg-emerald-400"
@@ -942,7 +961,7 @@ export default function StaticInverterNode({
                     {/* PV Input */}
                     <div className="mb-1">
                       <div className="text-xs flex items-center">
-                        <span>PV INPUT</span>
+                        <span>{t("PV INPUT")}</span>
                         {solarConnected && inverterOn && (
                           <motion.span
                             className="ml-1 inline-block h-1.5 w-1.5 rounded-full bg-emerald-400"
@@ -989,7 +1008,7 @@ export default function StaticInverterNode({
                     {/* AC Output */}
                     <div className="mb-1">
                       <div className="text-xs flex items-center">
-                        <span>AC OUTPUT</span>
+                        <span>{t("AC OUTPUT")}</span>
                         {inverterOn && (
                           <motion.span
                             className="ml-1 inline-block h-1.5 w-1.5 rounded-full bg-emerald-400"
@@ -1027,7 +1046,7 @@ export default function StaticInverterNode({
 
                     {/* Load Capacity */}
                     <div className="mb-1">
-                      <div className="text-xs">LOAD CAP</div>
+                      <div className="text-xs">{t("LOAD CAP")}</div>
                       <motion.div
                         className="text-2xl font-digital"
                         animate={
@@ -1063,7 +1082,7 @@ export default function StaticInverterNode({
                     {/* Battery Capacity */}
                     <div className="mb-1">
                       <div className="text-xs flex items-center">
-                        <span>BATT CAP</span>
+                        <span>{t("BATT CAP")}</span>
                         {batteryConnected && batteryCharging && (
                           <motion.span
                             className="ml-1 inline-block h-1.5 w-1.5 rounded-full bg-amber-400"
@@ -1109,7 +1128,7 @@ export default function StaticInverterNode({
                 {/* System status bar */}
                 <div className="mt-auto mb-1 border-t border-emerald-900/50 pt-1 text-[10px] flex justify-between">
                   <div>
-                    TEMP: {formatNumber(Math.round(temperature), 2)}°C
+                    {t("TEMP:")} {formatNumber(Math.round(temperature), 2)}°C
                     {temperature > 60 && (
                       <motion.span
                         className="ml-1 text-red-400"
@@ -1120,7 +1139,7 @@ export default function StaticInverterNode({
                       </motion.span>
                     )}
                   </div>
-                  <div>FAN: {formatNumber(Math.round(fanSpeed), 2)}%</div>
+                  <div>{t("FAN:")} {formatNumber(Math.round(fanSpeed), 2)}%</div>
                   <motion.div
                     animate={
                       inverterOn
@@ -1131,7 +1150,7 @@ export default function StaticInverterNode({
                     }
                     transition={{ duration: 1.5, repeat: Number.POSITIVE_INFINITY }}
                   >
-                    {mode === "normal" ? "GRID MODE" : mode === "pv" ? "SOLAR MODE" : "BATTERY MODE"}
+                    {t(mode === "normal" ? "GRID MODE" : mode === "pv" ? "SOLAR MODE" : "BATTERY MODE")}
                   </motion.div>
                 </div>
 
@@ -1441,7 +1460,7 @@ export default function StaticInverterNode({
                 </motion.div>
                 <div className="absolute inset-0 rounded-full pointer-events-none"></div>
               </motion.button>
-              <span className="text-xs text-gray-400 mt-1">CONF</span>
+              <span className="text-xs text-gray-400 mt-1">{t("CONF")}</span>
             </div>
 
             {/* First SELECT Button */}
@@ -1501,7 +1520,7 @@ export default function StaticInverterNode({
                 </div>
                 <div className="absolute inset-0 rounded-full pointer-events-none"></div>
               </motion.button>
-              <span className="text-xs text-gray-400 mt-1">SELECT</span>
+              <span className="text-xs text-gray-400 mt-1">{t("SELECT")}</span>
             </div>
 
             {/* Second SELECT Button */}
@@ -1545,7 +1564,7 @@ export default function StaticInverterNode({
                 </div>
                 <div className="absolute inset-0 rounded-full pointer-events-none"></div>
               </motion.button>
-              <span className="text-xs text-gray-400 mt-1">SELECT</span>
+              <span className="text-xs text-gray-400 mt-1">{t("SELECT")}</span>
             </div>
 
             {/* ENTER Button - Highlighted when inverter is off */}
@@ -1626,7 +1645,7 @@ export default function StaticInverterNode({
                 )}
               </motion.button>
               <span className={`text-xs mt-1 ${!inverterOn ? "text-green-400 font-medium" : "text-gray-400"}`}>
-                {!inverterOn ? "START" : "ENTER"}
+                {t(!inverterOn ? "START" : "ENTER")}
               </span>
             </div>
           </div>
@@ -1731,7 +1750,7 @@ export default function StaticInverterNode({
                 strokeLinejoin="round"
               />
             </svg>
-            <span>Activate</span>
+            <span>{t("Activate")}</span>
           </div>
           <motion.div
             className="absolute -left-1 top-1/2 transform -translate-y-1/2 w-2 h-2 bg-orange-500 rotate-45"
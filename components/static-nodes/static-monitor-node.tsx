@@ -2,13 +2,57 @@
 
 import { useState, useEffect } from "react"
 import { motion } from "framer-motion"
-import { BarChart3, LineChart, Activity, Zap } from "lucide-react"
+import { Line, LineChart as SeriesChart, YAxis } from "recharts"
+import { BarChart3, LineChart, Activity, Zap, BatteryMedium, Thermometer } from "lucide-react"
+import { ChartConfig, ChartContainer } from "@/components/ui/chart"
+import { timeSeriesRecorder } from "@/store/timeSeriesStore"
+import {
+  RECORDER_RANGES,
+  RecordedSeries,
+  RecorderRange,
+  RecorderSample,
+  seriesEnergyWh,
+} from "@/utils/simulation/recorder"
+
+type MonitorType = "hub" | "meter" | "standard"
 
 interface StaticMonitorNodeProps {
   position: { x: number; y: number }
   scale?: number
   monitorOn?: boolean
-  type?: "hub" | "meter" | "standard"
+  type?: MonitorType
+  t?: (key: string) => string
+}
+
+const chartConfig = {
+  pvWatts: { label: "Solar", color: "#FACC15" },
+  loadWatts: { label: "Load", color: "#60A5FA" },
+  gridImportWatts: { label: "Grid", color: "#F87171" },
+  batterySoc: { label: "Battery", color: "#3DD56D" },
+  inverterTemperature: { label: "Temperature", color: "#F59E0B" },
+} satisfies ChartConfig
+
+// Percent and °C share a 0-100 axis; the power series share the other
+const PERCENT_SERIES: readonly RecordedSeries[] = ["batterySoc", "inverterTemperature"]
+
+// What each model of monitor plots: the hub sees the whole system, the meter the energy coming in
+const MONITOR_SERIES: Record<MonitorType, RecordedSeries[]> = {
+  hub: ["pvWatts", "loadWatts", "gridImportWatts", "batterySoc"],
+  meter: ["pvWatts", "gridImportWatts"],
+  standard: ["loadWatts", "batterySoc"],
+}
+
+// How often the screen re-reads the recorder, in real milliseconds
+const REFRESH_MS = 1000
+
+const formatKW = (watts: number) => `${(watts / 1000).toFixed(1)} kW`
+const formatKWh = (wattHours: number) => `${(wattHours / 1000).toFixed(1)} kWh`
+
+const formatClock = (ms: number) => {
+  const minutes = Math.floor(ms / 60_000) % 1440
+  return `${Math.floor(minutes / 60)
+    .toString()
+    .padStart(2, "0")}:${(minutes % 60).toString().padStart(2, "0")}`
 }
 
 export default function StaticMonitorNode({
@@ -16,29 +60,42 @@ export default function StaticMonitorNode({
   scale = 1,
   monitorOn = false,
   type = "standard",
+  t = (key: string) => key,
 }: StaticMonitorNodeProps) {
-  const [chartData, setChartData] = useState<number[]>([50, 60, 55, 65, 70, 65, 75])
-  const [currentTime, setCurrentTime] = useState(new Date().toLocaleTimeString())
+  const [range, setRange] = useState<RecorderRange>("minute")
+  const [samples, setSamples] = useState<RecorderSample[]>([])
 
+  // Recorded by the running simulation; the screen only reads it
   useEffect(() => {
     if (monitorOn) {
-      const dataInterval = setInterval(() => {
-        setChartData((prev) => {
-          const newValue = Math.floor(Math.random() * 30) + 50
-          return [...prev.slice(1), newValue]
-        })
-      }, 2000)
-
-      const timeInterval = setInterval(() => {
-        setCurrentTime(new Date().toLocaleTimeString())
-      }, 1000)
-
-      return () => {
-        clearInterval(dataInterval)
-        clearInterval(timeInterval)
-      }
+      const refresh = () => setSamples(timeSeriesRecorder.series(range))
+      refresh()
+      const interval = setInterval(refresh, REFRESH_MS)
+      return () => clearInterval(interval)
     }
-  }, [monitorOn])
+  }, [monitorOn, range])
+
+  const series = MONITOR_SERIES[type]
+  const latest = samples[samples.length - 1]
+  const stats =
+    type === "hub"
+      ? [
+          { icon: BatteryMedium, color: "text-green-500", value: latest ? `${Math.round(latest.batterySoc)}%` : "--" },
+          {
+            icon: Thermometer,
+            color: "text-amber-500",
+            value: latest ? `${Math.round(latest.inverterTemperature)}°C` : "--",
+          },
+        ]
+      : type === "meter"
+        ? [
+            { icon: Zap, color: "text-yellow-500", value: formatKWh(seriesEnergyWh(samples, "pvWatts", range)) },
+            { icon: Activity, color: "text-red-400", value: formatKWh(seriesEnergyWh(samples, "gridImportWatts", range)) },
+          ]
+        : [
+            { icon: Zap, color: "text-yellow-500", value: latest ? formatKW(latest.loadWatts) : "--" },
+            { icon: Activity, color: "text-green-500", value: formatKWh(seriesEnergyWh(samples, "loadWatts", range)) },
+          ]
 
   const getMonitorColor = () => {
     switch (type) {
@@ -92,43 +149,78 @@ export default function StaticMonitorNode({
                 {/* Header */}
                 <div className="flex justify-between items-center mb-2">
                   <div className="text-xs font-bold text-white">
-                    {type === "hub" ? "EnergyHub Pro" : type === "meter" ? "SolarMeter" : "Energy Monitor"}
+                    {t(type === "hub" ? "EnergyHub Pro" : type === "meter" ? "SolarMeter" : "Energy Monitor")}
                   </div>
-                  <div className="text-xs text-slate-400">{currentTime}</div>
+                  <div className="text-xs text-slate-400">{latest ? formatClock(latest.time) : "--:--"}</div>
                 </div>
 
-                {/* Chart */}
-                <div className="flex-1 flex items-end space-x-1">
-                  {chartData.map((value, index) => (
-                    <motion.div
-                      key={index}
-                      className="w-1/7 rounded-t"
+                {/* Range */}
+                <div className="flex gap-1 mb-1">
+                  {(Object.keys(RECORDER_RANGES) as RecorderRange[]).map((option) => (
+                    <button
+                      key={option}
+                      className="px-1.5 rounded text-[10px]"
                       style={{
-                        backgroundColor: monitorColor,
-                        height: `${value}%`,
+                        backgroundColor: option === range ? monitorColor : "transparent",
+                        color: option === range ? "#0f172a" : "#94A3B8",
                       }}
-                      initial={{ height: 0 }}
-                      animate={{ height: `${value}%` }}
-                      transition={{ duration: 0.5 }}
-                    />
+                      onClick={() => setRange(option)}
+                    >
+                      {t(RECORDER_RANGES[option].label)}
+                    </button>
+                  ))}
+                </div>
+
+                {/* Chart */}
+                <div className="flex-1 min-h-0">
+                  {samples.length < 2 ? (
+                    <div className="h-full flex items-center justify-center text-[10px] text-slate-500">
+                      {t("Waiting for data")}
+                    </div>
+                  ) : (
+                    <ChartContainer config={chartConfig} className="h-full w-full aspect-auto">
+                      <SeriesChart data={samples} margin={{ top: 2, right: 0, bottom: 0, left: 0 }}>
+                        <YAxis yAxisId="watts" hide domain={[0, "auto"]} />
+                        <YAxis yAxisId="percent" hide domain={[0, 100]} />
+                        {series.map((key) => (
+                          <Line
+                            key={key}
+                            yAxisId={PERCENT_SERIES.includes(key) ? "percent" : "watts"}
+                            dataKey={key}
+                            stroke={`var(--color-${key})`}
+                            strokeWidth={1.5}
+                            dot={false}
+                            isAnimationActive={false}
+                          />
+                        ))}
+                      </SeriesChart>
+                    </ChartContainer>
+                  )}
+                </div>
+
+                {/* Legend */}
+                <div className="flex gap-2 text-[9px] text-slate-400">
+                  {series.map((key) => (
+                    <span key={key} className="flex items-center">
+                      <span className="w-1.5 h-1.5 rounded-full mr-0.5" style={{ backgroundColor: chartConfig[key].color }} />
+                      {t(chartConfig[key].label)}
+                    </span>
                   ))}
                 </div>
 
                 {/* Stats */}
-                <div className="mt-2 grid grid-cols-2 gap-2 text-xs">
-                  <div className="flex items-center">
-                    <Zap className="h-3 w-3 mr-1 text-yellow-500" />
-                    <span className="text-white">2.4 kW</span>
-                  </div>
-                  <div className="flex items-center">
-                    <Activity className="h-3 w-3 mr-1 text-green-500" />
-                    <span className="text-white">18.7 kWh</span>
-                  </div>
+                <div className="mt-1 grid grid-cols-2 gap-2 text-xs">
+                  {stats.map(({ icon: Icon, color, value }, index) => (
+                    <div key={index} className="flex items-center">
+                      <Icon className={`h-3 w-3 mr-1 ${color}`} />
+                      <span className="text-white">{value}</span>
+                    </div>
+                  ))}
                 </div>
               </div>
             ) : (
               <div className="absolute inset-0 flex items-center justify-center">
-                <div className="text-slate-600 text-xs">STANDBY</div>
+                <div className="text-slate-600 text-xs">{t("STANDBY")}</div>
               </div>
             )}
           </div>
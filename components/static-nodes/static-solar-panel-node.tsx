@@ -2,6 +2,11 @@
 
 import { useState, useEffect, useCallback } from "react"
 import { motion } from "framer-motion"
+import { STANDARD_IRRADIANCE, calculatePvOutputInWeather, cellTemperatureFor } from "@/utils/simulation/solar"
+import { weatherHourAt } from "@/utils/simulation/weather"
+import { usePowerFlowStore } from "@/store/powerFlowStore"
+import { useSimulationClockStore } from "@/store/simulationClockStore"
+import { useWeatherStore } from "@/store/weatherStore"
 
 interface StaticSolarPanelNodeProps {
   position: { x: number; y: number }
@@ -9,13 +14,16 @@ interface StaticSolarPanelNodeProps {
   outputPower?: number
   sunIntensity?: number
   efficiency?: number
-  temperature?: number
   tiltAngle?: number
   orientation?: "south" | "east" | "west" | "north"
   onPanelChange?: (value: boolean) => void
   onPowerChange?: (value: number) => void
   scale?: number
   t?: (key: string) => string
+  // Nameplate power in watts
+  ratedPower?: number
+  // When set, this panel feeds its output into the shared power-flow model under this id
+  powerFlowId?: string
 }
 
 export default function StaticSolarPanelNode({
@@ -24,24 +32,33 @@ export default function StaticSolarPanelNode({
   outputPower: initialOutputPower = 0,
   sunIntensity: initialSunIntensity = 70,
   efficiency: initialEfficiency = 21,
-  temperature: initialTemperature = 45,
   tiltAngle: initialTiltAngle = 30,
   orientation: initialOrientation = "south",
   onPanelChange,
   onPowerChange,
   scale = 1,
   t = (key: string) => key,
+  ratedPower = 350,
+  powerFlowId,
 }: StaticSolarPanelNodeProps) {
   // State for solar panel operation
   const [panelOn, setPanelOn] = useState(initialPanelOn)
   const [outputPower, setOutputPower] = useState(initialOutputPower)
-  const [sunIntensity, setSunIntensity] = useState(initialSunIntensity)
-  const [efficiency, setEfficiency] = useState(initialEfficiency)
-  const [temperature, setTemperature] = useState(initialTemperature)
+  const [sunIntensity] = useState(initialSunIntensity)
+  const [efficiency] = useState(initialEfficiency)
   const [tiltAngle, setTiltAngle] = useState(initialTiltAngle)
   const [orientation, setOrientation] = useState<"south" | "east" | "west" | "north">(initialOrientation)
-  const [timeOfDay, setTimeOfDay] = useState(12) // 24-hour format
-  const [weather, setWeather] = useState<"sunny" | "cloudy" | "rainy" | "night">("sunny")
+  // The sun follows the shared simulated clock, so every node sees the same time of day
+  const timeOfDay = useSimulationClockStore((state) => state.timeOfDay)
+  const setTimeOfDay = useSimulationClockStore((state) => state.setTimeOfDay)
+  const day = useSimulationClockStore((state) => state.day)
+  const hour = Math.floor(timeOfDay)
+  // Sunshine and air temperature come from the selected weather scenario, hour by hour
+  const { irradiance, ambientTemperature, condition: weather } = weatherHourAt(
+    useWeatherStore((state) => state.hours),
+    (day - 1) * 24 + timeOfDay,
+  )
+  const temperature = Math.round(cellTemperatureFor(irradiance, ambientTemperature))
   const [cellHighlight, setCellHighlight] = useState<number[]>([])
   const [showControls, setShowControls] = useState(false)
 
@@ -52,38 +69,11 @@ export default function StaticSolarPanelNode({
       return
     }
 
-    // Base power calculation
-    const maxPower = 350 // Watts for a typical panel
-
-    // Calculate sun factor based on time of day and weather
-    let sunFactor = sunIntensity / 100
-
-    // Adjust for time of day (simplified model)
-    const hourFactor = Math.sin(((timeOfDay - 6) / 12) * Math.PI)
-    sunFactor *= Math.max(0, hourFactor)
-
-    // Adjust for weather
-    if (weather === "cloudy") sunFactor *= 0.6
-    else if (weather === "rainy") sunFactor *= 0.3
-    else if (weather === "night") sunFactor = 0
-
-    // Adjust for tilt and orientation
-    let orientationFactor = 1.0
-    if (orientation === "east" && timeOfDay < 12) orientationFactor = 0.9
-    else if (orientation === "east" && timeOfDay >= 12) orientationFactor = 0.7
-    else if (orientation === "west" && timeOfDay < 12) orientationFactor = 0.7
-    else if (orientation === "west" && timeOfDay >= 12) orientationFactor = 0.9
-    else if (orientation === "north") orientationFactor = 0.6
-
-    // Tilt factor (simplified)
-    const optimalTilt = 35 // Example optimal tilt
-    const tiltFactor = 1 - Math.abs(tiltAngle - optimalTilt) / 90
-
-    // Temperature effect (panels are less efficient at higher temperatures)
-    const tempFactor = 1 - Math.max(0, (temperature - 25) * 0.004) // ~0.4% loss per degree C above 25°C
-
-    // Calculate final power
-    const calculatedPower = maxPower * sunFactor * orientationFactor * tiltFactor * tempFactor * (efficiency / 100)
+    // Power from the scenario's irradiance and air temperature, orientation and tilt
+    const calculatedPower = calculatePvOutputInWeather(
+      { ratedPower, sunIntensity, efficiency, tiltAngle, orientation, timeOfDay },
+      { irradiance, ambientTemperature },
+    )
     setOutputPower(Math.round(calculatedPower))
 
     // Notify parent component if callback exists
@@ -92,10 +82,32 @@ export default function StaticSolarPanelNode({
     }
 
     // Randomly highlight cells to simulate sun reflection
-    const highlightCount = Math.floor(sunFactor * 5)
+    const highlightCount = Math.floor((sunIntensity / 100) * (irradiance / STANDARD_IRRADIANCE) * 5)
     const newHighlights = Array.from({ length: highlightCount }, () => Math.floor(Math.random() * 32))
     setCellHighlight(newHighlights)
-  }, [panelOn, sunIntensity, efficiency, temperature, tiltAngle, orientation, timeOfDay, weather, onPowerChange])
+  }, [
+    panelOn,
+    sunIntensity,
+    efficiency,
+    irradiance,
+    ambientTemperature,
+    tiltAngle,
+    orientation,
+    timeOfDay,
+    onPowerChange,
+    ratedPower,
+  ])
+
+  // Publish output to the shared power-flow model
+  useEffect(() => {
+    if (!powerFlowId) return
+    usePowerFlowStore.getState().setSource(powerFlowId, outputPower)
+  }, [powerFlowId, outputPower])
+
+  useEffect(() => {
+    if (!powerFlowId) return
+    return () => usePowerFlowStore.getState().removeSource(powerFlowId)
+  }, [powerFlowId])
 
   // Toggle panel on/off
   const togglePanel = useCallback(() => {
@@ -106,24 +118,6 @@ export default function StaticSolarPanelNode({
     }
   }, [panelOn, onPanelChange])
 
-  // Change time of day (for simulation)
-  const changeTimeOfDay = useCallback((newTime: number) => {
-    setTimeOfDay(newTime)
-
-    // Update weather based on time (simplified)
-    if (newTime < 6 || newTime > 18) {
-      setWeather("night")
-    } else if (newTime > 10 && newTime < 16) {
-      setWeather(Math.random() > 0.7 ? "cloudy" : "sunny")
-    } else {
-      setWeather(Math.random() > 0.5 ? "cloudy" : "sunny")
-    }
-
-    // Update sun intensity based on time
-    const baseIntensity = Math.sin(((newTime - 6) / 12) * Math.PI) * 100
-    setSunIntensity(Math.max(0, Math.min(100, baseIntensity)))
-  }, [])
-
   // Change panel tilt
   const changeTilt = useCallback((newTilt: number) => {
     setTiltAngle(Math.max(0, Math.min(90, newTilt)))
@@ -502,14 +496,14 @@ export default function StaticSolarPanelNode({
             <div className="mt-3">
               <div className="flex justify-between items-center mb-1">
                 <span className="text-xs text-gray-600">Time of Day</span>
-                <span className="text-xs font-medium">{timeOfDay}:00</span>
+                <span className="text-xs font-medium">{hour}:00</span>
               </div>
               <input
                 type="range"
                 min="0"
                 max="23"
-                value={timeOfDay}
-                onChange={(e) => changeTimeOfDay(Number.parseInt(e.target.value))}
+                value={hour}
+                onChange={(e) => setTimeOfDay(Number.parseInt(e.target.value))}
                 className="w-full h-1.5 bg-gray-200 rounded-lg appearance-none cursor-pointer"
               />
             </div>
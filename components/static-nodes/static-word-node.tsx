@@ -17,6 +17,8 @@ interface StaticWordNodeProps {
   fontSize?: string
   label?: string
   onClick?: () => void
+  // Translates the displayed word; `words` and `word` stay in their source form
+  t?: (key: string) => string
 }
 
 export default function StaticWordNode({
@@ -32,6 +34,7 @@ export default function StaticWordNode({
   fontSize = "3xl",
   label = "",
   onClick,
+  t = (key: string) => key,
 }: StaticWordNodeProps) {
   const [currentWord, setCurrentWord] = useState(word)
   const [isHovered, setIsHovered] = useState(false)
@@ -186,7 +189,7 @@ export default function StaticWordNode({
             animate={isTransitioning ? { opacity: [1, 0.8, 1] } : {}}
             transition={{ duration: 0.3 }}
           >
-            {currentWord.split("").map((letter, index) => (
+            {Array.from(t(currentWord)).map((letter, index) => (
               <motion.span
                 key={`${letter}-${index}`}
                 className={`text-${fontSize} font-bold tracking-wider inline-block`}
@@ -0,0 +1,185 @@
+"use client"
+
+import { useMemo } from "react"
+import StaticInverterNode from "@/components/static-nodes/inverter"
+import StaticSolarPanelNode from "@/components/static-nodes/static-solar-panel-node"
+import StaticBatteryNode from "@/components/static-nodes/static-battery-node"
+import StaticMonitorNode from "@/components/static-nodes/static-monitor-node"
+import StaticSwitchNode from "@/components/static-nodes/static-switch-node"
+import StaticBulbNode from "@/components/static-nodes/static-bulb-node"
+import TraditionalBulbNode from "@/components/static-nodes/traditional-bulb-node"
+import StaticWordNode from "@/components/static-nodes/static-word-node"
+import StaticAccessoryNode from "@/components/static-nodes/static-accessory-node"
+import RightAngleConnection from "@/components/static-nodes/right-angle-connection"
+import { useEnergySimulation } from "@/hooks/useEnergySimulation"
+import { useTranslation } from "@/hooks/useTranslation"
+import { BATTERY_PRESETS } from "@/utils/simulation/power-flow"
+import {
+  DEFAULT_NODE_SCALE,
+  NODE_SIZES,
+  Point,
+  SystemFlags,
+  inverterConnections,
+  isNodeEnergized,
+  layoutTopology,
+} from "@/utils/topology"
+import type { SystemTopology, TopologyNode } from "@/types/topology"
+
+interface TopologyRendererProps {
+  topology: SystemTopology
+  width: number
+  height: number
+  showLabels?: boolean
+  className?: string
+  // Props that change while the page runs, merged over the topology's own, by node id
+  nodeProps?: Record<string, Partial<NonNullable<TopologyNode["props"]>>>
+  onNodeClick?: (nodeId: string) => void
+}
+
+export default function TopologyRenderer({
+  topology,
+  width,
+  height,
+  showLabels = false,
+  className = "",
+  nodeProps,
+  onNodeClick,
+}: TopologyRendererProps) {
+  const { inverterActive, switchActive, bulbActive, wordActive, handleInverterChange, handleSwitchChange } =
+    useEnergySimulation({ autoCleanup: false, trackMetrics: false })
+  const flags: SystemFlags = { inverterActive, switchActive, bulbActive, wordActive }
+  const { tNode } = useTranslation()
+
+  const positions = useMemo(() => layoutTopology(topology, width, height), [topology, width, height])
+
+  const renderNode = (topologyNode: TopologyNode, position: Point) => {
+    const overrides = nodeProps?.[topologyNode.id]
+    const node = (
+      overrides ? { ...topologyNode, props: { ...topologyNode.props, ...overrides } } : topologyNode
+    ) as TopologyNode
+    const scale = node.scale ?? DEFAULT_NODE_SCALE
+    const energized = isNodeEnergized(node, flags)
+
+    switch (node.type) {
+      case "inverter": {
+        // Sources wired to the inverter connect it, unless the node says otherwise
+        const connections = inverterConnections(topology, node.id)
+        return (
+          <StaticInverterNode
+            // The inverter reads its connections once, so remount when the wiring changes
+            key={`${connections.solarConnected}-${connections.batteryConnected}`}
+            position={position}
+            scale={scale}
+            inverterOn={inverterActive}
+            onInverterChange={handleInverterChange}
+            t={tNode}
+            {...connections}
+            {...node.props}
+          />
+        )
+      }
+      case "solarPanel":
+        return (
+          <StaticSolarPanelNode position={position} scale={scale} powerFlowId={node.id} t={tNode} {...node.props} />
+        )
+      case "battery":
+        return (
+          <StaticBatteryNode
+            position={position}
+            scale={scale}
+            batteryOn={energized}
+            type={node.props?.type}
+            spec={node.props?.preset ? BATTERY_PRESETS[node.props.preset] : undefined}
+            cycles={node.props?.cycles}
+            powerFlowId={node.id}
+          />
+        )
+      case "monitor":
+        return (
+          <StaticMonitorNode position={position} scale={scale} monitorOn={energized} t={tNode} {...node.props} />
+        )
+      case "switch":
+        return (
+          <StaticSwitchNode position={position} scale={scale} switchOn={switchActive} onSwitchChange={handleSwitchChange} />
+        )
+      case "bulb":
+        if (node.props?.variant === "traditional") {
+          return <TraditionalBulbNode position={position} scale={scale} bulbOn={bulbActive} />
+        }
+        // StaticBulbNode does not position itself
+        return (
+          <div
+            className="absolute"
+            style={{ left: `${position.x}px`, top: `${position.y}px`, transform: "translate(-50%, -50%)" }}
+          >
+            <StaticBulbNode
+              bulbOn={bulbActive}
+              scale={scale}
+              ratedWatts={node.props?.ratedWatts}
+              powerFlowId={node.id}
+              t={tNode}
+            />
+          </div>
+        )
+      case "word":
+        return (
+          <StaticWordNode
+            position={position}
+            scale={scale}
+            word={node.props?.word ?? "GREAN"}
+            words={node.props?.words}
+            cycleWords={Boolean(node.props?.words?.length)}
+            color={node.props?.color}
+            glowColor={node.props?.color}
+            illuminated={wordActive}
+            t={tNode}
+          />
+        )
+      case "accessory":
+        return <StaticAccessoryNode position={position} scale={scale} {...node.props} />
+    }
+  }
+
+  return (
+    <div className={`relative ${className}`} style={{ width: `${width}px`, height: `${height}px` }}>
+      {/* Edges */}
+      {topology.edges.map((edge) => {
+        const from = positions[edge.from]
+        const to = positions[edge.to]
+        const source = topology.nodes.find((node) => node.id === edge.from)
+        if (!from || !to || !source) return null
+
+        return (
+          <RightAngleConnection
+            key={edge.id}
+            id={edge.id}
+            from={from}
+            to={to}
+            active={isNodeEnergized(source, flags)}
+            cornerPosition={edge.corner}
+          />
+        )
+      })}
+
+      {/* Nodes */}
+      {topology.nodes.map((node) => {
+        const position = positions[node.id]
+        const labelTop = position.y + (NODE_SIZES[node.type].height * (node.scale ?? DEFAULT_NODE_SCALE)) / 2 + 8
+
+        return (
+          <div key={node.id} data-node-id={node.id} onClick={onNodeClick && (() => onNodeClick(node.id))}>
+            {renderNode(node, position)}
+            {showLabels && node.label && (
+              <span
+                className="absolute text-green-400 text-sm whitespace-nowrap"
+                style={{ left: `${position.x}px`, top: `${labelTop}px`, transform: "translateX(-50%)" }}
+              >
+                {node.label}
+              </span>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
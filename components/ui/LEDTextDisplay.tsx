@@ -16,6 +16,9 @@ export function LEDTextDisplay({ messages, compact = false }: LEDTextDisplayProp
   const containerRef = useRef<HTMLDivElement>(null)
   const contentRef = useRef<HTMLDivElement>(null)
 
+  // Combine all messages into a single string with separators
+  const displayText = messages.join(" • ")
+
   // Simple marquee effect with requestAnimationFrame instead of CSS animations
   useEffect(() => {
     if (!containerRef.current || !contentRef.current) return
@@ -52,11 +55,10 @@ export function LEDTextDisplay({ messages, compact = false }: LEDTextDisplayProp
 
     return () => {
       cancelAnimationFrame(animationId)
+      // The clone copies the text it was made from, so a new text needs a new clone
+      clone.remove()
     }
-  }, [compact])
-
-  // Combine all messages into a single string with separators
-  const displayText = messages.join(" • ")
+  }, [compact, displayText])
 
   return (
     <div className={`relative overflow-hidden ${height} bg-slate-800/20 border border-teal-500/30 rounded-md`}>
@@ -0,0 +1,236 @@
+"use client"
+
+import { useMemo, useState } from "react"
+import { CartesianGrid, ComposedChart, Line, ReferenceLine, XAxis, YAxis } from "recharts"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart"
+import { WEATHER_SCENARIOS, WeatherScenarioId } from "@/constants/weather"
+import { createBatterySpec } from "@/utils/simulation/battery"
+import { buildWeatherSeries, getWeatherScenario, runWeatherScenario } from "@/utils/simulation/weather"
+import { useTranslation } from "@/hooks/useTranslation"
+
+const inputClassName = "bg-slate-700/50 border-slate-600 text-white placeholder:text-slate-400"
+
+const INVERTER_EFFICIENCY = 93
+
+export interface StressTestSystem {
+  pvWp: number
+  batteryKWh: number
+  dailyLoadKWh: number
+  inverterKVA: number
+}
+
+export const DEFAULT_STRESS_TEST_SYSTEM: StressTestSystem = {
+  pvWp: 1200,
+  batteryKWh: 5,
+  dailyLoadKWh: 3,
+  inverterKVA: 1.5,
+}
+
+interface NumberFieldProps {
+  id: string
+  label: string
+  value: number
+  onChange: (value: number) => void
+  suffix: string
+  step?: number
+}
+
+function NumberField({ id, label, value, onChange, suffix, step = 1 }: NumberFieldProps) {
+  return (
+    <div>
+      <Label htmlFor={id} className="text-slate-300 text-sm">
+        {label}
+      </Label>
+      <div className="relative mt-1">
+        <Input
+          id={id}
+          type="number"
+          min={0}
+          step={step}
+          value={value}
+          onChange={(e) => onChange(Math.max(0, Number(e.target.value) || 0))}
+          className={`${inputClassName} pr-14`}
+        />
+        <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-slate-400">{suffix}</span>
+      </div>
+    </div>
+  )
+}
+
+export default function WeatherStressTest({ initialSystem }: { initialSystem: StressTestSystem }) {
+  const [scenarioId, setScenarioId] = useState<WeatherScenarioId>("overcast_three_days")
+  const [system, setSystem] = useState(initialSystem)
+  const { t, locale } = useTranslation()
+
+  const chartConfig = {
+    pvWatts: { label: t("weatherTest.solar"), color: "#facc15" },
+    loadWatts: { label: t("weatherTest.load"), color: "#60a5fa" },
+    batterySoc: { label: t("weatherTest.battery"), color: "#3DD56D" },
+  } satisfies ChartConfig
+
+  const formatHour = (hour: number) =>
+    t("weatherTest.dayHour", {
+      day: Math.floor(hour / 24) + 1,
+      time: `${(hour % 24).toString().padStart(2, "0")}:00`,
+    })
+
+  const scenario = getWeatherScenario(scenarioId)
+  // A lithium bank sized to the design
+  const battery = useMemo(() => createBatterySpec("lithium", system.batteryKWh * 1000), [system.batteryKWh])
+  const weather = useMemo(() => buildWeatherSeries(scenario), [scenario])
+  const report = useMemo(
+    () =>
+      runWeatherScenario(weather, {
+        pvRatedWatts: system.pvWp,
+        battery,
+        initialSoc: 100,
+        dailyLoadWh: system.dailyLoadKWh * 1000,
+        inverterRatedWatts: system.inverterKVA * 1000,
+        inverterEfficiency: INVERTER_EFFICIENCY,
+      }),
+    [weather, system, battery],
+  )
+
+  const update = (changes: Partial<StressTestSystem>) => setSystem((current) => ({ ...current, ...changes }))
+  const { minSoc } = battery
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-5 gap-8">
+      {/* Inputs */}
+      <div className="lg:col-span-2 space-y-6">
+        <div className="bg-slate-800/30 backdrop-blur-sm rounded-lg border border-slate-700/50 p-6">
+          <h3 className="text-lg font-semibold mb-4">{t("weatherTest.weather")}</h3>
+          <Select value={scenarioId} onValueChange={(value) => setScenarioId(value as WeatherScenarioId)}>
+            <SelectTrigger
+              className="bg-slate-700/50 border-slate-600 text-white"
+              aria-label={t("weatherTest.scenario")}
+            >
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent className="bg-slate-800 border-slate-700 text-white">
+              {WEATHER_SCENARIOS.map((option) => (
+                <SelectItem key={option.id} value={option.id}>
+                  {t(`weather.${option.id}.name`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-sm text-slate-400 mt-3">{t(`weather.${scenario.id}.description`)}</p>
+        </div>
+
+        <div className="bg-slate-800/30 backdrop-blur-sm rounded-lg border border-slate-700/50 p-6 grid grid-cols-2 gap-4">
+          <h3 className="col-span-2 text-lg font-semibold">{t("weatherTest.system")}</h3>
+          <NumberField
+            id="stress-pv"
+            label={t("weatherTest.solarArray")}
+            value={system.pvWp}
+            onChange={(pvWp) => update({ pvWp })}
+            suffix="Wp"
+            step={50}
+          />
+          <NumberField
+            id="stress-battery"
+            label={t("weatherTest.batteryBank")}
+            value={system.batteryKWh}
+            onChange={(batteryKWh) => update({ batteryKWh })}
+            suffix="kWh"
+            step={0.5}
+          />
+          <NumberField
+            id="stress-load"
+            label={t("weatherTest.dailyUse")}
+            value={system.dailyLoadKWh}
+            onChange={(dailyLoadKWh) => update({ dailyLoadKWh })}
+            suffix="kWh"
+            step={0.1}
+          />
+          <NumberField
+            id="stress-inverter"
+            label={t("weatherTest.inverter")}
+            value={system.inverterKVA}
+            onChange={(inverterKVA) => update({ inverterKVA })}
+            suffix="kVA"
+            step={0.1}
+          />
+          <p className="col-span-2 text-xs text-slate-400">
+            {t("weatherTest.assumptions", { minSoc })}
+          </p>
+        </div>
+      </div>
+
+      {/* Results */}
+      <div className="lg:col-span-3 space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {[
+            {
+              label: t("weatherTest.batteryRanOut"),
+              value: report.batteryRanOut ? t("weatherTest.yes") : t("weatherTest.no"),
+              warn: report.batteryRanOut,
+            },
+            {
+              label: t("weatherTest.hoursWithoutPower"),
+              value: t("weatherTest.hours", { hours: report.unservedHours }),
+              warn: report.unservedHours > 0,
+            },
+            {
+              label: t("weatherTest.lowestCharge"),
+              value: `${Math.round(report.minSoc)}%`,
+              warn: report.minSoc <= minSoc + 5,
+            },
+            {
+              label: t("weatherTest.solarOverUse"),
+              value: `${(report.pvWh / 1000).toFixed(1)} / ${(report.loadWh / 1000).toFixed(1)} kWh`,
+              warn: false,
+            },
+          ].map((item) => (
+            <div key={item.label} className="rounded-lg border border-slate-700/50 bg-slate-800/30 p-4">
+              <div className={`text-xl font-bold ${item.warn ? "text-amber-400" : "text-white"}`}>{item.value}</div>
+              <div className="text-sm text-slate-400">{item.label}</div>
+            </div>
+          ))}
+        </div>
+
+        <div className="bg-slate-800/30 backdrop-blur-sm rounded-lg border border-slate-700/50 p-6">
+          <div className="mb-4">
+            <h3 className="text-lg font-semibold">{t("weatherTest.hourByHour")}</h3>
+            <p className="text-sm text-slate-400">
+              {report.firstEmptyHour === null
+                ? t("weatherTest.carriedThrough", {
+                    days: scenario.days.length,
+                    scenario: t(`weather.${scenario.id}.name`).toLocaleLowerCase(locale),
+                  })
+                : t("weatherTest.ranEmpty", {
+                    time: formatHour(report.firstEmptyHour),
+                    unserved: (report.unservedWh / 1000).toFixed(1),
+                  })}
+            </p>
+          </div>
+          <ChartContainer config={chartConfig} className="h-[320px] w-full aspect-auto">
+            <ComposedChart data={report.hours} margin={{ left: 12, right: 12 }}>
+              <CartesianGrid vertical={false} stroke="#334155" />
+              <XAxis
+                dataKey="hour"
+                tickLine={false}
+                axisLine={false}
+                ticks={scenario.days.map((_, day) => day * 24)}
+                tickFormatter={(hour: number) => t("weatherTest.day", { day: hour / 24 + 1 })}
+              />
+              <YAxis yAxisId="watts" tickLine={false} axisLine={false} unit=" W" width={72} />
+              <YAxis yAxisId="soc" orientation="right" domain={[0, 100]} tickLine={false} axisLine={false} unit="%" />
+              <ReferenceLine yAxisId="soc" y={minSoc} stroke="#64748b" strokeDasharray="4 4" />
+              <ChartTooltip
+                content={<ChartTooltipContent labelFormatter={(_, payload) => formatHour(payload[0]?.payload.hour)} />}
+              />
+              <Line yAxisId="watts" dataKey="pvWatts" stroke="var(--color-pvWatts)" strokeWidth={2} dot={false} />
+              <Line yAxisId="watts" dataKey="loadWatts" stroke="var(--color-loadWatts)" strokeWidth={2} dot={false} />
+              <Line yAxisId="soc" dataKey="batterySoc" stroke="var(--color-batterySoc)" strokeWidth={2} dot={false} />
+            </ComposedChart>
+          </ChartContainer>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,113 @@
+// Household appliances for building load profiles: what each draws and when it typically runs
+
+export type ApplianceId =
+  | "led_bulb"
+  | "radio"
+  | "phone_charger"
+  | "tv"
+  | "refrigerator"
+  | "mirt_stove"
+  | "water_pump"
+
+// A stretch of the day the appliance is on, in hours (0-24)
+export interface ApplianceWindow {
+  start: number
+  end: number
+}
+
+export interface ApplianceDefinition {
+  id: ApplianceId
+  name: string
+  ratedWatts: number
+  // Multiple of rated power drawn for `surgeMs` after switching on: motor starts, cold heating elements
+  surgeFactor: number
+  surgeMs: number
+  schedule: ApplianceWindow[]
+  // Appliances under a thermostat switch on and off within their windows
+  cycle?: { onMinutes: number; periodMinutes: number }
+}
+
+// Typical ratings for appliances sold and used in Ethiopian homes
+export const APPLIANCES: Record<ApplianceId, ApplianceDefinition> = {
+  led_bulb: {
+    id: "led_bulb",
+    name: "LED bulb",
+    ratedWatts: 9,
+    surgeFactor: 1,
+    surgeMs: 0,
+    schedule: [
+      { start: 5.5, end: 7 },
+      { start: 18, end: 23 },
+    ],
+  },
+  radio: {
+    id: "radio",
+    name: "Radio",
+    ratedWatts: 15,
+    surgeFactor: 1,
+    surgeMs: 0,
+    schedule: [
+      { start: 6, end: 8 },
+      { start: 12, end: 14 },
+      { start: 19, end: 22 },
+    ],
+  },
+  phone_charger: {
+    id: "phone_charger",
+    name: "Phone charger",
+    ratedWatts: 10,
+    surgeFactor: 1,
+    surgeMs: 0,
+    schedule: [{ start: 20, end: 23 }],
+  },
+  tv: {
+    id: "tv",
+    name: "Television",
+    ratedWatts: 80,
+    surgeFactor: 1.5,
+    surgeMs: 1000,
+    schedule: [{ start: 19, end: 23 }],
+  },
+  refrigerator: {
+    id: "refrigerator",
+    name: "Refrigerator",
+    ratedWatts: 150,
+    surgeFactor: 4,
+    surgeMs: 2000,
+    schedule: [{ start: 0, end: 24 }],
+    cycle: { onMinutes: 12, periodMinutes: 30 },
+  },
+  mirt_stove: {
+    id: "mirt_stove",
+    name: "Mirt electric injera stove",
+    ratedWatts: 3000,
+    surgeFactor: 1.5,
+    surgeMs: 3000,
+    schedule: [{ start: 17, end: 18.5 }],
+  },
+  water_pump: {
+    id: "water_pump",
+    name: "Water pump",
+    ratedWatts: 750,
+    surgeFactor: 3,
+    surgeMs: 2000,
+    schedule: [
+      { start: 6, end: 6.5 },
+      { start: 16, end: 16.5 },
+    ],
+  },
+}
+
+export interface HouseholdLoad {
+  appliance: ApplianceId
+  quantity: number
+}
+
+// A small home on solar: lights, radio, phones, TV and a fridge, but no cooking or pumping
+export const DEFAULT_HOUSEHOLD_LOADS: HouseholdLoad[] = [
+  { appliance: "led_bulb", quantity: 6 },
+  { appliance: "radio", quantity: 1 },
+  { appliance: "phone_charger", quantity: 3 },
+  { appliance: "tv", quantity: 1 },
+  { appliance: "refrigerator", quantity: 1 },
+]
@@ -0,0 +1,42 @@
+import type { CurrencyCode } from "@/types/money"
+
+export interface CurrencyConfig {
+  code: CurrencyCode
+  name: string
+  // Digits after the decimal point in prices and quotes
+  fractionDigits: number
+}
+
+export const CURRENCIES: Record<CurrencyCode, CurrencyConfig> = {
+  ETB: { code: "ETB", name: "Ethiopian Birr", fractionDigits: 2 },
+  USD: { code: "USD", name: "US Dollar", fractionDigits: 2 },
+  EUR: { code: "EUR", name: "Euro", fractionDigits: 2 },
+}
+
+// What visitors see until they pick another currency
+export const DEFAULT_CURRENCY: CurrencyCode = "ETB"
+
+// The currency catalog prices are entered in
+export const CATALOG_CURRENCY: CurrencyCode = "USD"
+
+// Query parameter that picks the currency of a shared link, e.g. `?currency=USD`
+export const CURRENCY_PARAM = "currency"
+
+export interface ExchangeRateTable {
+  // Date the rates were taken, shown next to converted prices
+  asOf: string
+  base: CurrencyCode
+  // Units of each currency per one unit of `base`
+  rates: Record<CurrencyCode, number>
+}
+
+// Indicative rates, updated by hand; quotes are confirmed at the rate on the day of sale
+export const EXCHANGE_RATES: ExchangeRateTable = {
+  asOf: "2026-10-01",
+  base: "USD",
+  rates: {
+    USD: 1,
+    ETB: 155.5,
+    EUR: 0.86,
+  },
+}
@@ -0,0 +1,11 @@
+// Example outage calendar in the grid model's schedule format, for customers to start from
+
+export const SAMPLE_GRID_SCHEDULE = `# Rotating load shedding, as published for one feeder
+mon,wed,fri 18:00-22:00 outage
+tue,thu 06:00-10:00 outage
+sat 13:00-17:00 outage
+
+# Evening brownouts when the feeder is heavily loaded
+weekdays 19:30-19:45 sag 165
+sun 20:00-20:05 frequency 46.5
+`
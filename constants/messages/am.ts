@@ -0,0 +1,651 @@
+import type { MessageCatalog } from "@/utils/i18n"
+
+// Amharic messages. Every English key needs an entry here; numbers and dates are
+// formatted separately, so placeholders like {count} stay as they are.
+
+export const am: MessageCatalog = {
+  "nav.home": "መነሻ",
+  "nav.about": "ስለ እኛ",
+  "nav.solutions": "መፍትሄዎች",
+  "nav.solarEnergy": "የፀሐይ ኃይል",
+  "nav.energyStorage": "የኃይል ማጠራቀሚያ",
+  "nav.biomass": "ባዮማስ",
+  "nav.training": "ስልጠና",
+  "nav.products": "ምርቶች",
+  "nav.contact": "ያግኙን",
+  "nav.getInTouch": "ያግኙን",
+  "nav.language": "ቋንቋ",
+  "nav.currency": "ምንዛሪ",
+  "nav.ratesAsOf": "የምንዛሪ ተመን እስከ {date}",
+
+  "products.featured": "ተመራጭ ምርቶች",
+  "products.all": "ሁሉም ምርቶች",
+  "products.allIntro": "የዘላቂ የኃይል መፍትሄዎቻችንን ሙሉ ስብስብ ይመልከቱ።",
+  "products.searchPlaceholder": "ምርቶችን ይፈልጉ...",
+  "products.filters": "ማጣሪያዎች",
+  "products.category": "ምድብ",
+  "products.sortBy": "ደርድር በ",
+  "products.showing": {
+    one: "ከ{total} ምርቶች {count} ምርት እየታየ ነው",
+    other: "ከ{total} ምርቶች {count} ምርቶች እየታዩ ነው",
+  },
+  "products.clearAll": "ሁሉንም አጽዳ",
+  "products.clearFilters": "ማጣሪያዎችን አጽዳ",
+  "products.noMatches": "ከፍለጋዎ ጋር የሚዛመድ ምርት የለም።",
+  "products.viewDetails": "ዝርዝር ይመልከቱ",
+  "products.compare": "{name}ን አወዳድር",
+  "products.addToQuote": "{name}ን ወደ ዋጋ ጥያቄ ጨምር",
+  "products.comparison": "የምርት ንጽጽር",
+  "products.comparisonIntro": "ለኃይል ፍላጎትዎ የሚስማማውን ለማግኘት እስከ {count} ምርቶችን ጎን ለጎን ያወዳድሩ።",
+
+  "sort.featured": "ተመራጭ",
+  "sort.price-asc": "ዋጋ፡ ከዝቅተኛ ወደ ከፍተኛ",
+  "sort.price-desc": "ዋጋ፡ ከከፍተኛ ወደ ዝቅተኛ",
+  "sort.rating": "ከፍተኛ ደረጃ",
+  "sort.name": "ስም",
+
+  "facets.price": "ዋጋ",
+  "facets.priceRange": "የዋጋ ክልል",
+  "facets.rating": "ደረጃ",
+  "facets.any": "ማንኛውም",
+  "facets.features": "ባህሪያት",
+  "facets.onSale": "በቅናሽ ላይ ያሉ ብቻ",
+
+  "quote.open": "የዋጋ ጥያቄ",
+  "quote.openWithItems": {
+    one: "{count} ዕቃ ያለበትን የዋጋ ጥያቄ ክፈት",
+    other: "{count} ዕቃዎች ያሉበትን የዋጋ ጥያቄ ክፈት",
+  },
+  "quote.reference": "መለያ ቁጥር {reference}",
+  "quote.requestedOn": "የተጠየቀበት ቀን {date}",
+
+  "node.Bulb On": "አምፖል በርቷል",
+  "node.Bulb Off": "አምፖል ጠፍቷል",
+  "node.GREAN": "ግሪን",
+  "node.CLEAN": "ንጹህ",
+  "node.GREEN": "አረንጓዴ",
+  "node.SMART": "ብልህ",
+  "node.POWER": "ኃይል",
+  "node.HOME": "መነሻ",
+  "node.ABOUT": "ስለ እኛ",
+  "node.SOLUTIONS": "መፍትሄዎች",
+  "node.PRODUCTS": "ምርቶች",
+  "node.CONTACT": "ያግኙን",
+  "node.Mode:": "ሁነታ:",
+  "node.Load:": "ጭነት:",
+  "node.Temp:": "ሙቀት:",
+  "node.Fan:": "ማራገቢያ:",
+  "node.Batt:": "ባትሪ:",
+  "node.Energy:": "ኃይል:",
+  "node.NORMAL": "መደበኛ",
+  "node.PV": "ፀሐይ",
+  "node.GENERATION": "ምርት",
+  "node.EFFICIENCY": "ብቃት",
+  "node.STATUS": "ሁኔታ",
+  "node.CURRENT": "አሁን",
+  "node.RATE": "መጠን",
+  "node.SYSTEM": "ሲስተም",
+  "node.STORED": "የተከማቸ",
+  "node.USAGE": "አጠቃቀም",
+  "node.BACKUP": "መጠባበቂያ",
+  "node.TODAY": "ዛሬ",
+  "node.ALERTS": "ማንቂያዎች",
+  "node.TEMP": "ሙቀት",
+  "node.INVERTER": "ኢንቨርተር",
+  "node.STANDBY": "ተጠባባቂ",
+  "node.GRID": "ግሪድ",
+  "node.SOLAR": "ፀሐይ",
+  "node.BATTERY": "ባትሪ",
+  "node.GRID LOST": "ግሪድ ተቋርጧል",
+  "node.PRIORITY": "ቅድሚያ",
+  "node.SOLAR OK": "ፀሐይ በቂ",
+  "node.SOLAR LOW": "ፀሐይ አነስተኛ",
+  "node.BATT LOW": "ባትሪ ዝቅተኛ",
+  "node.BATT OK": "ባትሪ ተመልሷል",
+  "node.FAULT": "ብልሽት",
+  "node.WARNING": "ማስጠንቀቂያ",
+  "node.AUTO RECOVERY": "በራሱ ይመለሳል",
+  "node.PRESS RESET": "ዳግም አስጀምርን ይጫኑ",
+  "node.SOC:": "ክፍያ:",
+  "node.SOH:": "ጤና:",
+  "node.Volt:": "ቮልት:",
+  "node.Curr:": "ጅረት:",
+  "node.Cycles:": "ዑደቶች:",
+  "node.NO BATTERY": "ባትሪ የለም",
+  "node.Status:": "ሁኔታ:",
+  "node.Freq:": "ድግግሞሽ:",
+  "node.Transfer:": "ሽግግር:",
+  "node.OK": "ደህና",
+  "node.OUTAGE": "መብራት ጠፍቷል",
+  "node.OUT OF RANGE": "ከገደብ ውጭ",
+  "node.NO GRID": "ግሪድ የለም",
+  "node.EVENT LOG": "የክስተት መዝገብ",
+  "node.NO EVENTS": "ምንም ክስተት የለም",
+  "node.RAISED": "ተነሳ",
+  "node.CLEARED": "ተፈታ",
+  "node.RESET": "ዳግም ተጀመረ",
+  "node.Waiting for data": "መረጃ በመጠበቅ ላይ",
+  "node.EnergyHub Pro": "EnergyHub Pro",
+  "node.SolarMeter": "SolarMeter",
+  "node.Energy Monitor": "የኃይል መከታተያ",
+  "node.1 min": "1 ደቂቃ",
+  "node.1 h": "1 ሰ",
+  "node.24 h": "24 ሰ",
+  "node.Solar": "ፀሐይ",
+  "node.Load": "ጭነት",
+  "node.Grid": "ግሪድ",
+  "node.Battery": "ባትሪ",
+  "node.Temperature": "ሙቀት",
+  "node.Over-temperature": "ከመጠን በላይ ሙቀት",
+  "node.Overload": "ከአቅም በላይ ጭነት",
+  "node.Battery under-voltage": "የባትሪ ቮልቴጅ ዝቅተኛ",
+  "node.Grid loss": "የግሪድ መቋረጥ",
+  "node.PV over-voltage": "የፀሐይ ፓነል ቮልቴጅ ከፍተኛ",
+  "node.Fan failure": "የማራገቢያ ብልሽት",
+  "node.Check ventilation around the unit and that the fan turns. Output resumes once it has cooled.":
+    "በመሣሪያው ዙሪያ ያለውን የአየር ዝውውር እና ማራገቢያው መሽከርከሩን ያረጋግጡ። ሲቀዘቅዝ ኃይል መስጠት ይቀጥላል።",
+  "node.Switch off large loads such as stoves or pumps, then press RESET.":
+    "እንደ ምድጃ ወይም ፓምፕ ያሉ ትላልቅ ጭነቶችን ያጥፉ፣ ከዚያ ዳግም አስጀምርን ይጫኑ።",
+  "node.Let solar or the grid recharge the battery. Output resumes once its voltage recovers.":
+    "ፀሐይ ወይም ግሪድ ባትሪውን እንዲሞሉ ይፍቀዱ። ቮልቴጁ ሲመለስ ኃይል መስጠት ይቀጥላል።",
+  "node.The utility supply is down; loads run from solar and battery until it returns.":
+    "የመብራት አቅርቦት ተቋርጧል፤ እስኪመለስ ድረስ ጭነቶች በፀሐይ እና በባትሪ ይሠራሉ።",
+  "node.The PV string's open-circuit voltage is above the input limit. Rewire with fewer panels in series.":
+    "የፀሐይ ፓነሎቹ ክፍት-ዑደት ቮልቴጅ ከግብዓት ገደቡ በላይ ነው። በተከታታይ ያሉትን ፓነሎች ቀንሰው እንደገና ያገናኙ።",
+  "node.Clear or replace the fan, then press RESET. The unit overheats under load without it.":
+    "ማራገቢያውን ያጽዱ ወይም ይቀይሩ፣ ከዚያ ዳግም አስጀምርን ይጫኑ። ያለ ማራገቢያ መሣሪያው በጭነት ይግላል።",
+
+  "ticker.welcome": "እንኳን ወደ ግሪን ወርልድ ኢነርጂ ቴክኖሎጂ በደህና መጡ",
+  "ticker.tagline": "ለአረንጓዴ ወደፊት ዘላቂ የኃይል መፍትሄዎች",
+  "ticker.smartGrid": "ለውጤታማ የኃይል አስተዳደር ስማርት ግሪድ ቴክኖሎጂ",
+  "ticker.innovation": "በፈጠራ የኃይል ሲስተሞች የካርቦን አሻራን መቀነስ",
+  "ticker.monitoring": "ለሁሉም የኃይል መፍትሄዎች የ24/7 ክትትል እና ድጋፍ",
+  "ticker.africa": "በመላው አፍሪካ ዘላቂ የኃይል መፍትሄዎችን እናቀርባለን",
+  "ticker.services": "የፀሐይ ተከላ • የኃይል ማጠራቀሚያ • ስማርት ግሪድ",
+  "ticker.carbon": "ከ2015 ጀምሮ የካርቦን አሻራን በመቀነስ ላይ",
+  "ticker.support": "የ24/7 የደንበኞች ድጋፍ፡ +251-911-123456",
+
+  "hero.inverterMode": "የኢንቨርተር ሁነታ",
+  "hero.battery": "ባትሪ {level}%",
+  "hero.load": "ጭነት {level}%",
+
+  "solutions.badge": "ሁሉን አቀፍ የኃይል መፍትሄዎች",
+  "solutions.title": "የእኛ {highlight} እና መፍትሄዎች",
+  "solutions.titleHighlight": "አገልግሎቶች",
+  "solutions.intro": "ግሪን ወርልድ ንፁህ የኃይል መፍትሄዎችን ለማህበረሰቦችና ለንግድ ድርጅቶች ለማቅረብ ከጅምር እስከ ፍጻሜ አገልግሎት ይሰጣል።",
+  "solutions.explore": "መፍትሄዎችን ይመልከቱ",
+  "solutions.contact": "ያግኙን",
+  "solutions.servicesTitle": "አገልግሎቶቻችን",
+  "solutions.servicesIntro": "ከምክክር እስከ ትግበራና ቀጣይ ድጋፍ ድረስ ወደ ታዳሽ ኃይል የሚደረገውን ሽግግር የሚደግፉ ሁሉን አቀፍ አገልግሎቶችን እንሰጣለን።",
+  "solutions.overview": "አጠቃላይ እይታ",
+  "solutions.learnMore": "ተጨማሪ ይወቁ",
+  "solutions.keyBenefits": "ዋና ጥቅሞች",
+  "solutions.exploreService": "{service}ን ይመልከቱ",
+  "solutions.sizeSystem": "ሲስተምዎን ይለኩ",
+  "solutions.calculateRoi": "የኢንቨስትመንት ተመላሽን ያስሉ",
+  "solutions.solar.title": "የፀሐይ ፓነል አገልግሎቶች",
+  "solutions.solar.description": "ከዝርዝር መግለጫና ዲዛይን እስከ ተከላና ቀጣይ ድጋፍ የተሟሉ የፀሐይ ኃይል መፍትሄዎች።",
+  "solutions.solar.design": "ዝርዝር መግለጫ እና ዲዛይን",
+  "solutions.solar.installation": "ሙያዊ ተከላ",
+  "solutions.solar.aftersales": "ከሽያጭ በኋላ ድጋፍ",
+  "solutions.solar.monitoring": "የሲስተም ክትትል",
+  "solutions.solar.maintenance": "ጥገና እና እድሳት",
+  "solutions.consultancy.title": "የኃይል ማማከር",
+  "solutions.consultancy.description": "የኃይል አጠቃቀምዎን ለማሻሻልና ወደ ዘላቂ የኃይል መፍትሄዎች ለመሸጋገር የባለሙያ መመሪያ።",
+  "solutions.consultancy.audits": "የኃይል ጥናት እና ኦዲት",
+  "solutions.consultancy.usage": "የአጠቃቀም ትንተና",
+  "solutions.consultancy.compliance": "የደንብ ተገዢነት ድጋፍ",
+  "solutions.consultancy.roi": "የኢንቨስትመንት ተመላሽ ስሌት",
+  "solutions.consultancy.planning": "የዘላቂነት እቅድ",
+  "solutions.training.title": "የስልጠና ፕሮግራሞች",
+  "solutions.training.description": "ለባለሙያዎችና ለማህበረሰቦች በታዳሽ ኃይል ቴክኖሎጂዎች ሁሉን አቀፍ ስልጠና።",
+  "solutions.training.design": "የምህንድስና ዲዛይን",
+  "solutions.training.skills": "የማምረትና የተከላ ክህሎቶች",
+  "solutions.training.maintenance": "የጥገና ስልጠና",
+  "solutions.training.certification": "የምስክር ወረቀት ፕሮግራሞች",
+  "solutions.training.workshops": "የተግባር ወርክሾፖች",
+  "solutions.hubs.title": "የኃይል ማዕከላት ድጋፍ",
+  "solutions.hubs.description": "በርካታ አገልግሎቶችንና የመሠረተ ልማት ድጋፍን የሚሰጡ ማህበረሰብ ተኮር የኃይል ማዕከላት።",
+  "solutions.hubs.charging": "የቻርጅ ጣቢያዎች",
+  "solutions.hubs.cooling": "ማቀዝቀዣ እና ፍሪጅ",
+  "solutions.hubs.retail": "የፀሐይ መለዋወጫዎች ችርቻሮ ሽያጭ",
+  "solutions.hubs.internet": "የማህበረሰብ ኢንተርኔት አገልግሎት",
+  "solutions.hubs.education": "የኃይል ትምህርት ማዕከላት",
+  "solutions.integrationTitle": "የተቀናጀ የአገልግሎት አቀራረብ",
+  "solutions.integrationIntro": "አገልግሎቶቻችን ለእርስዎ ፍላጎት የተዘጋጁ ሁሉን አቀፍ የኃይል መፍትሄዎችን ለመስጠት ተቀናጅተው ይሰራሉ።",
+  "solutions.community.title": "የማህበረሰብ የፀሐይ ፕሮጀክቶች",
+  "solutions.community.description": "ዘላቂ የማህበረሰብ የኃይል ማዕከላትን ለመፍጠር የፀሐይ ተከላ አገልግሎትን ከኃይል ማዕከል ድጋፍ ጋር ማቀናጀት።",
+  "solutions.commercial.title": "የንግድ የኃይል ሽግግር",
+  "solutions.commercial.description": "የንግድ ድርጅቶች ወጪያቸውንና የካርቦን አሻራቸውን እንዲቀንሱ ሁሉን አቀፍ የኃይል ማማከርን ከፀሐይ መፍትሄዎች ጋር ማጣመር።",
+  "solutions.workforce.title": "የሰው ኃይል ልማት",
+  "solutions.workforce.description": "እያደገ ያለውን የኃይል ማዕከላትና የፀሐይ ተከላዎች መረብ እንዲደግፉ የአካባቢ ቴክኒሻኖችን የሚያዘጋጁ የስልጠና ፕሮግራሞች።",
+  "solutions.campus.title": "የዘላቂ ካምፓስ ተነሳሽነት",
+  "solutions.campus.description": "ለትምህርት ተቋማት ማማከርን፣ የፀሐይ ትግበራንና ስልጠናን ያጣመረ የተቀናጀ አቀራረብ።",
+  "solutions.ctaTitle": "የኃይል የወደፊት ዕጣዎን ለመቀየር ዝግጁ ነዎት?",
+  "solutions.ctaText": "የግሪን ወርልድ አገልግሎቶች በዘላቂና ቀልጣፋ መፍትሄዎች የኃይል ግቦችዎን እንዲያሳኩ እንዴት እንደሚረዱዎት ለመወያየት ዛሬውኑ ያግኙን።",
+  "solutions.requestConsultation": "ምክክር ይጠይቁ",
+  "solutions.learnAboutUs": "ስለ እኛ ይወቁ",
+
+  "solar.badge": "የፀሐይ ኃይል መፍትሄዎች",
+  "solar.title": "የ{highlight}ን ኃይል ይጠቀሙ",
+  "solar.titleHighlight": "ፀሐይ",
+  "solar.intro": "የላቁ የፀሐይ ኃይል መፍትሄዎቻችን የተትረፈረፈውን የፀሐይ ብርሃን ለቤቶች፣ ለንግድ ድርጅቶችና ለኃይል አቅራቢዎች ወደ ንፁህና ታዳሽ ኤሌክትሪክ ይቀይራሉ።",
+  "solar.benefitsTitle": "የፀሐይ ኃይል ጥቅሞች",
+  "solar.benefitsIntro": "የፀሐይ ኃይል ለአካባቢ፣ ለኪስዎና ለኃይል ነፃነት በርካታ ጥቅሞች አሉት።",
+  "solar.costs.title": "የቀነሰ የኃይል ወጪ",
+  "solar.costs.description": "ከፀሐይ የራስዎን ንፁህ ኃይል በማመንጨት የመብራት ሂሳብዎን ይቀንሱ።",
+  "solar.independence.title": "የኃይል ነፃነት",
+  "solar.independence.description": "በግሪድ ላይ ያለዎትን ጥገኝነት ይቀንሱ፤ ከሚጨምር የመብራት ታሪፍም ይጠበቁ።",
+  "solar.environment.title": "የአካባቢ ተፅዕኖ",
+  "solar.environment.description": "ምንም ልቀት በሌለው የኤሌክትሪክ ምርት የካርቦን አሻራዎን ይቀንሱ።",
+  "solar.value.title": "የጨመረ የንብረት ዋጋ",
+  "solar.value.description": "የፀሐይ ተከላ የንብረትዎን የገበያ ዋጋና ተፈላጊነት ሊጨምር ይችላል።",
+  "solar.reliable.title": "አስተማማኝ አፈፃፀም",
+  "solar.reliable.description": "የፀሐይ ሲስተሞች በትንሽ ጥገና ከ25 ዓመት በላይ በአስተማማኝ ሁኔታ ይሰራሉ።",
+  "solar.incentives.title": "የሚገኙ ማበረታቻዎች",
+  "solar.incentives.description": "ወጪን ለመቀነስ የግብር ቅናሾችን፣ ተመላሾችንና ማበረታቻዎችን ይጠቀሙ።",
+  "solar.solutionsTitle": "ለእያንዳንዱ ፍላጎት የፀሐይ መፍትሄዎች",
+  "solar.solutionsIntro": "ለመኖሪያ፣ ለንግድና ለትላልቅ የኃይል ማመንጫ አገልግሎቶች የተዘጋጁ የፀሐይ ኃይል ሲስተሞችን እናቀርባለን።",
+  "solar.residential": "መኖሪያ ቤት",
+  "solar.commercial": "ንግድ",
+  "solar.utility": "ትልቅ ደረጃ",
+  "solar.keyFeatures": "ዋና ባህሪያት",
+  "solar.rooftop.title": "የጣሪያ ላይ የፀሐይ ሲስተሞች",
+  "solar.rooftop.description": "ለቤትዎ የኃይል ፍላጎት ተስማምተው ለመኖሪያ ጣሪያዎች የተነደፉ የፀሐይ ፓነል ሲስተሞች።",
+  "solar.rooftop.feature1": "ለእርስዎ የተዘጋጀ የሲስተም ዲዛይን",
+  "solar.rooftop.feature2": "ከፍተኛ ብቃት ያላቸው ፓነሎች",
+  "solar.rooftop.feature3": "አነስተኛ ጥገና",
+  "solar.rooftop.feature4": "ከ25 ዓመት በላይ የአገልግሎት ዘመን",
+  "solar.rooftop.feature5": "ስማርት የክትትል ሲስተም",
+  "solar.storage.title": "ፀሐይ + ማጠራቀሚያ",
+  "solar.storage.description": "ለኃይል ነፃነትና ለተጠባባቂ ኃይል የተቀናጁ የፀሐይና የባትሪ ማጠራቀሚያ መፍትሄዎች።",
+  "solar.storage.feature1": "መብራት ሲጠፋ ተጠባባቂ ኃይል",
+  "solar.storage.feature2": "በአጠቃቀም ሰዓት ላይ የተመሰረተ ማመቻቸት",
+  "solar.storage.feature3": "የቀነሰ የግሪድ ጥገኝነት",
+  "solar.storage.feature4": "ሊሰፋ የሚችል አቅም",
+  "solar.storage.feature5": "ስማርት የኃይል አስተዳደር",
+  "solar.waterHeating.title": "የፀሐይ ውሃ ማሞቂያ",
+  "solar.waterHeating.description": "ለቤት ሙቅ ውሃና ለክፍል ማሞቂያ ፍላጎቶች ቀልጣፋ የፀሐይ ሙቀት ሲስተሞች።",
+  "solar.waterHeating.feature1": "የቀነሰ የውሃ ማሞቂያ ወጪ",
+  "solar.waterHeating.feature2": "ደመናማ በሆነ ጊዜም ይሰራል",
+  "solar.waterHeating.feature3": "ከነባር ሲስተሞች ጋር ይጣጣማል",
+  "solar.waterHeating.feature4": "አነስተኛ የጥገና ፍላጎት",
+  "solar.waterHeating.feature5": "ዓመቱን ሙሉ ይሰራል",
+  "solar.commercialRooftop.title": "የንግድ ሕንፃ ጣሪያ",
+  "solar.commercialRooftop.description": "ለንግድ ሕንፃዎች፣ ለመጋዘኖችና ለቢሮ ሕንፃዎች ትላልቅ የፀሐይ ተከላዎች።",
+  "solar.commercialRooftop.feature1": "የቀነሰ የሥራ ማስኬጃ ወጪ",
+  "solar.commercialRooftop.feature2": "በሥራ ላይ አነስተኛ መስተጓጎል",
+  "solar.commercialRooftop.feature3": "ለጭነት ሁኔታዎ የተነደፈ",
+  "solar.commercialRooftop.feature4": "የጨመረ የንብረት ዋጋ",
+  "solar.commercialRooftop.feature5": "የድርጅት የዘላቂነት ግቦች",
+  "solar.carport.title": "የመኪና ማቆሚያ ፀሐይ",
+  "solar.carport.description": "ንፁህ ኃይልና ጥላ ያለው የመኪና ማቆሚያ በአንድ ላይ የሚሰጡ ባለሁለት ጥቅም የፀሐይ ተከላዎች።",
+  "solar.carport.feature1": "ያልተጠቀሙበትን የማቆሚያ ቦታ ይጠቀማል",
+  "solar.carport.feature2": "ለተሽከርካሪዎች ከአየር ሁኔታ ጥበቃ",
+  "solar.carport.feature3": "የሚታይ የዘላቂነት ቁርጠኝነት",
+  "solar.carport.feature4": "አማራጭ የኤሌክትሪክ መኪና ቻርጅ",
+  "solar.carport.feature5": "የተሻሻለ የደንበኛ ተሞክሮ",
+  "solar.bipv.title": "ከሕንፃ ጋር የተዋሃደ ፒቪ",
+  "solar.bipv.description": "የሕንፃው ስነ-ህንፃ አካል የሚሆኑ የተዋሃዱ የፀሐይ መፍትሄዎች።",
+  "solar.bipv.feature1": "ውበትን የጠበቀ ውህደት",
+  "solar.bipv.feature2": "የተለመዱ የግንባታ ቁሳቁሶችን ይተካል",
+  "solar.bipv.feature3": "ባለሁለት ተግባር",
+  "solar.bipv.feature4": "ዘመናዊ የስነ-ህንፃ መገለጫ",
+  "solar.bipv.feature5": "ያለውን ቦታ በሙሉ ይጠቀማል",
+  "solar.farm.title": "መሬት ላይ የተተከሉ የፀሐይ እርሻዎች",
+  "solar.farm.description": "ለከፍተኛ የኃይል ምርትና ለግሪድ ድጋፍ የተነደፉ ትላልቅ የፀሐይ ተከላዎች።",
+  "solar.farm.feature1": "የሜጋዋት ደረጃ አቅም",
+  "solar.farm.feature2": "ለከፍተኛ ምርት የተመቻቸ",
+  "solar.farm.feature3": "የርቀት ክትትልና ቁጥጥር",
+  "solar.farm.feature4": "ግሪድን የማረጋጋት አቅም",
+  "solar.farm.feature5": "አነስተኛ የጥገና ፍላጎት",
+  "solar.floating.title": "ተንሳፋፊ ፀሐይ",
+  "solar.floating.description": "የመሬት አጠቃቀምን ለማሻሻል በውሃ አካላት ላይ የሚተከሉ የፈጠራ የፀሐይ ተከላዎች።",
+  "solar.floating.feature1": "መሬት አይፈልግም",
+  "solar.floating.feature2": "የተሻለ የማቀዝቀዝ ብቃት",
+  "solar.floating.feature3": "የቀነሰ የውሃ ትነት",
+  "solar.floating.feature4": "አነስተኛ የአካባቢ ተፅዕኖ",
+  "solar.floating.feature5": "የውሃ ሀብት ባለሁለት ጥቅም",
+  "solar.microgrid.title": "ፀሐይ + ማጠራቀሚያ ማይክሮግሪዶች",
+  "solar.microgrid.description": "ለብቻቸው ወይም ከዋናው ግሪድ ጋር ተጣምረው መስራት የሚችሉ የተቀናጁ የኃይል ሲስተሞች።",
+  "solar.microgrid.feature1": "የኃይል ጽናትና ደህንነት",
+  "solar.microgrid.feature2": "የከፍተኛ ፍላጎት አስተዳደር",
+  "solar.microgrid.feature3": "የፍሪኩዌንሲና የቮልቴጅ ድጋፍ",
+  "solar.microgrid.feature4": "ከግሪድ ተለይቶ የመስራት አቅም",
+  "solar.microgrid.feature5": "ሊሰፋ የሚችል ሞጁላር ዲዛይን",
+  "solar.technologiesTitle": "የፀሐይ ቴክኖሎጂዎች",
+  "solar.technologiesIntro": "የተሻለ አፈፃፀምን፣ ብቃትንና አስተማማኝነትን ለማረጋገጥ የቅርብ ጊዜ የፀሐይ ቴክኖሎጂዎችን እንጠቀማለን።",
+  "solar.mono.title": "ሞኖክሪስታሊን ፓነሎች",
+  "solar.mono.description": "ጥሩ አፈፃፀምና ረጅም ዕድሜ ያላቸው ከፍተኛ ብቃት ያላቸው የሲሊከን ፓነሎች፤ ቦታ ውስን ለሆነበት ተስማሚ።",
+  "solar.poly.title": "ፖሊክሪስታሊን ፓነሎች",
+  "solar.poly.description": "ጥሩ ብቃት ያላቸው ወጪ ቆጣቢ የፀሐይ ፓነሎች፤ በቂ ቦታ ላላቸው ትላልቅ ተከላዎች ተስማሚ።",
+  "solar.thinFilm.title": "ስስ-ፊልም ፀሐይ",
+  "solar.thinFilm.description": "በተለያዩ ገጽታዎችና የግንባታ ቁሳቁሶች ውስጥ ሊዋሃድ የሚችል ተጣጣፊና ቀላል የፀሐይ ቴክኖሎጂ።",
+  "solar.bifacial.title": "ባለሁለት ገጽ ፓነሎች",
+  "solar.bifacial.description": "ከመሬት የሚንጸባረቀውን ብርሃን የሚይዙ ባለሁለት ገጽ ፓነሎች፤ የኃይል ምርትን እስከ 30% ይጨምራሉ።",
+  "solar.microinverters.title": "ማይክሮኢንቨርተሮች",
+  "solar.microinverters.description": "አፈፃፀምን የሚያሻሽልና ዝርዝር ክትትል የሚያስችል በእያንዳንዱ ፓነል ደረጃ የኃይል ለውጥ።",
+  "solar.stringInverters.title": "ስትሪንግ ኢንቨርተሮች",
+  "solar.stringInverters.description": "ለብዙ ፓነሎች ወጪ ቆጣቢ የኃይል ለውጥ፤ ጥላ ለማይበዛባቸው ተከላዎች ተስማሚ።",
+  "solar.processTitle": "የፀሐይ ተከላ ሂደታችን",
+  "solar.processIntro": "የፀሐይ ኃይል ሲስተምዎ ከፍላጎትዎ ጋር በትክክል እንዲጣጣም ሁሉን አቀፍ አቀራረብ እንከተላለን።",
+  "solar.consultation.title": "የመጀመሪያ ምክክር",
+  "solar.consultation.description": "ምርጡን የፀሐይ መፍትሄ ለመወሰን የኃይል ፍላጎትዎን፣ የቦታውን ሁኔታና ግቦችዎን እንገመግማለን።",
+  "solar.design.title": "ለእርስዎ የተዘጋጀ ዲዛይን",
+  "solar.design.description": "መሐንዲሶቻችን ለእርስዎ ፍላጎት የተመቻቸ የፀሐይ ሲስተም ዲዛይን ያዘጋጃሉ።",
+  "solar.permits.title": "ፈቃዶችና ማጽደቂያዎች",
+  "solar.permits.description": "አስፈላጊ ፈቃዶችን፣ የኃይል አቅራቢ ማመልከቻዎችንና የደንብ መስፈርቶችን በሙሉ እኛ እንጨርሳለን።",
+  "solar.installation.title": "ሙያዊ ተከላ",
+  "solar.installation.description": "የተረጋገጡ ቴክኒሻኖቻችን በንብረትዎ ላይ አነስተኛ መስተጓጎል በመፍጠር የፀሐይ ሲስተምዎን ይተክላሉ።",
+  "solar.commissioning.title": "ሲስተሙን ሥራ ማስጀመር",
+  "solar.commissioning.description": "ሁሉም ነገር በትክክልና በደህንነት መስራቱን ለማረጋገጥ ሲስተሙን በጥልቀት እንፈትሻለን።",
+  "solar.support.title": "ክትትልና ድጋፍ",
+  "solar.support.description": "የሲስተምዎን ዕድሜና ምርት ለማሳደግ ቀጣይ የአፈፃፀም ክትትልና የጥገና ድጋፍ።",
+  "solar.ctaTitle": "የፀሐይ ኃይልን ለመጠቀም ዝግጁ ነዎት?",
+  "solar.ctaText": "ነፃ ምክክር ለማስያዝና የፀሐይ ኃይል ቤትዎን ወይም ንግድዎን እንዴት እንደሚጠቅም ለማወቅ ዛሬውኑ ያግኙን።",
+  "solar.freeConsultation": "ነፃ ምክክር ያግኙ",
+  "solar.otherSolutions": "ሌሎች መፍትሄዎችን ይመልከቱ",
+
+  "biomass.badge": "የባዮማስ ኃይል መፍትሄዎች",
+  "biomass.title": "ለገጠር ማህበረሰቦች ንፁህና ቀልጣፋ {highlight}",
+  "biomass.titleHighlight": "ባዮማስ",
+  "biomass.intro": "የባዮማስ መፍትሄዎቻችን የደን ጭፍጨፋን በመቀነስና ጤናን በማሻሻል ለምግብ ማብሰያና ለማሞቂያ ዘላቂ፣ ተመጣጣኝና ንፁህ ኃይል እንዴት እንደሚሰጡ ይወቁ።",
+  "biomass.whyTitle": "ለምን ባዮማስ?",
+  "biomass.point1": "በባህላዊ የእንጨት ማገዶና በደን ጭፍጨፋ ላይ ያለውን ጥገኝነት ይቀንሳል",
+  "biomass.point2": "የቤት ውስጥ የአየር ጥራትንና ጤናን ያሻሽላል",
+  "biomass.point3": "ለገጠር ቤተሰቦች ተመጣጣኝና ተደራሽ ነው",
+  "biomass.point4": "የአካባቢ ኢኮኖሚንና የሥራ ዕድል ፈጠራን ይደግፋል",
+  "biomass.ctaTitle": "የባዮማስ ኃይልን ለመጠቀም ዝግጁ ነዎት?",
+  "biomass.ctaText": "ስለ ባዮማስ ምድጃዎቻችን፣ የነዳጅ ብሪኬቶቻችንና የማህበረሰብ ፕሮግራሞቻችን የበለጠ ለማወቅ ቡድናችንን ያግኙ።",
+  "storage.badge": "የኃይል ማጠራቀሚያ መፍትሄዎች",
+  "storage.title": "ለእያንዳንዱ ፍላጎት አስተማማኝ {highlight}",
+  "storage.titleHighlight": "የኃይል ማጠራቀሚያ",
+  "storage.intro": "ለቤቶች፣ ለንግድ ድርጅቶችና ለማህበረሰቦች ያልተቋረጠ ኃይል የሚያረጋግጡ የላቁ የባትሪና የማጠራቀሚያ መፍትሄዎቻችንን ይመልከቱ።",
+  "storage.whyTitle": "ለምን የኃይል ማጠራቀሚያ?",
+  "storage.point1": "መብራት ሲጠፋ ተጠባባቂ ኃይል ይሰጣል",
+  "storage.point2": "ታዳሽ ኃይልን ቀንና ሌሊት ለመጠቀም ያስችላል",
+  "storage.point3": "የኃይል አስተማማኝነትንና ነፃነትን ያሻሽላል",
+  "storage.point4": "በናፍጣ ጀነሬተሮች ላይ ያለውን ጥገኝነት ይቀንሳል",
+  "storage.ctaTitle": "ለአስተማማኝ ኃይል ዝግጁ ነዎት?",
+  "storage.ctaText": "ስለ ባትሪ ሲስተሞቻችን፣ ስለ ተከላ አገልግሎቶቻችንና የኃይል ዋስትናን እንዲያገኙ እንዴት እንደምንረዳዎ የበለጠ ለማወቅ ያግኙን።",
+  "training.badge": "ስልጠና እና የአቅም ግንባታ",
+  "training.title": "{highlight}ን በስልጠና ማብቃት",
+  "training.titleHighlight": "ማህበረሰቦች",
+  "training.intro": "የንፁህ ኃይል ፕሮጀክቶችን ስኬትና ዘላቂነት ለማረጋገጥ ለሥራ ፈጣሪዎች፣ ለቴክኒሻኖችና ለማህበረሰብ መሪዎች ስለምንሰጣቸው የስልጠና ፕሮግራሞች ይወቁ።",
+  "training.whyTitle": "የስልጠናችን ትኩረት",
+  "training.point1": "ለአካባቢ የኃይል መሪዎች የሥራ ፈጠራና የንግድ ክህሎቶች",
+  "training.point2": "ለተከላና ለጥገና የቴክኒክ ስልጠና",
+  "training.point3": "የማህበረሰብ ግንዛቤና ተሳትፎ ፕሮግራሞች",
+  "training.point4": "ቀጣይ ድጋፍና ምክር",
+  "training.ctaTitle": "የስልጠና ፕሮግራሞቻችን ይፈልጋሉ?",
+  "training.ctaText": "ስለሚመጡ ወርክሾፖች፣ ለእርስዎ ስለሚዘጋጁ ስልጠናዎችና ስለ አጋርነት ዕድሎች የበለጠ ለማወቅ ያግኙን።",
+
+  "sizing.badge": "ዝርዝር መግለጫ እና ዲዛይን",
+  "sizing.title": "{highlight}ዎን ይለኩ",
+  "sizing.titleHighlight": "የቤት የፀሐይ ሲስተም",
+  "sizing.intro": "ምን ማብራት እንደሚፈልጉና የት እንደሚኖሩ ይንገሩን። የሚያስፈልግዎትን የፀሐይ ፓነል፣ የባትሪ ባንክና ኢንቨርተር አስልተን ከካታሎጋችን ዋጋ እናወጣለን።",
+  "sizing.stepAppliances": "እቃዎች",
+  "sizing.stepLocation": "ቦታ እና ተጠባባቂ",
+  "sizing.stepSystem": "የእርስዎ ሲስተም",
+  "sizing.appliancesIntro": "ማብራት የሚፈልጉትን፣ የእያንዳንዱን ብዛትና በተለመደ ቀን ምን ያህል ሰዓት እንደሚሰሩ ይዘርዝሩ።",
+  "sizing.appliance": "እቃ",
+  "sizing.watts": "ዋት",
+  "sizing.quantity": "ብዛት",
+  "sizing.hoursPerDay": "ሰዓት/ቀን",
+  "sizing.hoursPerDayLabel": "በቀን ስንት ሰዓት",
+  "sizing.whPerDay": "ዋት-ሰዓት/ቀን",
+  "sizing.appliancePlaceholder": "ለምሳሌ የውሃ ፓምፕ",
+  "sizing.applianceName": "የእቃው ስም",
+  "sizing.remove": "{name}ን ያስወግዱ",
+  "sizing.unnamedAppliance": "እቃ",
+  "sizing.dailyEnergy": "የቀን ኃይል",
+  "sizing.addAppliance": "እቃ ይጨምሩ",
+  "sizing.next": "ቀጣይ",
+  "sizing.back": "ተመለስ",
+  "sizing.location": "ቦታ",
+  "sizing.peakSunHours": "{name} ({hours} የፀሐይ ሰዓታት)",
+  "sizing.autonomy": "ያለ ፀሐይ የሚቆይባቸው ቀናት",
+  "sizing.days": {
+    one: "{count} ቀን",
+    other: "{count} ቀናት",
+  },
+  "sizing.autonomyHint": "ፀሐይ በሌለበት ጊዜ ባትሪው ጭነትዎን ምን ያህል ጊዜ መሸከም እንዳለበት።",
+  "sizing.sizeSystem": "ሲስተሜን ለካ",
+  "sizing.solarArray": "የፀሐይ ፓነሎች",
+  "sizing.batteryBank": "የባትሪ ባንክ",
+  "sizing.inverter": "ኢንቨርተር",
+  "sizing.billOfMaterials": "የእቃዎች ዝርዝር",
+  "sizing.product": "ምርት",
+  "sizing.covers": "የሚሸፍነው",
+  "sizing.qty": "ብዛት",
+  "sizing.unitPrice": "የአንዱ ዋጋ",
+  "sizing.total": "ጠቅላላ",
+  "sizing.coverage": "ከ{required} {provided}",
+  "sizing.discounts": "የተካተተ ቅናሽ",
+  "sizing.role.pv": "የፀሐይ ፓነል",
+  "sizing.role.battery": "ባትሪ",
+  "sizing.role.inverter": "ኢንቨርተር",
+  "sizing.or": " ወይም ",
+  "sizing.unavailable": "የኦንላይን ካታሎጋችን ለዚህ ሲስተም የሚሆን {roles} እስካሁን የለውም፤ ቡድናችን በዋጋ ግምትዎ ውስጥ ያካትታል።",
+  "sizing.tooLarge": "ይህ ሲስተም አንድ የኦንላይን ዋጋ ግምት ከሚይዘው በላይ {roles} ይፈልጋል፤ ቡድናችን ከእርስዎ ጋር መጠኑን ያሰላል።",
+  "sizing.assumptions":
+    "የሲስተም አፈፃፀም ጥምርታ {performance}%፣ የባትሪ ፍሰት ጥልቀት {depth}% እና ሁሉም ጭነቶች በአንድ ጊዜ እንደሚሰሩ ታሳቢ ተደርጓል። ተከላ፣ ኬብልና መወጠሪያ ከቦታ ጥናት በኋላ ለብቻቸው ዋጋ ይወጣላቸዋል።",
+  "sizing.stressTest": "ይህን ዲዛይን በመጥፎ የአየር ሁኔታ ይፈትኑ",
+  "sizing.outageTest": "በመብራት መቆራረጥ ይፈትኑ",
+  "sizing.addedToQuote": "ወደ ዋጋ ግምትዎ ታክሏል",
+  "sizing.addToQuote": "ሲስተሙን ወደ ዋጋ ግምት ይጨምሩ",
+  "roi.badge": "የኢንቨስትመንት ተመላሽ ስሌት",
+  "roi.title": "ፀሐይ {highlight}",
+  "roi.titleHighlight": "የሚመልሰው",
+  "roi.intro":
+    "ሲስተምን ከካታሎጋችን ዋጋ ያውጡ ወይም የራስዎን መጠን ያስገቡ፤ ከዚያም ዛሬ ለግሪድ መብራት ወይም ለናፍጣ ከሚያወጡት ጋር ያወዳድሩ። ውጤቱን በCSV ያውርዱ ወይም ለፕሮፖዛል ያትሙ።",
+  "roi.systemCost": "የሲስተም ወጪ",
+  "roi.fromCatalog": "ከካታሎግ",
+  "roi.enterAmount": "መጠን ያስገቡ",
+  "roi.removeOne": "አንድ {name} ይቀንሱ",
+  "roi.addOne": "አንድ {name} ይጨምሩ",
+  "roi.useQuote": "የዋጋ ግምቴን ተጠቀም",
+  "roi.clear": "አጽዳ",
+  "roi.catalogTotal": "የካታሎግ ድምር",
+  "roi.installedCost": "የተተከለ ሲስተም ወጪ",
+  "roi.energyToday": "የዛሬው ኃይል",
+  "roi.annualSpend": "በዓመት ለግሪድ/ለናፍጣ የሚወጣ",
+  "roi.spendOffset": "በፀሐይ የሚተካው ድርሻ",
+  "roi.tariffEscalation": "የታሪፍ ጭማሪ",
+  "roi.annualOutput": "የመጀመሪያ ዓመት ምርት",
+  "roi.usePanelEstimate": "የፓነል ግምቱን ተጠቀም ({output} kWh)",
+  "roi.location": "ቦታ (ለምርት ግምቱ)",
+  "roi.assumptions": "ታሳቢዎች",
+  "roi.degradation": "የፓነል ብቃት መቀነስ",
+  "roi.discountRate": "የቅናሽ ምጣኔ",
+  "roi.maintenanceRate": "ዓመታዊ ጥገና",
+  "roi.lifetime": "የሲስተም ዕድሜ",
+  "roi.years": "ዓመታት",
+  "roi.simplePayback": "ቀላል የመመለሻ ጊዜ",
+  "roi.never": "በፍጹም",
+  "roi.paybackYears": "{years} ዓመት",
+  "roi.netPresentValue": "የተጣራ የአሁን ዋጋ",
+  "roi.internalRateOfReturn": "ውስጣዊ የተመላሽ ምጣኔ",
+  "roi.costOfEnergy": "የኃይል ወጪ",
+  "roi.notApplicable": "የለም",
+  "roi.cashFlowTitle": "ዓመታዊ የገንዘብ ፍሰት",
+  "roi.cashFlowSummary": "በ{cost} ሲስተም በ{years} ዓመታት ውስጥ {savings} ይቆጠባል",
+  "roi.print": "አትም / PDF",
+  "roi.net": "የተጣራ የገንዘብ ፍሰት",
+  "roi.cumulative": "ድምር",
+  "roi.year": "ዓመት {year}",
+  "gridTest.badge": "የመብራት መቆራረጥ ሙከራ",
+  "gridTest.title": "ግሪዱ ሲጠፋ {highlight}",
+  "gridTest.titleHighlight": "መብራቱ ይቆያል?",
+  "gridTest.intro":
+    "የአካባቢዎን የመብራት መቆራረጥ መርሃ ግብር ያስገቡ፣ ያልታቀዱ መቋረጦችን፣ የቮልቴጅ ዝቅታዎችንና የፍሪኩዌንሲ መዋዠቆችን ይጨምሩ፤ ከዚያም ፀሐይና ባትሪ ስንት የመቋረጥ ሰዓታትን እንደሚሸፍኑ ለማየት አንድ ሳምንትን በየደቂቃው ያስኪዱ። ይኸው ግሪድ በድረ-ገጹ ላይ ባሉ ኢንቨርተሮች ላይም ይታያል።",
+  "weatherTest.badge": "የአየር ሁኔታ ጫና ሙከራ",
+  "weatherTest.title": "{highlight} ይዘልቃል?",
+  "weatherTest.titleHighlight": "መጥፎ ሳምንትን",
+  "weatherTest.intro":
+    "ሲስተምን በክረምት ዝናብ፣ በአቧራማ ጭጋግ ወይም በተከታታይ ሶስት ደመናማ ቀናት ሳምንት በየሰዓቱ ያስኪዱ፤ ባትሪው ያልቅ እንደሆነና ቤቱ ለምን ያህል ጊዜ ያለ ኃይል እንደሚቆይ ይመልከቱ።",
+
+  "products.backToAll": "ሁሉም ምርቶች",
+  "products.turnOn": "አብራ",
+  "products.turnOff": "አጥፋ",
+  "products.quantity": "ብዛት",
+  "products.addToQuoteButton": "ወደ ዋጋ ጥያቄ ጨምር",
+  "products.specifications": "ዝርዝር መግለጫዎች",
+  "products.related": "ተዛማጅ ምርቶች",
+  "compare.pickRange": "ጎን ለጎን ለማነጻጸር ከ{min} እስከ {max} ምርቶችን ይምረጡ።",
+  "compare.differencesOnly": "ልዩነቶችን ብቻ አሳይ",
+  "compare.remove": "{name}ን ከንጽጽሩ አስወግድ",
+  "compare.legend": "ምርቶቹ የሚለያዩባቸው ረድፎች። ምርጥ ዋጋና ደረጃ በአረንጓዴ ይታያሉ።",
+  "compare.overview": "አጠቃላይ እይታ",
+  "compare.performance": "አፈጻጸም",
+  "compare.specifications": "ዝርዝር መግለጫዎች",
+  "compare.price": "ዋጋ",
+  "compare.rating": "ደረጃ",
+  "compare.tags": "መለያዎች",
+
+  "node.POWER INITIALIZING": "ኃይል በመጀመር ላይ",
+  "node.SYSTEM BOOT SEQUENCE": "የሲስተም ማስነሻ ቅደም ተከተል",
+  "node.CHECKING HARDWARE...": "ሃርድዌር በመፈተሽ ላይ...",
+  "node.LOADING FIRMWARE": "ፈርምዌር በመጫን ላይ",
+  "node.INITIALIZING POWER MODULES": "የኃይል ሞጁሎችን በማስጀመር ላይ",
+  "node.SYSTEM CHECK": "የሲስተም ፍተሻ",
+  "node.CPU": "ፕሮሰሰር",
+  "node.MEMORY": "ማህደረ ትውስታ",
+  "node.SENSORS": "ዳሳሾች",
+  "node.CALIBRATION": "ማስተካከያ",
+  "node.Normal": "መደበኛ",
+  "node.PV Mode": "የፀሐይ ሁነታ",
+  "node.Batt. Mode": "የባትሪ ሁነታ",
+  "node.AC INPUT": "AC ግብዓት",
+  "node.TOTAL ENERGY": "ጠቅላላ ኃይል",
+  "node.PV INPUT": "የፀሐይ ግብዓት",
+  "node.AC OUTPUT": "AC ውጤት",
+  "node.LOAD CAP": "የጭነት አቅም",
+  "node.BATT CAP": "የባትሪ አቅም",
+  "node.TEMP:": "ሙቀት:",
+  "node.FAN:": "ማራገቢያ:",
+  "node.GRID MODE": "የግሪድ ሁነታ",
+  "node.SOLAR MODE": "የፀሐይ ሁነታ",
+  "node.BATTERY MODE": "የባትሪ ሁነታ",
+  "node.CONF": "ቅንብር",
+  "node.SELECT": "ምረጥ",
+  "node.START": "ጀምር",
+  "node.ENTER": "አስገባ",
+  "node.Activate": "አንቃ",
+
+  "clock.label": "የማስመሰያ ሰዓት",
+  "clock.play": "አጫውት",
+  "clock.pause": "ለአፍታ አቁም",
+  "clock.dayTime": "ቀን {day} · {time}",
+  "clock.timeOfDay": "የቀኑ ሰዓት",
+
+  "weather.clear_week.name": "ጥርት ያለ ሳምንት",
+  "weather.clear_week.description": "የበጋ ደረቅ ወቅት፦ ደመና የሌላቸው ቀናትና ቀዝቃዛ ሌሊቶች። ሲስተሙ በምርጥ አቅሙ የሚሰራው።",
+  "weather.kiremt.name": "የዝናብ ወቅት (ክረምት)",
+  "weather.kiremt.description": "ከሰኔ እስከ መስከረም፦ ጥቂት ብሩህ የጠዋት ሰዓታት፣ ከዚያም ደመናና ከባድ የከሰዓት ዝናብ።",
+  "weather.dusty_haze.name": "አቧራማ ጭጋግ",
+  "weather.dusty_haze.description": "ሞቃት፣ ደረቅና ጭጋጋማ፦ በአየሩና በፓነሎቹ ላይ ያለው አቧራ የየቀኑን ምርት ይቀንሳል።",
+  "weather.overcast_three_days.name": "ሦስት ደመናማ ቀናት",
+  "weather.overcast_three_days.description":
+    "አንድ ጥርት ያለ ቀን፣ በተከታታይ ሦስት ወፍራም ደመና ያለባቸው ቀናት፣ ከዚያም ፀሐይ ትመለሳለች። የባትሪ ራስን የመቻል ፈተና።",
+  "weatherTest.weather": "የአየር ሁኔታ",
+  "weatherTest.scenario": "የአየር ሁኔታ ሁኔታ",
+  "weatherTest.system": "ሲስተም",
+  "weatherTest.solarArray": "የፀሐይ ፓነሎች",
+  "weatherTest.batteryBank": "የባትሪ ባንክ",
+  "weatherTest.dailyUse": "የቀን ፍጆታ",
+  "weatherTest.inverter": "ኢንቨርተር",
+  "weatherTest.assumptions":
+    "ከግሪድ ውጪ፣ በ{minSoc}% የሚቆም ሙሉ የሊቲየም ባትሪ ይዞ ይጀምራል። ፍጆታው ምሽት ላይ ከፍ የሚለውን የተለመደ የቤት ውስጥ ቀን ይከተላል።",
+  "weatherTest.batteryRanOut": "ባትሪው አልቋል",
+  "weatherTest.yes": "አዎ",
+  "weatherTest.no": "አይ",
+  "weatherTest.hoursWithoutPower": "ያለ ኃይል ያለፉ ሰዓታት",
+  "weatherTest.hours": "{hours} ሰዓት",
+  "weatherTest.lowestCharge": "ዝቅተኛው ቻርጅ",
+  "weatherTest.solarOverUse": "ፀሐይ / ፍጆታ",
+  "weatherTest.hourByHour": "በየሰዓቱ",
+  "weatherTest.carriedThrough": "ባትሪው ቤቱን በ{scenario} {days} ቀናት አሳልፏል።",
+  "weatherTest.ranEmpty": "ባትሪው መጀመሪያ ባዶ የሆነው {time} ላይ ነው፤ {unserved} ኪሎዋት ሰዓት ፍጆታ ሳይቀርብ ቀርቷል።",
+  "weatherTest.day": "ቀን {day}",
+  "weatherTest.dayHour": "ቀን {day}፣ {time}",
+  "weatherTest.solar": "ፀሐይ",
+  "weatherTest.load": "ጭነት",
+  "weatherTest.battery": "ባትሪ",
+
+  "appliance.led_bulb": "LED አምፖል",
+  "appliance.radio": "ሬዲዮ",
+  "appliance.phone_charger": "የስልክ ቻርጀር",
+  "appliance.tv": "ቴሌቪዥን",
+  "appliance.refrigerator": "ማቀዝቀዣ",
+  "appliance.mirt_stove": "ምርት የኤሌክትሪክ እንጀራ ምጣድ",
+  "appliance.water_pump": "የውሃ ፓምፕ",
+  "loads.title": "የቤት ውስጥ ጭነቶች",
+  "loads.removeOne": "አንድ {name} ቀንስ",
+  "loads.addOne": "አንድ {name} ጨምር",
+  "loads.demand": "ፍላጎት",
+  "loads.dailyEnergy": "በቀን {energy} ኪሎዋት ሰዓት",
+  "loads.surgeWarning":
+    "{appliance}ን {time} ላይ ማስጀመር {watts} W ይስባል፤ ይህም ከኢንቨርተሩ {limit} W የመነሻ ገደብ በላይ ነው፦ የ{fault} መቋረጥ ይጠብቁ ({code})።",
+
+  "gridTest.output.utility_first": "መጀመሪያ ግሪድ",
+  "gridTest.output.solar_utility_battery": "ፀሐይ፣ ግሪድ፣ ከዚያም ባትሪ",
+  "gridTest.output.solar_battery_utility": "ፀሐይ፣ ባትሪ፣ ከዚያም ግሪድ",
+  "gridTest.reason.grid_lost": "ግሪድ ጠፍቷል",
+  "gridTest.reason.priority": "ቅድሚያ",
+  "gridTest.reason.solar_available": "ፀሐይ ጭነቱን ትሸፍናለች",
+  "gridTest.reason.solar_short": "ፀሐይ አትበቃም",
+  "gridTest.reason.battery_low": "ባትሪ ዝቅተኛ",
+  "gridTest.reason.battery_recovered": "ባትሪ ተሞልቷል",
+  "gridTest.mode.normal": "ግሪድ",
+  "gridTest.mode.pv": "ፀሐይ",
+  "gridTest.mode.battery": "ባትሪ",
+  "gridTest.weekday.mon": "ሰኞ",
+  "gridTest.weekday.tue": "ማክሰ",
+  "gridTest.weekday.wed": "ረቡዕ",
+  "gridTest.weekday.thu": "ሐሙስ",
+  "gridTest.weekday.fri": "ዓርብ",
+  "gridTest.weekday.sat": "ቅዳሜ",
+  "gridTest.weekday.sun": "እሑድ",
+  "gridTest.calendar": "የኃይል መቆራረጥ መርሐ ግብር",
+  "gridTest.example": "ምሳሌ",
+  "gridTest.import": "አስገባ",
+  "gridTest.calendarLabel": "የመቋረጥ መርሐ ግብር",
+  "gridTest.issue": "መስመር {line}፦ {message}",
+  "gridTest.rules": {
+    one: "{count} ደንብ።",
+    other: "{count} ደንቦች።",
+  },
+  "gridTest.rulesFrom": {
+    one: "ከ{name} {count} ደንብ።",
+    other: "ከ{name} {count} ደንቦች።",
+  },
+  "gridTest.scheduleHelp":
+    "በየመስመሩ አንድ፦ ቀናት (mon-sun፣ daily፣ weekdays ወይም weekends)፣ የጊዜ ክልል፣ ከዚያም outage፣ sag ከቮልቱ ጋር ወይም frequency ከኸርዙ ጋር።",
+  "gridTest.unplanned": "ያልታቀዱ ክስተቶች",
+  "gridTest.on": "በርቷል",
+  "gridTest.outages": "መቋረጦች",
+  "gridTest.typicalLength": "የተለመደ ርዝመት",
+  "gridTest.voltageSags": "የቮልቴጅ መውረዶች",
+  "gridTest.frequencySwings": "የፍሪኩዌንሲ መዋዠቆች",
+  "gridTest.perWeek": "/ ሳምንት",
+  "gridTest.hoursUnit": "ሰ",
+  "gridTest.acceptance": "ኢንቨርተሩ ግሪዱን ከ{voltage} V በታች ወይም ከ{min}-{max} Hz ውጪ ሲሆን ይተዋል።",
+  "gridTest.anotherWeek": "ሌላ ሳምንት",
+  "gridTest.outputPriority": "የውጤት ቅድሚያ",
+  "gridTest.hoursWithoutGrid": "ያለ ግሪድ ያለፉ ሰዓታት",
+  "gridTest.outageHoursCovered": "የተሸፈኑ የመቋረጥ ሰዓታት",
+  "gridTest.sourceTransfers": "የምንጭ ሽግግሮች",
+  "gridTest.gridImport": "ከግሪድ የተወሰደ",
+  "gridTest.neverFailed": "ግሪዱ በዚህ ሳምንት አልተቋረጠም። የኃይል መቆራረጥ መርሐ ግብር ያስገቡ ወይም ያልታቀዱ ክስተቶችን ያብሩ።",
+  "gridTest.allCovered": "ፀሐይና ባትሪው በእያንዳንዱ መቋረጥ መብራቱን አቆይተዋል፤ በጠቅላላ {hours} ሰዓታት።",
+  "gridTest.wentDark": "ቤቱ ከ{total} የመቋረጥ ሰዓታት ውስጥ ለ{dark} ጨለማ ሆኗል፤ {unserved} ኪሎዋት ሰዓት ፍጆታ አልተሟላም።",
+  "gridTest.outageCovered": "የተሸፈነ መቋረጥ",
+  "gridTest.outageNotCovered": "ያልተሸፈነ መቋረጥ",
+  "gridTest.transferLog": "የሽግግር መዝገብ",
+  "gridTest.oneSource": "ኢንቨርተሩ ሳምንቱን ሙሉ በአንድ ምንጭ ቆይቷል።",
+  "gridTest.break": "{ms} ms መቋረጥ",
+  "gridTest.noBreak": "ያለ መቋረጥ",
+
+  "clock.weather": "የአየር ሁኔታ",
+}
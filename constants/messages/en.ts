@@ -0,0 +1,696 @@
+// English messages, the source catalog every other locale is checked against. Keys are
+// grouped by area; `node.*` keys are the English strings the static nodes render, so a
+// node can look itself up by its own text. Plural messages are picked by `{count}`.
+
+export const en = {
+  "nav.home": "Home",
+  "nav.about": "About",
+  "nav.solutions": "Solutions",
+  "nav.solarEnergy": "Solar Energy",
+  "nav.energyStorage": "Energy Storage",
+  "nav.biomass": "Biomass",
+  "nav.training": "Training",
+  "nav.products": "Products",
+  "nav.contact": "Contact",
+  "nav.getInTouch": "Get in Touch",
+  "nav.language": "Language",
+  "nav.currency": "Currency",
+  "nav.ratesAsOf": "Exchange rates as of {date}",
+
+  "products.featured": "Featured Products",
+  "products.all": "All Products",
+  "products.allIntro": "Browse our complete collection of sustainable energy solutions.",
+  "products.searchPlaceholder": "Search products...",
+  "products.filters": "Filters",
+  "products.category": "Category",
+  "products.sortBy": "Sort by",
+  "products.showing": {
+    one: "Showing {count} of {total} products",
+    other: "Showing {count} of {total} products",
+  },
+  "products.clearAll": "Clear all",
+  "products.clearFilters": "Clear filters",
+  "products.noMatches": "No products match your search.",
+  "products.viewDetails": "View Details",
+  "products.compare": "Compare {name}",
+  "products.addToQuote": "Add {name} to quote",
+  "products.comparison": "Product Comparison",
+  "products.comparisonIntro":
+    "Put up to {count} products side by side to find the perfect fit for your energy needs.",
+
+  "sort.featured": "Featured",
+  "sort.price-asc": "Price: low to high",
+  "sort.price-desc": "Price: high to low",
+  "sort.rating": "Top rated",
+  "sort.name": "Name",
+
+  "facets.price": "Price",
+  "facets.priceRange": "Price range",
+  "facets.rating": "Rating",
+  "facets.any": "Any",
+  "facets.features": "Features",
+  "facets.onSale": "On sale only",
+
+  "quote.open": "Quote",
+  "quote.openWithItems": {
+    one: "Open quote cart with {count} item",
+    other: "Open quote cart with {count} items",
+  },
+  "quote.reference": "Reference {reference}",
+  "quote.requestedOn": "Requested on {date}",
+
+  "node.Bulb On": "Bulb On",
+  "node.Bulb Off": "Bulb Off",
+  "node.GREAN": "GREAN",
+  "node.CLEAN": "CLEAN",
+  "node.GREEN": "GREEN",
+  "node.SMART": "SMART",
+  "node.POWER": "POWER",
+  "node.HOME": "HOME",
+  "node.ABOUT": "ABOUT",
+  "node.SOLUTIONS": "SOLUTIONS",
+  "node.PRODUCTS": "PRODUCTS",
+  "node.CONTACT": "CONTACT",
+  "node.Mode:": "Mode:",
+  "node.Load:": "Load:",
+  "node.Temp:": "Temp:",
+  "node.Fan:": "Fan:",
+  "node.Batt:": "Batt:",
+  "node.Energy:": "Energy:",
+  "node.NORMAL": "NORMAL",
+  "node.PV": "PV",
+  "node.GENERATION": "GENERATION",
+  "node.EFFICIENCY": "EFFICIENCY",
+  "node.STATUS": "STATUS",
+  "node.CURRENT": "CURRENT",
+  "node.RATE": "RATE",
+  "node.SYSTEM": "SYSTEM",
+  "node.STORED": "STORED",
+  "node.USAGE": "USAGE",
+  "node.BACKUP": "BACKUP",
+  "node.TODAY": "TODAY",
+  "node.ALERTS": "ALERTS",
+  "node.TEMP": "TEMP",
+  "node.INVERTER": "INVERTER",
+  "node.STANDBY": "STANDBY",
+  "node.GRID": "GRID",
+  "node.SOLAR": "SOLAR",
+  "node.BATTERY": "BATTERY",
+  "node.GRID LOST": "GRID LOST",
+  "node.PRIORITY": "PRIORITY",
+  "node.SOLAR OK": "SOLAR OK",
+  "node.SOLAR LOW": "SOLAR LOW",
+  "node.BATT LOW": "BATT LOW",
+  "node.BATT OK": "BATT OK",
+  "node.FAULT": "FAULT",
+  "node.WARNING": "WARNING",
+  "node.AUTO RECOVERY": "AUTO RECOVERY",
+  "node.PRESS RESET": "PRESS RESET",
+  "node.SOC:": "SOC:",
+  "node.SOH:": "SOH:",
+  "node.Volt:": "Volt:",
+  "node.Curr:": "Curr:",
+  "node.Cycles:": "Cycles:",
+  "node.NO BATTERY": "NO BATTERY",
+  "node.Status:": "Status:",
+  "node.Freq:": "Freq:",
+  "node.Transfer:": "Transfer:",
+  "node.OK": "OK",
+  "node.OUTAGE": "OUTAGE",
+  "node.OUT OF RANGE": "OUT OF RANGE",
+  "node.NO GRID": "NO GRID",
+  "node.EVENT LOG": "EVENT LOG",
+  "node.NO EVENTS": "NO EVENTS",
+  "node.RAISED": "RAISED",
+  "node.CLEARED": "CLEARED",
+  "node.RESET": "RESET",
+  "node.Waiting for data": "Waiting for data",
+  "node.EnergyHub Pro": "EnergyHub Pro",
+  "node.SolarMeter": "SolarMeter",
+  "node.Energy Monitor": "Energy Monitor",
+  "node.1 min": "1 min",
+  "node.1 h": "1 h",
+  "node.24 h": "24 h",
+  "node.Solar": "Solar",
+  "node.Load": "Load",
+  "node.Grid": "Grid",
+  "node.Battery": "Battery",
+  "node.Temperature": "Temperature",
+  "node.Over-temperature": "Over-temperature",
+  "node.Overload": "Overload",
+  "node.Battery under-voltage": "Battery under-voltage",
+  "node.Grid loss": "Grid loss",
+  "node.PV over-voltage": "PV over-voltage",
+  "node.Fan failure": "Fan failure",
+  "node.Check ventilation around the unit and that the fan turns. Output resumes once it has cooled.":
+    "Check ventilation around the unit and that the fan turns. Output resumes once it has cooled.",
+  "node.Switch off large loads such as stoves or pumps, then press RESET.":
+    "Switch off large loads such as stoves or pumps, then press RESET.",
+  "node.Let solar or the grid recharge the battery. Output resumes once its voltage recovers.":
+    "Let solar or the grid recharge the battery. Output resumes once its voltage recovers.",
+  "node.The utility supply is down; loads run from solar and battery until it returns.":
+    "The utility supply is down; loads run from solar and battery until it returns.",
+  "node.The PV string's open-circuit voltage is above the input limit. Rewire with fewer panels in series.":
+    "The PV string's open-circuit voltage is above the input limit. Rewire with fewer panels in series.",
+  "node.Clear or replace the fan, then press RESET. The unit overheats under load without it.":
+    "Clear or replace the fan, then press RESET. The unit overheats under load without it.",
+
+  "ticker.welcome": "Welcome to GREAN WORLD Energy Technology",
+  "ticker.tagline": "Sustainable energy solutions for a greener future",
+  "ticker.smartGrid": "Smart grid technology for efficient power management",
+  "ticker.innovation": "Reducing carbon footprint with innovative energy systems",
+  "ticker.monitoring": "24/7 monitoring and support for all energy solutions",
+  "ticker.africa": "POWERING SUSTAINABLE ENERGY SOLUTIONS ACROSS AFRICA",
+  "ticker.services": "SOLAR INSTALLATIONS • ENERGY STORAGE • SMART GRIDS",
+  "ticker.carbon": "REDUCING CARBON FOOTPRINT SINCE 2015",
+  "ticker.support": "24/7 CUSTOMER SUPPORT: +251-911-123456",
+
+  "hero.inverterMode": "Inverter mode",
+  "hero.battery": "Battery {level}%",
+  "hero.load": "Load {level}%",
+
+  "solutions.badge": "Comprehensive Energy Solutions",
+  "solutions.title": "Our {highlight} & Solutions",
+  "solutions.titleHighlight": "Services",
+  "solutions.intro":
+    "Grean World offers end-to-end services to bring clean energy solutions closer to communities and businesses.",
+  "solutions.explore": "Explore Solutions",
+  "solutions.contact": "Contact Us",
+  "solutions.servicesTitle": "Our Services",
+  "solutions.servicesIntro":
+    "We provide comprehensive services to support the transition to renewable energy, from consultation to implementation and ongoing support.",
+  "solutions.overview": "Overview",
+  "solutions.learnMore": "Learn More",
+  "solutions.keyBenefits": "Key Benefits",
+  "solutions.exploreService": "Explore {service}",
+  "solutions.sizeSystem": "Size Your System",
+  "solutions.calculateRoi": "Calculate ROI",
+  "solutions.solar.title": "Solar Panel Services",
+  "solutions.solar.description":
+    "Complete solar energy solutions from specification and design to installation and ongoing support.",
+  "solutions.solar.design": "Specification & Design",
+  "solutions.solar.installation": "Professional Installation",
+  "solutions.solar.aftersales": "Aftersales Support",
+  "solutions.solar.monitoring": "System Monitoring",
+  "solutions.solar.maintenance": "Maintenance & Repairs",
+  "solutions.consultancy.title": "Energy Consultancy",
+  "solutions.consultancy.description":
+    "Expert guidance to optimize your energy usage and transition to sustainable energy solutions.",
+  "solutions.consultancy.audits": "Energy Surveys & Audits",
+  "solutions.consultancy.usage": "Usage Analysis",
+  "solutions.consultancy.compliance": "Compliance Support",
+  "solutions.consultancy.roi": "ROI Calculations",
+  "solutions.consultancy.planning": "Sustainability Planning",
+  "solutions.training.title": "Training Programs",
+  "solutions.training.description":
+    "Comprehensive training in renewable energy technologies for professionals and communities.",
+  "solutions.training.design": "Engineering Design",
+  "solutions.training.skills": "Manufacturing & Installation Skills",
+  "solutions.training.maintenance": "Maintenance Training",
+  "solutions.training.certification": "Certification Programs",
+  "solutions.training.workshops": "Hands-on Workshops",
+  "solutions.hubs.title": "Energy Hubs Support",
+  "solutions.hubs.description":
+    "Community-focused energy centers providing multiple services and infrastructure support.",
+  "solutions.hubs.charging": "Charging Stations",
+  "solutions.hubs.cooling": "Cooling & Refrigeration",
+  "solutions.hubs.retail": "Retail Sales of Solar Parts",
+  "solutions.hubs.internet": "Community Internet Access",
+  "solutions.hubs.education": "Energy Education Centers",
+  "solutions.integrationTitle": "Integrated Service Approach",
+  "solutions.integrationIntro":
+    "Our services work together seamlessly to provide comprehensive energy solutions tailored to your specific needs.",
+  "solutions.community.title": "Community Solar Projects",
+  "solutions.community.description":
+    "Combining solar installation services with energy hub support to create sustainable community energy centers.",
+  "solutions.commercial.title": "Commercial Energy Transition",
+  "solutions.commercial.description":
+    "Comprehensive energy consultancy paired with solar solutions to help businesses reduce costs and carbon footprint.",
+  "solutions.workforce.title": "Workforce Development",
+  "solutions.workforce.description":
+    "Training programs that prepare local technicians to support the growing network of energy hubs and solar installations.",
+  "solutions.campus.title": "Sustainable Campus Initiative",
+  "solutions.campus.description":
+    "Integrated approach combining consultancy, solar implementation, and training for educational institutions.",
+  "solutions.ctaTitle": "Ready to Transform Your Energy Future?",
+  "solutions.ctaText":
+    "Contact us today to discuss how GREAN WORLD's services can help you achieve your energy goals with sustainable, efficient solutions.",
+  "solutions.requestConsultation": "Request a Consultation",
+  "solutions.learnAboutUs": "Learn About Us",
+
+  "solar.badge": "Solar Energy Solutions",
+  "solar.title": "Harness the Power of the {highlight}",
+  "solar.titleHighlight": "Sun",
+  "solar.intro":
+    "Our advanced solar energy solutions convert abundant sunlight into clean, renewable electricity for homes, businesses, and utilities.",
+  "solar.benefitsTitle": "Benefits of Solar Energy",
+  "solar.benefitsIntro":
+    "Solar power offers numerous advantages for the environment, your finances, and energy independence.",
+  "solar.costs.title": "Reduced Energy Costs",
+  "solar.costs.description": "Lower your electricity bills by generating your own clean power from the sun.",
+  "solar.independence.title": "Energy Independence",
+  "solar.independence.description": "Decrease reliance on the grid and protect against rising utility rates.",
+  "solar.environment.title": "Environmental Impact",
+  "solar.environment.description": "Reduce your carbon footprint with zero-emission electricity generation.",
+  "solar.value.title": "Increased Property Value",
+  "solar.value.description": "Solar installations can increase your property's market value and appeal.",
+  "solar.reliable.title": "Reliable Performance",
+  "solar.reliable.description": "Solar systems operate reliably for 25+ years with minimal maintenance.",
+  "solar.incentives.title": "Available Incentives",
+  "solar.incentives.description": "Take advantage of tax credits, rebates, and incentives to reduce costs.",
+  "solar.solutionsTitle": "Solar Solutions for Every Need",
+  "solar.solutionsIntro":
+    "We offer customized solar energy systems for residential, commercial, and utility-scale applications.",
+  "solar.residential": "Residential",
+  "solar.commercial": "Commercial",
+  "solar.utility": "Utility-Scale",
+  "solar.keyFeatures": "Key Features",
+  "solar.rooftop.title": "Rooftop Solar Systems",
+  "solar.rooftop.description":
+    "Custom designed solar panel systems for residential rooftops, optimized for your home's energy needs.",
+  "solar.rooftop.feature1": "Customized system design",
+  "solar.rooftop.feature2": "High-efficiency panels",
+  "solar.rooftop.feature3": "Minimal maintenance",
+  "solar.rooftop.feature4": "25+ year lifespan",
+  "solar.rooftop.feature5": "Smart monitoring system",
+  "solar.storage.title": "Solar + Storage",
+  "solar.storage.description":
+    "Integrated solar and battery storage solutions for energy independence and backup power.",
+  "solar.storage.feature1": "Backup power during outages",
+  "solar.storage.feature2": "Time-of-use optimization",
+  "solar.storage.feature3": "Reduced grid dependence",
+  "solar.storage.feature4": "Scalable capacity",
+  "solar.storage.feature5": "Smart energy management",
+  "solar.waterHeating.title": "Solar Water Heating",
+  "solar.waterHeating.description": "Efficient solar thermal systems for domestic hot water and space heating needs.",
+  "solar.waterHeating.feature1": "Reduced water heating costs",
+  "solar.waterHeating.feature2": "Works even in cloudy conditions",
+  "solar.waterHeating.feature3": "Compatible with existing systems",
+  "solar.waterHeating.feature4": "Low maintenance requirements",
+  "solar.waterHeating.feature5": "Year-round operation",
+  "solar.commercialRooftop.title": "Commercial Rooftop",
+  "solar.commercialRooftop.description":
+    "Large-scale solar installations for commercial buildings, warehouses, and office complexes.",
+  "solar.commercialRooftop.feature1": "Reduced operational costs",
+  "solar.commercialRooftop.feature2": "Minimal business disruption",
+  "solar.commercialRooftop.feature3": "Custom designed for load profile",
+  "solar.commercialRooftop.feature4": "Enhanced property value",
+  "solar.commercialRooftop.feature5": "Corporate sustainability goals",
+  "solar.carport.title": "Carport Solar",
+  "solar.carport.description": "Dual-purpose solar installations that provide both clean energy and covered parking.",
+  "solar.carport.feature1": "Utilizes unused parking space",
+  "solar.carport.feature2": "Weather protection for vehicles",
+  "solar.carport.feature3": "Visible sustainability commitment",
+  "solar.carport.feature4": "Optional EV charging integration",
+  "solar.carport.feature5": "Enhanced customer experience",
+  "solar.bipv.title": "Building Integrated PV",
+  "solar.bipv.description": "Seamlessly integrated solar solutions that become part of the building's architecture.",
+  "solar.bipv.feature1": "Aesthetic integration",
+  "solar.bipv.feature2": "Replaces conventional materials",
+  "solar.bipv.feature3": "Dual functionality",
+  "solar.bipv.feature4": "Modern architectural statement",
+  "solar.bipv.feature5": "Maximizes available space",
+  "solar.farm.title": "Ground-Mounted Solar Farms",
+  "solar.farm.description": "Large-scale solar installations designed for maximum energy production and grid support.",
+  "solar.farm.feature1": "Megawatt-scale capacity",
+  "solar.farm.feature2": "Optimized for high yield",
+  "solar.farm.feature3": "Remote monitoring and control",
+  "solar.farm.feature4": "Grid stabilization capabilities",
+  "solar.farm.feature5": "Low maintenance requirements",
+  "solar.floating.title": "Floating Solar",
+  "solar.floating.description":
+    "Innovative solar installations deployed on water bodies, maximizing land use efficiency.",
+  "solar.floating.feature1": "No land use required",
+  "solar.floating.feature2": "Enhanced cooling efficiency",
+  "solar.floating.feature3": "Reduced water evaporation",
+  "solar.floating.feature4": "Minimal environmental impact",
+  "solar.floating.feature5": "Dual-use of water resources",
+  "solar.microgrid.title": "Solar + Storage Microgrids",
+  "solar.microgrid.description":
+    "Integrated power systems that can operate independently or in conjunction with the main grid.",
+  "solar.microgrid.feature1": "Energy resilience and security",
+  "solar.microgrid.feature2": "Peak demand management",
+  "solar.microgrid.feature3": "Frequency and voltage support",
+  "solar.microgrid.feature4": "Islanding capability",
+  "solar.microgrid.feature5": "Scalable and modular design",
+  "solar.technologiesTitle": "Solar Technologies",
+  "solar.technologiesIntro":
+    "We utilize the latest solar technologies to ensure optimal performance, efficiency, and reliability.",
+  "solar.mono.title": "Monocrystalline Panels",
+  "solar.mono.description":
+    "High-efficiency silicon panels with excellent performance and longevity, ideal for limited space applications.",
+  "solar.poly.title": "Polycrystalline Panels",
+  "solar.poly.description":
+    "Cost-effective solar panels with good efficiency, suitable for larger installations with ample space.",
+  "solar.thinFilm.title": "Thin-Film Solar",
+  "solar.thinFilm.description":
+    "Flexible, lightweight solar technology that can be integrated into various surfaces and building materials.",
+  "solar.bifacial.title": "Bifacial Panels",
+  "solar.bifacial.description":
+    "Double-sided panels that capture reflected light from the ground, increasing energy yield by up to 30%.",
+  "solar.microinverters.title": "Microinverters",
+  "solar.microinverters.description":
+    "Panel-level power conversion that optimizes performance and provides detailed monitoring capabilities.",
+  "solar.stringInverters.title": "String Inverters",
+  "solar.stringInverters.description":
+    "Cost-effective power conversion for multiple panels, ideal for installations with minimal shading.",
+  "solar.processTitle": "Our Solar Installation Process",
+  "solar.processIntro":
+    "We follow a comprehensive approach to ensure your solar energy system is perfectly tailored to your needs.",
+  "solar.consultation.title": "Initial Consultation",
+  "solar.consultation.description":
+    "We assess your energy needs, site conditions, and goals to determine the best solar solution.",
+  "solar.design.title": "Custom Design",
+  "solar.design.description":
+    "Our engineers create a tailored solar system design optimized for your specific requirements.",
+  "solar.permits.title": "Permitting & Approvals",
+  "solar.permits.description": "We handle all necessary permits, utility applications, and regulatory requirements.",
+  "solar.installation.title": "Professional Installation",
+  "solar.installation.description":
+    "Our certified technicians install your solar system with minimal disruption to your property.",
+  "solar.commissioning.title": "System Commissioning",
+  "solar.commissioning.description":
+    "We thoroughly test the system to ensure everything is functioning correctly and safely.",
+  "solar.support.title": "Monitoring & Support",
+  "solar.support.description":
+    "Ongoing performance monitoring and maintenance support to maximize your system's lifespan and output.",
+  "solar.ctaTitle": "Ready to Harness Solar Energy?",
+  "solar.ctaText":
+    "Contact us today to schedule a free consultation and learn how solar energy can benefit your home or business.",
+  "solar.freeConsultation": "Get a Free Consultation",
+  "solar.otherSolutions": "Explore Other Solutions",
+
+  "biomass.badge": "Biomass Energy Solutions",
+  "biomass.title": "Clean & Efficient {highlight} for Rural Communities",
+  "biomass.titleHighlight": "Biomass",
+  "biomass.intro":
+    "Discover how our biomass solutions provide sustainable, affordable, and clean energy for cooking and heating, reducing deforestation and improving health outcomes.",
+  "biomass.whyTitle": "Why Biomass?",
+  "biomass.point1": "Reduces reliance on traditional wood fuels and deforestation",
+  "biomass.point2": "Improves indoor air quality and health",
+  "biomass.point3": "Affordable and accessible for rural households",
+  "biomass.point4": "Supports local economies and job creation",
+  "biomass.ctaTitle": "Ready to Embrace Biomass Energy?",
+  "biomass.ctaText":
+    "Contact our team to learn more about our biomass cookstoves, fuel briquettes, and community programs.",
+  "storage.badge": "Energy Storage Solutions",
+  "storage.title": "Reliable {highlight} for Every Need",
+  "storage.titleHighlight": "Energy Storage",
+  "storage.intro":
+    "Explore our advanced battery and storage solutions that ensure uninterrupted power for homes, businesses, and communities.",
+  "storage.whyTitle": "Why Energy Storage?",
+  "storage.point1": "Provides backup power during outages",
+  "storage.point2": "Enables use of renewable energy day and night",
+  "storage.point3": "Improves energy reliability and independence",
+  "storage.point4": "Reduces reliance on diesel generators",
+  "storage.ctaTitle": "Ready for Reliable Energy?",
+  "storage.ctaText":
+    "Contact us to learn more about our battery systems, installation services, and how we can help you achieve energy security.",
+  "training.badge": "Training & Capacity Building",
+  "training.title": "Empowering {highlight} through Training",
+  "training.titleHighlight": "Communities",
+  "training.intro":
+    "Learn about our training programs for entrepreneurs, technicians, and community leaders to ensure the success and sustainability of clean energy projects.",
+  "training.whyTitle": "Our Training Focus",
+  "training.point1": "Entrepreneurship and business skills for local energy leaders",
+  "training.point2": "Technical training for installation and maintenance",
+  "training.point3": "Community awareness and engagement programs",
+  "training.point4": "Ongoing support and mentorship",
+  "training.ctaTitle": "Interested in Our Training Programs?",
+  "training.ctaText":
+    "Contact us to learn more about upcoming workshops, custom training, and partnership opportunities.",
+
+  "sizing.badge": "Specification & Design",
+  "sizing.title": "Size your {highlight}",
+  "sizing.titleHighlight": "solar home system",
+  "sizing.intro":
+    "Tell us what you want to power and where you live. We'll work out the solar array, battery bank and inverter you need and price them from our catalog.",
+  "sizing.stepAppliances": "Appliances",
+  "sizing.stepLocation": "Location & backup",
+  "sizing.stepSystem": "Your system",
+  "sizing.appliancesIntro": "List what you want to power, how many of each, and how long they run on a typical day.",
+  "sizing.appliance": "Appliance",
+  "sizing.watts": "Watts",
+  "sizing.quantity": "Quantity",
+  "sizing.hoursPerDay": "Hours/day",
+  "sizing.hoursPerDayLabel": "Hours per day",
+  "sizing.whPerDay": "Wh/day",
+  "sizing.appliancePlaceholder": "e.g. Water pump",
+  "sizing.applianceName": "Appliance name",
+  "sizing.remove": "Remove {name}",
+  "sizing.unnamedAppliance": "appliance",
+  "sizing.dailyEnergy": "Daily energy",
+  "sizing.addAppliance": "Add appliance",
+  "sizing.next": "Next",
+  "sizing.back": "Back",
+  "sizing.location": "Location",
+  "sizing.peakSunHours": "{name} ({hours} peak sun hours)",
+  "sizing.autonomy": "Days of autonomy",
+  "sizing.days": {
+    one: "{count} day",
+    other: "{count} days",
+  },
+  "sizing.autonomyHint": "How long the battery should carry your loads with no sun.",
+  "sizing.sizeSystem": "Size my system",
+  "sizing.solarArray": "Solar array",
+  "sizing.batteryBank": "Battery bank",
+  "sizing.inverter": "Inverter",
+  "sizing.billOfMaterials": "Bill of materials",
+  "sizing.product": "Product",
+  "sizing.covers": "Covers",
+  "sizing.qty": "Qty",
+  "sizing.unitPrice": "Unit price",
+  "sizing.total": "Total",
+  "sizing.coverage": "{provided} of {required}",
+  "sizing.discounts": "Includes discounts of",
+  "sizing.role.pv": "solar panel",
+  "sizing.role.battery": "battery",
+  "sizing.role.inverter": "inverter",
+  "sizing.or": " or ",
+  "sizing.unavailable":
+    "Our online catalog has no {roles} for this system yet; our team will include one in your quote.",
+  "sizing.tooLarge":
+    "This system needs more {roles} units than one online quote can hold; our team will size it with you.",
+  "sizing.assumptions":
+    "Assumes a {performance}% system performance ratio, {depth}% battery depth of discharge and all loads running at once. Installation, cabling and mounting are quoted separately after a site survey.",
+  "sizing.stressTest": "Stress-test this design",
+  "sizing.outageTest": "Test against load shedding",
+  "sizing.addedToQuote": "Added to your quote",
+  "sizing.addToQuote": "Add system to quote",
+  "roi.badge": "ROI Calculations",
+  "roi.title": "What solar {highlight}",
+  "roi.titleHighlight": "pays back",
+  "roi.intro":
+    "Price a system from our catalog or enter your own figure, then compare it with what you spend on grid power or diesel today. Export the results as CSV or print them for a proposal.",
+  "roi.systemCost": "System cost",
+  "roi.fromCatalog": "From catalog",
+  "roi.enterAmount": "Enter amount",
+  "roi.removeOne": "Remove one {name}",
+  "roi.addOne": "Add one {name}",
+  "roi.useQuote": "Use my quote",
+  "roi.clear": "Clear",
+  "roi.catalogTotal": "Catalog total",
+  "roi.installedCost": "Installed system cost",
+  "roi.energyToday": "Energy today",
+  "roi.annualSpend": "Grid/diesel spend per year",
+  "roi.spendOffset": "Share replaced by solar",
+  "roi.tariffEscalation": "Tariff escalation",
+  "roi.annualOutput": "First-year output",
+  "roi.usePanelEstimate": "Use panel estimate ({output} kWh)",
+  "roi.location": "Location (for the output estimate)",
+  "roi.assumptions": "Assumptions",
+  "roi.degradation": "Panel degradation",
+  "roi.discountRate": "Discount rate",
+  "roi.maintenanceRate": "Maintenance per year",
+  "roi.lifetime": "System lifetime",
+  "roi.years": "years",
+  "roi.simplePayback": "Simple payback",
+  "roi.never": "Never",
+  "roi.paybackYears": "{years} yrs",
+  "roi.netPresentValue": "Net present value",
+  "roi.internalRateOfReturn": "Internal rate of return",
+  "roi.costOfEnergy": "Cost of energy",
+  "roi.notApplicable": "n/a",
+  "roi.cashFlowTitle": "Cash flow by year",
+  "roi.cashFlowSummary": "{savings} saved over {years} years on a {cost} system",
+  "roi.print": "Print / PDF",
+  "roi.net": "Net cash flow",
+  "roi.cumulative": "Cumulative",
+  "roi.year": "Year {year}",
+  "gridTest.badge": "Load-Shedding Test",
+  "gridTest.title": "When the grid goes, {highlight}",
+  "gridTest.titleHighlight": "do the lights stay on?",
+  "gridTest.intro":
+    "Import your area's load-shedding calendar, add unplanned outages, sags and frequency swings, and run a week minute by minute to see how many outage hours solar and the battery carry. The same grid plays out on the live inverters across the site.",
+  "weatherTest.badge": "Weather Stress Test",
+  "weatherTest.title": "Will it last through {highlight}",
+  "weatherTest.titleHighlight": "a bad week?",
+  "weatherTest.intro":
+    "Run a system through a week of kiremt rain, dusty haze or three overcast days in a row, hour by hour, and see whether the battery runs out and for how long the home goes without power.",
+
+  "products.backToAll": "All products",
+  "products.turnOn": "Turn on",
+  "products.turnOff": "Turn off",
+  "products.quantity": "Quantity",
+  "products.addToQuoteButton": "Add to Quote",
+  "products.specifications": "Specifications",
+  "products.related": "Related Products",
+  "compare.pickRange": "Pick {min} to {max} products to compare them side by side.",
+  "compare.differencesOnly": "Only show differences",
+  "compare.remove": "Remove {name} from comparison",
+  "compare.legend": "Rows where the products differ. The best price and rating are shown in green.",
+  "compare.overview": "Overview",
+  "compare.performance": "Performance",
+  "compare.specifications": "Specifications",
+  "compare.price": "Price",
+  "compare.rating": "Rating",
+  "compare.tags": "Tags",
+
+  "node.POWER INITIALIZING": "POWER INITIALIZING",
+  "node.SYSTEM BOOT SEQUENCE": "SYSTEM BOOT SEQUENCE",
+  "node.CHECKING HARDWARE...": "CHECKING HARDWARE...",
+  "node.LOADING FIRMWARE": "LOADING FIRMWARE",
+  "node.INITIALIZING POWER MODULES": "INITIALIZING POWER MODULES",
+  "node.SYSTEM CHECK": "SYSTEM CHECK",
+  "node.CPU": "CPU",
+  "node.MEMORY": "MEMORY",
+  "node.SENSORS": "SENSORS",
+  "node.CALIBRATION": "CALIBRATION",
+  "node.Normal": "Normal",
+  "node.PV Mode": "PV Mode",
+  "node.Batt. Mode": "Batt. Mode",
+  "node.AC INPUT": "AC INPUT",
+  "node.TOTAL ENERGY": "TOTAL ENERGY",
+  "node.PV INPUT": "PV INPUT",
+  "node.AC OUTPUT": "AC OUTPUT",
+  "node.LOAD CAP": "LOAD CAP",
+  "node.BATT CAP": "BATT CAP",
+  "node.TEMP:": "TEMP:",
+  "node.FAN:": "FAN:",
+  "node.GRID MODE": "GRID MODE",
+  "node.SOLAR MODE": "SOLAR MODE",
+  "node.BATTERY MODE": "BATTERY MODE",
+  "node.CONF": "CONF",
+  "node.SELECT": "SELECT",
+  "node.START": "START",
+  "node.ENTER": "ENTER",
+  "node.Activate": "Activate",
+
+  "clock.label": "Simulated clock",
+  "clock.play": "Play",
+  "clock.pause": "Pause",
+  "clock.dayTime": "Day {day} · {time}",
+  "clock.timeOfDay": "Time of day",
+
+  "weather.clear_week.name": "Clear week",
+  "weather.clear_week.description": "Bega dry season: cloudless days, cold nights. What the system does at its best.",
+  "weather.kiremt.name": "Rainy season (kiremt)",
+  "weather.kiremt.description": "June to September: a few bright morning hours, then cloud and heavy afternoon rain.",
+  "weather.dusty_haze.name": "Dusty haze",
+  "weather.dusty_haze.description":
+    "Hot, dry and hazy: dust in the air and on the panels takes the edge off every day.",
+  "weather.overcast_three_days.name": "Three overcast days",
+  "weather.overcast_three_days.description":
+    "A clear day, three days of thick cloud in a row, then the sun returns. The test of battery autonomy.",
+  "weatherTest.weather": "Weather",
+  "weatherTest.scenario": "Weather scenario",
+  "weatherTest.system": "System",
+  "weatherTest.solarArray": "Solar array",
+  "weatherTest.batteryBank": "Battery bank",
+  "weatherTest.dailyUse": "Daily use",
+  "weatherTest.inverter": "Inverter",
+  "weatherTest.assumptions":
+    "Off-grid, starting with a full lithium battery that stops at {minSoc}%. Use follows a typical household day with its peak in the evening.",
+  "weatherTest.batteryRanOut": "Battery ran out",
+  "weatherTest.yes": "Yes",
+  "weatherTest.no": "No",
+  "weatherTest.hoursWithoutPower": "Hours without power",
+  "weatherTest.hours": "{hours} h",
+  "weatherTest.lowestCharge": "Lowest charge",
+  "weatherTest.solarOverUse": "Solar / use",
+  "weatherTest.hourByHour": "Hour by hour",
+  "weatherTest.carriedThrough": "The battery carried the home through {days} days of {scenario}.",
+  "weatherTest.ranEmpty": "The battery first ran empty on {time}; {unserved} kWh of use went unserved.",
+  "weatherTest.day": "Day {day}",
+  "weatherTest.dayHour": "Day {day}, {time}",
+  "weatherTest.solar": "Solar",
+  "weatherTest.load": "Load",
+  "weatherTest.battery": "Battery",
+
+  "appliance.led_bulb": "LED bulb",
+  "appliance.radio": "Radio",
+  "appliance.phone_charger": "Phone charger",
+  "appliance.tv": "Television",
+  "appliance.refrigerator": "Refrigerator",
+  "appliance.mirt_stove": "Mirt electric injera stove",
+  "appliance.water_pump": "Water pump",
+  "loads.title": "Household loads",
+  "loads.removeOne": "Remove one {name}",
+  "loads.addOne": "Add one {name}",
+  "loads.demand": "Demand",
+  "loads.dailyEnergy": "{energy} kWh a day",
+  "loads.surgeWarning":
+    "Starting the {appliance} at {time} draws {watts} W, beyond the inverter's {limit} W surge limit: expect an {fault} trip ({code}).",
+
+  "gridTest.output.utility_first": "Grid first",
+  "gridTest.output.solar_utility_battery": "Solar, grid, then battery",
+  "gridTest.output.solar_battery_utility": "Solar, battery, then grid",
+  "gridTest.reason.grid_lost": "grid lost",
+  "gridTest.reason.priority": "priority",
+  "gridTest.reason.solar_available": "solar covers the load",
+  "gridTest.reason.solar_short": "solar falls short",
+  "gridTest.reason.battery_low": "battery low",
+  "gridTest.reason.battery_recovered": "battery recharged",
+  "gridTest.mode.normal": "Grid",
+  "gridTest.mode.pv": "Solar",
+  "gridTest.mode.battery": "Battery",
+  "gridTest.weekday.mon": "Mon",
+  "gridTest.weekday.tue": "Tue",
+  "gridTest.weekday.wed": "Wed",
+  "gridTest.weekday.thu": "Thu",
+  "gridTest.weekday.fri": "Fri",
+  "gridTest.weekday.sat": "Sat",
+  "gridTest.weekday.sun": "Sun",
+  "gridTest.calendar": "Load-shedding calendar",
+  "gridTest.example": "Example",
+  "gridTest.import": "Import",
+  "gridTest.calendarLabel": "Outage calendar",
+  "gridTest.issue": "Line {line}: {message}",
+  "gridTest.rules": {
+    one: "{count} rule.",
+    other: "{count} rules.",
+  },
+  "gridTest.rulesFrom": {
+    one: "{count} rule from {name}.",
+    other: "{count} rules from {name}.",
+  },
+  "gridTest.scheduleHelp":
+    "One per line: days (mon-sun, daily, weekdays or weekends), a time range, then outage, sag with the volts or frequency with the hertz.",
+  "gridTest.unplanned": "Unplanned events",
+  "gridTest.on": "On",
+  "gridTest.outages": "Outages",
+  "gridTest.typicalLength": "Typical length",
+  "gridTest.voltageSags": "Voltage sags",
+  "gridTest.frequencySwings": "Frequency swings",
+  "gridTest.perWeek": "/ wk",
+  "gridTest.hoursUnit": "h",
+  "gridTest.acceptance": "The inverter drops the grid below {voltage} V or outside {min}-{max} Hz.",
+  "gridTest.anotherWeek": "Another week",
+  "gridTest.outputPriority": "Output priority",
+  "gridTest.hoursWithoutGrid": "Hours without grid",
+  "gridTest.outageHoursCovered": "Outage hours covered",
+  "gridTest.sourceTransfers": "Source transfers",
+  "gridTest.gridImport": "Grid import",
+  "gridTest.neverFailed":
+    "The grid never failed this week. Import a load-shedding calendar or turn on unplanned events.",
+  "gridTest.allCovered": "Solar and the battery kept the lights on through every outage, {hours} hours in all.",
+  "gridTest.wentDark": "The home went dark for {dark} of {total} outage hours, missing {unserved} kWh of use.",
+  "gridTest.outageCovered": "Outage covered",
+  "gridTest.outageNotCovered": "Outage not covered",
+  "gridTest.transferLog": "Transfer log",
+  "gridTest.oneSource": "The inverter stayed on one source all week.",
+  "gridTest.break": "{ms} ms break",
+  "gridTest.noBreak": "no break",
+
+  "clock.weather": "Weather",
+} as const
@@ -0,0 +1,193 @@
+import type { Product, ProductCategory } from "@/types/product"
+
+// The single place to add, update or price products; utils/catalog.ts checks it on load
+
+export const PRODUCT_CATEGORIES: ProductCategory[] = [
+  { id: "solar", name: "Solar Systems" },
+  { id: "battery", name: "Energy Storage" },
+  { id: "inverters", name: "Inverters" },
+  { id: "mirt", name: "Mirt Stove" },
+  { id: "ethanol", name: "Ethanol Products" },
+  { id: "accessories", name: "Accessories" },
+]
+
+export const PRODUCTS: Product[] = [
+  {
+    id: "pico-solar-5w",
+    name: "Pico Solar 5Wp System",
+    category: "solar",
+    price: 29.99,
+    rating: 4.7,
+    preview: { component: "solar-panel", scale: 0.3, ratedPower: 5 },
+    tags: ["Lighting", "Radio", "Portable"],
+    description: "Compact 5Wp solar system for basic lighting and radio charging needs.",
+    specifications: [
+      { label: "Panel", value: "5Wp monocrystalline" },
+      { label: "Battery", value: "3.2V 2000mAh LiFePO4" },
+      { label: "Outputs", value: "1 LED lamp, USB charging" },
+      { label: "Warranty", value: "1 year" },
+    ],
+    metrics: [
+      { label: "Light per charge", value: "8", unit: "h" },
+      { label: "Full charge", value: "6", unit: "h sun" },
+      { label: "Weight", value: "0.8", unit: "kg" },
+    ],
+  },
+  {
+    id: "solar-100wp",
+    name: "Home Solar 100Wp Kit",
+    category: "solar",
+    price: 199.99,
+    oldPrice: 249.99,
+    rating: 4.9,
+    preview: { component: "solar-panel", scale: 1, ratedPower: 100 },
+    tags: ["100Wp", "AC/DC", "Home System"],
+    description: "Complete solar home system with battery backup and multiple outlets.",
+    specifications: [
+      { label: "Panel", value: "100Wp monocrystalline" },
+      { label: "Battery", value: "12V 40Ah lithium" },
+      { label: "Outputs", value: "4 LED lamps, 2 USB, 12V DC, 220V AC" },
+      { label: "Warranty", value: "2 years" },
+    ],
+    metrics: [
+      { label: "Daily energy", value: "400", unit: "Wh" },
+      { label: "Backup", value: "1.5", unit: "days" },
+      { label: "Peak output", value: "300", unit: "W" },
+    ],
+  },
+  {
+    id: "battery-5kwh",
+    name: "PowerVault Lithium 5kWh",
+    category: "battery",
+    price: 2499.99,
+    rating: 4.8,
+    preview: { component: "battery", scale: 1, type: "lithium" },
+    tags: ["5kWh", "Lithium", "Smart BMS"],
+    description: "High-capacity lithium battery system with advanced battery management.",
+    specifications: [
+      { label: "Chemistry", value: "Lithium iron phosphate (LiFePO4)" },
+      { label: "Nominal voltage", value: "48V" },
+      { label: "Management", value: "Smart BMS with Bluetooth monitoring" },
+      { label: "Warranty", value: "5 years" },
+    ],
+    metrics: [
+      { label: "Capacity", value: "5", unit: "kWh" },
+      { label: "Continuous power", value: "2.5", unit: "kW" },
+      { label: "Cycle life", value: "6000", unit: "cycles" },
+    ],
+    sizing: { role: "battery", kWh: 5 },
+  },
+  {
+    id: "mono-panel-400w",
+    name: "Mono PERC Solar Panel 400Wp",
+    category: "solar",
+    price: 169.99,
+    rating: 4.7,
+    preview: { component: "solar-panel", scale: 1, ratedPower: 400 },
+    tags: ["400Wp", "Monocrystalline", "Rooftop"],
+    description: "High-efficiency monocrystalline panel for building larger rooftop and ground-mounted arrays.",
+    specifications: [
+      { label: "Panel", value: "400Wp monocrystalline PERC" },
+      { label: "Cells", value: "108 half-cut" },
+      { label: "Dimensions", value: "1722 x 1134 x 30 mm" },
+      { label: "Warranty", value: "12 years product, 25 years output" },
+    ],
+    metrics: [
+      { label: "Efficiency", value: "20.5", unit: "%" },
+      { label: "Open-circuit voltage", value: "37", unit: "V" },
+      { label: "Weight", value: "21.5", unit: "kg" },
+    ],
+    sizing: { role: "pv", watts: 400 },
+  },
+  {
+    id: "inverter-3kva",
+    name: "GW Hybrid Inverter 3kVA",
+    category: "inverters",
+    price: 549.99,
+    rating: 4.6,
+    preview: { component: "inverter", scale: 1 },
+    tags: ["3kVA", "Hybrid", "MPPT"],
+    description: "Pure sine wave hybrid inverter with built-in MPPT charger for small homes and shops.",
+    specifications: [
+      { label: "Output", value: "3kVA / 3kW pure sine wave" },
+      { label: "Battery voltage", value: "24V" },
+      { label: "Solar charger", value: "80A MPPT, 500V max input" },
+      { label: "Warranty", value: "2 years" },
+    ],
+    metrics: [
+      { label: "Rated power", value: "3", unit: "kVA" },
+      { label: "Peak efficiency", value: "93", unit: "%" },
+      { label: "Transfer time", value: "10", unit: "ms" },
+    ],
+    sizing: { role: "inverter", kVA: 3 },
+  },
+  {
+    id: "inverter-5kva",
+    name: "GW Hybrid Inverter 5kVA",
+    category: "inverters",
+    price: 799.99,
+    oldPrice: 899.99,
+    rating: 4.8,
+    preview: { component: "inverter", scale: 1 },
+    tags: ["5kVA", "Hybrid", "MPPT"],
+    description: "Hybrid inverter for whole-home backup, pairing a 48V lithium bank with a rooftop array.",
+    specifications: [
+      { label: "Output", value: "5kVA / 5kW pure sine wave" },
+      { label: "Battery voltage", value: "48V" },
+      { label: "Solar charger", value: "100A MPPT, 500V max input" },
+      { label: "Warranty", value: "2 years" },
+    ],
+    metrics: [
+      { label: "Rated power", value: "5", unit: "kVA" },
+      { label: "Peak efficiency", value: "94", unit: "%" },
+      { label: "Transfer time", value: "10", unit: "ms" },
+    ],
+    sizing: { role: "inverter", kVA: 5 },
+  },
+  {
+    id: "mirt-basic",
+    name: "Mirt Basic Injera Stove",
+    category: "mirt",
+    price: 49.99,
+    oldPrice: 59.99,
+    rating: 4.6,
+    preview: { component: "appliance", scale: 0.9, type: "stove" },
+    tags: ["Electric", "Injera", "Energy Saving"],
+    description: "Energy-efficient electric stove designed for perfect Injera making.",
+    specifications: [
+      { label: "Plate", value: "60cm clay mitad" },
+      { label: "Supply", value: "220V AC" },
+      { label: "Controls", value: "Two-step thermostat" },
+      { label: "Warranty", value: "1 year" },
+    ],
+    metrics: [
+      { label: "Power", value: "1.8", unit: "kW" },
+      { label: "Heat-up", value: "12", unit: "min" },
+      { label: "Energy saving", value: "40", unit: "%" },
+    ],
+  },
+  {
+    id: "ethanol-stove",
+    name: "CleanCook Ethanol Stove",
+    category: "ethanol",
+    price: 79.99,
+    rating: 4.8,
+    preview: { component: "appliance", scale: 0.9, type: "ethanol" },
+    tags: ["Ethanol", "Clean Cooking", "Portable"],
+    description: "Clean and safe ethanol cooking stove for modern households.",
+    specifications: [
+      { label: "Fuel", value: "Denatured ethanol" },
+      { label: "Burners", value: "2" },
+      { label: "Tank", value: "Non-spill canister" },
+      { label: "Warranty", value: "1 year" },
+    ],
+    metrics: [
+      { label: "Burn time", value: "4", unit: "h per fill" },
+      { label: "Heat output", value: "2", unit: "kW" },
+      { label: "Smoke", value: "0", unit: "%" },
+    ],
+  },
+]
+
+// What the comparison table starts with: the systems customers most often ask about
+export const DEFAULT_COMPARED_PRODUCT_IDS = ["pico-solar-5w", "solar-100wp", "battery-5kwh"]
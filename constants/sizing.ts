@@ -0,0 +1,48 @@
+// Reference data for the solar home system sizing calculator
+
+export interface SunHourProfile {
+  id: string
+  name: string
+  // Average daily peak sun hours (kWh/m²/day) over the year
+  peakSunHours: number
+}
+
+// Typical annual averages; a site survey refines these before installation
+export const SUN_HOUR_PROFILES: SunHourProfile[] = [
+  { id: "addis-ababa", name: "Addis Ababa", peakSunHours: 5.5 },
+  { id: "bahir-dar", name: "Bahir Dar", peakSunHours: 5.9 },
+  { id: "mekelle", name: "Mekelle", peakSunHours: 6.2 },
+  { id: "dire-dawa", name: "Dire Dawa", peakSunHours: 6.0 },
+  { id: "hawassa", name: "Hawassa", peakSunHours: 5.7 },
+  { id: "jimma", name: "Jimma", peakSunHours: 5.0 },
+  { id: "gambela", name: "Gambela", peakSunHours: 5.3 },
+]
+
+export interface SizingAssumptions {
+  // Share of rated panel output that reaches the loads after heat, dust, wiring and charging losses
+  performanceRatio: number
+  // Share of battery capacity used each cycle without shortening its life
+  depthOfDischarge: number
+  inverterEfficiency: number
+  // Spare inverter capacity over the peak load, for motor starts and future loads
+  inverterHeadroom: number
+  powerFactor: number
+}
+
+export const SIZING_ASSUMPTIONS: SizingAssumptions = {
+  performanceRatio: 0.75,
+  depthOfDischarge: 0.8,
+  inverterEfficiency: 0.9,
+  inverterHeadroom: 1.25,
+  powerFactor: 0.8,
+}
+
+export const AUTONOMY_DAYS_RANGE = { min: 1, max: 5 }
+
+// What the calculator starts with: a typical small home
+export const DEFAULT_SIZING_APPLIANCES = [
+  { name: "LED bulb", watts: 9, quantity: 6, hoursPerDay: 5 },
+  { name: "Television", watts: 80, quantity: 1, hoursPerDay: 4 },
+  { name: "Refrigerator", watts: 150, quantity: 1, hoursPerDay: 8 },
+  { name: "Phone charger", watts: 10, quantity: 3, hoursPerDay: 2 },
+]
@@ -0,0 +1,107 @@
+import type { SystemTopology } from "@/types/topology"
+
+// Landing page demo: inverter → switch → bulb → word.
+// The inverter sits 110px in from the left and the word 75px in from the right,
+// with the switch and bulb evenly spaced between them.
+export const LANDING_DEMO_TOPOLOGY: SystemTopology = {
+  id: "landing-demo",
+  name: "Landing demo",
+  nodes: [
+    { id: "inverter", type: "inverter", label: "Inverter", position: { x: 0, y: 0.5, offsetX: 110 }, scale: 0.35 },
+    {
+      id: "switch",
+      type: "switch",
+      label: "Switch",
+      position: { x: 1 / 3, y: 0.5, offsetX: 110 - 185 / 3 },
+      scale: 0.84,
+    },
+    {
+      id: "bulb",
+      type: "bulb",
+      label: "Bulb",
+      position: { x: 2 / 3, y: 0.5, offsetX: 110 - 370 / 3, offsetY: -97 },
+    },
+    { id: "word", type: "word", label: "Output", position: { x: 1, y: 0.5, offsetX: -75 }, props: { word: "GREAN" } },
+  ],
+  edges: [
+    { id: "inverter-switch", from: "inverter", to: "switch", kind: "ac" },
+    { id: "switch-bulb", from: "switch", to: "bulb", kind: "ac", corner: "vertical-first" },
+    { id: "bulb-word", from: "bulb", to: "word", kind: "ac", corner: "vertical-first" },
+  ],
+}
+
+// Compact four-node diagram used by EnergyFlowDiagram
+export const ENERGY_FLOW_TOPOLOGY: SystemTopology = {
+  id: "energy-flow",
+  name: "Energy flow",
+  nodes: [
+    {
+      id: "inverter",
+      type: "inverter",
+      label: "Inverter",
+      position: { x: 0.12, y: 0.5 },
+      scale: 0.3,
+      props: { mode: "pv", solarConnected: true, batteryConnected: true, loadPercentage: 60 },
+    },
+    { id: "switch", type: "switch", label: "Switch", position: { x: 0.4, y: 0.5 }, scale: 0.5 },
+    {
+      id: "bulb",
+      type: "bulb",
+      label: "Bulb",
+      position: { x: 0.65, y: 0.5 },
+      scale: 0.5,
+      props: { variant: "traditional" },
+    },
+    { id: "word", type: "word", label: "Output", position: { x: 0.88, y: 0.5 }, scale: 0.5, props: { word: "GREAN" } },
+  ],
+  edges: [
+    { id: "inverter-switch", from: "inverter", to: "switch", kind: "ac" },
+    { id: "switch-bulb", from: "switch", to: "bulb", kind: "ac" },
+    { id: "bulb-word", from: "bulb", to: "word", kind: "ac" },
+  ],
+}
+
+// A complete solar home system, as a starting point for customer-specific diagrams
+export const SOLAR_HOME_TOPOLOGY: SystemTopology = {
+  id: "solar-home",
+  name: "Solar home system",
+  description: "PV array and PowerVault battery feeding a hybrid inverter, with monitoring and a switched load",
+  nodes: [
+    {
+      id: "pv",
+      type: "solarPanel",
+      label: "PV array",
+      position: { x: 0.12, y: 0.3 },
+      scale: 0.35,
+      props: { ratedPower: 350, orientation: "south", tiltAngle: 30 },
+    },
+    {
+      id: "battery",
+      type: "battery",
+      label: "PowerVault 5kWh",
+      position: { x: 0.12, y: 0.78 },
+      scale: 0.5,
+      props: { type: "lithium", preset: "powerVault5kWh" },
+    },
+    {
+      id: "inverter",
+      type: "inverter",
+      label: "Hybrid inverter",
+      position: { x: 0.4, y: 0.5 },
+      scale: 0.3,
+      props: { mode: "pv", solarConnected: true, batteryConnected: true, ratedPower: 3000 },
+    },
+    { id: "monitor", type: "monitor", label: "Monitor", position: { x: 0.4, y: 0.88 }, scale: 0.5, props: { type: "hub" } },
+    { id: "switch", type: "switch", label: "Switch", position: { x: 0.62, y: 0.5 }, scale: 0.5 },
+    { id: "bulb", type: "bulb", label: "LED bulb", position: { x: 0.78, y: 0.35 }, scale: 0.5, props: { ratedWatts: 9 } },
+    { id: "word", type: "word", label: "Output", position: { x: 0.9, y: 0.6 }, scale: 0.5, props: { word: "GREAN" } },
+  ],
+  edges: [
+    { id: "pv-inverter", from: "pv", to: "inverter", kind: "dc" },
+    { id: "battery-inverter", from: "battery", to: "inverter", kind: "dc" },
+    { id: "inverter-monitor", from: "inverter", to: "monitor", kind: "data", corner: "vertical-first" },
+    { id: "inverter-switch", from: "inverter", to: "switch", kind: "ac" },
+    { id: "switch-bulb", from: "switch", to: "bulb", kind: "ac" },
+    { id: "bulb-word", from: "bulb", to: "word", kind: "ac", corner: "vertical-first" },
+  ],
+}
@@ -0,0 +1,68 @@
+// Scripted weather for stress-testing a solar home system against a bad week
+
+export type WeatherScenarioId = "clear_week" | "kiremt" | "dusty_haze" | "overcast_three_days"
+
+export interface WeatherDay {
+  // Share of clear-sky sunshine that gets through before and after noon, 0-1
+  morningClearness: number
+  afternoonClearness: number
+  // Night-time low and afternoon high, in °C
+  minTemperature: number
+  maxTemperature: number
+}
+
+export interface WeatherScenarioDefinition {
+  id: WeatherScenarioId
+  name: string
+  description: string
+  days: WeatherDay[]
+}
+
+const clearDay: WeatherDay = { morningClearness: 0.95, afternoonClearness: 0.9, minTemperature: 10, maxTemperature: 25 }
+
+// Highland conditions; a site survey replaces these with local records
+export const WEATHER_SCENARIOS: WeatherScenarioDefinition[] = [
+  {
+    id: "clear_week",
+    name: "Clear week",
+    description: "Bega dry season: cloudless days, cold nights. What the system does at its best.",
+    days: Array.from({ length: 7 }, () => clearDay),
+  },
+  {
+    id: "kiremt",
+    name: "Rainy season (kiremt)",
+    description: "June to September: a few bright morning hours, then cloud and heavy afternoon rain.",
+    days: [
+      { morningClearness: 0.6, afternoonClearness: 0.2, minTemperature: 11, maxTemperature: 19 },
+      { morningClearness: 0.5, afternoonClearness: 0.15, minTemperature: 11, maxTemperature: 18 },
+      { morningClearness: 0.45, afternoonClearness: 0.25, minTemperature: 12, maxTemperature: 19 },
+      { morningClearness: 0.3, afternoonClearness: 0.15, minTemperature: 12, maxTemperature: 17 },
+      { morningClearness: 0.55, afternoonClearness: 0.2, minTemperature: 11, maxTemperature: 19 },
+      { morningClearness: 0.4, afternoonClearness: 0.1, minTemperature: 11, maxTemperature: 17 },
+      { morningClearness: 0.6, afternoonClearness: 0.25, minTemperature: 12, maxTemperature: 19 },
+    ],
+  },
+  {
+    id: "dusty_haze",
+    name: "Dusty haze",
+    description: "Hot, dry and hazy: dust in the air and on the panels takes the edge off every day.",
+    days: Array.from({ length: 7 }, () => ({
+      morningClearness: 0.65,
+      afternoonClearness: 0.6,
+      minTemperature: 18,
+      maxTemperature: 33,
+    })),
+  },
+  {
+    id: "overcast_three_days",
+    name: "Three overcast days",
+    description: "A clear day, three days of thick cloud in a row, then the sun returns. The test of battery autonomy.",
+    days: [
+      clearDay,
+      { morningClearness: 0.15, afternoonClearness: 0.12, minTemperature: 12, maxTemperature: 17 },
+      { morningClearness: 0.1, afternoonClearness: 0.1, minTemperature: 12, maxTemperature: 16 },
+      { morningClearness: 0.18, afternoonClearness: 0.15, minTemperature: 12, maxTemperature: 17 },
+      clearDay,
+    ],
+  },
+]
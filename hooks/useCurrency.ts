@@ -0,0 +1,38 @@
+"use client"
+
+import { useCallback } from "react"
+import { CATALOG_CURRENCY } from "@/constants/currency"
+import { useCurrencyStore } from "@/store/currencyStore"
+import { useLocaleStore } from "@/store/localeStore"
+import { convertMoney, formatMoney, money } from "@/utils/money"
+import type { Money } from "@/types/money"
+
+/**
+ * The visitor's currency with helpers bound to it. Catalog prices are plain numbers
+ * in the catalog currency: `convert` and `formatPrice` take those to the visitor's
+ * currency, `toCatalog` brings an amount they typed back. `format` shows a `Money`
+ * as it is, in the current locale.
+ */
+export function useCurrency() {
+  const currency = useCurrencyStore((state) => state.currency)
+  const locale = useLocaleStore((state) => state.locale)
+
+  const convert = useCallback(
+    (amount: number) => convertMoney(money(amount, CATALOG_CURRENCY), currency).amount,
+    [currency],
+  )
+  const toCatalog = useCallback(
+    (amount: number) => convertMoney(money(amount, currency), CATALOG_CURRENCY).amount,
+    [currency],
+  )
+  const format = useCallback(
+    (value: Money, options?: Intl.NumberFormatOptions) => formatMoney(value, locale, options),
+    [locale],
+  )
+  const formatPrice = useCallback(
+    (amount: number, options?: Intl.NumberFormatOptions) => format(money(convert(amount), currency), options),
+    [convert, currency, format],
+  )
+
+  return { currency, convert, toCatalog, format, formatPrice }
+}
@@ -0,0 +1,19 @@
+"use client"
+
+import { useEffect } from "react"
+import { CURRENCY_PARAM } from "@/constants/currency"
+import { useCurrencyStore } from "@/store/currencyStore"
+import { isCurrencyCode } from "@/utils/money"
+
+/**
+ * Restores the visitor's currency after hydration and lets a `?currency=` link
+ * override it. Mount once, near the root.
+ */
+export function useCurrencySync() {
+  useEffect(() => {
+    useCurrencyStore.getState().hydrate()
+
+    const requested = new URLSearchParams(window.location.search).get(CURRENCY_PARAM)?.toUpperCase()
+    if (isCurrencyCode(requested)) useCurrencyStore.getState().setCurrency(requested)
+  }, [])
+}
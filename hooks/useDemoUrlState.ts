@@ -0,0 +1,54 @@
+"use client"
+
+import { useEffect } from "react"
+import { useEnergySystemStore } from "@/store/energySystemStore"
+import { useInverterSettingsStore } from "@/store/inverterSettingsStore"
+import { usePowerFlowStore } from "@/store/powerFlowStore"
+import { decodeDemoState, encodeDemoState } from "@/utils/demo-url-state"
+
+/**
+ * Keeps the demo's component flags and inverter settings in the page's query string.
+ * State in the URL on first render wins over the stores, so a shared link reopens the
+ * scenario it was made from; after that every change is written back with
+ * `history.replaceState`, which updates the link without adding history entries.
+ */
+export function useDemoUrlState() {
+  useEffect(() => {
+    const restored = decodeDemoState(new URLSearchParams(window.location.search))
+    if (restored) {
+      useEnergySystemStore.getState().restoreComponents(restored.components)
+      useInverterSettingsStore.getState().applySettings(restored.inverter)
+      if (restored.inverter.batteryLevel !== undefined) {
+        const { battery, setBattery } = usePowerFlowStore.getState()
+        setBattery(battery, restored.inverter.batteryLevel)
+      }
+    }
+
+    const writeUrl = () => {
+      const { inverterActive, switchActive, bulbActive, wordActive } = useEnergySystemStore.getState()
+      const { mode, batteryLevel, loadPercentage } = useInverterSettingsStore.getState()
+      const params = encodeDemoState(
+        {
+          components: { inverter: inverterActive, switch: switchActive, bulb: bulbActive, word: wordActive },
+          inverter: { mode, batteryLevel, loadPercentage },
+        },
+        new URLSearchParams(window.location.search),
+      )
+
+      const query = params.toString()
+      const url = `${window.location.pathname}${query ? `?${query}` : ""}${window.location.hash}`
+      if (url !== `${window.location.pathname}${window.location.search}${window.location.hash}`) {
+        window.history.replaceState(window.history.state, "", url)
+      }
+    }
+
+    writeUrl()
+    const unsubscribeSystem = useEnergySystemStore.subscribe(writeUrl)
+    const unsubscribeSettings = useInverterSettingsStore.subscribe(writeUrl)
+
+    return () => {
+      unsubscribeSystem()
+      unsubscribeSettings()
+    }
+  }, [])
+}
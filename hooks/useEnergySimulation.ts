@@ -7,18 +7,36 @@
  * in React components with automatic cleanup and timing effects.
  */
 
-import { useEffect, useCallback } from "react"
+import { useEffect, useCallback, useRef } from "react"
 import { useEnergySystemStore, EnergySystemController } from "../utils/energy-simulation"
+import type { SimulationClock } from "../utils/simulation"
 
 interface UseEnergySimulationOptions {
   autoCleanup?: boolean
   trackMetrics?: boolean
   metricsInterval?: number
   enableCascadingEffects?: boolean
+  // Seed and clock for the underlying simulation engine, for reproducible runs
+  seed?: number
+  clock?: SimulationClock
 }
 
 export function useEnergySimulation(options: UseEnergySimulationOptions = {}) {
-  const { autoCleanup = true, trackMetrics = true, metricsInterval = 1000, enableCascadingEffects = true } = options
+  const {
+    autoCleanup = true,
+    trackMetrics = true,
+    metricsInterval = 1000,
+    enableCascadingEffects = true,
+    seed,
+    clock,
+  } = options
+
+  // Create the controller once so its engine keeps a single seeded timeline
+  const controllerRef = useRef<EnergySystemController | null>(null)
+  if (!controllerRef.current) {
+    controllerRef.current = new EnergySystemController({ seed, clock })
+  }
+  const controller = controllerRef.current
 
   // Get state and actions from the store
   const {
@@ -30,6 +48,7 @@ export function useEnergySimulation(options: UseEnergySimulationOptions = {}) {
     animationPhase,
     energySaved,
     co2Reduced,
+    eventLog,
     setInverterActive,
     setSwitchActive,
     setBulbActive,
@@ -49,32 +68,19 @@ export function useEnergySimulation(options: UseEnergySimulationOptions = {}) {
   // Handle switch activation with cascading effects
   const handleSwitchChange = useCallback(
     (active: boolean) => {
-      setSwitchActive(active)
-
-      // Implement cascading effects if enabled
-      if (enableCascadingEffects) {
-        if (active && inverterActive) {
-          // Add a slight delay before turning on the bulb
-          setTimeout(() => {
-            setBulbActive(true)
-
-            // Add a slight delay before illuminating the word
-            setTimeout(() => {
-              setWordActive(true)
-            }, 300)
-          }, 200)
-        } else {
-          // When switch is deactivated, turn off bulb and word
-          setBulbActive(false)
-          setWordActive(false)
-        }
+      if (active && enableCascadingEffects) {
+        // Bulb and word light up on the engine's timeline
+        controller.activateSwitchWithCascade()
+      } else {
+        // Switching off is cascaded to the bulb and word by the store itself
+        setSwitchActive(active)
       }
     },
-    [inverterActive, setBulbActive, setSwitchActive, setWordActive, enableCascadingEffects],
+    [controller, setSwitchActive, enableCascadingEffects],
   )
 
-  // Create controller instance for more complex operations
-  const controller = new EnergySystemController()
+  // Drive the simulation engine while the component is mounted
+  useEffect(() => controller.start(), [controller])
 
   // Set up metrics tracking if enabled
   useEffect(() => {
@@ -105,6 +111,7 @@ export function useEnergySimulation(options: UseEnergySimulationOptions = {}) {
     animationPhase,
     energySaved,
     co2Reduced,
+    eventLog,
 
     // Handlers
     handleInverterChange,
@@ -0,0 +1,65 @@
+"use client"
+
+import { useEffect } from "react"
+import { useEnergySystemStore } from "@/store/energySystemStore"
+import { useInverterSettingsStore } from "@/store/inverterSettingsStore"
+import { decodeDemoState } from "@/utils/demo-url-state"
+import { LifetimeSnapshot, lifetimeStorage } from "@/utils/lifetime-storage"
+
+// The counters change every simulation tick, so writes are batched to one per interval
+const SAVE_INTERVAL_MS = 2000
+
+function takeSnapshot(): LifetimeSnapshot {
+  const { energySaved, co2Reduced, energyGenerated } = useEnergySystemStore.getState()
+  const { mode, screen } = useInverterSettingsStore.getState()
+  return { metrics: { energySaved, co2Reduced, energyGenerated }, inverterMode: mode, screen }
+}
+
+/**
+ * Restores lifetime counters, the last inverter mode and LCD settings from browser
+ * storage, then saves them when they change, at most once every SAVE_INTERVAL_MS and
+ * again as the page is hidden. Restoring happens after hydration so server and
+ * client render the same initial markup; a mounted inverter picks the restored mode
+ * up from the settings store. Mount once, near the root.
+ */
+export function useLifetimePersistence() {
+  useEffect(() => {
+    const snapshot = lifetimeStorage.load()
+    if (snapshot) {
+      useEnergySystemStore.getState().restoreMetrics(snapshot.metrics)
+      useInverterSettingsStore.getState().setScreenSettings(snapshot.screen)
+
+      // A mode carried by a shared link takes precedence over the remembered one
+      if (!decodeDemoState(new URLSearchParams(window.location.search))?.inverter.mode) {
+        useInverterSettingsStore.getState().setMode(snapshot.inverterMode)
+      }
+    }
+
+    let saved = JSON.stringify(takeSnapshot())
+    let pending: ReturnType<typeof setTimeout> | null = null
+
+    const flush = () => {
+      if (pending) clearTimeout(pending)
+      pending = null
+      const snapshot = takeSnapshot()
+      const serialized = JSON.stringify(snapshot)
+      if (serialized === saved) return
+      saved = serialized
+      lifetimeStorage.save(snapshot)
+    }
+    const scheduleSave = () => {
+      pending ??= setTimeout(flush, SAVE_INTERVAL_MS)
+    }
+
+    const unsubscribeSystem = useEnergySystemStore.subscribe(scheduleSave)
+    const unsubscribeSettings = useInverterSettingsStore.subscribe(scheduleSave)
+    window.addEventListener("pagehide", flush)
+
+    return () => {
+      unsubscribeSystem()
+      unsubscribeSettings()
+      window.removeEventListener("pagehide", flush)
+      flush()
+    }
+  }, [])
+}
@@ -0,0 +1,25 @@
+"use client"
+
+import { useEffect } from "react"
+import { useLocaleStore } from "@/store/localeStore"
+import { isLocale, LOCALE_PARAM } from "@/utils/i18n"
+
+/**
+ * Restores the visitor's language after hydration, lets a `?lang=` link override it,
+ * and keeps the document's `lang` attribute in step so screen readers and fonts
+ * follow the switch. Mount once, near the root.
+ */
+export function useLocaleSync() {
+  const locale = useLocaleStore((state) => state.locale)
+
+  useEffect(() => {
+    useLocaleStore.getState().hydrate()
+
+    const requested = new URLSearchParams(window.location.search).get(LOCALE_PARAM)
+    if (isLocale(requested)) useLocaleStore.getState().setLocale(requested)
+  }, [])
+
+  useEffect(() => {
+    document.documentElement.lang = locale
+  }, [locale])
+}
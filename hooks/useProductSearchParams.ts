@@ -0,0 +1,48 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import {
+  DEFAULT_PRODUCT_FILTERS,
+  ProductFilters,
+  decodeProductFilters,
+  encodeProductFilters,
+} from "@/utils/product-search"
+
+/**
+ * Product filters mirrored in the query string. Filters in the URL are read once on
+ * mount, so a bookmarked or shared search reopens as it was; every later change is
+ * written back with `history.replaceState`, and back/forward restores whatever the
+ * URL then holds.
+ */
+export function useProductSearchParams() {
+  const [filters, setFilters] = useState<ProductFilters>(DEFAULT_PRODUCT_FILTERS)
+  const [restored, setRestored] = useState(false)
+
+  useEffect(() => {
+    const readUrl = () => setFilters(decodeProductFilters(new URLSearchParams(window.location.search)))
+    readUrl()
+    setRestored(true)
+
+    window.addEventListener("popstate", readUrl)
+    return () => window.removeEventListener("popstate", readUrl)
+  }, [])
+
+  useEffect(() => {
+    // Writing before the URL has been read would wipe a shared search
+    if (!restored) return
+
+    const query = encodeProductFilters(filters, new URLSearchParams(window.location.search)).toString()
+    const url = `${window.location.pathname}${query ? `?${query}` : ""}${window.location.hash}`
+    if (url !== `${window.location.pathname}${window.location.search}${window.location.hash}`) {
+      window.history.replaceState(window.history.state, "", url)
+    }
+  }, [filters, restored])
+
+  const updateFilters = useCallback(
+    (changes: Partial<ProductFilters>) => setFilters((current) => ({ ...current, ...changes })),
+    [],
+  )
+  const resetFilters = useCallback(() => setFilters(DEFAULT_PRODUCT_FILTERS), [])
+
+  return { filters, updateFilters, resetFilters }
+}
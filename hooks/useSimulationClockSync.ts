@@ -0,0 +1,22 @@
+"use client"
+
+import { useEffect } from "react"
+import { useSimulationClockStore } from "@/store/simulationClockStore"
+
+// How often components see the simulated time move; at 1440x that's six simulated minutes
+const SYNC_INTERVAL_MS = 250
+
+/**
+ * Publishes the simulated clock's time of day to the store while it runs, so
+ * solar output, loads and the day/night look all follow the same clock. Mount
+ * once, near the root.
+ */
+export function useSimulationClockSync() {
+  const playing = useSimulationClockStore((state) => state.playing)
+
+  useEffect(() => {
+    if (!playing) return
+    const interval = setInterval(() => useSimulationClockStore.getState().sync(), SYNC_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [playing])
+}
@@ -0,0 +1,33 @@
+"use client"
+
+import { useCallback } from "react"
+import { useLocaleStore } from "@/store/localeStore"
+import {
+  formatDate,
+  formatNumber,
+  MessageKey,
+  MessageValues,
+  translate,
+  translateNodeText,
+} from "@/utils/i18n"
+
+/**
+ * The current locale with translators and formatters bound to it. `tNode` is the
+ * plain `(text) => string` translator the static nodes accept as their `t` prop.
+ */
+export function useTranslation() {
+  const locale = useLocaleStore((state) => state.locale)
+
+  const t = useCallback((key: MessageKey, values?: MessageValues) => translate(locale, key, values), [locale])
+  const tNode = useCallback((text: string) => translateNodeText(locale, text), [locale])
+  const number = useCallback(
+    (value: number, options?: Intl.NumberFormatOptions) => formatNumber(locale, value, options),
+    [locale],
+  )
+  const date = useCallback(
+    (value: Date | number, options?: Intl.DateTimeFormatOptions) => formatDate(locale, value, options),
+    [locale],
+  )
+
+  return { locale, t, tNode, formatNumber: number, formatDate: date }
+}
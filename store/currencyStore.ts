@@ -0,0 +1,38 @@
+"use client"
+
+import { create } from "zustand"
+import { DEFAULT_CURRENCY } from "@/constants/currency"
+import { createVersionedStorage } from "@/utils/persistence"
+import { isCurrencyCode } from "@/utils/money"
+import type { CurrencyCode } from "@/types/money"
+
+interface CurrencyState {
+  currency: CurrencyCode
+  // Whether the saved choice has been read back from browser storage
+  hydrated: boolean
+
+  setCurrency: (currency: CurrencyCode) => void
+  hydrate: () => void
+}
+
+const currencyStorage = createVersionedStorage<CurrencyCode>({
+  key: "grean-world:currency",
+  version: 1,
+  validate: (data) => (isCurrencyCode(data) ? data : null),
+})
+
+export const useCurrencyStore = create<CurrencyState>((set, get) => ({
+  currency: DEFAULT_CURRENCY,
+  hydrated: false,
+
+  setCurrency: (currency) => set({ currency }),
+
+  // Reads the saved currency once, then saves every change; later calls are no-ops
+  hydrate: () => {
+    if (get().hydrated) return
+    set({ currency: currencyStorage.load() ?? get().currency, hydrated: true })
+    useCurrencyStore.subscribe((state, previous) => {
+      if (state.currency !== previous.currency) currencyStorage.save(state.currency)
+    })
+  },
+}))
@@ -1,8 +1,33 @@
 "use client"
 
 import { create } from "zustand"
+import { SimulationClock, systemClock } from "@/utils/simulation/clock"
 
-interface EnergySystemState {
+// Components that take part in the inverter → switch → bulb → word chain
+export type SystemComponent = "inverter" | "switch" | "bulb" | "word"
+
+// Whether a transition was requested directly or followed from another one
+export type TransitionCause = "user" | "cascade"
+
+export type SystemEventPayload =
+  | { type: "component_changed"; component: SystemComponent; active: boolean; cause: TransitionCause }
+  | { type: "animation_phase_changed"; from: number; to: number }
+
+export type SystemEvent = SystemEventPayload & {
+  // Monotonic sequence number, starting at 1
+  seq: number
+  timestamp: number
+}
+
+// Running totals that survive page loads
+export interface LifetimeMetrics {
+  energySaved: number
+  co2Reduced: number
+  // kWh produced by simulated inverters
+  energyGenerated: number
+}
+
+export interface EnergySystemState extends LifetimeMetrics {
   // Component states
   inverterActive: boolean
   switchActive: boolean
@@ -10,23 +35,106 @@ interface EnergySystemState {
   wordActive: boolean
   prevBulbActive: boolean
 
-  // Animation and metrics
+  // Animation
   animationPhase: number
-  energySaved: number
-  co2Reduced: number
+
+  // The most recent transitions, oldest first, up to MAX_EVENT_LOG_LENGTH
+  eventLog: SystemEvent[]
 
   // State update functions
   setInverterActive: (active: boolean) => void
   setSwitchActive: (active: boolean) => void
-  setBulbActive: (active: boolean) => void
-  setWordActive: (active: boolean) => void
+  setBulbActive: (active: boolean, cause?: TransitionCause) => void
+  setWordActive: (active: boolean, cause?: TransitionCause) => void
   setAnimationPhase: (phase: number) => void
   incrementEnergySaved: () => void
   incrementCo2Reduced: () => void
+  addEnergyGenerated: (kWh: number) => void
+  restoreMetrics: (metrics: Partial<LifetimeMetrics>) => void
+  resetLifetimeCounters: () => void
 
   // Utility functions
   activateFullSystem: () => void
   deactivateFullSystem: () => void
+  toggleInverter: () => void
+  toggleSwitch: () => void
+  restoreComponents: (flags: ComponentFlags) => void
+}
+
+// Metric increments applied per tick while the system is running
+export const ENERGY_SAVED_PER_TICK = 0.05
+export const CO2_REDUCED_PER_TICK = 0.02
+
+// Older events are dropped past this many, so a long-running page doesn't grow without bound
+export const MAX_EVENT_LOG_LENGTH = 500
+
+// Clock used to timestamp events; a reproducible run swaps in a ManualClock
+let eventClock: SimulationClock = systemClock
+
+export function setEnergySystemClock(clock: SimulationClock) {
+  eventClock = clock
+}
+
+const COMPONENT_KEYS = {
+  inverter: "inverterActive",
+  switch: "switchActive",
+  bulb: "bulbActive",
+  word: "wordActive",
+} as const
+
+export type ComponentFlags = Partial<Record<SystemComponent, boolean>>
+
+interface TransitionRequest {
+  user?: ComponentFlags
+  cascade?: ComponentFlags
+  animationPhase?: number
+}
+
+/**
+ * Computes the state patch for a set of requested component changes and appends
+ * one event per value that actually changed. Requests that leave a component in
+ * its current state produce no event.
+ */
+function transition(state: EnergySystemState, request: TransitionRequest): Partial<EnergySystemState> {
+  const patch: Partial<EnergySystemState> = {}
+  const events: SystemEvent[] = []
+  // Sequence numbers keep counting after old events are dropped
+  let seq = state.eventLog[state.eventLog.length - 1]?.seq ?? 0
+  const timestamp = eventClock.now()
+
+  const record = (payload: SystemEventPayload) => {
+    seq += 1
+    events.push({ ...payload, seq, timestamp })
+  }
+
+  const apply = (flags: ComponentFlags | undefined, cause: TransitionCause) => {
+    if (!flags) return
+    for (const component of Object.keys(COMPONENT_KEYS) as SystemComponent[]) {
+      const active = flags[component]
+      const key = COMPONENT_KEYS[component]
+      if (active === undefined || state[key] === active) continue
+      patch[key] = active
+      record({ type: "component_changed", component, active, cause })
+    }
+  }
+
+  apply(request.user, "user")
+  apply(request.cascade, "cascade")
+
+  if (request.animationPhase !== undefined && request.animationPhase !== state.animationPhase) {
+    patch.animationPhase = request.animationPhase
+    record({ type: "animation_phase_changed", from: state.animationPhase, to: request.animationPhase })
+  }
+
+  if (patch.bulbActive !== undefined) {
+    patch.prevBulbActive = state.bulbActive
+  }
+
+  if (events.length > 0) {
+    patch.eventLog = [...state.eventLog, ...events].slice(-MAX_EVENT_LOG_LENGTH)
+  }
+
+  return patch
 }
 
 export const useEnergySystemStore = create<EnergySystemState>((set, get) => ({
@@ -39,77 +147,90 @@ export const useEnergySystemStore = create<EnergySystemState>((set, get) => ({
   animationPhase: 0,
   energySaved: 0,
   co2Reduced: 0,
+  energyGenerated: 0,
+  eventLog: [],
 
   // Core state update functions
   setInverterActive: (active) =>
     set((state) => {
+      // Turning the inverter off cuts power to everything downstream
       if (!active) {
-        return {
-          inverterActive: false,
-          switchActive: false,
-          bulbActive: false,
-          wordActive: false,
-          prevBulbActive: state.bulbActive,
+        return transition(state, {
+          user: { inverter: false },
+          cascade: { switch: false, bulb: false, word: false },
           animationPhase: 0,
-          energySaved: state.energySaved,
-          co2Reduced: state.co2Reduced,
-        }
-      }
-      return {
-        ...state,
-        inverterActive: active,
-        animationPhase: 1,
+        })
       }
+      return transition(state, { user: { inverter: true }, animationPhase: state.switchActive ? 2 : 1 })
     }),
 
   setSwitchActive: (active) =>
     set((state) => {
+      // Only allow switch changes while the inverter is on
       if (!state.inverterActive) return state
-      const prevBulbActive = state.bulbActive
-      return {
-        ...state,
-        switchActive: active,
-        bulbActive: active ? state.bulbActive : false,
-        wordActive: active ? state.wordActive : false,
-        prevBulbActive,
+
+      if (active) {
+        // Bulb and word follow the switch; the caller decides when they light up
+        return transition(state, { user: { switch: true }, animationPhase: 2 })
       }
+      return transition(state, {
+        user: { switch: false },
+        cascade: { bulb: false, word: false },
+        animationPhase: 1,
+      })
     }),
 
-  setBulbActive: (active) =>
-    set((state) => ({
-      ...state,
-      bulbActive: active,
-      prevBulbActive: state.bulbActive,
-    })),
+  setBulbActive: (active, cause = "user") => set((state) => transition(state, { [cause]: { bulb: active } })),
+
+  setWordActive: (active, cause = "user") => set((state) => transition(state, { [cause]: { word: active } })),
+
+  setAnimationPhase: (phase) => set((state) => transition(state, { animationPhase: phase })),
 
-  setWordActive: (active) => set((state) => ({ ...state, wordActive: active })),
+  incrementEnergySaved: () => set((state) => ({ energySaved: state.energySaved + ENERGY_SAVED_PER_TICK })),
 
-  setAnimationPhase: (phase) => set((state) => ({ ...state, animationPhase: phase })),
+  incrementCo2Reduced: () => set((state) => ({ co2Reduced: state.co2Reduced + CO2_REDUCED_PER_TICK })),
 
-  incrementEnergySaved: () =>
-    set((state) => ({ ...state, energySaved: state.energySaved + 0.05 })),
+  addEnergyGenerated: (kWh) => set((state) => ({ energyGenerated: state.energyGenerated + kWh })),
 
-  incrementCo2Reduced: () =>
-    set((state) => ({ ...state, co2Reduced: state.co2Reduced + 0.02 })),
+  restoreMetrics: (metrics) => set(metrics),
+
+  resetLifetimeCounters: () => set({ energySaved: 0, co2Reduced: 0, energyGenerated: 0 }),
 
   // Utility functions
   activateFullSystem: () =>
-    set((state) => ({
-      ...state,
-      inverterActive: true,
-      switchActive: true,
-      bulbActive: true,
-      wordActive: true,
-      animationPhase: 1,
-    })),
-
-  deactivateFullSystem: () =>
-    set((state) => ({
-      ...state,
-      inverterActive: false,
-      switchActive: false,
-      bulbActive: false,
-      wordActive: false,
-      animationPhase: 0,
-    })),
+    set((state) =>
+      transition(state, {
+        user: { inverter: true },
+        cascade: { switch: true, bulb: true, word: true },
+        animationPhase: 2,
+      }),
+    ),
+
+  deactivateFullSystem: () => get().setInverterActive(false),
+
+  toggleInverter: () => {
+    const { inverterActive, setInverterActive } = get()
+    setInverterActive(!inverterActive)
+  },
+
+  toggleSwitch: () => {
+    const { switchActive, setSwitchActive } = get()
+    setSwitchActive(!switchActive)
+  },
+
+  restoreComponents: (flags) =>
+    set((state) => {
+      // Drop anything the chain couldn't power: no switch without the inverter, no bulb or word without the switch
+      const inverter = flags.inverter ?? state.inverterActive
+      const switchOn = inverter && (flags.switch ?? state.switchActive)
+      return transition(state, {
+        user: {
+          inverter,
+          switch: switchOn,
+          bulb: switchOn && (flags.bulb ?? state.bulbActive),
+          word: switchOn && (flags.word ?? state.wordActive),
+        },
+        animationPhase: switchOn ? 2 : inverter ? 1 : 0,
+      })
+    }),
 }))
@@ -0,0 +1,69 @@
+"use client"
+
+import { create } from "zustand"
+import {
+  DEFAULT_RANDOM_GRID,
+  GridEvent,
+  GridScheduleEntry,
+  GridScheduleIssue,
+  RandomGridSettings,
+  buildGridEvents,
+  parseGridSchedule,
+} from "@/utils/simulation/grid"
+import { randomSeed } from "@/utils/simulation/random"
+
+/**
+ * The utility supply every grid-tied inverter on the site sees: an imported
+ * load-shedding calendar plus, when switched on, unplanned events drawn at random.
+ * With neither, the grid never fails.
+ */
+interface GridState {
+  // The outage calendar as written, what it parsed to, and the file it was imported from
+  scheduleText: string
+  schedule: GridScheduleEntry[]
+  scheduleName: string | null
+  randomEnabled: boolean
+  random: RandomGridSettings
+  seed: number
+  // The week's events, rebuilt whenever any of the above change
+  events: GridEvent[]
+
+  // Takes the calendar if every line parses; otherwise keeps the current one and returns what's wrong
+  importSchedule: (text: string, name: string | null) => GridScheduleIssue[]
+  setRandomEnabled: (enabled: boolean) => void
+  setRandomSettings: (settings: Partial<RandomGridSettings>) => void
+  // Draws a different week of unplanned events at the same rates
+  reseed: () => void
+}
+
+type GridInputs = Pick<GridState, "schedule" | "randomEnabled" | "random" | "seed">
+
+const eventsFor = ({ schedule, randomEnabled, random, seed }: GridInputs) =>
+  buildGridEvents(schedule, randomEnabled ? random : null, seed)
+
+const INITIAL_GRID: GridInputs = { schedule: [], randomEnabled: false, random: DEFAULT_RANDOM_GRID, seed: 1 }
+
+export const useGridStore = create<GridState>((set) => {
+  // Applies a change to the inputs and rebuilds the events from them
+  const update = (changes: (state: GridState) => Partial<GridState>) =>
+    set((state) => {
+      const next = { ...state, ...changes(state) }
+      return { ...next, events: eventsFor(next) }
+    })
+
+  return {
+    ...INITIAL_GRID,
+    scheduleText: "",
+    scheduleName: null,
+    events: eventsFor(INITIAL_GRID),
+
+    importSchedule: (text, scheduleName) => {
+      const { schedule, issues } = parseGridSchedule(text)
+      if (schedule) update(() => ({ scheduleText: text, schedule, scheduleName }))
+      return issues
+    },
+    setRandomEnabled: (randomEnabled) => update(() => ({ randomEnabled })),
+    setRandomSettings: (settings) => update((state) => ({ random: { ...state.random, ...settings } })),
+    reseed: () => update(() => ({ seed: randomSeed() })),
+  }
+})
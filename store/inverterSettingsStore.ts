@@ -0,0 +1,74 @@
+"use client"
+
+import { create } from "zustand"
+import type { InverterMode } from "@/components/static-nodes/inverter/types"
+import { DEFAULT_SOURCE_PRIORITY, SourcePrioritySettings } from "@/utils/simulation/source-priority"
+
+// Operating settings of the demo inverter that a scenario can be shared with
+export interface InverterSettings {
+  mode: InverterMode
+  // Battery state of charge, 0-100
+  batteryLevel: number
+  // Share of the rated output being drawn, 0-100
+  loadPercentage: number
+}
+
+// How the inverter's LCD is shown; remembered between visits
+export interface InverterScreenSettings {
+  displayOption: number
+  // Brightness the screen settles at once booted, 0-1
+  screenBrightness: number
+}
+
+interface InverterSettingsState extends InverterSettings {
+  screen: InverterScreenSettings
+  // Which sources the simulated inverter prefers, as set on the unit
+  sourcePriority: SourcePrioritySettings
+  setMode: (mode: InverterMode) => void
+  setBatteryLevel: (level: number) => void
+  setLoadPercentage: (percentage: number) => void
+  applySettings: (settings: Partial<InverterSettings>) => void
+  setScreenSettings: (screen: Partial<InverterScreenSettings>) => void
+  setSourcePriority: (priority: Partial<SourcePrioritySettings>) => void
+}
+
+export const DEFAULT_INVERTER_SETTINGS: InverterSettings = {
+  mode: "normal",
+  batteryLevel: 80,
+  loadPercentage: 0,
+}
+
+export const DEFAULT_SCREEN_SETTINGS: InverterScreenSettings = {
+  displayOption: 0,
+  screenBrightness: 1,
+}
+
+const clampPercent = (value: number) => Math.min(100, Math.max(0, value))
+
+export const useInverterSettingsStore = create<InverterSettingsState>((set) => ({
+  ...DEFAULT_INVERTER_SETTINGS,
+  screen: DEFAULT_SCREEN_SETTINGS,
+  sourcePriority: DEFAULT_SOURCE_PRIORITY,
+
+  setMode: (mode) => set({ mode }),
+  setBatteryLevel: (level) => set({ batteryLevel: clampPercent(level) }),
+  setLoadPercentage: (percentage) => set({ loadPercentage: clampPercent(percentage) }),
+
+  applySettings: (settings) =>
+    set((state) => ({
+      mode: settings.mode ?? state.mode,
+      batteryLevel: clampPercent(settings.batteryLevel ?? state.batteryLevel),
+      loadPercentage: clampPercent(settings.loadPercentage ?? state.loadPercentage),
+    })),
+
+  setScreenSettings: (screen) =>
+    set((state) => ({
+      screen: {
+        displayOption: screen.displayOption ?? state.screen.displayOption,
+        screenBrightness: Math.min(1, Math.max(0, screen.screenBrightness ?? state.screen.screenBrightness)),
+      },
+    })),
+
+  setSourcePriority: (priority) =>
+    set((state) => ({ sourcePriority: { ...state.sourcePriority, ...priority } })),
+}))
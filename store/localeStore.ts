@@ -0,0 +1,36 @@
+"use client"
+
+import { create } from "zustand"
+import { createVersionedStorage } from "@/utils/persistence"
+import { DEFAULT_LOCALE, isLocale, Locale } from "@/utils/i18n"
+
+interface LocaleState {
+  locale: Locale
+  // Whether the saved choice has been read back from browser storage
+  hydrated: boolean
+
+  setLocale: (locale: Locale) => void
+  hydrate: () => void
+}
+
+const localeStorage = createVersionedStorage<Locale>({
+  key: "grean-world:locale",
+  version: 1,
+  validate: (data) => (isLocale(data) ? data : null),
+})
+
+export const useLocaleStore = create<LocaleState>((set, get) => ({
+  locale: DEFAULT_LOCALE,
+  hydrated: false,
+
+  setLocale: (locale) => set({ locale }),
+
+  // Reads the saved language once, then saves every change; later calls are no-ops
+  hydrate: () => {
+    if (get().hydrated) return
+    set({ locale: localeStorage.load() ?? get().locale, hydrated: true })
+    useLocaleStore.subscribe((state, previous) => {
+      if (state.locale !== previous.locale) localeStorage.save(state.locale)
+    })
+  },
+}))
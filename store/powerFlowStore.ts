@@ -0,0 +1,187 @@
+"use client"
+
+import { create } from "zustand"
+import { BATTERY_PRESETS, BatterySpec, PowerFlowResult, solvePowerFlow } from "@/utils/simulation/power-flow"
+import { BatteryHealth, ageBattery, batteryHealthAt, deratedBatterySpec } from "@/utils/simulation/battery"
+
+export interface PowerFlowConnections {
+  solarConnected: boolean
+  batteryConnected: boolean
+  gridConnected: boolean
+  inverterEnabled?: boolean
+  allowBatteryDischarge?: boolean
+  gridChargeWatts?: number
+}
+
+// Energy that has passed through each part of the system, in watt-hours
+export interface EnergyTotals {
+  pvWh: number
+  loadWh: number
+  gridImportWh: number
+  batteryChargedWh: number
+  batteryDischargedWh: number
+  inverterLossWh: number
+  curtailedWh: number
+}
+
+interface PowerFlowState {
+  // Live DC watts from each registered PV source, keyed by node id
+  sources: Record<string, number>
+  // Live AC watts drawn by each registered load, keyed by node id
+  loads: Record<string, number>
+  battery: BatterySpec
+  batterySoc: number
+  batteryHealth: BatteryHealth
+  // Temperature of the room the battery sits in, in °C
+  batteryTemperature: number
+  inverterEfficiency: number
+  inverterRatedWatts: number
+  // The one inverter allowed to advance the shared battery and totals, so a second mounted
+  // inverter can't drain the battery twice as fast
+  drivingInverterId: string | null
+
+  // Result of the most recent step, and running totals
+  flow: PowerFlowResult
+  totals: EnergyTotals
+
+  setSource: (id: string, watts: number) => void
+  removeSource: (id: string) => void
+  setLoad: (id: string, watts: number) => void
+  removeLoad: (id: string) => void
+  // Installs a battery, optionally one that has already been through some cycles
+  setBattery: (battery: BatterySpec, soc?: number, cycles?: number) => void
+  setBatteryTemperature: (temperature: number) => void
+  setInverter: (efficiency: number, ratedWatts: number) => void
+  // Takes the shared model for an inverter if no other holds it; true when that inverter holds it
+  claimInverter: (inverterId: string) => boolean
+  releaseInverter: (inverterId: string) => void
+  // Only the driving inverter integrates a step; any other gets the latest flow back unchanged.
+  // Steps are held back from subscribers until commit(), so a burst of ticks notifies them once.
+  advance: (
+    inverterId: string,
+    dtMs: number,
+    connections: PowerFlowConnections,
+    extraLoadWatts?: number,
+  ) => PowerFlowResult
+  // Publishes the steps advanced since the last commit
+  commit: () => void
+}
+
+const MS_PER_HOUR = 3_600_000
+
+const sum = (values: Record<string, number>) => Object.values(values).reduce((total, w) => total + w, 0)
+
+const withoutKey = (values: Record<string, number>, id: string) => {
+  const { [id]: _removed, ...rest } = values
+  return rest
+}
+
+const EMPTY_TOTALS: EnergyTotals = {
+  pvWh: 0,
+  loadWh: 0,
+  gridImportWh: 0,
+  batteryChargedWh: 0,
+  batteryDischargedWh: 0,
+  inverterLossWh: 0,
+  curtailedWh: 0,
+}
+
+// Steps integrated by advance() but not yet published
+let uncommitted: Pick<PowerFlowState, "flow" | "batterySoc" | "batteryHealth" | "totals"> | null = null
+
+const INITIAL_SOC = 80
+const ROOM_TEMPERATURE = 25
+
+export const usePowerFlowStore = create<PowerFlowState>((set, get) => ({
+  sources: {},
+  loads: {},
+  battery: BATTERY_PRESETS.powerVault5kWh,
+  batterySoc: INITIAL_SOC,
+  batteryHealth: batteryHealthAt(BATTERY_PRESETS.powerVault5kWh.chemistry),
+  batteryTemperature: ROOM_TEMPERATURE,
+  inverterEfficiency: 97,
+  inverterRatedWatts: 3000,
+  drivingInverterId: null,
+  flow: {
+    pvWatts: 0,
+    curtailedWatts: 0,
+    batteryWatts: 0,
+    gridImportWatts: 0,
+    inverterOutputWatts: 0,
+    inverterLossWatts: 0,
+    loadWatts: 0,
+    unservedWatts: 0,
+    batterySoc: INITIAL_SOC,
+  },
+  totals: EMPTY_TOTALS,
+
+  setSource: (id, watts) => set((state) => ({ sources: { ...state.sources, [id]: watts } })),
+
+  removeSource: (id) => set((state) => ({ sources: withoutKey(state.sources, id) })),
+
+  setLoad: (id, watts) => set((state) => ({ loads: { ...state.loads, [id]: watts } })),
+
+  removeLoad: (id) => set((state) => ({ loads: withoutKey(state.loads, id) })),
+
+  setBattery: (battery, soc, cycles) =>
+    set((state) => ({
+      battery,
+      batterySoc: soc ?? state.batterySoc,
+      batteryHealth: batteryHealthAt(battery.chemistry, cycles),
+    })),
+
+  setBatteryTemperature: (batteryTemperature) => set({ batteryTemperature }),
+
+  setInverter: (inverterEfficiency, inverterRatedWatts) => set({ inverterEfficiency, inverterRatedWatts }),
+
+  claimInverter: (inverterId) => {
+    const { drivingInverterId } = get()
+    if (drivingInverterId === null) set({ drivingInverterId: inverterId })
+    return (drivingInverterId ?? inverterId) === inverterId
+  },
+
+  releaseInverter: (inverterId) =>
+    set((state) => (state.drivingInverterId === inverterId ? { drivingInverterId: null } : {})),
+
+  // Solve one step of the flow and integrate it into the battery, its wear and the totals
+  advance: (inverterId, dtMs, connections, extraLoadWatts = 0) => {
+    const state = get()
+    if (!state.claimInverter(inverterId)) return state.flow
+    const { batterySoc, batteryHealth, totals } = uncommitted ?? state
+    const flow = solvePowerFlow(
+      {
+        pvWatts: sum(state.sources),
+        loadWatts: sum(state.loads) + extraLoadWatts,
+        inverterEfficiency: state.inverterEfficiency,
+        inverterRatedWatts: state.inverterRatedWatts,
+        battery: deratedBatterySpec(state.battery, batteryHealth, state.batteryTemperature, batterySoc),
+        batterySoc,
+        ...connections,
+      },
+      dtMs,
+    )
+
+    const hours = dtMs / MS_PER_HOUR
+    uncommitted = {
+      flow,
+      batterySoc: flow.batterySoc,
+      batteryHealth: ageBattery(batteryHealth, state.battery, flow.batteryWatts, state.batteryTemperature, dtMs),
+      totals: {
+        pvWh: totals.pvWh + flow.pvWatts * hours,
+        loadWh: totals.loadWh + flow.loadWatts * hours,
+        gridImportWh: totals.gridImportWh + flow.gridImportWatts * hours,
+        batteryChargedWh: totals.batteryChargedWh + Math.max(0, flow.batteryWatts) * hours,
+        batteryDischargedWh: totals.batteryDischargedWh + Math.max(0, -flow.batteryWatts) * hours,
+        inverterLossWh: totals.inverterLossWh + flow.inverterLossWatts * hours,
+        curtailedWh: totals.curtailedWh + flow.curtailedWatts * hours,
+      },
+    }
+    return flow
+  },
+
+  commit: () => {
+    if (!uncommitted) return
+    set(uncommitted)
+    uncommitted = null
+  },
+}))
@@ -0,0 +1,71 @@
+"use client"
+
+import { create } from "zustand"
+import { createVersionedStorage } from "@/utils/persistence"
+import { MAX_QUOTE_ITEMS, MAX_QUOTE_QUANTITY, QuoteCartItem } from "@/utils/quote"
+
+interface QuoteCartState {
+  items: QuoteCartItem[]
+  // Whether the saved cart has been read back from browser storage
+  hydrated: boolean
+
+  addItem: (productId: string, quantity?: number) => void
+  setQuantity: (productId: string, quantity: number) => void
+  removeItem: (productId: string) => void
+  clear: () => void
+  hydrate: () => void
+}
+
+const quoteCartStorage = createVersionedStorage<QuoteCartItem[]>({
+  key: "grean-world:quote-cart",
+  version: 1,
+  validate: (data) =>
+    Array.isArray(data)
+      ? data.filter(
+          (item): item is QuoteCartItem => typeof item?.productId === "string" && Number.isInteger(item?.quantity),
+        )
+      : null,
+})
+
+const clampQuantity = (quantity: number) => Math.min(MAX_QUOTE_QUANTITY, Math.max(1, Math.round(quantity)))
+
+export const useQuoteCartStore = create<QuoteCartState>((set, get) => ({
+  items: [],
+  hydrated: false,
+
+  addItem: (productId, quantity = 1) =>
+    set((state) => {
+      const existing = state.items.find((item) => item.productId === productId)
+      if (existing) {
+        return {
+          items: state.items.map((item) =>
+            item.productId === productId ? { ...item, quantity: clampQuantity(item.quantity + quantity) } : item,
+          ),
+        }
+      }
+      // A full quote takes no new products; the server would refuse it
+      if (state.items.length >= MAX_QUOTE_ITEMS) return state
+      return { items: [...state.items, { productId, quantity: clampQuantity(quantity) }] }
+    }),
+
+  setQuantity: (productId, quantity) =>
+    set((state) => ({
+      items: state.items.map((item) =>
+        item.productId === productId ? { ...item, quantity: clampQuantity(quantity) } : item,
+      ),
+    })),
+
+  removeItem: (productId) => set((state) => ({ items: state.items.filter((item) => item.productId !== productId) })),
+
+  clear: () => set({ items: [] }),
+
+  // Reads the saved cart once, then saves every change; later calls are no-ops
+  hydrate: () => {
+    if (get().hydrated) return
+    const saved = quoteCartStorage.load()
+    set({ items: saved ?? get().items, hydrated: true })
+    useQuoteCartStore.subscribe((state, previous) => {
+      if (state.items !== previous.items) quoteCartStorage.save(state.items)
+    })
+  },
+}))
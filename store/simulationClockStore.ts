@@ -0,0 +1,82 @@
+"use client"
+
+import { create } from "zustand"
+import { MS_PER_DAY, MS_PER_HOUR, ScaledClock, hourOfDay } from "@/utils/simulation/clock"
+import { timeSeriesRecorder } from "@/store/timeSeriesStore"
+
+// Simulated seconds per real second: real time, an hour a minute, a day a minute
+export const CLOCK_SPEEDS = [1, 60, 1440] as const
+export type ClockSpeed = (typeof CLOCK_SPEEDS)[number]
+
+/**
+ * The one simulated clock the whole energy system runs on. Simulation engines
+ * read it directly; components read the time of day from the store below.
+ */
+export const simulationClock = new ScaledClock()
+
+interface SimulationClockState {
+  playing: boolean
+  speed: ClockSpeed
+  // Simulated milliseconds between midnight of day 1 and the clock's zero
+  offsetMs: number
+  // Hour of the day (0-24) and day number (from 1), as of the last sync
+  timeOfDay: number
+  day: number
+
+  play: () => void
+  pause: () => void
+  togglePlaying: () => void
+  setSpeed: (speed: ClockSpeed) => void
+  // Jumps to an hour of the current day without moving the clock itself, starting a fresh recording
+  setTimeOfDay: (hour: number) => void
+  // Re-reads the clock; called on a timer while the clock runs
+  sync: () => void
+}
+
+const START_HOUR = 12
+
+const readTime = (offsetMs: number) => {
+  const elapsed = offsetMs + simulationClock.now()
+  return { timeOfDay: hourOfDay(elapsed), day: Math.floor(elapsed / MS_PER_DAY) + 1 }
+}
+
+export const useSimulationClockStore = create<SimulationClockState>((set, get) => ({
+  playing: simulationClock.playing,
+  speed: 1,
+  offsetMs: START_HOUR * MS_PER_HOUR,
+  timeOfDay: START_HOUR,
+  day: 1,
+
+  play: () => {
+    simulationClock.play()
+    set({ playing: true })
+  },
+
+  pause: () => {
+    simulationClock.pause()
+    set({ playing: false, ...readTime(get().offsetMs) })
+  },
+
+  togglePlaying: () => (get().playing ? get().pause() : get().play()),
+
+  setSpeed: (speed) => {
+    simulationClock.setSpeed(speed)
+    set({ speed })
+  },
+
+  setTimeOfDay: (hour) => {
+    const target = (get().day - 1) * MS_PER_DAY + hour * MS_PER_HOUR
+    const nextOffset = target - simulationClock.now()
+    // History recorded before the jump no longer lines up with the new time
+    timeSeriesRecorder.clear()
+    set({ offsetMs: nextOffset, ...readTime(nextOffset) })
+  },
+
+  sync: () => set(readTime(get().offsetMs)),
+}))
+
+// Simulated ms since midnight of day 1 (a Monday) at a given clock time, e.g. a simulation tick's
+export const simulatedTimeAt = (clockMs: number) => useSimulationClockStore.getState().offsetMs + clockMs
+
+// Hour of the day at a given clock time
+export const timeOfDayAt = (clockMs: number) => hourOfDay(simulatedTimeAt(clockMs))
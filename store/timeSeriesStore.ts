@@ -0,0 +1,10 @@
+"use client"
+
+import { TimeSeriesRecorder } from "@/utils/simulation/recorder"
+
+/**
+ * History of the running simulation, recorded by the inverter on every tick and
+ * plotted by monitors. A plain instance rather than store state, so monitors poll
+ * it at their own pace instead of re-rendering on every tick.
+ */
+export const timeSeriesRecorder = new TimeSeriesRecorder()
@@ -0,0 +1,31 @@
+"use client"
+
+import { create } from "zustand"
+import type { WeatherScenarioId } from "@/constants/weather"
+import { WeatherHour, buildWeatherSeries, getWeatherScenario } from "@/utils/simulation/weather"
+
+/**
+ * The weather every solar panel on the site sees: a scripted scenario played hour
+ * by hour on the simulated clock. The seed fixes its hour-to-hour scatter, so the
+ * same scenario always plays out the same way.
+ */
+interface WeatherState {
+  scenarioId: WeatherScenarioId
+  seed: number
+  // The scenario's hours, rebuilt whenever the scenario changes
+  hours: WeatherHour[]
+
+  setScenario: (scenarioId: WeatherScenarioId) => void
+}
+
+const INITIAL_SCENARIO: WeatherScenarioId = "clear_week"
+const WEATHER_SEED = 1
+
+export const useWeatherStore = create<WeatherState>((set) => ({
+  scenarioId: INITIAL_SCENARIO,
+  seed: WEATHER_SEED,
+  hours: buildWeatherSeries(getWeatherScenario(INITIAL_SCENARIO), WEATHER_SEED),
+
+  setScenario: (scenarioId) =>
+    set((state) => ({ scenarioId, hours: buildWeatherSeries(getWeatherScenario(scenarioId), state.seed) })),
+}))
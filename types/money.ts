@@ -0,0 +1,7 @@
+export type CurrencyCode = "ETB" | "USD" | "EUR"
+
+// An amount together with the currency it's in
+export interface Money {
+  amount: number
+  currency: CurrencyCode
+}
@@ -0,0 +1,44 @@
+import type { Metric, Specification } from "./index"
+
+export interface ProductCategory {
+  id: string
+  name: string
+}
+
+// Which static node previews a product, and how it's configured
+export type ProductPreview =
+  | { component: "solar-panel"; scale: number; ratedPower?: number }
+  | { component: "battery"; scale: number; type: "lithium" | "flow" | "standard" }
+  | { component: "inverter"; scale: number }
+  | { component: "accessory"; scale: number; type: "mounting" | "cable" | "connector" | "protector" }
+  // Cooking and fuel products are drawn with simple icons rather than a static node
+  | { component: "appliance"; scale: number; type: "stove" | "ethanol" | "fuel" }
+
+// The electrical rating the sizing calculator matches against a requirement
+export type ProductSizing =
+  | { role: "pv"; watts: number }
+  | { role: "battery"; kWh: number }
+  | { role: "inverter"; kVA: number }
+
+export interface Product {
+  id: string
+  name: string
+  // Must match the id of an entry in the category list
+  category: string
+  // Prices in the catalog currency, CATALOG_CURRENCY
+  price: number
+  oldPrice?: number
+  rating: number
+  preview: ProductPreview
+  tags: string[]
+  description: string
+  specifications?: Specification[]
+  metrics?: Metric[]
+  // Only set on components a designed system is built from, not on complete kits
+  sizing?: ProductSizing
+}
+
+export interface ProductCatalog {
+  categories: ProductCategory[]
+  products: Product[]
+}
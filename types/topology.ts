@@ -0,0 +1,114 @@
+import type { BATTERY_PRESETS } from "@/utils/simulation/power-flow"
+import type { InverterMode } from "@/components/static-nodes/inverter/types"
+import type { PanelOrientation } from "@/utils/simulation/solar"
+import type { InverterFaultId } from "@/utils/simulation/inverter-faults"
+import type { HouseholdLoad } from "@/constants/appliances"
+
+export type TopologyNodeType =
+  | "inverter"
+  | "solarPanel"
+  | "battery"
+  | "monitor"
+  | "switch"
+  | "bulb"
+  | "word"
+  | "accessory"
+
+// Position as a fraction (0-1) of the diagram's width and height, plus an optional fixed pixel offset
+export interface TopologyPosition {
+  x: number
+  y: number
+  offsetX?: number
+  offsetY?: number
+}
+
+export interface InverterTopologyProps {
+  ratedPower?: number
+  efficiency?: number
+  mode?: InverterMode
+  gridConnected?: boolean
+  solarConnected?: boolean
+  batteryConnected?: boolean
+  loadPercentage?: number
+  seed?: number
+  // Faults staged on purpose, for training on the LCD error pages
+  simulatedFaults?: InverterFaultId[]
+  // The household the inverter supplies, appliance by appliance
+  appliances?: HouseholdLoad[]
+}
+
+export interface SolarPanelTopologyProps {
+  ratedPower?: number
+  efficiency?: number
+  sunIntensity?: number
+  tiltAngle?: number
+  orientation?: PanelOrientation
+}
+
+export interface BatteryTopologyProps {
+  type?: "lithium" | "flow" | "standard"
+  preset?: keyof typeof BATTERY_PRESETS
+  // Equivalent full cycles the battery has already been through, to show an aged bank
+  cycles?: number
+}
+
+export interface MonitorTopologyProps {
+  type?: "hub" | "meter" | "standard"
+}
+
+export type SwitchTopologyProps = Record<string, never>
+
+export interface BulbTopologyProps {
+  variant?: "led" | "traditional"
+  ratedWatts?: number
+}
+
+export interface WordTopologyProps {
+  word?: string
+  words?: string[]
+  color?: string
+}
+
+export interface AccessoryTopologyProps {
+  type?: "mounting" | "cable" | "connector" | "protector"
+  showDetails?: boolean
+}
+
+interface TopologyNodeBase<T extends TopologyNodeType, P> {
+  id: string
+  type: T
+  label?: string
+  position: TopologyPosition
+  scale?: number
+  props?: P
+}
+
+export type TopologyNode =
+  | TopologyNodeBase<"inverter", InverterTopologyProps>
+  | TopologyNodeBase<"solarPanel", SolarPanelTopologyProps>
+  | TopologyNodeBase<"battery", BatteryTopologyProps>
+  | TopologyNodeBase<"monitor", MonitorTopologyProps>
+  | TopologyNodeBase<"switch", SwitchTopologyProps>
+  | TopologyNodeBase<"bulb", BulbTopologyProps>
+  | TopologyNodeBase<"word", WordTopologyProps>
+  | TopologyNodeBase<"accessory", AccessoryTopologyProps>
+
+// What travels along an edge: DC power, AC power, or monitoring data
+export type TopologyEdgeKind = "dc" | "ac" | "data"
+
+export interface TopologyEdge {
+  id: string
+  from: string
+  to: string
+  kind: TopologyEdgeKind
+  corner?: "auto" | "horizontal-first" | "vertical-first"
+}
+
+export interface SystemTopology {
+  id: string
+  name: string
+  description?: string
+  nodes: TopologyNode[]
+  edges: TopologyEdge[]
+}
+
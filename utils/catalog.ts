@@ -0,0 +1,101 @@
+import { PRODUCT_CATEGORIES, PRODUCTS } from "@/constants/products"
+import type { Product, ProductCatalog, ProductSizing } from "@/types/product"
+
+export interface CatalogIssue {
+  productId?: string
+  message: string
+}
+
+/**
+ * Checks that ids are unique, every product belongs to a known category and
+ * prices, ratings and sizing ratings are in range. Returns every problem found, not just the first.
+ */
+export function validateCatalog({ categories, products }: ProductCatalog): CatalogIssue[] {
+  const issues: CatalogIssue[] = []
+  const categoryIds = new Set<string>()
+  const productIds = new Set<string>()
+
+  for (const category of categories) {
+    if (categoryIds.has(category.id)) issues.push({ message: `Duplicate category id "${category.id}"` })
+    categoryIds.add(category.id)
+  }
+
+  for (const product of products) {
+    if (productIds.has(product.id)) {
+      issues.push({ productId: product.id, message: `Duplicate product id "${product.id}"` })
+    }
+    productIds.add(product.id)
+
+    if (!categoryIds.has(product.category)) {
+      issues.push({ productId: product.id, message: `Unknown category "${product.category}"` })
+    }
+    if (!(product.price > 0)) {
+      issues.push({ productId: product.id, message: "Price must be greater than zero" })
+    }
+    if (product.oldPrice !== undefined && product.oldPrice <= product.price) {
+      issues.push({ productId: product.id, message: "Old price must be higher than the current price" })
+    }
+    if (product.rating < 0 || product.rating > 5) {
+      issues.push({ productId: product.id, message: "Rating must be between 0 and 5" })
+    }
+    if (product.sizing && !(sizingValue(product.sizing) > 0)) {
+      issues.push({ productId: product.id, message: "Sizing rating must be greater than zero" })
+    }
+  }
+
+  return issues
+}
+
+// A component's rating in the unit its role is sized in: Wp, kWh or kVA
+export function sizingValue(sizing: ProductSizing) {
+  switch (sizing.role) {
+    case "pv":
+      return sizing.watts
+    case "battery":
+      return sizing.kWh
+    case "inverter":
+      return sizing.kVA
+  }
+}
+
+let catalog: ProductCatalog | null = null
+
+/**
+ * Returns the validated catalog. An invalid catalog throws, so a bad edit to the
+ * product data fails the build instead of shipping empty filters.
+ */
+export function getCatalog(): ProductCatalog {
+  if (catalog) return catalog
+
+  const loaded = { categories: PRODUCT_CATEGORIES, products: PRODUCTS }
+  const issues = validateCatalog(loaded)
+  if (issues.length > 0) {
+    const details = issues.map((issue) => (issue.productId ? `${issue.productId}: ${issue.message}` : issue.message))
+    throw new Error(`Invalid product catalog:\n${details.join("\n")}`)
+  }
+
+  catalog = loaded
+  return catalog
+}
+
+export function getProduct(id: string): Product | undefined {
+  return getCatalog().products.find((product) => product.id === id)
+}
+
+export function getCategoryName(categoryId: string) {
+  return getCatalog().categories.find((category) => category.id === categoryId)?.name ?? categoryId
+}
+
+/**
+ * Other products worth showing next to `product`: same category first, then those
+ * sharing the most tags.
+ */
+export function getRelatedProducts(product: Product, limit = 3): Product[] {
+  const sharedTags = (other: Product) => other.tags.filter((tag) => product.tags.includes(tag)).length
+  const score = (other: Product) => (other.category === product.category ? 100 : 0) + sharedTags(other)
+
+  return getCatalog()
+    .products.filter((other) => other.id !== product.id)
+    .sort((a, b) => score(b) - score(a))
+    .slice(0, limit)
+}
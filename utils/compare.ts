@@ -0,0 +1,116 @@
+import type { Product } from "@/types/product"
+import { CATALOG_CURRENCY } from "@/constants/currency"
+import { formatMoney, money } from "@/utils/money"
+
+export const MIN_COMPARED_PRODUCTS = 2
+export const MAX_COMPARED_PRODUCTS = 4
+
+export interface ComparisonRow {
+  label: string
+  // One entry per compared product, in order; null where a product doesn't list it
+  values: (string | null)[]
+  // Whether the products disagree, counting a missing value as different
+  differs: boolean
+  // Index of the product that does best on this row, when there's a clear winner
+  best: number | null
+}
+
+export interface ComparisonSection {
+  title: string
+  rows: ComparisonRow[]
+}
+
+const makeRow = (label: string, values: (string | null)[], best: number | null = null): ComparisonRow => ({
+  label,
+  values,
+  differs: new Set(values).size > 1,
+  best,
+})
+
+// Labels in order of first appearance across the products
+const collectLabels = (lists: { label: string }[][]) => [...new Set(lists.flat().map((entry) => entry.label))]
+
+// Index of the single extreme value, or null when it's shared
+const uniqueExtreme = (numbers: number[], pick: (a: number, b: number) => number) => {
+  const extreme = numbers.reduce(pick)
+  const matches = numbers.filter((value) => value === extreme)
+  return matches.length === 1 ? numbers.indexOf(extreme) : null
+}
+
+// Headings and fixed row labels, so callers can show them in the visitor's language
+export interface ComparisonLabels {
+  overview: string
+  performance: string
+  specifications: string
+  price: string
+  rating: string
+  tags: string
+}
+
+const DEFAULT_LABELS: ComparisonLabels = {
+  overview: "Overview",
+  performance: "Performance",
+  specifications: "Specifications",
+  price: "Price",
+  rating: "Rating",
+  tags: "Tags",
+}
+
+const formatCatalogPrice = (price: number) => formatMoney(money(price, CATALOG_CURRENCY))
+
+/**
+ * Lines up the given products for a side-by-side table. Metrics and specifications
+ * are matched by label, so products from different categories still share the
+ * rows they have in common. `formatPrice` shows a catalog price, e.g. converted to
+ * the visitor's currency, and `labels` names the sections and fixed rows.
+ */
+export function buildComparison(
+  products: Product[],
+  formatPrice: (price: number) => string = formatCatalogPrice,
+  labels: ComparisonLabels = DEFAULT_LABELS,
+): ComparisonSection[] {
+  const prices = products.map((product) => product.price)
+  const ratings = products.map((product) => product.rating)
+
+  const overview = [
+    makeRow(
+      labels.price,
+      products.map((product) => formatPrice(product.price)),
+      uniqueExtreme(prices, Math.min),
+    ),
+    makeRow(
+      labels.rating,
+      products.map((product) => product.rating.toFixed(1)),
+      uniqueExtreme(ratings, Math.max),
+    ),
+    makeRow(
+      labels.tags,
+      products.map((product) => [...product.tags].sort().join(", ") || null),
+    ),
+  ]
+
+  const metricLabels = collectLabels(products.map((product) => product.metrics ?? []))
+  const metrics = metricLabels.map((label) =>
+    makeRow(
+      label,
+      products.map((product) => {
+        const metric = product.metrics?.find((entry) => entry.label === label)
+        return metric ? `${metric.value}${metric.unit ? ` ${metric.unit}` : ""}` : null
+      }),
+    ),
+  )
+
+  const specificationLabels = collectLabels(products.map((product) => product.specifications ?? []))
+  const specifications = specificationLabels.map((label) =>
+    makeRow(
+      label,
+      products.map((product) => product.specifications?.find((entry) => entry.label === label)?.value ?? null),
+    ),
+  )
+
+  return [
+    { title: labels.overview, rows: overview },
+    { title: labels.performance, rows: metrics },
+    { title: labels.specifications, rows: specifications },
+  ].filter((section) => section.rows.length > 0)
+}
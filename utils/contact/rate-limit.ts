@@ -0,0 +1,41 @@
+export interface RateLimitResult {
+  allowed: boolean
+  // How long until the next request would be allowed; 0 when allowed
+  retryAfterMs: number
+}
+
+export interface RateLimiter {
+  check: (key: string, now?: number) => RateLimitResult
+}
+
+/**
+ * Sliding-window limiter held in memory. Each key may make `limit` requests in any
+ * `windowMs`. State is per server instance, which is enough to slow down a single
+ * noisy client without adding infrastructure.
+ */
+export function createRateLimiter({ limit, windowMs }: { limit: number; windowMs: number }): RateLimiter {
+  const hits = new Map<string, number[]>()
+
+  return {
+    check: (key, now = Date.now()) => {
+      const recent = (hits.get(key) ?? []).filter((time) => now - time < windowMs)
+
+      if (recent.length >= limit) {
+        hits.set(key, recent)
+        return { allowed: false, retryAfterMs: windowMs - (now - recent[0]) }
+      }
+
+      recent.push(now)
+      hits.set(key, recent)
+
+      // Forget idle clients so the map doesn't grow without bound
+      if (hits.size > 10_000) {
+        for (const [client, times] of hits) {
+          if (times.every((time) => now - time >= windowMs)) hits.delete(client)
+        }
+      }
+
+      return { allowed: true, retryAfterMs: 0 }
+    },
+  }
+}
@@ -0,0 +1,21 @@
+import { CONTACT_HONEYPOT_FIELD } from "./schema"
+
+// Best guess at the client address behind the proxy; used as the rate-limit key
+export function clientIp(request: Request) {
+  const forwarded = request.headers.get("x-forwarded-for")
+  return forwarded?.split(",")[0].trim() || request.headers.get("x-real-ip") || "unknown"
+}
+
+// Bots fill the hidden field that people never see
+export function isHoneypotFilled(body: unknown) {
+  const value = (body as Record<string, unknown> | null)?.[CONTACT_HONEYPOT_FIELD]
+  return typeof value === "string" && value.trim() !== ""
+}
+
+export async function readJsonBody(request: Request): Promise<{ ok: true; body: unknown } | { ok: false }> {
+  try {
+    return { ok: true, body: await request.json() }
+  } catch {
+    return { ok: false }
+  }
+}
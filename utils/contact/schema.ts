@@ -0,0 +1,93 @@
+// Shared by the contact form and the /api/contact route so both enforce the same rules
+
+export const CONTACT_INTERESTS = {
+  solar: "Solar Energy",
+  mirt: "Mirt Stove",
+  ethanol: "Ethanol Products",
+  training: "Training Programs",
+  other: "Other",
+} as const
+
+export type ContactInterest = keyof typeof CONTACT_INTERESTS
+
+export interface ContactSubmission {
+  name: string
+  email: string
+  phone: string
+  subject: string
+  message: string
+  interest: ContactInterest | ""
+}
+
+export type ContactField = keyof ContactSubmission
+
+export type ContactFieldErrors = Partial<Record<ContactField, string>>
+
+// Hidden field that people never see; bots that fill every input fill this too
+export const CONTACT_HONEYPOT_FIELD = "website"
+
+export const CONTACT_FIELD_LIMITS: Record<ContactField, number> = {
+  name: 100,
+  email: 254,
+  phone: 32,
+  subject: 150,
+  message: 5000,
+  interest: 20,
+}
+
+export const EMPTY_CONTACT_SUBMISSION: ContactSubmission = {
+  name: "",
+  email: "",
+  phone: "",
+  subject: "",
+  message: "",
+  interest: "",
+}
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+const PHONE_PATTERN = /^\+?[\d\s().-]{7,}$/
+const MIN_MESSAGE_LENGTH = 10
+
+export const isValidEmail = (value: string) => EMAIL_PATTERN.test(value)
+export const isValidPhone = (value: string) => PHONE_PATTERN.test(value)
+
+const readString = (input: Record<string, unknown>, field: ContactField) =>
+  typeof input[field] === "string" ? (input[field] as string).trim() : ""
+
+/**
+ * Trims and checks a submission. Returns the cleaned data when every field passes,
+ * otherwise one message per failing field.
+ */
+export function validateContactSubmission(
+  input: unknown,
+): { data: ContactSubmission; errors: null } | { data: null; errors: ContactFieldErrors } {
+  const source = typeof input === "object" && input !== null ? (input as Record<string, unknown>) : {}
+  const data: ContactSubmission = {
+    name: readString(source, "name"),
+    email: readString(source, "email"),
+    phone: readString(source, "phone"),
+    subject: readString(source, "subject"),
+    message: readString(source, "message"),
+    interest: readString(source, "interest") as ContactSubmission["interest"],
+  }
+  const errors: ContactFieldErrors = {}
+
+  if (!data.name) errors.name = "Please enter your name"
+  if (!data.email) errors.email = "Please enter your email address"
+  else if (!isValidEmail(data.email)) errors.email = "Please enter a valid email address"
+  if (data.phone && !isValidPhone(data.phone)) errors.phone = "Please enter a valid phone number"
+  if (data.interest && !(data.interest in CONTACT_INTERESTS)) errors.interest = "Please choose one of the options"
+  if (!data.subject) errors.subject = "Please enter a subject"
+  if (!data.message) errors.message = "Please enter a message"
+  else if (data.message.length < MIN_MESSAGE_LENGTH) {
+    errors.message = `Please write at least ${MIN_MESSAGE_LENGTH} characters`
+  }
+
+  for (const field of Object.keys(CONTACT_FIELD_LIMITS) as ContactField[]) {
+    if (!errors[field] && data[field].length > CONTACT_FIELD_LIMITS[field]) {
+      errors[field] = `Please keep this under ${CONTACT_FIELD_LIMITS[field]} characters`
+    }
+  }
+
+  return Object.keys(errors).length > 0 ? { data: null, errors } : { data, errors: null }
+}
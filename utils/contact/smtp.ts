@@ -0,0 +1,239 @@
+import net from "node:net"
+import tls from "node:tls"
+import os from "node:os"
+
+export interface SmtpConfig {
+  host: string
+  port: number
+  // Implicit TLS (usually port 465); otherwise STARTTLS is used when offered
+  secure: boolean
+  user?: string
+  password?: string
+}
+
+export interface SmtpMessage {
+  from: string
+  to: string
+  // Kept apart so the display name can be quoted or encoded on its own
+  replyTo?: { name: string; email: string }
+  subject: string
+  text: string
+}
+
+export class SmtpError extends Error {
+  constructor(
+    message: string,
+    readonly code?: number,
+  ) {
+    super(message)
+    this.name = "SmtpError"
+  }
+}
+
+const SMTP_TIMEOUT_MS = 15_000
+
+interface SmtpReply {
+  code: number
+  lines: string[]
+}
+
+// Reads SMTP replies off a socket; a reply ends at the first "NNN " line. Replies that
+// arrive before anyone asks for them are queued, so a pipelined response isn't lost
+class ReplyReader {
+  private buffer = ""
+  private lines: string[] = []
+  private replies: SmtpReply[] = []
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null
+  private failure: Error | null = null
+
+  constructor(socket: net.Socket) {
+    this.attach(socket)
+  }
+
+  attach(socket: net.Socket) {
+    socket.setEncoding("utf8")
+    socket.on("data", (chunk: string) => this.receive(chunk))
+    socket.on("error", (error) => this.fail(error))
+    socket.on("close", () => this.fail(new SmtpError("Connection closed by server")))
+  }
+
+  next(): Promise<SmtpReply> {
+    const queued = this.replies.shift()
+    if (queued) return Promise.resolve(queued)
+    if (this.failure) return Promise.reject(this.failure)
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject }
+      this.flush()
+    })
+  }
+
+  private receive(chunk: string) {
+    this.buffer += chunk
+    this.flush()
+  }
+
+  private flush() {
+    let newline: number
+    while ((newline = this.buffer.indexOf("\r\n")) !== -1) {
+      const line = this.buffer.slice(0, newline)
+      this.buffer = this.buffer.slice(newline + 2)
+      this.lines.push(line)
+
+      if (line.length >= 4 && line[3] === " ") {
+        this.replies.push({ code: Number(line.slice(0, 3)), lines: this.lines.map((l) => l.slice(4)) })
+        this.lines = []
+      }
+    }
+
+    if (this.waiting && this.replies.length > 0) {
+      const { resolve } = this.waiting
+      this.waiting = null
+      resolve(this.replies.shift()!)
+    }
+  }
+
+  private fail(error: Error) {
+    this.failure ??= error
+    this.waiting?.reject(error)
+    this.waiting = null
+  }
+}
+
+function connect(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host }, () => resolve(socket))
+      : net.connect({ host: config.host, port: config.port }, () => resolve(socket))
+    socket.once("error", reject)
+    socket.setTimeout(SMTP_TIMEOUT_MS, () => socket.destroy(new SmtpError("SMTP connection timed out")))
+  })
+}
+
+function upgradeToTls(socket: net.Socket, host: string): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secure = tls.connect({ socket, servername: host }, () => resolve(secure))
+    secure.once("error", reject)
+    secure.setTimeout(SMTP_TIMEOUT_MS, () => secure.destroy(new SmtpError("SMTP connection timed out")))
+  })
+}
+
+// Header values can't contain line breaks, or a sender could inject extra headers
+const headerValue = (value: string) => value.replace(/[\r\n]+/g, " ")
+
+const isPlainAscii = (value: string) => /^[\x20-\x7e]*$/.test(value)
+
+// An encoded word may be 75 characters long (RFC 2047); 45 bytes of UTF-8 fit once base64-encoded
+const ENCODED_WORD_BYTES = 45
+
+// Non-ASCII text as UTF-8 encoded words, split between characters and folded onto continuation lines
+function encodeWords(value: string) {
+  const words = [""]
+  for (const char of value) {
+    if (Buffer.byteLength(words[words.length - 1] + char) > ENCODED_WORD_BYTES) words.push("")
+    words[words.length - 1] += char
+  }
+  return words.map((word) => `=?UTF-8?B?${Buffer.from(word).toString("base64")}?=`).join("\r\n ")
+}
+
+const encodeHeader = (value: string) => (isPlainAscii(value) ? headerValue(value) : encodeWords(headerValue(value)))
+
+// A display name is quoted, so commas and angle brackets in it can't change the address
+const displayName = (name: string) =>
+  isPlainAscii(name) ? `"${headerValue(name).replace(/["\\]/g, "\\$&")}"` : encodeWords(headerValue(name))
+
+// Longest encoded line, not counting the line break (RFC 2045)
+const QUOTED_PRINTABLE_LINE_LENGTH = 76
+
+/**
+ * Quoted-printable body: anything outside printable ASCII is escaped and long lines
+ * get soft breaks, so whatever the visitor typed stays within SMTP's line limit.
+ */
+function quotedPrintable(text: string) {
+  return text
+    .split(/\r?\n/)
+    .map((line) => {
+      const bytes = Buffer.from(line)
+      let encoded = ""
+      let current = ""
+      bytes.forEach((byte, index) => {
+        // Spaces and tabs are escaped at the end of a line, where relays may strip them
+        const literal =
+          (byte >= 33 && byte <= 126 && byte !== 61) || ((byte === 32 || byte === 9) && index < bytes.length - 1)
+        const token = literal ? String.fromCharCode(byte) : `=${byte.toString(16).toUpperCase().padStart(2, "0")}`
+        // Leaves room for the "=" of a soft break
+        if (current.length + token.length > QUOTED_PRINTABLE_LINE_LENGTH - 1) {
+          encoded += `${current}=\r\n`
+          current = ""
+        }
+        current += token
+      })
+      return encoded + current
+    })
+    .join("\r\n")
+}
+
+function formatMessage(message: SmtpMessage) {
+  const { replyTo } = message
+  const headers = [
+    `From: ${headerValue(message.from)}`,
+    `To: ${headerValue(message.to)}`,
+    ...(replyTo ? [`Reply-To: ${displayName(replyTo.name)} <${headerValue(replyTo.email)}>`] : []),
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: quoted-printable",
+  ]
+  // Lines starting with "." are doubled so they can't end the DATA section early
+  const body = quotedPrintable(message.text).replace(/^\./gm, "..")
+  return `${headers.join("\r\n")}\r\n\r\n${body}\r\n.`
+}
+
+const addressOf = (mailbox: string) => mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox
+
+/**
+ * Sends one plain-text message over SMTP. Supports implicit TLS, STARTTLS and
+ * AUTH PLAIN, which covers the common hosted mail relays.
+ */
+export async function sendSmtpMail(config: SmtpConfig, message: SmtpMessage) {
+  let socket = await connect(config)
+  const reader = new ReplyReader(socket)
+
+  const expect = async (codes: number[]) => {
+    const reply = await reader.next()
+    if (!codes.includes(reply.code)) {
+      throw new SmtpError(`Unexpected SMTP reply: ${reply.code} ${reply.lines.join(" ")}`, reply.code)
+    }
+    return reply
+  }
+  const command = (line: string, codes: number[]) => {
+    socket.write(`${line}\r\n`)
+    return expect(codes)
+  }
+
+  try {
+    await expect([220])
+    const hello = await command(`EHLO ${os.hostname()}`, [250])
+
+    if (!config.secure && hello.lines.some((line) => line.toUpperCase() === "STARTTLS")) {
+      await command("STARTTLS", [220])
+      socket.removeAllListeners("data")
+      socket = await upgradeToTls(socket, config.host)
+      reader.attach(socket)
+      await command(`EHLO ${os.hostname()}`, [250])
+    }
+
+    if (config.user) {
+      const credentials = Buffer.from(`\0${config.user}\0${config.password ?? ""}`).toString("base64")
+      await command(`AUTH PLAIN ${credentials}`, [235])
+    }
+
+    await command(`MAIL FROM:<${addressOf(message.from)}>`, [250])
+    await command(`RCPT TO:<${addressOf(message.to)}>`, [250, 251])
+    await command("DATA", [354])
+    await command(formatMessage(message), [250])
+    await command("QUIT", [221]).catch(() => undefined)
+  } finally {
+    socket.end()
+  }
+}
@@ -0,0 +1,98 @@
+import { appendFile, mkdir } from "node:fs/promises"
+import path from "node:path"
+import { sendSmtpMail, SmtpConfig } from "./smtp"
+
+// A validated form submission plus what the server knows about where it came from
+export interface Submission {
+  // What was submitted, e.g. "contact" or "quote"
+  kind: string
+  data: unknown
+  receivedAt: string
+  ip: string
+  userAgent: string | null
+  // How the submission reads as an email to the team
+  email: {
+    replyTo: { name: string; email: string }
+    subject: string
+    text: string
+  }
+}
+
+export interface SubmissionTransport {
+  name: string
+  deliver: (submission: Submission) => Promise<void>
+}
+
+export const DEFAULT_SUBMISSION_LOG_PATH = path.join(process.cwd(), ".data", "submissions.jsonl")
+
+/**
+ * Appends each submission as one JSON line. Meant for local development, where
+ * there's no mail server and the file is easy to inspect. The lines hold
+ * visitors' names, emails and IPs, so the default .data/ directory is git-ignored;
+ * point CONTACT_LOG_PATH outside the checkout anywhere else.
+ */
+export function createJsonlTransport(filePath = DEFAULT_SUBMISSION_LOG_PATH): SubmissionTransport {
+  return {
+    name: "jsonl",
+    deliver: async ({ email: _email, ...record }) => {
+      await mkdir(path.dirname(filePath), { recursive: true })
+      await appendFile(filePath, `${JSON.stringify(record)}\n`, "utf8")
+    },
+  }
+}
+
+/**
+ * Emails each submission to the team inbox, with Reply-To set to the sender so a
+ * reply goes straight back to them.
+ */
+export function createSmtpTransport(config: SmtpConfig, { from, to }: { from: string; to: string }): SubmissionTransport {
+  return {
+    name: "smtp",
+    deliver: async ({ email, receivedAt, ip }) => {
+      await sendSmtpMail(config, {
+        from,
+        to,
+        replyTo: email.replyTo,
+        subject: `[Website] ${email.subject}`,
+        text: `${email.text}\n\n--\nReceived ${receivedAt} from ${ip}`,
+      })
+    },
+  }
+}
+
+/**
+ * Picks the transport from the environment. `CONTACT_TRANSPORT=smtp` needs
+ * SMTP_HOST, CONTACT_TO and CONTACT_FROM, with optional SMTP_PORT, SMTP_SECURE,
+ * SMTP_USER and SMTP_PASSWORD. Anything else writes to CONTACT_LOG_PATH, or to
+ * .data/submissions.jsonl by default.
+ */
+export function createTransportFromEnv(env: NodeJS.ProcessEnv = process.env): SubmissionTransport {
+  if (env.CONTACT_TRANSPORT !== "smtp") {
+    return createJsonlTransport(env.CONTACT_LOG_PATH || DEFAULT_SUBMISSION_LOG_PATH)
+  }
+
+  const missing = ["SMTP_HOST", "CONTACT_TO", "CONTACT_FROM"].filter((key) => !env[key])
+  if (missing.length > 0) {
+    throw new Error(`CONTACT_TRANSPORT=smtp requires ${missing.join(", ")}`)
+  }
+
+  const secure = env.SMTP_SECURE === "true"
+  return createSmtpTransport(
+    {
+      host: env.SMTP_HOST!,
+      port: Number(env.SMTP_PORT) || (secure ? 465 : 587),
+      secure,
+      user: env.SMTP_USER,
+      password: env.SMTP_PASSWORD,
+    },
+    { from: env.CONTACT_FROM!, to: env.CONTACT_TO! },
+  )
+}
+
+let sharedTransport: SubmissionTransport | null = null
+
+// One transport per server instance, shared by every form route
+export function getSubmissionTransport() {
+  sharedTransport ??= createTransportFromEnv()
+  return sharedTransport
+}
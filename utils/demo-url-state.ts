@@ -0,0 +1,81 @@
+import type { ComponentFlags, SystemComponent } from "@/store/energySystemStore"
+import { DEFAULT_INVERTER_SETTINGS, InverterSettings } from "@/store/inverterSettingsStore"
+import type { InverterMode } from "@/components/static-nodes/inverter/types"
+
+// Everything needed to reopen a demo exactly as it was shared
+export interface DemoUrlState {
+  components: Required<ComponentFlags>
+  inverter: InverterSettings
+}
+
+// Query parameter names; short so shared links stay readable
+export const DEMO_URL_PARAMS = {
+  components: "on",
+  mode: "mode",
+  batteryLevel: "battery",
+  loadPercentage: "load",
+} as const
+
+const COMPONENT_ORDER: SystemComponent[] = ["inverter", "switch", "bulb", "word"]
+const INVERTER_MODES: InverterMode[] = ["normal", "pv", "battery"]
+
+function parsePercent(value: string | null) {
+  if (value === null || value.trim() === "") return undefined
+  const number = Number(value)
+  return Number.isFinite(number) ? Math.min(100, Math.max(0, Math.round(number))) : undefined
+}
+
+/**
+ * Writes the demo state into `params`, replacing any earlier demo keys and leaving
+ * unrelated ones alone. Values at their defaults are omitted so an idle demo keeps
+ * a clean URL.
+ */
+export function encodeDemoState(state: DemoUrlState, params = new URLSearchParams()) {
+  const next = new URLSearchParams(params)
+  Object.values(DEMO_URL_PARAMS).forEach((key) => next.delete(key))
+
+  const active = COMPONENT_ORDER.filter((component) => state.components[component])
+  if (active.length > 0) next.set(DEMO_URL_PARAMS.components, active.join(","))
+
+  const { mode, batteryLevel, loadPercentage } = state.inverter
+  if (mode !== DEFAULT_INVERTER_SETTINGS.mode) next.set(DEMO_URL_PARAMS.mode, mode)
+  if (Math.round(batteryLevel) !== DEFAULT_INVERTER_SETTINGS.batteryLevel) {
+    next.set(DEMO_URL_PARAMS.batteryLevel, String(Math.round(batteryLevel)))
+  }
+  if (Math.round(loadPercentage) !== DEFAULT_INVERTER_SETTINGS.loadPercentage) {
+    next.set(DEMO_URL_PARAMS.loadPercentage, String(Math.round(loadPercentage)))
+  }
+
+  return next
+}
+
+/**
+ * Reads whatever demo state `params` carries. Unknown components, unknown modes and
+ * non-numeric levels are ignored rather than rejected, so a hand-edited link still
+ * opens. Returns null when no demo keys are present.
+ */
+export function decodeDemoState(params: URLSearchParams): {
+  components: Required<ComponentFlags>
+  inverter: Partial<InverterSettings>
+} | null {
+  if (!Object.values(DEMO_URL_PARAMS).some((key) => params.has(key))) return null
+
+  // A missing component list means everything was off when the link was made
+  const active = new Set((params.get(DEMO_URL_PARAMS.components) ?? "").split(",").map((value) => value.trim()))
+  const components = {
+    inverter: active.has("inverter"),
+    switch: active.has("switch"),
+    bulb: active.has("bulb"),
+    word: active.has("word"),
+  }
+
+  const inverter: Partial<InverterSettings> = {}
+  const mode = params.get(DEMO_URL_PARAMS.mode) as InverterMode | null
+  if (mode && INVERTER_MODES.includes(mode)) inverter.mode = mode
+  const batteryLevel = parsePercent(params.get(DEMO_URL_PARAMS.batteryLevel))
+  if (batteryLevel !== undefined) inverter.batteryLevel = batteryLevel
+  const loadPercentage = parsePercent(params.get(DEMO_URL_PARAMS.loadPercentage))
+  if (loadPercentage !== undefined) inverter.loadPercentage = loadPercentage
+
+  return { components, inverter }
+}
@@ -5,177 +5,43 @@
  * that can be integrated with existing UI components without affecting their appearance.
  */
 
-import { create } from "zustand"
-
-// Define the energy system state interface
-export interface EnergySystemState {
-  // Component states
-  inverterActive: boolean
-  switchActive: boolean
-  bulbActive: boolean
-  wordActive: boolean
-  prevBulbActive: boolean
-
-  // Animation and metrics
-  animationPhase: number
-  energySaved: number
-  co2Reduced: number
-
-  // State update functions
-  setInverterActive: (active: boolean) => void
-  setSwitchActive: (active: boolean) => void
-  setBulbActive: (active: boolean) => void
-  setWordActive: (active: boolean) => void
-  setAnimationPhase: (phase: number) => void
-  incrementEnergySaved: () => void
-  incrementCo2Reduced: () => void
-
-  // Utility functions
-  activateFullSystem: () => void
-  deactivateFullSystem: () => void
-  toggleInverter: () => void
-  toggleSwitch: () => void
-}
+import { useEnergySystemStore } from "@/store/energySystemStore"
+import { SimulationEngine, SimulationEngineOptions, DEFAULT_TICK_MS } from "@/utils/simulation"
 
-// Create the energy system store
-export const useEnergySystemStore = create<EnergySystemState>((set, get) => ({
-  // Initial states
-  inverterActive: false,
-  switchActive: false,
-  bulbActive: false,
-  wordActive: false,
-  prevBulbActive: false,
-  animationPhase: 0,
-  energySaved: 0,
-  co2Reduced: 0,
-
-  // Core state update functions
-  setInverterActive: (active) =>
-    set((state) => {
-      // If turning off the inverter, turn off all other components
-      if (!active) {
-        return {
-          inverterActive: false,
-          switchActive: false,
-          bulbActive: false,
-          wordActive: false,
-          prevBulbActive: state.bulbActive,
-          animationPhase: 0,
-          energySaved: state.energySaved,
-          co2Reduced: state.co2Reduced,
-        }
-      }
-      return {
-        ...state,
-        inverterActive: active,
-        animationPhase: 1,
-      }
-    }),
-
-  setSwitchActive: (active) =>
-    set((state) => {
-      // Only allow switch activation if inverter is on
-      if (!state.inverterActive) return state
-
-      // Store previous bulb state
-      const prevBulbActive = state.bulbActive
-
-      if (active) {
-        // When switch is activated, only update switch state
-        // The component will handle the cascading effects
-        return {
-          ...state,
-          switchActive: active,
-          prevBulbActive,
-        }
-      } else {
-        // When switch is deactivated, turn off bulb and word immediately
-        return {
-          ...state,
-          switchActive: false,
-          bulbActive: false,
-          wordActive: false,
-          prevBulbActive,
-        }
-      }
-    }),
-
-  setBulbActive: (active) =>
-    set((state) => ({
-      ...state,
-      bulbActive: active,
-      prevBulbActive: state.bulbActive,
-    })),
-
-  setWordActive: (active) =>
-    set((state) => ({
-      ...state,
-      wordActive: active,
-    })),
-
-  setAnimationPhase: (phase) =>
-    set((state) => ({
-      ...state,
-      animationPhase: phase,
-    })),
-
-  incrementEnergySaved: () =>
-    set((state) => ({
-      ...state,
-      energySaved: state.energySaved + Math.random() * 0.05,
-    })),
-
-  incrementCo2Reduced: () =>
-    set((state) => ({
-      ...state,
-      co2Reduced: state.co2Reduced + Math.random() * 0.02,
-    })),
-
-  // Utility functions for easier control
-  activateFullSystem: () => {
-    const { setInverterActive, setSwitchActive, setBulbActive, setWordActive } = get()
-    setInverterActive(true)
-    setTimeout(() => {
-      setSwitchActive(true)
-      setTimeout(() => {
-        setBulbActive(true)
-        setTimeout(() => {
-          setWordActive(true)
-        }, 300)
-      }, 200)
-    }, 500)
-  },
-
-  deactivateFullSystem: () => {
-    const { setInverterActive } = get()
-    setInverterActive(false)
-  },
-
-  toggleInverter: () => {
-    const { inverterActive, setInverterActive } = get()
-    setInverterActive(!inverterActive)
-  },
-
-  toggleSwitch: () => {
-    const { switchActive, setSwitchActive } = get()
-    setSwitchActive(!switchActive)
-  },
-}))
+// The store itself lives in store/energySystemStore.ts; re-export it so existing
+// imports of this module keep working against the single authoritative store
+export { useEnergySystemStore }
+export type { EnergySystemState, SystemEvent, SystemComponent } from "@/store/energySystemStore"
+
+// Delays between the switch closing and the bulb and word lighting up
+export const BULB_CASCADE_DELAY_MS = 200
+export const WORD_CASCADE_DELAY_MS = 300
 
 /**
  * Energy System Controller
  *
  * This class provides a more object-oriented approach to controlling
- * the energy system simulation.
+ * the energy system simulation. Timed behaviour runs on a SimulationEngine,
+ * so passing a ManualClock and seed makes every cascade reproducible.
  */
 export class EnergySystemController {
   private store = useEnergySystemStore
+  readonly engine: SimulationEngine
+
+  constructor(options: SimulationEngineOptions = {}) {
+    this.engine = new SimulationEngine(options)
+  }
 
   // Get current state
   get state() {
     return this.store.getState()
   }
 
+  // Transitions recorded so far, oldest first
+  get eventLog() {
+    return this.store.getState().eventLog
+  }
+
   // Component activation methods
   activateInverter() {
     this.store.getState().setInverterActive(true)
@@ -197,6 +63,24 @@ export class EnergySystemController {
     return this
   }
 
+  // Close the switch, then light the bulb and the word after their cascade delays
+  activateSwitchWithCascade() {
+    this.store.getState().setSwitchActive(true)
+    if (!this.state.switchActive) return this
+
+    this.engine.schedule(BULB_CASCADE_DELAY_MS, () => {
+      // The switch may have been opened again while we were waiting
+      if (!this.state.switchActive) return
+      this.state.setBulbActive(true, "cascade")
+
+      this.engine.schedule(WORD_CASCADE_DELAY_MS, () => {
+        if (!this.state.bulbActive) return
+        this.state.setWordActive(true, "cascade")
+      })
+    })
+    return this
+  }
+
   activateBulb() {
     this.store.getState().setBulbActive(true)
     return this
@@ -228,18 +112,27 @@ export class EnergySystemController {
     return this
   }
 
-  // Metrics
+  // Metrics, counted once per interval of simulated time
   startMetricsTracking(intervalMs = 1000) {
     const { incrementEnergySaved, incrementCo2Reduced } = this.store.getState()
+    let cancel = () => {}
 
-    const intervalId = setInterval(() => {
+    const track = () => {
       if (this.state.inverterActive) {
         incrementEnergySaved()
         incrementCo2Reduced()
       }
-    }, intervalMs)
+      cancel = this.engine.schedule(intervalMs, track)
+    }
+    cancel = this.engine.schedule(intervalMs, track)
+
+    return () => cancel() // Return cleanup function
+  }
 
-    return () => clearInterval(intervalId) // Return cleanup function
+  // Drive the engine from its clock. Only needed in the browser; a scripted run calls engine.step() directly.
+  start(pollMs = DEFAULT_TICK_MS) {
+    const intervalId = setInterval(() => this.engine.update(), pollMs)
+    return () => clearInterval(intervalId)
   }
 }
 
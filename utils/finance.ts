@@ -0,0 +1,185 @@
+import type { CurrencyCode } from "@/types/money"
+
+// Cash-flow model behind the ROI calculator. Rates are fractions (0.08 for 8%), money
+// is in one currency throughout and year 0 is the day the system is paid for.
+
+export interface FinancialInput {
+  systemCost: number
+  // What the customer spends on grid power or diesel today, per year
+  annualEnergySpend: number
+  // Share of that spend the system replaces
+  spendOffset: number
+  // First-year output, used for the levelized cost of energy
+  annualEnergyKWh: number
+  tariffEscalation: number
+  degradation: number
+  discountRate: number
+  // Yearly operation and maintenance, as a share of the system cost
+  maintenanceRate: number
+  lifetimeYears: number
+}
+
+export interface CashFlowYear {
+  year: number
+  savings: number
+  maintenance: number
+  net: number
+  cumulative: number
+  discountedCumulative: number
+  energyKWh: number
+}
+
+export interface FinancialResult {
+  cashFlows: CashFlowYear[]
+  // Years until the savings have paid the system back, or null if they never do
+  simplePaybackYears: number | null
+  netPresentValue: number
+  // Null when the cash flows never change sign, so no rate makes the NPV zero
+  internalRateOfReturn: number | null
+  // Cost per kWh over the lifetime, discounted
+  levelizedCostOfEnergy: number | null
+  lifetimeSavings: number
+}
+
+export const DEFAULT_FINANCIAL_INPUT: FinancialInput = {
+  systemCost: 0,
+  annualEnergySpend: 600,
+  spendOffset: 0.8,
+  annualEnergyKWh: 1500,
+  tariffEscalation: 0.1,
+  degradation: 0.005,
+  discountRate: 0.1,
+  maintenanceRate: 0.01,
+  lifetimeYears: 20,
+}
+
+// Net present value of `flows`, where flows[0] happens today
+export function netPresentValue(rate: number, flows: number[]) {
+  return flows.reduce((sum, flow, year) => sum + flow / (1 + rate) ** year, 0)
+}
+
+/**
+ * The discount rate at which the flows' NPV is zero, found by bisection between
+ * -99% and 1000%. Returns null when the NPV doesn't change sign over that range.
+ */
+export function internalRateOfReturn(flows: number[]) {
+  let low = -0.99
+  let high = 10
+  let lowValue = netPresentValue(low, flows)
+  if (lowValue * netPresentValue(high, flows) > 0) return null
+
+  for (let iteration = 0; iteration < 200; iteration++) {
+    const middle = (low + high) / 2
+    const middleValue = netPresentValue(middle, flows)
+    if (Math.abs(middleValue) < 1e-7 || high - low < 1e-9) return middle
+    if (lowValue * middleValue < 0) {
+      high = middle
+    } else {
+      low = middle
+      lowValue = middleValue
+    }
+  }
+  return (low + high) / 2
+}
+
+export function analyzeInvestment(input: FinancialInput): FinancialResult {
+  const years = Math.max(1, Math.round(input.lifetimeYears))
+  const maintenance = input.systemCost * input.maintenanceRate
+
+  const cashFlows: CashFlowYear[] = []
+  let cumulative = -input.systemCost
+  let discountedCumulative = -input.systemCost
+  let simplePaybackYears: number | null = input.systemCost <= 0 ? 0 : null
+
+  for (let year = 1; year <= years; year++) {
+    // Bills rise with the tariff while the panels slowly produce less
+    const output = (1 - input.degradation) ** (year - 1)
+    const savings =
+      input.annualEnergySpend * input.spendOffset * (1 + input.tariffEscalation) ** (year - 1) * output
+    const net = savings - maintenance
+
+    const previous = cumulative
+    cumulative += net
+    discountedCumulative += net / (1 + input.discountRate) ** year
+    // Interpolate within the year the balance turns positive
+    if (simplePaybackYears === null && cumulative >= 0 && net > 0) {
+      simplePaybackYears = year - 1 + -previous / net
+    }
+
+    cashFlows.push({
+      year,
+      savings,
+      maintenance,
+      net,
+      cumulative,
+      discountedCumulative,
+      energyKWh: input.annualEnergyKWh * output,
+    })
+  }
+
+  const flows = [-input.systemCost, ...cashFlows.map((row) => row.net)]
+  const discountedEnergy = cashFlows.reduce(
+    (sum, row) => sum + row.energyKWh / (1 + input.discountRate) ** row.year,
+    0,
+  )
+  const discountedMaintenance = netPresentValue(input.discountRate, [0, ...cashFlows.map(() => maintenance)])
+  const discountedCost = input.systemCost + discountedMaintenance
+
+  return {
+    cashFlows,
+    simplePaybackYears,
+    netPresentValue: netPresentValue(input.discountRate, flows),
+    internalRateOfReturn: input.systemCost > 0 ? internalRateOfReturn(flows) : null,
+    levelizedCostOfEnergy: discountedEnergy > 0 ? discountedCost / discountedEnergy : null,
+    lifetimeSavings: cashFlows.reduce((sum, row) => sum + row.savings, 0),
+  }
+}
+
+const csvCell = (value: string | number) => {
+  const text = String(value)
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * The inputs, headline results and yearly cash flows as CSV, for pasting into a
+ * proposal spreadsheet. Rates are written as percentages; money is in `currency`.
+ */
+export function financialResultToCsv(input: FinancialInput, result: FinancialResult, currency: CurrencyCode) {
+  const money = (value: number) => value.toFixed(2)
+  const percent = (value: number) => (value * 100).toFixed(2)
+  const optional = (value: number | null, format: (value: number) => string, missing = "n/a") =>
+    value === null ? missing : format(value)
+  const rows: (string | number)[][] = [
+    ["Input", "Value"],
+    ["Currency", currency],
+    ["System cost", money(input.systemCost)],
+    ["Annual energy spend", money(input.annualEnergySpend)],
+    ["Spend replaced (%)", percent(input.spendOffset)],
+    ["First-year output (kWh)", input.annualEnergyKWh.toFixed(0)],
+    ["Tariff escalation (%/yr)", percent(input.tariffEscalation)],
+    ["Degradation (%/yr)", percent(input.degradation)],
+    ["Discount rate (%)", percent(input.discountRate)],
+    ["Maintenance (% of cost/yr)", percent(input.maintenanceRate)],
+    ["Lifetime (years)", input.lifetimeYears],
+    [],
+    ["Result", "Value"],
+    ["Simple payback (years)", optional(result.simplePaybackYears, (years) => years.toFixed(1), "Never")],
+    ["Net present value", money(result.netPresentValue)],
+    ["Internal rate of return (%)", optional(result.internalRateOfReturn, percent)],
+    ["Levelized cost of energy (per kWh)", optional(result.levelizedCostOfEnergy, (cost) => cost.toFixed(4))],
+    ["Lifetime savings", money(result.lifetimeSavings)],
+    [],
+    ["Year", "Savings", "Maintenance", "Net", "Cumulative", "Discounted cumulative", "Output (kWh)"],
+    [0, "", "", money(-input.systemCost), money(-input.systemCost), money(-input.systemCost), ""],
+    ...result.cashFlows.map((row) => [
+      row.year,
+      money(row.savings),
+      money(row.maintenance),
+      money(row.net),
+      money(row.cumulative),
+      money(row.discountedCumulative),
+      row.energyKWh.toFixed(0),
+    ]),
+  ]
+  return rows.map((row) => row.map(csvCell).join(",")).join("\n")
+}
@@ -0,0 +1,88 @@
+import { en } from "@/constants/messages/en"
+import { am } from "@/constants/messages/am"
+
+export type Locale = "en" | "am"
+
+export interface LocaleConfig {
+  name: string
+  // The language's own name, as shown in the switcher
+  nativeName: string
+  // BCP 47 tags handed to Intl; dates in Amharic use the Ethiopian calendar
+  numberTag: string
+  dateTag: string
+}
+
+export const LOCALES: Record<Locale, LocaleConfig> = {
+  en: { name: "English", nativeName: "English", numberTag: "en-US", dateTag: "en-US" },
+  am: { name: "Amharic", nativeName: "አማርኛ", numberTag: "am-ET", dateTag: "am-ET-u-ca-ethiopic" },
+}
+
+export const DEFAULT_LOCALE: Locale = "en"
+
+// Query parameter that picks the language of a shared link, e.g. `?lang=am`
+export const LOCALE_PARAM = "lang"
+
+export const isLocale = (value: unknown): value is Locale => typeof value === "string" && value in LOCALES
+
+// A message with forms per CLDR plural category; `other` is always required
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string }
+export type Message = string | PluralMessage
+
+export type MessageKey = keyof typeof en
+export type MessageCatalog = Record<MessageKey, Message>
+
+export type MessageValues = Record<string, string | number>
+
+const CATALOGS: Record<Locale, MessageCatalog> = { en, am }
+
+const pluralRules = new Map<Locale, Intl.PluralRules>()
+
+function pluralForm(locale: Locale, message: PluralMessage, count: number) {
+  let rules = pluralRules.get(locale)
+  if (!rules) {
+    rules = new Intl.PluralRules(LOCALES[locale].numberTag)
+    pluralRules.set(locale, rules)
+  }
+  return message[rules.select(count)] ?? message.other
+}
+
+export function formatNumber(locale: Locale, value: number, options?: Intl.NumberFormatOptions) {
+  return new Intl.NumberFormat(LOCALES[locale].numberTag, options).format(value)
+}
+
+// Spelled-out fields rather than `dateStyle`, which adds an untranslated era to Ethiopian dates
+const DEFAULT_DATE_FORMAT: Intl.DateTimeFormatOptions = { day: "numeric", month: "long", year: "numeric" }
+
+export function formatDate(locale: Locale, date: Date | number, options = DEFAULT_DATE_FORMAT) {
+  return new Intl.DateTimeFormat(LOCALES[locale].dateTag, options).format(date)
+}
+
+/**
+ * Looks up `key` in the locale's catalog, falling back to English, then fills in
+ * `{name}` placeholders. Plural messages pick their form from `values.count`, and
+ * numeric values are formatted for the locale.
+ */
+export function translate(locale: Locale, key: MessageKey, values?: MessageValues) {
+  const message = CATALOGS[locale][key] ?? en[key]
+  const text =
+    typeof message === "string" ? message : pluralForm(locale, message, Number(values?.count ?? 0))
+  if (!values) return text
+
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    const value = values[name]
+    if (value === undefined) return placeholder
+    return typeof value === "number" ? formatNumber(locale, value) : value
+  })
+}
+
+const isMessageKey = (key: string): key is MessageKey => key in en
+
+/**
+ * Translates text rendered by the static nodes, which take a plain `t(text)` prop:
+ * the English text is looked up under `node.<text>`, and anything without an entry
+ * is shown as it is.
+ */
+export function translateNodeText(locale: Locale, text: string) {
+  const key = `node.${text}`
+  return isMessageKey(key) ? translate(locale, key) : text
+}
@@ -0,0 +1,47 @@
+import type { LifetimeMetrics } from "@/store/energySystemStore"
+import type { InverterScreenSettings } from "@/store/inverterSettingsStore"
+import type { InverterMode } from "@/components/static-nodes/inverter/types"
+import { createVersionedStorage } from "./persistence"
+
+// What a returning visitor gets back: running totals, last inverter mode and LCD settings
+export interface LifetimeSnapshot {
+  metrics: LifetimeMetrics
+  inverterMode: InverterMode
+  screen: InverterScreenSettings
+}
+
+export const LIFETIME_STORAGE_KEY = "grean-world:lifetime"
+export const LIFETIME_STORAGE_VERSION = 1
+
+const INVERTER_MODES: InverterMode[] = ["normal", "pv", "battery"]
+
+const finiteOr = (value: unknown, fallback: number) =>
+  typeof value === "number" && Number.isFinite(value) ? value : fallback
+
+function validateSnapshot(data: unknown): LifetimeSnapshot | null {
+  if (typeof data !== "object" || data === null) return null
+  const snapshot = data as Partial<LifetimeSnapshot>
+
+  return {
+    metrics: {
+      energySaved: Math.max(0, finiteOr(snapshot.metrics?.energySaved, 0)),
+      co2Reduced: Math.max(0, finiteOr(snapshot.metrics?.co2Reduced, 0)),
+      energyGenerated: Math.max(0, finiteOr(snapshot.metrics?.energyGenerated, 0)),
+    },
+    inverterMode: INVERTER_MODES.includes(snapshot.inverterMode as InverterMode)
+      ? (snapshot.inverterMode as InverterMode)
+      : "normal",
+    screen: {
+      displayOption: finiteOr(snapshot.screen?.displayOption, 0),
+      screenBrightness: finiteOr(snapshot.screen?.screenBrightness, 1),
+    },
+  }
+}
+
+export const lifetimeStorage = createVersionedStorage<LifetimeSnapshot>({
+  key: LIFETIME_STORAGE_KEY,
+  version: LIFETIME_STORAGE_VERSION,
+  // Add an entry here for each version bump, e.g. `1: (v1) => ({ ...v1, newField: default })`
+  migrations: {},
+  validate: validateSnapshot,
+})
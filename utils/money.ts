@@ -0,0 +1,35 @@
+import { CURRENCIES, EXCHANGE_RATES, ExchangeRateTable } from "@/constants/currency"
+import { DEFAULT_LOCALE, Locale, LOCALES } from "@/utils/i18n"
+import type { CurrencyCode, Money } from "@/types/money"
+
+export const isCurrencyCode = (value: unknown): value is CurrencyCode =>
+  typeof value === "string" && value in CURRENCIES
+
+export const money = (amount: number, currency: CurrencyCode): Money => ({ amount, currency })
+
+// Rounds to the currency's smallest unit, e.g. cents or santim
+export function roundMoney(amount: number, currency: CurrencyCode) {
+  const factor = 10 ** CURRENCIES[currency].fractionDigits
+  return Math.round(amount * factor) / factor
+}
+
+/**
+ * Converts through the table's base currency. The result isn't rounded, so
+ * chained conversions don't pile up rounding errors; round when presenting it.
+ */
+export function convertMoney(value: Money, to: CurrencyCode, table: ExchangeRateTable = EXCHANGE_RATES): Money {
+  if (value.currency === to) return value
+  return money((value.amount / table.rates[value.currency]) * table.rates[to], to)
+}
+
+export function formatMoney(value: Money, locale: Locale = DEFAULT_LOCALE, options?: Intl.NumberFormatOptions) {
+  const maximumFractionDigits = options?.maximumFractionDigits ?? CURRENCIES[value.currency].fractionDigits
+  return new Intl.NumberFormat(LOCALES[locale].numberTag, {
+    style: "currency",
+    currency: value.currency,
+    ...options,
+    // Whole-unit formats shouldn't also ask for cents
+    minimumFractionDigits: Math.min(options?.minimumFractionDigits ?? maximumFractionDigits, maximumFractionDigits),
+    maximumFractionDigits,
+  }).format(value.amount)
+}
@@ -0,0 +1,88 @@
+// Upgrades stored data from the version it was saved at to the next one
+export type Migration = (data: unknown) => unknown
+
+export interface VersionedStorageOptions<T> {
+  key: string
+  // Current schema version; bump it whenever the stored shape changes
+  version: number
+  // Keyed by the version being upgraded from, e.g. `1` turns v1 data into v2
+  migrations?: Record<number, Migration>
+  // Final check on loaded data; return null to discard it
+  validate?: (data: unknown) => T | null
+}
+
+export interface VersionedStorage<T> {
+  load: () => T | null
+  save: (data: T) => void
+  clear: () => void
+}
+
+interface StoredEnvelope {
+  version: number
+  data: unknown
+}
+
+const isEnvelope = (value: unknown): value is StoredEnvelope =>
+  typeof value === "object" &&
+  value !== null &&
+  typeof (value as StoredEnvelope).version === "number" &&
+  "data" in value
+
+function getStorage(): Storage | null {
+  try {
+    return typeof window === "undefined" ? null : window.localStorage
+  } catch {
+    // Access throws when storage is disabled, e.g. in some private browsing modes
+    return null
+  }
+}
+
+/**
+ * Stores one JSON value under `key` together with its schema version. Loading runs
+ * the migrations needed to bring older data up to date; data from a newer version,
+ * data with a gap in its migration chain and unreadable data are all dropped, so
+ * callers only ever see the current shape or null. Every method is a no-op on the
+ * server and when storage is unavailable.
+ */
+export function createVersionedStorage<T>({
+  key,
+  version,
+  migrations = {},
+  validate = (data) => data as T,
+}: VersionedStorageOptions<T>): VersionedStorage<T> {
+  const clear = () => {
+    getStorage()?.removeItem(key)
+  }
+
+  return {
+    load: () => {
+      const raw = getStorage()?.getItem(key)
+      if (!raw) return null
+
+      try {
+        const stored: unknown = JSON.parse(raw)
+        if (!isEnvelope(stored) || stored.version > version) return null
+
+        let data = stored.data
+        for (let from = stored.version; from < version; from++) {
+          const migrate = migrations[from]
+          if (!migrate) return null
+          data = migrate(data)
+        }
+        return validate(data)
+      } catch {
+        return null
+      }
+    },
+
+    save: (data) => {
+      try {
+        getStorage()?.setItem(key, JSON.stringify({ version, data }))
+      } catch {
+        // Quota exceeded or storage disabled; persistence is best effort
+      }
+    },
+
+    clear,
+  }
+}
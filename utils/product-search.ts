@@ -0,0 +1,191 @@
+import type { Product } from "@/types/product"
+
+export type ProductSort = "featured" | "price-asc" | "price-desc" | "rating" | "name"
+
+export interface ProductFilters {
+  query: string
+  // A category id, or "all"
+  category: string
+  // Price bounds in the catalog currency (CATALOG_CURRENCY), not the one the visitor
+  // views prices in, so shared links filter the same; null leaves that end open
+  minPrice: number | null
+  maxPrice: number | null
+  minRating: number
+  // Products with any of these tags match
+  tags: string[]
+  onSale: boolean
+  sort: ProductSort
+}
+
+export const DEFAULT_PRODUCT_FILTERS: ProductFilters = {
+  query: "",
+  category: "all",
+  minPrice: null,
+  maxPrice: null,
+  minRating: 0,
+  tags: [],
+  onSale: false,
+  sort: "featured",
+}
+
+export const PRODUCT_SORT_OPTIONS: Record<ProductSort, string> = {
+  featured: "Featured",
+  "price-asc": "Price: low to high",
+  "price-desc": "Price: high to low",
+  rating: "Top rated",
+  name: "Name",
+}
+
+// Query parameter names for bookmarkable search results
+export const PRODUCT_SEARCH_PARAMS = {
+  query: "q",
+  category: "category",
+  minPrice: "min",
+  maxPrice: "max",
+  minRating: "rating",
+  tags: "tags",
+  onSale: "sale",
+  sort: "sort",
+} as const
+
+// Whole-unit bounds, in the catalog currency, that contain every product's price
+export function priceBounds(products: Product[]): [number, number] {
+  if (products.length === 0) return [0, 0]
+  const prices = products.map((product) => product.price)
+  return [Math.floor(Math.min(...prices)), Math.ceil(Math.max(...prices))]
+}
+
+// Every tag in the catalog, alphabetically
+export function collectTags(products: Product[]) {
+  return [...new Set(products.flatMap((product) => product.tags))].sort((a, b) => a.localeCompare(b))
+}
+
+function editDistance(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      )
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+const normalize = (text: string) => text.toLowerCase().normalize("NFKD").replace(/[^\p{L}\p{N}\s]/gu, " ")
+
+const tokenize = (text: string) => normalize(text).split(/\s+/).filter(Boolean)
+
+// Short words must match exactly; longer ones may have one or two typos
+const allowedTypos = (term: string) => (term.length < 4 ? 0 : term.length < 8 ? 1 : 2)
+
+function termMatches(term: string, word: string) {
+  if (word.includes(term)) return true
+  const typos = allowedTypos(term)
+  if (typos === 0) return false
+  // Compare against the start of the word too, so "monocrist" finds "monocrystalline"
+  return editDistance(term, word) <= typos || editDistance(term, word.slice(0, term.length)) <= typos
+}
+
+/**
+ * Whether every word of `query` appears in the product's name, description or tags,
+ * allowing for small typos ("pannel", "lithum"). An empty query matches everything.
+ */
+export function matchesQuery(product: Product, query: string) {
+  const terms = tokenize(query)
+  if (terms.length === 0) return true
+  const words = tokenize([product.name, product.description, ...product.tags].join(" "))
+  return terms.every((term) => words.some((word) => termMatches(term, word)))
+}
+
+const SORTERS: Record<ProductSort, ((a: Product, b: Product) => number) | null> = {
+  // Catalog order
+  featured: null,
+  "price-asc": (a, b) => a.price - b.price,
+  "price-desc": (a, b) => b.price - a.price,
+  rating: (a, b) => b.rating - a.rating,
+  name: (a, b) => a.name.localeCompare(b.name),
+}
+
+export function filterProducts(products: Product[], filters: ProductFilters) {
+  const matching = products.filter(
+    (product) =>
+      (filters.category === "all" || product.category === filters.category) &&
+      (filters.minPrice === null || product.price >= filters.minPrice) &&
+      (filters.maxPrice === null || product.price <= filters.maxPrice) &&
+      product.rating >= filters.minRating &&
+      (filters.tags.length === 0 || filters.tags.some((tag) => product.tags.includes(tag))) &&
+      (!filters.onSale || product.oldPrice !== undefined) &&
+      matchesQuery(product, filters.query),
+  )
+  const sorter = SORTERS[filters.sort]
+  return sorter ? [...matching].sort(sorter) : matching
+}
+
+// Number of filters narrowing the results, not counting sort order
+export function countActiveFilters(filters: ProductFilters) {
+  return [
+    filters.query.trim() !== "",
+    filters.category !== "all",
+    filters.minPrice !== null || filters.maxPrice !== null,
+    filters.minRating > 0,
+    filters.tags.length > 0,
+    filters.onSale,
+  ].filter(Boolean).length
+}
+
+function parseNumber(value: string | null) {
+  if (value === null || value.trim() === "") return undefined
+  const number = Number(value)
+  return Number.isFinite(number) && number >= 0 ? number : undefined
+}
+
+/**
+ * Writes the filters into `params`, replacing earlier search keys and leaving
+ * unrelated ones alone. Defaults are omitted so an unfiltered page keeps a clean URL.
+ */
+export function encodeProductFilters(filters: ProductFilters, params = new URLSearchParams()) {
+  const next = new URLSearchParams(params)
+  Object.values(PRODUCT_SEARCH_PARAMS).forEach((key) => next.delete(key))
+
+  const query = filters.query.trim()
+  if (query) next.set(PRODUCT_SEARCH_PARAMS.query, query)
+  if (filters.category !== "all") next.set(PRODUCT_SEARCH_PARAMS.category, filters.category)
+  if (filters.minPrice !== null) next.set(PRODUCT_SEARCH_PARAMS.minPrice, String(filters.minPrice))
+  if (filters.maxPrice !== null) next.set(PRODUCT_SEARCH_PARAMS.maxPrice, String(filters.maxPrice))
+  if (filters.minRating > 0) next.set(PRODUCT_SEARCH_PARAMS.minRating, String(filters.minRating))
+  if (filters.tags.length > 0) next.set(PRODUCT_SEARCH_PARAMS.tags, filters.tags.join(","))
+  if (filters.onSale) next.set(PRODUCT_SEARCH_PARAMS.onSale, "1")
+  if (filters.sort !== DEFAULT_PRODUCT_FILTERS.sort) next.set(PRODUCT_SEARCH_PARAMS.sort, filters.sort)
+
+  return next
+}
+
+/**
+ * Reads whatever filters `params` carries. Malformed values are dropped rather than
+ * rejected, so a hand-edited link still opens; unknown categories and tags are kept
+ * and simply match nothing.
+ */
+export function decodeProductFilters(params: URLSearchParams): ProductFilters {
+  const filters: ProductFilters = { ...DEFAULT_PRODUCT_FILTERS, tags: [] }
+
+  filters.query = params.get(PRODUCT_SEARCH_PARAMS.query) ?? ""
+  filters.category = params.get(PRODUCT_SEARCH_PARAMS.category) || "all"
+  filters.minPrice = parseNumber(params.get(PRODUCT_SEARCH_PARAMS.minPrice)) ?? null
+  filters.maxPrice = parseNumber(params.get(PRODUCT_SEARCH_PARAMS.maxPrice)) ?? null
+  filters.minRating = Math.min(5, parseNumber(params.get(PRODUCT_SEARCH_PARAMS.minRating)) ?? 0)
+  filters.tags = (params.get(PRODUCT_SEARCH_PARAMS.tags) ?? "")
+    .split(",")
+    .map((tag) => tag.trim())
+    .filter(Boolean)
+  filters.onSale = params.get(PRODUCT_SEARCH_PARAMS.onSale) === "1"
+
+  const sort = params.get(PRODUCT_SEARCH_PARAMS.sort) as ProductSort | null
+  if (sort && sort in PRODUCT_SORT_OPTIONS) filters.sort = sort
+
+  return filters
+}
@@ -0,0 +1,158 @@
+import type { Product } from "@/types/product"
+import type { CurrencyCode } from "@/types/money"
+import { CATALOG_CURRENCY } from "@/constants/currency"
+import { isValidEmail, isValidPhone } from "@/utils/contact/schema"
+import { convertMoney, formatMoney, money, roundMoney } from "@/utils/money"
+
+export interface QuoteCartItem {
+  productId: string
+  quantity: number
+}
+
+export interface QuoteLine {
+  productId: string
+  name: string
+  quantity: number
+  // Price before any discount; the old price when the product is on offer
+  listPrice: number
+  unitPrice: number
+  discount: number
+  total: number
+}
+
+// Every amount in a quote is in its `currency`
+export interface Quote {
+  lines: QuoteLine[]
+  // Sum of list prices
+  subtotal: number
+  discount: number
+  total: number
+  currency: CurrencyCode
+}
+
+export interface QuoteCustomer {
+  name: string
+  email: string
+  phone: string
+  company: string
+  notes: string
+}
+
+export type QuoteCustomerErrors = Partial<Record<keyof QuoteCustomer, string>>
+
+export const MAX_QUOTE_QUANTITY = 999
+// Most products a single quote can list
+export const MAX_QUOTE_ITEMS = 50
+
+export const EMPTY_QUOTE_CUSTOMER: QuoteCustomer = { name: "", email: "", phone: "", company: "", notes: "" }
+
+/**
+ * Prices a cart against the catalog, in `currency`. A product's `oldPrice` counts
+ * as its list price, so the difference to the current price shows up as a discount.
+ * Unit prices are converted and rounded first, so lines multiply out exactly. Items
+ * for products not in `products` are left out.
+ */
+export function buildQuote(
+  items: QuoteCartItem[],
+  products: Product[],
+  currency: CurrencyCode = CATALOG_CURRENCY,
+): Quote {
+  const round = (value: number) => roundMoney(value, currency)
+  const price = (amount: number) => round(convertMoney(money(amount, CATALOG_CURRENCY), currency).amount)
+  const lines: QuoteLine[] = []
+
+  for (const item of items) {
+    const product = products.find((candidate) => candidate.id === item.productId)
+    if (!product || item.quantity < 1) continue
+
+    const unitPrice = price(product.price)
+    const listPrice = product.oldPrice === undefined ? unitPrice : price(product.oldPrice)
+    lines.push({
+      productId: product.id,
+      name: product.name,
+      quantity: item.quantity,
+      listPrice,
+      unitPrice,
+      discount: round((listPrice - unitPrice) * item.quantity),
+      total: round(unitPrice * item.quantity),
+    })
+  }
+
+  const subtotal = round(lines.reduce((sum, line) => sum + line.listPrice * line.quantity, 0))
+  const discount = round(lines.reduce((sum, line) => sum + line.discount, 0))
+  return { lines, subtotal, discount, total: round(subtotal - discount), currency }
+}
+
+const readString = (source: Record<string, unknown>, key: string) =>
+  typeof source[key] === "string" ? (source[key] as string).trim() : ""
+
+export function validateQuoteCustomer(
+  input: unknown,
+): { data: QuoteCustomer; errors: null } | { data: null; errors: QuoteCustomerErrors } {
+  const source = typeof input === "object" && input !== null ? (input as Record<string, unknown>) : {}
+  const data: QuoteCustomer = {
+    name: readString(source, "name"),
+    email: readString(source, "email"),
+    phone: readString(source, "phone"),
+    company: readString(source, "company"),
+    notes: readString(source, "notes"),
+  }
+  const errors: QuoteCustomerErrors = {}
+
+  if (!data.name) errors.name = "Please enter your name"
+  else if (data.name.length > 100) errors.name = "Please keep this under 100 characters"
+  if (!data.email) errors.email = "Please enter your email address"
+  else if (!isValidEmail(data.email)) errors.email = "Please enter a valid email address"
+  if (data.phone && !isValidPhone(data.phone)) errors.phone = "Please enter a valid phone number"
+  if (data.company.length > 150) errors.company = "Please keep this under 150 characters"
+  if (data.notes.length > 2000) errors.notes = "Please keep this under 2000 characters"
+
+  return Object.keys(errors).length > 0 ? { data: null, errors } : { data, errors: null }
+}
+
+/**
+ * Checks the cart sent with a quote request. Returns the items, or a message when
+ * the cart is empty or too long, lists a product twice, or mentions unknown
+ * products or impossible quantities.
+ */
+export function validateQuoteItems(
+  input: unknown,
+  products: Product[],
+): { items: QuoteCartItem[]; error: null } | { items: null; error: string } {
+  if (!Array.isArray(input) || input.length === 0) return { items: null, error: "Your quote is empty" }
+  if (input.length > MAX_QUOTE_ITEMS) {
+    return { items: null, error: `A quote can list at most ${MAX_QUOTE_ITEMS} products` }
+  }
+
+  const items: QuoteCartItem[] = []
+  for (const entry of input) {
+    const { productId, quantity } = (entry ?? {}) as Partial<QuoteCartItem>
+    if (typeof productId !== "string" || !products.some((product) => product.id === productId)) {
+      return { items: null, error: "Your quote contains a product we no longer sell" }
+    }
+    if (items.some((item) => item.productId === productId)) {
+      return { items: null, error: "Your quote lists the same product more than once" }
+    }
+    if (!Number.isInteger(quantity) || quantity! < 1 || quantity! > MAX_QUOTE_QUANTITY) {
+      return { items: null, error: `Quantities must be whole numbers from 1 to ${MAX_QUOTE_QUANTITY}` }
+    }
+    items.push({ productId, quantity: quantity! })
+  }
+  return { items, error: null }
+}
+
+export function formatQuoteText(quote: Quote) {
+  const format = (value: number) => formatMoney(money(value, quote.currency))
+  return [
+    ...quote.lines.map(
+      (line) =>
+        `${line.quantity} x ${line.name} @ ${format(line.unitPrice)}` +
+        (line.discount > 0 ? ` (list ${format(line.listPrice)})` : "") +
+        ` = ${format(line.total)}`,
+    ),
+    "",
+    `Subtotal: ${format(quote.subtotal)}`,
+    `Discounts: -${format(quote.discount)}`,
+    `Total: ${format(quote.total)}`,
+  ].join("\n")
+}
@@ -0,0 +1,183 @@
+/**
+ * Battery Chemistry
+ *
+ * What a battery bank can do depends on what it's made of: the voltage it sits
+ * at, how deeply it may be discharged, how fast it may be charged and discharged,
+ * what the round trip costs, how heat and cold derate it and how quickly it wears
+ * out. A BatterySpec is derived from its chemistry's profile; the power flow runs
+ * against that spec after derating it for the bank's health and temperature.
+ */
+
+import type { BatteryChemistry, BatterySpec } from "./power-flow"
+
+export interface BatteryChemistryProfile {
+  name: string
+  // Nominal bank voltage, and resting voltage at the discharge floor and when full
+  nominalVoltage: number
+  floorVoltage: number
+  fullVoltage: number
+  // Volts lost per kW drawn, from internal resistance
+  sagPerKW: number
+  // Share of rated capacity that may be used (0-1)
+  depthOfDischarge: number
+  // Highest charge and discharge power as a multiple of capacity (C-rate)
+  maxChargeC: number
+  maxDischargeC: number
+  // Fraction of charged energy that can be discharged again (0-1)
+  roundTripEfficiency: number
+  // Above this state of charge the charger tapers off towards full
+  chargeTaperSoc: number
+  // Full power between the optimal temperatures, falling to none at the operating limits (°C)
+  optimalTemperature: [number, number]
+  operatingTemperature: [number, number]
+  // Equivalent full cycles, at 25°C, until capacity fades to END_OF_LIFE_SOH
+  cycleLife: number
+}
+
+// State of health at which a bank is considered worn out, in percent of rated capacity
+export const END_OF_LIFE_SOH = 80
+
+// 48 V banks, with datasheet figures for common products of each kind
+export const BATTERY_CHEMISTRIES: Record<BatteryChemistry, BatteryChemistryProfile> = {
+  lithium: {
+    name: "Lithium-Ion",
+    nominalVoltage: 51.2,
+    floorVoltage: 46.8,
+    fullVoltage: 54,
+    sagPerKW: 0.5,
+    depthOfDischarge: 0.9,
+    maxChargeC: 0.5,
+    maxDischargeC: 0.5,
+    roundTripEfficiency: 0.95,
+    chargeTaperSoc: 90,
+    optimalTemperature: [15, 35],
+    operatingTemperature: [-10, 55],
+    cycleLife: 6000,
+  },
+  flow: {
+    name: "Flow Battery",
+    nominalVoltage: 48,
+    floorVoltage: 46.8,
+    fullVoltage: 55,
+    sagPerKW: 0.8,
+    depthOfDischarge: 1,
+    maxChargeC: 0.25,
+    maxDischargeC: 0.25,
+    roundTripEfficiency: 0.75,
+    chargeTaperSoc: 100,
+    optimalTemperature: [15, 35],
+    operatingTemperature: [5, 40],
+    cycleLife: 15000,
+  },
+  standard: {
+    name: "Lead-Acid",
+    nominalVoltage: 48,
+    floorVoltage: 47,
+    fullVoltage: 51.2,
+    sagPerKW: 1,
+    depthOfDischarge: 0.5,
+    maxChargeC: 0.15,
+    maxDischargeC: 0.2,
+    roundTripEfficiency: 0.8,
+    chargeTaperSoc: 80,
+    optimalTemperature: [20, 30],
+    operatingTemperature: [-15, 50],
+    cycleLife: 1200,
+  },
+}
+
+// A bank of `capacityWh` rated capacity, with the limits its chemistry allows
+export function createBatterySpec(chemistry: BatteryChemistry, capacityWh: number, name?: string): BatterySpec {
+  const profile = BATTERY_CHEMISTRIES[chemistry]
+  return {
+    name: name ?? `${profile.name} ${(capacityWh / 1000).toFixed(1)}kWh`,
+    chemistry,
+    capacityWh,
+    minSoc: Math.round((1 - profile.depthOfDischarge) * 100),
+    maxChargeW: capacityWh * profile.maxChargeC,
+    maxDischargeW: capacityWh * profile.maxDischargeC,
+    roundTripEfficiency: profile.roundTripEfficiency,
+  }
+}
+
+export interface BatteryHealth {
+  // Equivalent full cycles: energy discharged so far over rated capacity
+  cycles: number
+  // Remaining capacity as a percent of rated
+  soh: number
+}
+
+// Capacity lost per equivalent full cycle at 25°C, in percent
+const fadePerCycle = (chemistry: BatteryChemistry) =>
+  (100 - END_OF_LIFE_SOH) / BATTERY_CHEMISTRIES[chemistry].cycleLife
+
+// Health of a bank that has been through `cycles` at room temperature
+export function batteryHealthAt(chemistry: BatteryChemistry, cycles = 0): BatteryHealth {
+  return { cycles, soh: Math.max(0, 100 - cycles * fadePerCycle(chemistry)) }
+}
+
+// Share of full power available at a temperature (0-1)
+export function temperatureDerating(chemistry: BatteryChemistry, temperature: number) {
+  const { optimalTemperature, operatingTemperature } = BATTERY_CHEMISTRIES[chemistry]
+  const [optimalLow, optimalHigh] = optimalTemperature
+  const [lowest, highest] = operatingTemperature
+  if (temperature < optimalLow) return Math.max(0, (temperature - lowest) / (optimalLow - lowest))
+  if (temperature > optimalHigh) return Math.max(0, (highest - temperature) / (highest - optimalHigh))
+  return 1
+}
+
+/**
+ * The spec as the bank can deliver it right now: faded capacity, power derated
+ * for temperature and a charger that tapers off as the bank nears full.
+ */
+export function deratedBatterySpec(spec: BatterySpec, health: BatteryHealth, temperature: number, soc: number) {
+  const { chargeTaperSoc } = BATTERY_CHEMISTRIES[spec.chemistry]
+  const derating = temperatureDerating(spec.chemistry, temperature)
+  const taper = soc > chargeTaperSoc ? Math.max(0.05, (100 - soc) / (100 - chargeTaperSoc)) : 1
+  return {
+    ...spec,
+    capacityWh: (spec.capacityWh * health.soh) / 100,
+    maxChargeW: spec.maxChargeW * derating * taper,
+    maxDischargeW: spec.maxDischargeW * derating,
+  }
+}
+
+const MS_PER_HOUR = 3_600_000
+
+// Heat speeds up wear: roughly twice as fast for every 10°C above 25°C
+const wearFactor = (temperature: number) => 2 ** (Math.max(0, temperature - 25) / 10)
+
+// Wear from one step, counting discharged energy (watts at the terminals, negative when discharging)
+export function ageBattery(
+  health: BatteryHealth,
+  spec: BatterySpec,
+  batteryWatts: number,
+  temperature: number,
+  dtMs: number,
+): BatteryHealth {
+  const dischargedWh = (Math.max(0, -batteryWatts) * dtMs) / MS_PER_HOUR
+  if (dischargedWh === 0) return health
+  const cycles = dischargedWh / spec.capacityWh
+  return {
+    cycles: health.cycles + cycles,
+    soh: Math.max(0, health.soh - cycles * fadePerCycle(spec.chemistry) * wearFactor(temperature)),
+  }
+}
+
+// State of charge after charging (positive watts) or discharging for one step
+export function socAfter(spec: BatterySpec, soc: number, batteryWatts: number, dtMs: number) {
+  const oneWayEfficiency = Math.sqrt(spec.roundTripEfficiency)
+  const stored = batteryWatts > 0 ? batteryWatts * oneWayEfficiency : batteryWatts / oneWayEfficiency
+  return soc + ((stored * dtMs) / MS_PER_HOUR / spec.capacityWh) * 100
+}
+
+// Terminal voltage: resting voltage across the usable range, sagging under discharge
+export function batteryTerminalVoltage(spec: BatterySpec, soc: number, batteryWatts: number) {
+  const { floorVoltage, fullVoltage, sagPerKW } = BATTERY_CHEMISTRIES[spec.chemistry]
+  const usable = (soc - spec.minSoc) / (100 - spec.minSoc)
+  const sag = (Math.max(0, -batteryWatts) / 1000) * sagPerKW
+  return floorVoltage + (fullVoltage - floorVoltage) * usable - sag
+}
+
+// Battery current in amps, positive while charging
+export const batteryCurrent = (batteryWatts: number, voltage: number) => (voltage > 0 ? batteryWatts / voltage : 0)
@@ -0,0 +1,413 @@
+/**
+ * Grid Model
+ *
+ * What the utility supply does over a week: scheduled load shedding from an
+ * outage calendar, unplanned outages drawn at random, and shorter voltage sags
+ * and frequency swings. All of it becomes events on the simulated clock, from
+ * which the voltage and frequency at the inverter's grid input can be read off at
+ * any moment. The week then repeats, so a schedule plays out the same way every week.
+ *
+ * Calendars are plain text, one rule per line, as a utility's published
+ * load-shedding timetable would be typed up:
+ *
+ *   # Comments start with a hash
+ *   mon,wed,fri 18:00-22:00 outage
+ *   daily 06:00-07:30
+ *   sat 12:00-12:20 sag 175
+ *   sun 09:00-09:05 frequency 47.5
+ *
+ * Days are mon-sun, "daily", "weekdays" or "weekends"; the kind defaults to an
+ * outage, and a time range that ends before it starts runs past midnight.
+ */
+
+import type { InverterMode } from "@/components/static-nodes/inverter/types"
+import { createSeededRandom } from "./random"
+import { MS_PER_DAY, MS_PER_HOUR } from "./clock"
+import { solvePowerFlow } from "./power-flow"
+import { batteryHealthAt, batteryTerminalVoltage, deratedBatterySpec } from "./battery"
+import { HOUSEHOLD_LOAD_PROFILE } from "./load-profile"
+import { pvOutputFromIrradiance } from "./solar"
+import type { ScenarioSystem, WeatherHour } from "./weather"
+import {
+  DEFAULT_SOURCE_PRIORITY,
+  PendingTransfer,
+  SourcePrioritySettings,
+  SourceTransferEvent,
+  selectSource,
+  sourcePermissions,
+  updateSource,
+} from "./source-priority"
+
+export const MS_PER_WEEK = 7 * MS_PER_DAY
+
+export type GridEventKind = "outage" | "voltage_sag" | "frequency_deviation"
+
+export interface GridEvent {
+  kind: GridEventKind
+  // Simulated ms since midnight at the start of the week (Monday)
+  start: number
+  end: number
+  // Volts during a sag, hertz during a frequency deviation
+  value?: number
+  source: "schedule" | "random"
+}
+
+// What the inverter sees on its grid input
+export interface GridCondition {
+  voltage: number
+  frequency: number
+  // The event behind an abnormal reading, if any
+  event: GridEventKind | null
+}
+
+export const NOMINAL_GRID: GridCondition = { voltage: 230, frequency: 50, event: null }
+
+// Input window the inverter accepts the grid within, as on common hybrid units in UPS range
+export const GRID_ACCEPTANCE = {
+  minVoltage: 170,
+  maxVoltage: 280,
+  minFrequency: 47,
+  maxFrequency: 53,
+}
+
+export const gridWithinLimits = ({ voltage, frequency }: GridCondition) =>
+  voltage >= GRID_ACCEPTANCE.minVoltage &&
+  voltage <= GRID_ACCEPTANCE.maxVoltage &&
+  frequency >= GRID_ACCEPTANCE.minFrequency &&
+  frequency <= GRID_ACCEPTANCE.maxFrequency
+
+/**
+ * The grid at a moment in the week. An outage outweighs a sag, and a sag a
+ * frequency deviation; of overlapping events of one kind the worst counts.
+ */
+export function gridConditionAt(events: readonly GridEvent[], time: number): GridCondition {
+  const weekTime = ((time % MS_PER_WEEK) + MS_PER_WEEK) % MS_PER_WEEK
+  const condition = { ...NOMINAL_GRID }
+
+  for (const event of events) {
+    if (weekTime < event.start || weekTime >= event.end) continue
+    if (event.kind === "outage") return { voltage: 0, frequency: 0, event: "outage" }
+    if (event.kind === "voltage_sag") {
+      const voltage = event.value ?? NOMINAL_GRID.voltage
+      if (condition.event !== "voltage_sag" || voltage < condition.voltage) {
+        condition.voltage = voltage
+        condition.event = "voltage_sag"
+      }
+    } else if (condition.event !== "voltage_sag") {
+      const frequency = event.value ?? NOMINAL_GRID.frequency
+      if (
+        condition.event !== "frequency_deviation" ||
+        Math.abs(frequency - NOMINAL_GRID.frequency) > Math.abs(condition.frequency - NOMINAL_GRID.frequency)
+      ) {
+        condition.frequency = frequency
+        condition.event = "frequency_deviation"
+      }
+    }
+  }
+  return condition
+}
+
+// Events that run past the end of the week also cover the start of the next
+function wrapWeek(events: GridEvent[]) {
+  const wrapped = events
+    .filter((event) => event.end > MS_PER_WEEK)
+    .map((event) => ({ ...event, start: event.start - MS_PER_WEEK, end: event.end - MS_PER_WEEK }))
+  return [...events, ...wrapped].sort((a, b) => a.start - b.start)
+}
+
+export interface GridScheduleEntry {
+  // Days of the week, 0 = Monday
+  days: number[]
+  // Hours of the day (0-24); an end before the start runs into the next day
+  start: number
+  end: number
+  kind: GridEventKind
+  value?: number
+}
+
+export interface GridScheduleIssue {
+  line: number
+  message: string
+}
+
+const WEEKDAYS = ["mon", "tue", "wed", "thu", "fri", "sat", "sun"]
+
+const DAY_GROUPS: Record<string, number[]> = {
+  daily: [0, 1, 2, 3, 4, 5, 6],
+  weekdays: [0, 1, 2, 3, 4],
+  weekends: [5, 6],
+}
+
+const KIND_KEYWORDS: Record<string, GridEventKind> = {
+  outage: "outage",
+  sag: "voltage_sag",
+  frequency: "frequency_deviation",
+}
+
+function parseDays(text: string) {
+  const group = DAY_GROUPS[text]
+  if (group) return group
+  const days = text.split(",").map((day) => WEEKDAYS.indexOf(day))
+  return days.includes(-1) ? null : days
+}
+
+function parseClock(text: string) {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(text)
+  if (!match) return null
+  const hours = Number(match[1]) + Number(match[2]) / 60
+  return Number(match[2]) < 60 && hours <= 24 ? hours : null
+}
+
+/**
+ * Reads an outage calendar. Either every line parses and the schedule comes
+ * back, or it doesn't and the issues say which lines to fix.
+ */
+export function parseGridSchedule(text: string): {
+  schedule: GridScheduleEntry[] | null
+  issues: GridScheduleIssue[]
+} {
+  const schedule: GridScheduleEntry[] = []
+  const issues: GridScheduleIssue[] = []
+
+  text.split(/\r?\n/).forEach((raw, index) => {
+    const line = index + 1
+    const content = raw.replace(/#.*/, "").trim().toLowerCase()
+    if (!content) return
+
+    const [dayText, rangeText, kindText = "outage", valueText, ...extra] = content.split(/\s+/)
+    const days = parseDays(dayText)
+    const [start, end] = (rangeText ?? "").split("-").map(parseClock)
+    const kind = KIND_KEYWORDS[kindText]
+    const value = valueText === undefined ? undefined : Number(valueText)
+
+    if (!days) {
+      issues.push({ line, message: `Unknown day "${dayText}"` })
+    } else if (start == null || end == null || start === end) {
+      issues.push({ line, message: "Expected a time range such as 18:00-22:00" })
+    } else if (!kind || extra.length > 0 || (kind === "outage" && valueText !== undefined)) {
+      issues.push({ line, message: `Expected "outage", "sag <volts>" or "frequency <hertz>" after the times` })
+    } else if (kind !== "outage" && (value === undefined || !Number.isFinite(value) || value <= 0)) {
+      const example = kind === "voltage_sag" ? 175 : 47.5
+      issues.push({ line, message: `A ${kindText} needs a level, e.g. "${kindText} ${example}"` })
+    } else {
+      schedule.push({ days, start, end, kind, value: kind === "outage" ? undefined : value })
+    }
+  })
+
+  return issues.length > 0 ? { schedule: null, issues } : { schedule, issues }
+}
+
+// The calendar laid out over one week
+export function scheduleEvents(schedule: readonly GridScheduleEntry[]): GridEvent[] {
+  return schedule.flatMap((entry) =>
+    entry.days.map((day) => {
+      const start = day * MS_PER_DAY + entry.start * MS_PER_HOUR
+      const hours = entry.end > entry.start ? entry.end - entry.start : 24 - entry.start + entry.end
+      const event: GridEvent = { kind: entry.kind, start, end: start + hours * MS_PER_HOUR, source: "schedule" }
+      return entry.value === undefined ? event : { ...event, value: entry.value }
+    }),
+  )
+}
+
+export interface RandomGridSettings {
+  // Unplanned outages per week, and how long one lasts on average in hours
+  outagesPerWeek: number
+  meanOutageHours: number
+  // Voltage sags and frequency excursions per week
+  sagsPerWeek: number
+  frequencyEventsPerWeek: number
+}
+
+export const DEFAULT_RANDOM_GRID: RandomGridSettings = {
+  outagesPerWeek: 3,
+  meanOutageHours: 2,
+  sagsPerWeek: 5,
+  frequencyEventsPerWeek: 2,
+}
+
+const HOURS_PER_WEEK = 7 * 24
+const MS_PER_MINUTE = 60_000
+// Outage lengths are drawn from an exponential distribution, clipped to this range
+const MIN_OUTAGE_MS = 5 * MS_PER_MINUTE
+const MAX_OUTAGE_MS = MS_PER_DAY
+
+/**
+ * Unplanned events for one week. Each hour has an even chance of starting one of
+ * each kind, so events arrive at random at the average rate set. Sags and
+ * deviations are drawn both inside and outside the inverter's acceptance window.
+ */
+export function randomGridEvents(settings: RandomGridSettings, seed: number): GridEvent[] {
+  const random = createSeededRandom(seed)
+  const events: GridEvent[] = []
+
+  for (let hour = 0; hour < HOURS_PER_WEEK; hour++) {
+    const hourStart = hour * MS_PER_HOUR
+    if (random.chance(settings.outagesPerWeek / HOURS_PER_WEEK)) {
+      const start = hourStart + random.between(0, MS_PER_HOUR)
+      const length = -Math.log(1 - random.next()) * settings.meanOutageHours * MS_PER_HOUR
+      const duration = Math.min(MAX_OUTAGE_MS, Math.max(MIN_OUTAGE_MS, length))
+      events.push({ kind: "outage", start, end: start + duration, source: "random" })
+    }
+    if (random.chance(settings.sagsPerWeek / HOURS_PER_WEEK)) {
+      const start = hourStart + random.between(0, MS_PER_HOUR)
+      const duration = random.between(0.5, 15) * MS_PER_MINUTE
+      const voltage = Math.round(random.between(140, 205))
+      events.push({ kind: "voltage_sag", start, end: start + duration, value: voltage, source: "random" })
+    }
+    if (random.chance(settings.frequencyEventsPerWeek / HOURS_PER_WEEK)) {
+      const start = hourStart + random.between(0, MS_PER_HOUR)
+      const duration = random.between(10_000, 3 * MS_PER_MINUTE)
+      const deviation = random.between(1.5, 4) * (random.chance(0.5) ? -1 : 1)
+      events.push({
+        kind: "frequency_deviation",
+        start,
+        end: start + duration,
+        value: Math.round((NOMINAL_GRID.frequency + deviation) * 10) / 10,
+        source: "random",
+      })
+    }
+  }
+  return events
+}
+
+// The week's events from a calendar and, when set, random draws on top of it
+export function buildGridEvents(
+  schedule: readonly GridScheduleEntry[],
+  random: RandomGridSettings | null,
+  seed = 1,
+): GridEvent[] {
+  return wrapWeek([...scheduleEvents(schedule), ...(random ? randomGridEvents(random, seed) : [])])
+}
+
+export interface GridScenarioSystem extends ScenarioSystem {
+  sourcePriority?: SourcePrioritySettings
+}
+
+export interface GridScenarioHour {
+  hour: number
+  // Minutes of the hour the grid was out of limits, and of those, minutes the loads were fully served
+  outageMinutes: number
+  coveredMinutes: number
+  // Averages over the hour
+  pvWatts: number
+  loadWatts: number
+  gridImportWatts: number
+  unservedWatts: number
+  // State of charge at the end of the hour
+  batterySoc: number
+}
+
+export interface GridScenarioReport {
+  hours: GridScenarioHour[]
+  // Time the grid was out of limits, and the part of it the system kept the lights on through
+  outageHours: number
+  coveredHours: number
+  transfers: SourceTransferEvent[]
+  unservedWh: number
+  gridImportWh: number
+  minSoc: number
+}
+
+// The report steps a minute at a time so short outages and sags still register
+const STEP_MS = MS_PER_MINUTE
+const STEPS_PER_HOUR = MS_PER_HOUR / STEP_MS
+// Below this many watts short, the loads count as served
+const SERVED_TOLERANCE_WATTS = 1
+
+/**
+ * Runs a grid-tied system through the grid's events alongside a weather series,
+ * switching sources the way the inverter's priority settings would, and counts
+ * how much of the outage time it covered.
+ */
+export function runGridScenario(
+  events: readonly GridEvent[],
+  weather: readonly WeatherHour[],
+  system: GridScenarioSystem,
+): GridScenarioReport {
+  const settings = system.sourcePriority ?? DEFAULT_SOURCE_PRIORITY
+  const profile = system.loadProfile ?? HOUSEHOLD_LOAD_PROFILE
+  const profileTotal = profile.reduce((sum, share) => sum + share, 0)
+  const health = batteryHealthAt(system.battery.chemistry)
+
+  let soc = system.initialSoc
+  let source: { mode: InverterMode; transferPending: PendingTransfer | null } = {
+    mode: gridWithinLimits(gridConditionAt(events, 0)) ? "normal" : "battery",
+    transferPending: null,
+  }
+  const transfers: SourceTransferEvent[] = []
+
+  const hours = weather.map((hour): GridScenarioHour => {
+    const demand = profileTotal > 0 ? (system.dailyLoadWh * profile[hour.hour % 24]) / profileTotal : 0
+    const pvAvailable = pvOutputFromIrradiance(system.pvRatedWatts, hour.irradiance, hour.ambientTemperature)
+    const totals = { outageMinutes: 0, coveredMinutes: 0, pvWh: 0, gridWh: 0, unservedWh: 0 }
+
+    for (let step = 0; step < STEPS_PER_HOUR; step++) {
+      const time = hour.hour * MS_PER_HOUR + step * STEP_MS
+      const gridUp = gridWithinLimits(gridConditionAt(events, time))
+      // A grid that drops is bridged by the battery within milliseconds, well before the next step
+      const permissions = sourcePermissions(
+        settings,
+        source.mode === "normal" && !gridUp ? "battery" : source.mode,
+        pvAvailable,
+      )
+      const battery = deratedBatterySpec(system.battery, health, hour.ambientTemperature, soc)
+      const flow = solvePowerFlow(
+        {
+          pvWatts: pvAvailable,
+          loadWatts: demand,
+          inverterEfficiency: system.inverterEfficiency,
+          inverterRatedWatts: system.inverterRatedWatts,
+          battery,
+          batterySoc: soc,
+          solarConnected: true,
+          batteryConnected: true,
+          gridConnected: gridUp && permissions.useGrid,
+          allowBatteryDischarge: permissions.allowBatteryDischarge,
+          gridChargeWatts: permissions.gridChargeWatts,
+        },
+        STEP_MS,
+      )
+      soc = flow.batterySoc
+
+      const selection = selectSource(settings, source.mode, {
+        pvWatts: flow.pvWatts + flow.curtailedWatts,
+        loadWatts: demand,
+        batteryConnected: true,
+        batteryVoltage: batteryTerminalVoltage(battery, soc, flow.batteryWatts),
+        gridAvailable: gridUp,
+      })
+      const next = updateSource(source, selection, time)
+      source = { mode: next.mode, transferPending: next.transferPending }
+      if (next.event) transfers.push(next.event)
+
+      if (!gridUp) {
+        totals.outageMinutes++
+        if (flow.unservedWatts < SERVED_TOLERANCE_WATTS) totals.coveredMinutes++
+      }
+      totals.pvWh += flow.pvWatts / STEPS_PER_HOUR
+      totals.gridWh += flow.gridImportWatts / STEPS_PER_HOUR
+      totals.unservedWh += flow.unservedWatts / STEPS_PER_HOUR
+    }
+
+    return {
+      hour: hour.hour,
+      outageMinutes: totals.outageMinutes,
+      coveredMinutes: totals.coveredMinutes,
+      pvWatts: totals.pvWh,
+      loadWatts: demand,
+      gridImportWatts: totals.gridWh,
+      unservedWatts: totals.unservedWh,
+      batterySoc: soc,
+    }
+  })
+
+  return {
+    hours,
+    outageHours: hours.reduce((sum, hour) => sum + hour.outageMinutes, 0) / 60,
+    coveredHours: hours.reduce((sum, hour) => sum + hour.coveredMinutes, 0) / 60,
+    transfers,
+    unservedWh: hours.reduce((sum, hour) => sum + hour.unservedWatts, 0),
+    gridImportWh: hours.reduce((sum, hour) => sum + hour.gridImportWatts, 0),
+    minSoc: hours.reduce((min, hour) => Math.min(min, hour.batterySoc), system.initialSoc),
+  }
+}
@@ -0,0 +1,13 @@
+export * from "./clock"
+export * from "./random"
+export * from "./engine"
+export * from "./inverter-model"
+export * from "./inverter-faults"
+export * from "./source-priority"
+export * from "./solar"
+export * from "./power-flow"
+export * from "./battery"
+export * from "./load-profile"
+export * from "./weather"
+export * from "./grid"
+export * from "./recorder"
@@ -0,0 +1,262 @@
+/**
+ * Inverter Faults
+ *
+ * The named faults the simulated inverter can raise, modelled on the error codes
+ * of common hybrid inverters. Each fault trips when its condition has held for a
+ * while and then either recovers on its own once the condition has been gone long
+ * enough, or latches until someone presses RESET on the unit. Everything here is
+ * pure: the inverter model feeds it one reading per tick.
+ */
+
+export type InverterFaultId =
+  | "over_temperature"
+  | "overload"
+  | "battery_under_voltage"
+  | "grid_loss"
+  | "pv_over_voltage"
+  | "fan_failure"
+
+// Warnings keep the inverter running; faults act on it as `effect` says
+export type InverterFaultSeverity = "warning" | "fault"
+
+// What the inverter does while the fault is active
+export type InverterFaultEffect = "none" | "stop_output" | "disconnect_pv"
+
+export type InverterFaultRecovery =
+  // Clears by itself once the condition has been gone for `afterMs`
+  | { policy: "auto"; afterMs: number }
+  // Stays until RESET is pressed; if the condition is still there it trips again
+  | { policy: "latching" }
+
+// One tick's worth of readings the fault conditions are checked against
+export interface InverterFaultReading {
+  temperature: number
+  // Power the loads ask of the inverter, as a share of its rating, in percent
+  loadDemandPercent: number
+  batteryConnected: boolean
+  batteryVoltage: number
+  batteryDischarging: boolean
+  // Whether the inverter is wired to the grid, and whether the utility is live
+  gridExpected: boolean
+  gridConnected: boolean
+  pvVoltage: number
+  fanStalled: boolean
+}
+
+export interface InverterFaultDefinition {
+  id: InverterFaultId
+  // As shown on the LCD, e.g. "F01"
+  code: string
+  name: string
+  severity: InverterFaultSeverity
+  effect: InverterFaultEffect
+  recovery: InverterFaultRecovery
+  // How long the condition must hold before the fault trips
+  tripAfterMs: number
+  trips: (reading: InverterFaultReading) => boolean
+  // A reading so far out that the fault trips without waiting out tripAfterMs
+  tripsImmediately?: (reading: InverterFaultReading) => boolean
+  // Recovery uses its own threshold, so a reading hovering at the limit doesn't chatter
+  recovered: (reading: InverterFaultReading) => boolean
+  // What a technician should check, for training material and the error screen
+  action: string
+}
+
+// Rated limits of the simulated 48 V hybrid inverter
+export const INVERTER_LIMITS = {
+  maxTemperature: 80,
+  resumeTemperature: 60,
+  overloadPercent: 110,
+  // Demand the inverter can't ride through even for a moment, such as a large load starting
+  surgePercent: 150,
+  batteryCutoffVoltage: 46.5,
+  batteryResumeVoltage: 48,
+  maxPvVoltage: 145,
+  resumePvVoltage: 135,
+}
+
+export const INVERTER_FAULTS: Record<InverterFaultId, InverterFaultDefinition> = {
+  over_temperature: {
+    id: "over_temperature",
+    code: "F01",
+    name: "Over-temperature",
+    severity: "fault",
+    effect: "stop_output",
+    recovery: { policy: "auto", afterMs: 30_000 },
+    tripAfterMs: 0,
+    trips: (reading) => reading.temperature >= INVERTER_LIMITS.maxTemperature,
+    recovered: (reading) => reading.temperature <= INVERTER_LIMITS.resumeTemperature,
+    action: "Check ventilation around the unit and that the fan turns. Output resumes once it has cooled.",
+  },
+  overload: {
+    id: "overload",
+    code: "F02",
+    name: "Overload",
+    severity: "fault",
+    effect: "stop_output",
+    recovery: { policy: "latching" },
+    tripAfterMs: 5_000,
+    trips: (reading) => reading.loadDemandPercent >= INVERTER_LIMITS.overloadPercent,
+    tripsImmediately: (reading) => reading.loadDemandPercent >= INVERTER_LIMITS.surgePercent,
+    recovered: (reading) => reading.loadDemandPercent < 100,
+    action: "Switch off large loads such as stoves or pumps, then press RESET.",
+  },
+  battery_under_voltage: {
+    id: "battery_under_voltage",
+    code: "F03",
+    name: "Battery under-voltage",
+    severity: "fault",
+    effect: "stop_output",
+    recovery: { policy: "auto", afterMs: 10_000 },
+    tripAfterMs: 2_000,
+    trips: (reading) =>
+      reading.batteryConnected &&
+      reading.batteryDischarging &&
+      reading.batteryVoltage <= INVERTER_LIMITS.batteryCutoffVoltage,
+    recovered: (reading) => !reading.batteryConnected || reading.batteryVoltage >= INVERTER_LIMITS.batteryResumeVoltage,
+    action: "Let solar or the grid recharge the battery. Output resumes once its voltage recovers.",
+  },
+  grid_loss: {
+    id: "grid_loss",
+    code: "F04",
+    name: "Grid loss",
+    severity: "warning",
+    effect: "none",
+    recovery: { policy: "auto", afterMs: 5_000 },
+    tripAfterMs: 1_000,
+    trips: (reading) => reading.gridExpected && !reading.gridConnected,
+    recovered: (reading) => !reading.gridExpected || reading.gridConnected,
+    action: "The utility supply is down; loads run from solar and battery until it returns.",
+  },
+  pv_over_voltage: {
+    id: "pv_over_voltage",
+    code: "F05",
+    name: "PV over-voltage",
+    severity: "fault",
+    effect: "disconnect_pv",
+    recovery: { policy: "auto", afterMs: 15_000 },
+    tripAfterMs: 0,
+    trips: (reading) => reading.pvVoltage > INVERTER_LIMITS.maxPvVoltage,
+    recovered: (reading) => reading.pvVoltage <= INVERTER_LIMITS.resumePvVoltage,
+    action: "The PV string's open-circuit voltage is above the input limit. Rewire with fewer panels in series.",
+  },
+  fan_failure: {
+    id: "fan_failure",
+    code: "F06",
+    name: "Fan failure",
+    severity: "fault",
+    effect: "none",
+    recovery: { policy: "latching" },
+    tripAfterMs: 3_000,
+    trips: (reading) => reading.fanStalled,
+    recovered: (reading) => !reading.fanStalled,
+    action: "Clear or replace the fan, then press RESET. The unit overheats under load without it.",
+  },
+}
+
+export interface ActiveInverterFault {
+  id: InverterFaultId
+  raisedAt: number
+  // When the condition went away, while an auto-recovering fault waits to clear
+  clearingSince: number | null
+}
+
+export type InverterFaultEvent =
+  | { type: "fault_raised"; fault: InverterFaultId; time: number }
+  | { type: "fault_cleared"; fault: InverterFaultId; time: number; by: "recovery" | "reset" }
+
+export interface InverterFaultState {
+  faults: ActiveInverterFault[]
+  // When each not-yet-tripped condition was first seen
+  faultPending: Partial<Record<InverterFaultId, number>>
+  // Most recent last, capped at FAULT_LOG_LIMIT
+  faultLog: InverterFaultEvent[]
+}
+
+export const FAULT_LOG_LIMIT = 50
+
+export const INITIAL_FAULT_STATE: InverterFaultState = { faults: [], faultPending: {}, faultLog: [] }
+
+const FAULT_ORDER = Object.keys(INVERTER_FAULTS) as InverterFaultId[]
+
+const appendLog = (log: InverterFaultEvent[], events: InverterFaultEvent[]) =>
+  events.length === 0 ? log : [...log, ...events].slice(-FAULT_LOG_LIMIT)
+
+/**
+ * Advances every fault by one reading. `forced` faults trip as if their condition
+ * held, which is how training scenarios stage a fault on demand.
+ */
+export function updateFaults(
+  current: InverterFaultState,
+  reading: InverterFaultReading,
+  time: number,
+  forced: readonly InverterFaultId[] = [],
+): { state: InverterFaultState; events: InverterFaultEvent[] } {
+  const events: InverterFaultEvent[] = []
+  const faults: ActiveInverterFault[] = []
+  const faultPending: Partial<Record<InverterFaultId, number>> = {}
+
+  for (const id of FAULT_ORDER) {
+    const definition = INVERTER_FAULTS[id]
+    const isForced = forced.includes(id)
+    const active = current.faults.find((fault) => fault.id === id)
+
+    if (active) {
+      if (definition.recovery.policy === "latching") {
+        faults.push(active)
+        continue
+      }
+      if (isForced || !definition.recovered(reading)) {
+        faults.push({ ...active, clearingSince: null })
+        continue
+      }
+      const clearingSince = active.clearingSince ?? time
+      if (time - clearingSince >= definition.recovery.afterMs) {
+        events.push({ type: "fault_cleared", fault: id, time, by: "recovery" })
+      } else {
+        faults.push({ ...active, clearingSince })
+      }
+      continue
+    }
+
+    if (!isForced && !definition.trips(reading)) continue
+    const since = current.faultPending[id] ?? time
+    if (time - since >= definition.tripAfterMs || definition.tripsImmediately?.(reading)) {
+      faults.push({ id, raisedAt: time, clearingSince: null })
+      events.push({ type: "fault_raised", fault: id, time })
+    } else {
+      faultPending[id] = since
+    }
+  }
+
+  return { state: { faults, faultPending, faultLog: appendLog(current.faultLog, events) }, events }
+}
+
+// Clears latched faults, as pressing RESET on the unit does
+export function resetLatchedFaults(
+  current: InverterFaultState,
+  time: number,
+): { state: InverterFaultState; events: InverterFaultEvent[] } {
+  const events: InverterFaultEvent[] = current.faults
+    .filter((fault) => INVERTER_FAULTS[fault.id].recovery.policy === "latching")
+    .map((fault) => ({ type: "fault_cleared", fault: fault.id, time, by: "reset" }))
+  const cleared = new Set(events.map((event) => event.fault))
+
+  return {
+    state: {
+      ...current,
+      faults: current.faults.filter((fault) => !cleared.has(fault.id)),
+      faultLog: appendLog(current.faultLog, events),
+    },
+    events,
+  }
+}
+
+// How the active faults change what the inverter does this tick
+export function faultEffects(faults: ActiveInverterFault[]) {
+  const effects = faults.map((fault) => INVERTER_FAULTS[fault.id].effect)
+  return {
+    outputStopped: effects.includes("stop_output"),
+    pvDisconnected: effects.includes("disconnect_pv"),
+  }
+}
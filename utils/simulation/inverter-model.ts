@@ -0,0 +1,281 @@
+/**
+ * Inverter Model
+ *
+ * Pure per-tick physics for the inverter: temperature, fan speed, frequencies,
+ * voltages, faults and source transfers. Battery level, load and the energy counter
+ * are read off the shared power flow, and the utility supply off the grid model,
+ * rather than invented here; fault rules live in inverter-faults and source
+ * selection in source-priority.
+ * Randomness comes only from the engine's seeded generator, so the same seed
+ * reproduces the same readings and faults.
+ */
+
+import type { InverterState } from "@/components/static-nodes/inverter/types"
+import type { TickContext } from "./engine"
+import type { BatterySpec, PowerFlowResult } from "./power-flow"
+import { BatteryHealth, batteryCurrent, batteryTerminalVoltage } from "./battery"
+import { GridCondition, NOMINAL_GRID, gridWithinLimits } from "./grid"
+import {
+  INVERTER_FAULTS,
+  InverterFaultEvent,
+  InverterFaultId,
+  resetLatchedFaults,
+  updateFaults,
+} from "./inverter-faults"
+import {
+  DEFAULT_SOURCE_PRIORITY,
+  SourcePrioritySettings,
+  SourceTransferEvent,
+  TRANSFER_LOG_LIMIT,
+  selectSource,
+  updateSource,
+} from "./source-priority"
+
+// The inverter advances once per simulated second
+export const INVERTER_TICK_MS = 1000
+
+export type InverterModelState = Pick<
+  InverterState,
+  | "gridConnected"
+  | "solarConnected"
+  | "batteryConnected"
+  | "temperature"
+  | "loadPercentage"
+  | "inputFrequency"
+  | "outputFrequency"
+  | "batteryLevel"
+  | "batteryCharging"
+  | "totalEnergyGenerated"
+  | "fanSpeed"
+  | "mode"
+  | "gridAvailable"
+  | "gridVoltage"
+  | "transferPending"
+  | "transferLog"
+  | "batteryVoltage"
+  | "batteryCurrent"
+  | "batterySoh"
+  | "batteryCycles"
+  | "pvVoltage"
+  | "fanStalled"
+  | "faultCondition"
+  | "faults"
+  | "faultPending"
+  | "faultLog"
+  | "faultResetRequested"
+>
+
+export type InverterModelEvent = InverterFaultEvent | SourceTransferEvent
+
+// The power flow solved for this tick, the inverter rating it was solved against and the battery it ran on
+export interface InverterPowerInput {
+  flow: PowerFlowResult
+  ratedWatts: number
+  battery: BatterySpec
+  batteryHealth: BatteryHealth
+}
+
+export interface InverterStepOptions {
+  sourcePriority?: SourcePrioritySettings
+  // Faults that trip regardless of the readings, for training scenarios that stage one
+  forcedFaults?: readonly InverterFaultId[]
+  // The utility supply at the grid input this tick
+  grid?: GridCondition
+}
+
+export interface InverterStepResult {
+  state: InverterModelState
+  events: InverterModelEvent[]
+}
+
+const MODEL_KEYS = [
+  "gridConnected",
+  "solarConnected",
+  "batteryConnected",
+  "temperature",
+  "loadPercentage",
+  "inputFrequency",
+  "outputFrequency",
+  "batteryLevel",
+  "batteryCharging",
+  "totalEnergyGenerated",
+  "fanSpeed",
+  "mode",
+  "gridAvailable",
+  "gridVoltage",
+  "transferPending",
+  "transferLog",
+  "batteryVoltage",
+  "batteryCurrent",
+  "batterySoh",
+  "batteryCycles",
+  "pvVoltage",
+  "fanStalled",
+  "faultCondition",
+  "faults",
+  "faultPending",
+  "faultLog",
+  "faultResetRequested",
+] as const satisfies readonly (keyof InverterModelState)[]
+
+// Copies only the simulated fields, leaving UI state such as hover or brightness behind
+export function toInverterModelState(state: InverterModelState): InverterModelState {
+  const picked = {} as Record<(typeof MODEL_KEYS)[number], unknown>
+  MODEL_KEYS.forEach((key) => {
+    picked[key] = state[key]
+  })
+  return picked as InverterModelState
+}
+
+const MS_PER_HOUR = 3_600_000
+const AMBIENT_TEMPERATURE = 35
+// Chance per running tick that the cooling fan seizes
+const FAN_STALL_PROBABILITY = 0.0002
+
+// PV string voltage at the maximum power point and open circuit
+const PV_MPP_VOLTAGE = 105
+const PV_OPEN_CIRCUIT_VOLTAGE = 128
+
+// The string sits near its MPP while its power is used, and drifts towards open circuit when curtailed
+function targetPvVoltage(flow: PowerFlowResult) {
+  const available = flow.pvWatts + flow.curtailedWatts
+  if (available <= 0) return 0
+  const used = flow.pvWatts / available
+  return PV_OPEN_CIRCUIT_VOLTAGE - (PV_OPEN_CIRCUIT_VOLTAGE - PV_MPP_VOLTAGE) * used
+}
+
+export function calculateFanSpeed(temperature: number, random: TickContext["random"]) {
+  if (temperature > 65) return 100
+  if (temperature > 55) return 80 + Math.round(random.next() * 5)
+  if (temperature > 45) return 60 + Math.round(random.next() * 5)
+  if (temperature > 40) return 40 + Math.round(random.next() * 5)
+  return 20 + Math.round(random.next() * 5)
+}
+
+// Only faults, not warnings, light the fault LED and sound the alarm
+const hasFault = (state: Pick<InverterModelState, "faults">) =>
+  state.faults.some((fault) => INVERTER_FAULTS[fault.id].severity === "fault")
+
+/**
+ * Advances the inverter by one tick. The source chosen at the end of the tick is
+ * the one the power flow draws on during the next.
+ */
+export function stepInverter(
+  current: InverterModelState,
+  inverterOn: boolean,
+  { time, random, dtMs }: TickContext,
+  power: InverterPowerInput | null,
+  { sourcePriority = DEFAULT_SOURCE_PRIORITY, forcedFaults = [], grid = NOMINAL_GRID }: InverterStepOptions = {},
+): InverterStepResult {
+  const events: InverterModelEvent[] = []
+  const next = toInverterModelState(current)
+
+  // RESET clears latched faults and frees a seized fan
+  if (current.faultResetRequested) {
+    const reset = resetLatchedFaults(current, time)
+    Object.assign(next, reset.state)
+    events.push(...reset.events)
+    next.fanStalled = false
+    next.faultResetRequested = false
+    next.faultCondition = hasFault(next)
+  }
+
+  if (!inverterOn || !power) {
+    // Passive cooldown towards ambient
+    next.temperature = Math.max(
+      current.temperature - (current.temperature - AMBIENT_TEMPERATURE) / 10,
+      AMBIENT_TEMPERATURE,
+    )
+    return { state: next, events }
+  }
+
+  const { flow, ratedWatts, battery, batteryHealth } = power
+
+  // Load is what the inverter actually delivers, as a share of its rating
+  next.loadPercentage = Math.round((flow.inverterOutputWatts / ratedWatts) * 100)
+
+  if (!next.fanStalled && random.chance(FAN_STALL_PROBABILITY)) {
+    next.fanStalled = true
+  }
+
+  // Temperature chases a load-dependent target, limited by heating and cooling rates.
+  // Without the fan the unit runs much hotter and only sheds heat through its case.
+  const loadFactor = next.loadPercentage / 100
+  const coolingEffect = next.fanStalled ? 0.1 : current.fanSpeed / 100
+  const targetTemp = AMBIENT_TEMPERATURE + loadFactor * (next.fanStalled ? 60 : 30) + random.between(-1, 1)
+  const heatRate = loadFactor * 1.5
+  const coolRate = coolingEffect * 2.5
+  next.temperature =
+    current.temperature < targetTemp
+      ? Math.min(current.temperature + heatRate, targetTemp)
+      : Math.max(current.temperature - coolRate, targetTemp)
+  next.fanSpeed = next.fanStalled ? 0 : calculateFanSpeed(next.temperature, random)
+
+  // PV energy harvested this tick, in kWh
+  next.totalEnergyGenerated = current.totalEnergyGenerated + (flow.pvWatts * dtMs) / MS_PER_HOUR / 1000
+
+  if (current.batteryConnected) {
+    next.batteryLevel = flow.batterySoc
+    next.batteryCharging = flow.batteryWatts > 0
+    next.batteryVoltage = batteryTerminalVoltage(battery, flow.batterySoc, flow.batteryWatts)
+    next.batteryCurrent = batteryCurrent(flow.batteryWatts, next.batteryVoltage)
+    next.batterySoh = batteryHealth.soh
+    next.batteryCycles = batteryHealth.cycles
+  }
+
+  // The string voltage settles over a few seconds rather than jumping
+  next.pvVoltage = current.pvVoltage + (targetPvVoltage(flow) - current.pvVoltage) * 0.2
+
+  // A grid outside the acceptance window counts as lost, just as an outage does
+  next.gridAvailable = gridWithinLimits(grid)
+  next.gridVoltage = current.gridConnected && grid.voltage > 0 ? grid.voltage + random.between(-2, 2) : 0
+
+  // Grid input jitters around its frequency; DC sources have no input frequency
+  next.inputFrequency =
+    current.mode === "normal" && current.gridConnected && next.gridAvailable
+      ? grid.frequency + random.between(-0.2, 0.2)
+      : 0
+
+  if (current.outputFrequency > 0) {
+    next.outputFrequency = random.between(49.9, 50.1)
+  }
+
+  // The loads' full demand counts towards overload, even the part the inverter couldn't serve
+  const demandWatts = flow.loadWatts + flow.unservedWatts
+  const faults = updateFaults(
+    next,
+    {
+      temperature: next.temperature,
+      loadDemandPercent: (demandWatts / ratedWatts) * 100,
+      batteryConnected: current.batteryConnected,
+      batteryVoltage: next.batteryVoltage,
+      batteryDischarging: flow.batteryWatts < 0,
+      gridExpected: current.gridConnected,
+      gridConnected: next.gridAvailable,
+      pvVoltage: next.pvVoltage,
+      fanStalled: next.fanStalled,
+    },
+    time,
+    forcedFaults,
+  )
+  Object.assign(next, faults.state)
+  events.push(...faults.events)
+  next.faultCondition = hasFault(next)
+
+  const selection = selectSource(sourcePriority, current.mode, {
+    pvWatts: flow.pvWatts + flow.curtailedWatts,
+    loadWatts: demandWatts,
+    batteryConnected: current.batteryConnected,
+    batteryVoltage: next.batteryVoltage,
+    gridAvailable: current.gridConnected && next.gridAvailable,
+  })
+  const source = updateSource(current, selection, time)
+  next.mode = source.mode
+  next.transferPending = source.transferPending
+  if (source.event) {
+    events.push(source.event)
+    next.transferLog = [...current.transferLog, source.event].slice(-TRANSFER_LOG_LIMIT)
+  }
+
+  return { state: next, events }
+}
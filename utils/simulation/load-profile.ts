@@ -0,0 +1,95 @@
+/**
+ * Load Profile
+ *
+ * How a household's demand moves through the day, as a share of its evening
+ * peak: a breakfast bump, a quiet midday and the evening when lights, TV and
+ * cooking all run at once. A household's own curve can be built from the
+ * appliances it has and when they run.
+ */
+
+import { APPLIANCES, ApplianceDefinition, ApplianceId, HouseholdLoad } from "@/constants/appliances"
+
+// One value per hour, 00:00 to 23:00
+export const HOUSEHOLD_LOAD_PROFILE = [
+  0.2, 0.15, 0.15, 0.15, 0.2, 0.35, 0.6, 0.7, 0.45, 0.35, 0.35, 0.4, 0.5, 0.45, 0.35, 0.35, 0.4, 0.6, 0.9, 1, 0.95,
+  0.8, 0.5, 0.3,
+]
+
+// A profile's value at any time of day, interpolated between the hourly values. The result is in the
+// profile's own units: a share of the peak for HOUSEHOLD_LOAD_PROFILE, watts for one from buildLoadProfile
+export function loadProfileAt(timeOfDay: number, profile: readonly number[] = HOUSEHOLD_LOAD_PROFILE) {
+  const hour = ((timeOfDay % 24) + 24) % 24
+  const index = Math.floor(hour)
+  const fraction = hour - index
+  return profile[index] * (1 - fraction) + profile[(index + 1) % profile.length] * fraction
+}
+
+const MS_PER_HOUR = 3_600_000
+
+// Milliseconds since the appliance last switched on, or null while it's off
+function msSinceSwitchOn(appliance: ApplianceDefinition, timeOfDay: number) {
+  const window = appliance.schedule.find(({ start, end }) => timeOfDay >= start && timeOfDay < end)
+  if (!window) return null
+  const onFor = (timeOfDay - window.start) * MS_PER_HOUR
+  if (!appliance.cycle) return onFor
+  const periodMs = appliance.cycle.periodMinutes * 60_000
+  const phase = onFor % periodMs
+  return phase < appliance.cycle.onMinutes * 60_000 ? phase : null
+}
+
+/**
+ * What a household draws at a moment of the day: the steady draw of everything
+ * that's on, and the extra drawn by appliances that have only just switched on.
+ */
+export function householdDemandAt(loads: readonly HouseholdLoad[], timeOfDay: number) {
+  const hour = ((timeOfDay % 24) + 24) % 24
+  let watts = 0
+  let surgeWatts = 0
+  for (const { appliance: id, quantity } of loads) {
+    const appliance = APPLIANCES[id]
+    const since = msSinceSwitchOn(appliance, hour)
+    if (since === null || quantity <= 0) continue
+    watts += appliance.ratedWatts * quantity
+    if (since < appliance.surgeMs) surgeWatts += appliance.ratedWatts * (appliance.surgeFactor - 1) * quantity
+  }
+  return { watts, surgeWatts }
+}
+
+// Steps per hour when averaging the schedules into an hourly curve
+const SAMPLES_PER_HOUR = 60
+
+// Average watts in each hour of the day, 00:00 to 23:00
+export function buildLoadProfile(loads: readonly HouseholdLoad[]) {
+  return Array.from({ length: 24 }, (_, hour) => {
+    let total = 0
+    for (let sample = 0; sample < SAMPLES_PER_HOUR; sample++) {
+      total += householdDemandAt(loads, hour + sample / SAMPLES_PER_HOUR).watts
+    }
+    return total / SAMPLES_PER_HOUR
+  })
+}
+
+/**
+ * The highest momentary demand over the day, which comes as something switches
+ * on: the start the inverter's surge rating has to ride through.
+ */
+export function peakStartingDemand(loads: readonly HouseholdLoad[]) {
+  let peak: { watts: number; timeOfDay: number; appliance: ApplianceId } | null = null
+  // Biggest starters first, so an appliance switching on alongside them doesn't take the blame
+  const startingWatts = ({ appliance, quantity }: HouseholdLoad) =>
+    APPLIANCES[appliance].ratedWatts * APPLIANCES[appliance].surgeFactor * quantity
+  const byStartingWatts = [...loads].sort((a, b) => startingWatts(b) - startingWatts(a))
+  for (const { appliance: id, quantity } of byStartingWatts) {
+    const appliance = APPLIANCES[id]
+    if (quantity <= 0) continue
+    const cycleHours = appliance.cycle ? appliance.cycle.periodMinutes / 60 : Infinity
+    for (const window of appliance.schedule) {
+      for (let start = window.start; start < window.end; start += cycleHours) {
+        const demand = householdDemandAt(loads, start)
+        const watts = demand.watts + demand.surgeWatts
+        if (!peak || watts > peak.watts) peak = { watts, timeOfDay: start, appliance: id }
+      }
+    }
+  }
+  return peak
+}
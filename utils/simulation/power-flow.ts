@@ -0,0 +1,146 @@
+/**
+ * Power Flow
+ *
+ * DC-coupled solar home system: PV and the battery share a DC bus, the inverter
+ * converts DC to AC for the loads, and the grid (when connected) tops up the AC
+ * side directly. Every watt that enters the system is accounted for as served
+ * load, battery charge, inverter loss or curtailed PV.
+ */
+
+import { createBatterySpec, socAfter } from "./battery"
+
+export type BatteryChemistry = "lithium" | "flow" | "standard"
+
+export interface BatterySpec {
+  name: string
+  chemistry: BatteryChemistry
+  capacityWh: number
+  // Lowest state of charge the system will discharge to, in percent
+  minSoc: number
+  maxChargeW: number
+  maxDischargeW: number
+  // Fraction of charged energy that can be discharged again (0-1)
+  roundTripEfficiency: number
+}
+
+export const BATTERY_PRESETS = {
+  powerVault5kWh: createBatterySpec("lithium", 5000, "PowerVault Lithium 5kWh"),
+  flowCell10kWh: createBatterySpec("flow", 10000, "FlowCell Vanadium 10kWh"),
+  leadAcid4kWh: createBatterySpec("standard", 4000, "Deep-Cycle Lead-Acid 4kWh"),
+} satisfies Record<string, BatterySpec>
+
+export interface PowerFlowInputs {
+  // DC watts available from the panels
+  pvWatts: number
+  // AC watts demanded by the loads
+  loadWatts: number
+  // Inverter conversion efficiency in percent
+  inverterEfficiency: number
+  inverterRatedWatts: number
+  battery: BatterySpec
+  // Battery state of charge in percent
+  batterySoc: number
+  solarConnected: boolean
+  batteryConnected: boolean
+  gridConnected: boolean
+  // False while a fault holds the inverter off; PV can still charge and the grid still serves loads
+  inverterEnabled?: boolean
+  // False while the grid is the chosen source, so the battery is kept in reserve
+  allowBatteryDischarge?: boolean
+  // AC charging from the grid, in watts at the battery, on top of any PV charging
+  gridChargeWatts?: number
+}
+
+export interface PowerFlowResult {
+  // PV actually used, and PV left unused because nothing could absorb it
+  pvWatts: number
+  curtailedWatts: number
+  // Positive while charging, negative while discharging (at the battery terminals)
+  batteryWatts: number
+  gridImportWatts: number
+  inverterOutputWatts: number
+  inverterLossWatts: number
+  // Load served, and load that could not be served
+  loadWatts: number
+  unservedWatts: number
+  // State of charge after the step
+  batterySoc: number
+}
+
+const MS_PER_HOUR = 3_600_000
+
+// Watts at the battery terminals the battery can accept or deliver over one step
+export function batteryLimits(battery: BatterySpec, soc: number, dtMs: number) {
+  const hours = dtMs / MS_PER_HOUR
+  const oneWayEfficiency = Math.sqrt(battery.roundTripEfficiency)
+  const roomWh = (Math.max(0, 100 - soc) / 100) * battery.capacityWh
+  const availableWh = (Math.max(0, soc - battery.minSoc) / 100) * battery.capacityWh
+
+  return {
+    maxChargeW: Math.min(battery.maxChargeW, roomWh / oneWayEfficiency / hours),
+    maxDischargeW: Math.min(battery.maxDischargeW, (availableWh * oneWayEfficiency) / hours),
+  }
+}
+
+export function solvePowerFlow(inputs: PowerFlowInputs, dtMs: number): PowerFlowResult {
+  const efficiency = inputs.inverterEfficiency / 100
+  const pvAvailable = inputs.solarConnected ? Math.max(0, inputs.pvWatts) : 0
+  const limits = inputs.batteryConnected
+    ? batteryLimits(inputs.battery, inputs.batterySoc, dtMs)
+    : { maxChargeW: 0, maxDischargeW: 0 }
+  if (inputs.allowBatteryDischarge === false) limits.maxDischargeW = 0
+
+  // The inverter cannot deliver more than its rating
+  const demand = Math.max(0, inputs.loadWatts)
+  const inverterDemand = inputs.inverterEnabled === false ? 0 : Math.min(demand, inputs.inverterRatedWatts)
+  const dcNeeded = inverterDemand / efficiency
+
+  let charge = 0
+  let discharge = 0
+  let curtailed = 0
+  let inverterInput: number
+
+  if (pvAvailable >= dcNeeded) {
+    // Surplus PV charges the battery; whatever is left is curtailed
+    const surplus = pvAvailable - dcNeeded
+    charge = Math.min(surplus, limits.maxChargeW)
+    curtailed = surplus - charge
+    inverterInput = dcNeeded
+  } else {
+    discharge = Math.min(dcNeeded - pvAvailable, limits.maxDischargeW)
+    inverterInput = pvAvailable + discharge
+  }
+
+  const inverterOutput = inverterInput * efficiency
+  const gridToLoad = inputs.gridConnected ? Math.max(0, demand - inverterOutput) : 0
+  const served = inverterOutput + gridToLoad
+
+  // The charger fills whatever room PV left, converting AC back to DC
+  const gridCharge =
+    inputs.gridConnected && discharge === 0
+      ? Math.min(Math.max(0, inputs.gridChargeWatts ?? 0), limits.maxChargeW - charge)
+      : 0
+  charge += gridCharge
+  const gridImport = gridToLoad + gridCharge / efficiency
+
+  const soc = socAfter(inputs.battery, inputs.batterySoc, charge - discharge, dtMs)
+
+  return {
+    pvWatts: pvAvailable - curtailed,
+    curtailedWatts: curtailed,
+    batteryWatts: charge - discharge,
+    gridImportWatts: gridImport,
+    inverterOutputWatts: inverterOutput,
+    inverterLossWatts: inverterInput - inverterOutput + gridCharge / efficiency - gridCharge,
+    loadWatts: served,
+    unservedWatts: Math.max(0, demand - served),
+    batterySoc: Math.min(100, Math.max(0, soc)),
+  }
+}
+
+// Sources minus sinks; zero (to rounding) for every valid result
+export function powerBalance(flow: PowerFlowResult) {
+  const sources = flow.pvWatts + Math.max(0, -flow.batteryWatts) + flow.gridImportWatts
+  const sinks = flow.loadWatts + Math.max(0, flow.batteryWatts) + flow.inverterLossWatts
+  return sources - sinks
+}
@@ -0,0 +1,40 @@
+/**
+ * Seeded random numbers
+ *
+ * A small mulberry32 generator. The same seed always yields the same sequence,
+ * which is what makes a simulation run reproducible.
+ */
+
+export interface SeededRandom {
+  readonly seed: number
+  // Uniform value in [0, 1)
+  next: () => number
+  // Uniform value in [min, max)
+  between: (min: number, max: number) => number
+  // True with the given probability
+  chance: (probability: number) => boolean
+}
+
+export function createSeededRandom(seed: number): SeededRandom {
+  let state = seed >>> 0
+
+  const next = () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+
+  return {
+    seed,
+    next,
+    between: (min, max) => min + next() * (max - min),
+    chance: (probability) => next() < probability,
+  }
+}
+
+// A fresh seed for callers that do not care about reproducibility
+export function randomSeed() {
+  return Math.floor(Math.random() * 4294967296)
+}
@@ -0,0 +1,177 @@
+/**
+ * Time-Series Recorder
+ *
+ * Keeps a running history of the simulation for charts: PV, load, battery
+ * charge, grid import and inverter temperature. Memory stays bounded however long
+ * the simulation runs, because every sample is averaged into fixed-size ring
+ * buffers at a few resolutions: seconds for the last minute, minutes for the last
+ * hour and quarter hours for the last day.
+ */
+
+export interface RecorderSample {
+  // Simulated ms since midnight of day 1
+  time: number
+  pvWatts: number
+  loadWatts: number
+  // Percent
+  batterySoc: number
+  gridImportWatts: number
+  // °C
+  inverterTemperature: number
+}
+
+export type RecordedSeries = Exclude<keyof RecorderSample, "time">
+
+const SERIES: readonly RecordedSeries[] = [
+  "pvWatts",
+  "loadWatts",
+  "batterySoc",
+  "gridImportWatts",
+  "inverterTemperature",
+]
+
+// Keeps the most recent `capacity` items, overwriting the oldest
+export class RingBuffer<T> {
+  readonly capacity: number
+  private items: T[] = []
+  private start = 0
+
+  constructor(capacity: number) {
+    this.capacity = capacity
+  }
+
+  get length() {
+    return this.items.length
+  }
+
+  push(item: T) {
+    if (this.items.length < this.capacity) {
+      this.items.push(item)
+    } else {
+      this.items[this.start] = item
+      this.start = (this.start + 1) % this.capacity
+    }
+  }
+
+  // Oldest first
+  toArray(): T[] {
+    return [...this.items.slice(this.start), ...this.items.slice(0, this.start)]
+  }
+
+  clear() {
+    this.items = []
+    this.start = 0
+  }
+}
+
+export type RecorderRange = "minute" | "hour" | "day"
+
+// How finely each range is kept: samples are averaged into buckets of `bucketMs`
+export const RECORDER_RANGES: Record<RecorderRange, { label: string; spanMs: number; bucketMs: number }> = {
+  minute: { label: "1 min", spanMs: 60_000, bucketMs: 1_000 },
+  hour: { label: "1 h", spanMs: 3_600_000, bucketMs: 60_000 },
+  day: { label: "24 h", spanMs: 86_400_000, bucketMs: 900_000 },
+}
+
+const RANGE_ORDER = Object.keys(RECORDER_RANGES) as RecorderRange[]
+
+// Running sums for the bucket currently filling up
+interface OpenBucket {
+  start: number
+  count: number
+  sums: Record<RecordedSeries, number>
+}
+
+const emptySums = (): Record<RecordedSeries, number> => ({
+  pvWatts: 0,
+  loadWatts: 0,
+  batterySoc: 0,
+  gridImportWatts: 0,
+  inverterTemperature: 0,
+})
+
+function averageOf(bucket: OpenBucket): RecorderSample {
+  const sample = { time: bucket.start } as RecorderSample
+  SERIES.forEach((series) => {
+    sample[series] = bucket.sums[series] / bucket.count
+  })
+  return sample
+}
+
+class DownsampledSeries {
+  readonly bucketMs: number
+  readonly spanMs: number
+  private buffer: RingBuffer<RecorderSample>
+  private open: OpenBucket | null = null
+
+  constructor({ bucketMs, spanMs }: { bucketMs: number; spanMs: number }) {
+    this.bucketMs = bucketMs
+    this.spanMs = spanMs
+    this.buffer = new RingBuffer(Math.ceil(spanMs / bucketMs))
+  }
+
+  add(sample: RecorderSample) {
+    const start = Math.floor(sample.time / this.bucketMs) * this.bucketMs
+    if (this.open && this.open.start !== start) {
+      this.buffer.push(averageOf(this.open))
+      this.open = null
+    }
+    if (!this.open) this.open = { start, count: 0, sums: emptySums() }
+    this.open.count++
+    SERIES.forEach((series) => {
+      this.open!.sums[series] += sample[series]
+    })
+  }
+
+  // Closed buckets within the span, plus the one still filling so the chart reaches the present
+  samples(): RecorderSample[] {
+    const all = this.open ? [...this.buffer.toArray(), averageOf(this.open)] : this.buffer.toArray()
+    const latest = all[all.length - 1]
+    return latest ? all.filter((sample) => sample.time > latest.time - this.spanMs) : []
+  }
+
+  clear() {
+    this.buffer.clear()
+    this.open = null
+  }
+}
+
+export class TimeSeriesRecorder {
+  private ranges: Record<RecorderRange, DownsampledSeries>
+  private lastTime = -Infinity
+
+  constructor() {
+    this.ranges = {
+      minute: new DownsampledSeries(RECORDER_RANGES.minute),
+      hour: new DownsampledSeries(RECORDER_RANGES.hour),
+      day: new DownsampledSeries(RECORDER_RANGES.day),
+    }
+  }
+
+  get latestTime() {
+    return Number.isFinite(this.lastTime) ? this.lastTime : null
+  }
+
+  // Samples older than the latest one are dropped; a deliberate jump of the clock calls clear() instead
+  record(sample: RecorderSample) {
+    if (sample.time < this.lastTime) return
+    this.lastTime = sample.time
+    RANGE_ORDER.forEach((range) => this.ranges[range].add(sample))
+  }
+
+  // Oldest first, one sample per bucket of the range
+  series(range: RecorderRange): RecorderSample[] {
+    return this.ranges[range].samples()
+  }
+
+  clear() {
+    RANGE_ORDER.forEach((range) => this.ranges[range].clear())
+    this.lastTime = -Infinity
+  }
+}
+
+// Energy under a power series, in watt-hours, taking each sample to cover one bucket of the range
+export function seriesEnergyWh(samples: readonly RecorderSample[], series: RecordedSeries, range: RecorderRange) {
+  const hoursPerSample = RECORDER_RANGES[range].bucketMs / 3_600_000
+  return samples.reduce((total, sample) => total + sample[series] * hoursPerSample, 0)
+}
@@ -0,0 +1,117 @@
+/**
+ * Solar Panel Output
+ *
+ * PV output from sun intensity, time of day, weather, orientation, tilt and cell
+ * temperature. StaticSolarPanelNode renders this number and feeds it into the
+ * shared power-flow model.
+ */
+
+export type PanelOrientation = "south" | "east" | "west" | "north"
+export type SolarWeather = "sunny" | "cloudy" | "rainy" | "night"
+
+export interface SolarConditions {
+  // Nameplate power of the panel in watts
+  ratedPower: number
+  // 0-100
+  sunIntensity: number
+  // Cell efficiency in percent
+  efficiency: number
+  // Cell temperature in °C
+  temperature: number
+  tiltAngle: number
+  orientation: PanelOrientation
+  // Hour of day, 0-24
+  timeOfDay: number
+  weather: SolarWeather
+}
+
+const WEATHER_FACTORS: Record<SolarWeather, number> = {
+  sunny: 1,
+  cloudy: 0.6,
+  rainy: 0.3,
+  night: 0,
+}
+
+const OPTIMAL_TILT = 35
+
+// Height of the sun as a fraction of noon, with sunrise at 06:00 and sunset at 18:00
+export function daylightFactor(timeOfDay: number) {
+  return Math.max(0, Math.sin(((timeOfDay - 6) / 12) * Math.PI))
+}
+
+// Fraction of full sun reaching the panel before orientation and tilt losses
+export function calculateSunFactor({ sunIntensity, timeOfDay, weather }: SolarConditions) {
+  return (sunIntensity / 100) * daylightFactor(timeOfDay) * WEATHER_FACTORS[weather]
+}
+
+function orientationFactor(orientation: PanelOrientation, timeOfDay: number) {
+  if (orientation === "east") return timeOfDay < 12 ? 0.9 : 0.7
+  if (orientation === "west") return timeOfDay < 12 ? 0.7 : 0.9
+  if (orientation === "north") return 0.6
+  return 1
+}
+
+// Panels lose ~0.4% per degree C above 25°C
+export function temperatureFactor(cellTemperature: number) {
+  return 1 - Math.max(0, (cellTemperature - 25) * 0.004)
+}
+
+const tiltFactor = (tiltAngle: number) => 1 - Math.abs(tiltAngle - OPTIMAL_TILT) / 90
+
+// DC output in watts
+export function calculatePvOutput(conditions: SolarConditions) {
+  const sunFactor = calculateSunFactor(conditions)
+  const tempFactor = temperatureFactor(conditions.temperature)
+
+  return (
+    conditions.ratedPower *
+    sunFactor *
+    orientationFactor(conditions.orientation, conditions.timeOfDay) *
+    tiltFactor(conditions.tiltAngle) *
+    tempFactor *
+    (conditions.efficiency / 100)
+  )
+}
+
+// Irradiance at which panels are rated, in W/m²
+export const STANDARD_IRRADIANCE = 1000
+
+// Cells run hotter than the air the more sun they get, about 25°C above it at 800 W/m²
+export const cellTemperatureFor = (irradiance: number, ambientTemperature: number) =>
+  ambientTemperature + (irradiance / 800) * 25
+
+/**
+ * DC output in watts from measured irradiance (W/m²) and air temperature, for
+ * weather data rather than the node's sliders.
+ */
+export function pvOutputFromIrradiance(ratedPower: number, irradiance: number, ambientTemperature: number) {
+  const cellTemperature = cellTemperatureFor(irradiance, ambientTemperature)
+  return ratedPower * (irradiance / STANDARD_IRRADIANCE) * temperatureFactor(cellTemperature)
+}
+
+// Sunshine on the panel in W/m² and air temperature in °C, as a weather scenario gives them
+export interface PanelWeather {
+  irradiance: number
+  ambientTemperature: number
+}
+
+/**
+ * DC output in watts of a mounted panel under scenario weather. The irradiance
+ * takes the place of the daylight and weather-condition factors and sets the cell
+ * temperature; sun intensity, orientation, tilt and efficiency apply as in
+ * calculatePvOutput.
+ */
+export function calculatePvOutputInWeather(
+  conditions: Omit<SolarConditions, "weather" | "temperature">,
+  { irradiance, ambientTemperature }: PanelWeather,
+) {
+  return (
+    conditions.ratedPower *
+    (conditions.sunIntensity / 100) *
+    (irradiance / STANDARD_IRRADIANCE) *
+    orientationFactor(conditions.orientation, conditions.timeOfDay) *
+    tiltFactor(conditions.tiltAngle) *
+    temperatureFactor(cellTemperatureFor(irradiance, ambientTemperature)) *
+    (conditions.efficiency / 100)
+  )
+}
@@ -0,0 +1,186 @@
+/**
+ * Source Priority
+ *
+ * How a hybrid inverter picks its source on its own, following the output and
+ * charger priority settings found on common off-grid units (UTI/SUB/SBU and
+ * CSO/SNU/OSO). Battery voltage thresholds with a gap between them decide when
+ * to fall back to the grid and when to return to the battery, so the inverter
+ * doesn't flip back and forth at one voltage.
+ */
+
+import type { InverterMode } from "@/components/static-nodes/inverter/types"
+
+export type OutputSourcePriority =
+  // UTI: the grid powers the loads whenever it's there
+  | "utility_first"
+  // SUB: solar first, then the grid; the battery only covers outages
+  | "solar_utility_battery"
+  // SBU: solar first, then the battery, and the grid once the battery is low
+  | "solar_battery_utility"
+
+export type ChargerSourcePriority =
+  // CSO: solar charges the battery; the grid only when there's no solar
+  | "solar_first"
+  // SNU: solar and the grid charge together
+  | "solar_and_utility"
+  // OSO: only solar charges the battery
+  | "solar_only"
+
+export interface SourcePrioritySettings {
+  output: OutputSourcePriority
+  charger: ChargerSourcePriority
+  // Battery voltage at which output falls back to the grid, and at which it returns to the battery
+  backToGridVoltage: number
+  backToBatteryVoltage: number
+  // AC charging current from the grid, as watts at the battery
+  maxGridChargeWatts: number
+}
+
+export const DEFAULT_SOURCE_PRIORITY: SourcePrioritySettings = {
+  output: "solar_battery_utility",
+  charger: "solar_first",
+  backToGridVoltage: 47.5,
+  backToBatteryVoltage: 52,
+  maxGridChargeWatts: 1000,
+}
+
+// Codes as printed on the inverter's settings menu
+export const OUTPUT_PRIORITY_CODES: Record<OutputSourcePriority, string> = {
+  utility_first: "UTI",
+  solar_utility_battery: "SUB",
+  solar_battery_utility: "SBU",
+}
+
+export const CHARGER_PRIORITY_CODES: Record<ChargerSourcePriority, string> = {
+  solar_first: "CSO",
+  solar_and_utility: "SNU",
+  solar_only: "OSO",
+}
+
+export type SourceTransferReason =
+  | "grid_lost"
+  | "priority"
+  | "solar_available"
+  | "solar_short"
+  | "battery_low"
+  | "battery_recovered"
+
+export interface SourceTransferEvent {
+  type: "source_transfer"
+  from: InverterMode
+  to: InverterMode
+  reason: SourceTransferReason
+  time: number
+  // How long the loads went without supply during the changeover
+  transferMs: number
+}
+
+// What the source choice is based on, from the most recent tick
+export interface SourceReading {
+  // PV the panels could give and the loads' full demand, in watts
+  pvWatts: number
+  loadWatts: number
+  batteryConnected: boolean
+  batteryVoltage: number
+  gridAvailable: boolean
+}
+
+export interface SourceSelection {
+  mode: InverterMode
+  reason: SourceTransferReason
+}
+
+/**
+ * The source the settings call for. "pv" means solar carries the loads with the
+ * battery buffering it, "battery" that the battery makes up a solar shortfall and
+ * "normal" that the grid powers the loads.
+ */
+export function selectSource(
+  settings: SourcePrioritySettings,
+  current: InverterMode,
+  reading: SourceReading,
+): SourceSelection {
+  const solarCovers = reading.pvWatts > 0 && reading.pvWatts >= reading.loadWatts
+
+  if (!reading.gridAvailable) {
+    const mode = solarCovers || !reading.batteryConnected ? "pv" : "battery"
+    if (current === "normal") return { mode, reason: "grid_lost" }
+    return { mode, reason: solarCovers ? "solar_available" : "solar_short" }
+  }
+  if (settings.output === "utility_first") return { mode: "normal", reason: "priority" }
+  if (solarCovers) return { mode: "pv", reason: "solar_available" }
+  if (settings.output === "solar_utility_battery" || !reading.batteryConnected) {
+    return { mode: "normal", reason: "solar_short" }
+  }
+
+  // SBU: a battery sent to the grid has to recharge past the upper threshold before it's used again
+  if (current === "normal") {
+    return reading.batteryVoltage >= settings.backToBatteryVoltage
+      ? { mode: "battery", reason: "battery_recovered" }
+      : { mode: "normal", reason: "battery_low" }
+  }
+  return reading.batteryVoltage > settings.backToGridVoltage
+    ? { mode: "battery", reason: "solar_short" }
+    : { mode: "normal", reason: "battery_low" }
+}
+
+// A new source has to be called for this long before the inverter transfers to it
+export const TRANSFER_DELAY_MS = 5000
+
+// Losing the grid or running the battery down can't wait for the delay
+const IMMEDIATE_REASONS: readonly SourceTransferReason[] = ["grid_lost", "battery_low"]
+
+export interface PendingTransfer {
+  mode: InverterMode
+  since: number
+}
+
+export const TRANSFER_LOG_LIMIT = 50
+
+// Changing over between the grid and the inverter's own output breaks supply for about
+// this long; PV and the battery share the DC bus, so switching between them doesn't
+export const AC_TRANSFER_MS = 10
+
+/**
+ * Moves the inverter towards the selected source, waiting out TRANSFER_DELAY_MS
+ * unless the transfer can't wait. Returns the transfer event when one happens.
+ */
+export function updateSource(
+  current: { mode: InverterMode; transferPending: PendingTransfer | null },
+  selection: SourceSelection,
+  time: number,
+): { mode: InverterMode; transferPending: PendingTransfer | null; event: SourceTransferEvent | null } {
+  if (selection.mode === current.mode) return { mode: current.mode, transferPending: null, event: null }
+
+  const since = current.transferPending?.mode === selection.mode ? current.transferPending.since : time
+  if (!IMMEDIATE_REASONS.includes(selection.reason) && time - since < TRANSFER_DELAY_MS) {
+    return { mode: current.mode, transferPending: { mode: selection.mode, since }, event: null }
+  }
+
+  return {
+    mode: selection.mode,
+    transferPending: null,
+    event: {
+      type: "source_transfer",
+      from: current.mode,
+      to: selection.mode,
+      reason: selection.reason,
+      time,
+      transferMs: current.mode === "normal" || selection.mode === "normal" ? AC_TRANSFER_MS : 0,
+    },
+  }
+}
+
+// Which sources the power flow may draw on in each mode
+export function sourcePermissions(settings: SourcePrioritySettings, mode: InverterMode, pvWatts: number) {
+  const onGrid = mode === "normal"
+  const gridCharges =
+    onGrid &&
+    (settings.charger === "solar_and_utility" || (settings.charger === "solar_first" && pvWatts <= 0))
+
+  return {
+    useGrid: onGrid,
+    allowBatteryDischarge: !onGrid,
+    gridChargeWatts: gridCharges ? settings.maxGridChargeWatts : 0,
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Weather Scenarios
+ *
+ * Turns a scripted scenario into hourly irradiance and temperature, then runs a
+ * solar home system through it hour by hour on the power-flow model. The report
+ * answers what a customer asks about a bad week: did the battery run out, for how
+ * long were the lights off, and how low did it get.
+ */
+
+import { WEATHER_SCENARIOS, WeatherScenarioDefinition, WeatherScenarioId } from "@/constants/weather"
+import { createSeededRandom } from "./random"
+import { STANDARD_IRRADIANCE, SolarWeather, daylightFactor, pvOutputFromIrradiance } from "./solar"
+import { BatterySpec, solvePowerFlow } from "./power-flow"
+import { batteryHealthAt, deratedBatterySpec } from "./battery"
+import { HOUSEHOLD_LOAD_PROFILE } from "./load-profile"
+import { MS_PER_HOUR } from "./clock"
+
+export interface WeatherHour {
+  // Hours since the start of the scenario
+  hour: number
+  // Sunshine on the panels in W/m², and air temperature in °C
+  irradiance: number
+  ambientTemperature: number
+  condition: SolarWeather
+}
+
+// Day-to-day scatter around the scripted clearness
+const CLEARNESS_NOISE = 0.05
+
+const conditionFor = (irradiance: number, clearness: number): SolarWeather => {
+  if (irradiance <= 0) return "night"
+  if (clearness >= 0.75) return "sunny"
+  if (clearness >= 0.35) return "cloudy"
+  return "rainy"
+}
+
+// Coldest just before dawn, warmest mid-afternoon
+const temperatureCurve = (hour: number) => 0.5 - 0.5 * Math.cos((2 * Math.PI * (hour - 4)) / 24)
+
+/**
+ * Hourly weather for a scenario. The seed fixes the small hour-to-hour scatter,
+ * so a scenario always plays out the same way.
+ */
+export function buildWeatherSeries(scenario: WeatherScenarioDefinition, seed = 1): WeatherHour[] {
+  const random = createSeededRandom(seed)
+  return scenario.days.flatMap((day, dayIndex) =>
+    Array.from({ length: 24 }, (_, hourOfDay) => {
+      const scripted = hourOfDay < 12 ? day.morningClearness : day.afternoonClearness
+      const clearness = Math.min(1, Math.max(0, scripted + random.between(-CLEARNESS_NOISE, CLEARNESS_NOISE)))
+      // Sun height at the middle of the hour
+      const irradiance = STANDARD_IRRADIANCE * daylightFactor(hourOfDay + 0.5) * clearness
+      return {
+        hour: dayIndex * 24 + hourOfDay,
+        irradiance,
+        ambientTemperature:
+          day.minTemperature + (day.maxTemperature - day.minTemperature) * temperatureCurve(hourOfDay),
+        condition: conditionFor(irradiance, clearness),
+      }
+    }),
+  )
+}
+
+// The hour a moment falls in, given in hours since midnight of day 1; the scenario repeats once it runs out
+export const weatherHourAt = (weather: WeatherHour[], hours: number) =>
+  weather[Math.floor(Math.max(0, hours)) % weather.length]
+
+export const getWeatherScenario = (id: WeatherScenarioId) =>
+  WEATHER_SCENARIOS.find((scenario) => scenario.id === id) ?? WEATHER_SCENARIOS[0]
+
+// An off-grid system as the scenario runner sees it
+export interface ScenarioSystem {
+  pvRatedWatts: number
+  battery: BatterySpec
+  // State of charge at the start, in percent
+  initialSoc: number
+  // Household use per day, spread over the hours by the load profile
+  dailyLoadWh: number
+  loadProfile?: readonly number[]
+  inverterRatedWatts: number
+  // Percent, as on the inverter's datasheet
+  inverterEfficiency: number
+}
+
+export interface ScenarioHourResult extends WeatherHour {
+  pvWatts: number
+  loadWatts: number
+  unservedWatts: number
+  // State of charge at the end of the hour
+  batterySoc: number
+}
+
+export interface ScenarioReport {
+  hours: ScenarioHourResult[]
+  // Whether the battery reached its discharge floor, and the first hour it did
+  batteryRanOut: boolean
+  firstEmptyHour: number | null
+  // Hours in which some load went unserved, and the energy missed
+  unservedHours: number
+  unservedWh: number
+  minSoc: number
+  pvWh: number
+  loadWh: number
+}
+
+// Within this many percent of the floor counts as empty
+const EMPTY_MARGIN = 0.5
+
+export function runWeatherScenario(weather: WeatherHour[], system: ScenarioSystem): ScenarioReport {
+  const profile = system.loadProfile ?? HOUSEHOLD_LOAD_PROFILE
+  const profileTotal = profile.reduce((sum, share) => sum + share, 0)
+
+  const health = batteryHealthAt(system.battery.chemistry)
+  let soc = system.initialSoc
+  const hours = weather.map((hour): ScenarioHourResult => {
+    const demand = profileTotal > 0 ? (system.dailyLoadWh * profile[hour.hour % 24]) / profileTotal : 0
+    const flow = solvePowerFlow(
+      {
+        pvWatts: pvOutputFromIrradiance(system.pvRatedWatts, hour.irradiance, hour.ambientTemperature),
+        loadWatts: demand,
+        inverterEfficiency: system.inverterEfficiency,
+        inverterRatedWatts: system.inverterRatedWatts,
+        // Heat and cold derate the battery hour by hour
+        battery: deratedBatterySpec(system.battery, health, hour.ambientTemperature, soc),
+        batterySoc: soc,
+        solarConnected: true,
+        batteryConnected: true,
+        gridConnected: false,
+      },
+      MS_PER_HOUR,
+    )
+    soc = flow.batterySoc
+    return {
+      ...hour,
+      pvWatts: flow.pvWatts,
+      loadWatts: demand,
+      unservedWatts: flow.unservedWatts,
+      batterySoc: flow.batterySoc,
+    }
+  })
+
+  const empty = hours.find((hour) => hour.batterySoc <= system.battery.minSoc + EMPTY_MARGIN)
+  const unserved = hours.filter((hour) => hour.unservedWatts > 1)
+
+  return {
+    hours,
+    batteryRanOut: empty !== undefined,
+    firstEmptyHour: empty?.hour ?? null,
+    unservedHours: unserved.length,
+    unservedWh: unserved.reduce((sum, hour) => sum + hour.unservedWatts, 0),
+    minSoc: hours.reduce((min, hour) => Math.min(min, hour.batterySoc), system.initialSoc),
+    pvWh: hours.reduce((sum, hour) => sum + hour.pvWatts, 0),
+    loadWh: hours.reduce((sum, hour) => sum + hour.loadWatts, 0),
+  }
+}
@@ -0,0 +1,127 @@
+import { SIZING_ASSUMPTIONS, SizingAssumptions } from "@/constants/sizing"
+import { sizingValue } from "@/utils/catalog"
+import { MAX_QUOTE_QUANTITY, buildQuote, Quote } from "@/utils/quote"
+import type { Product, ProductSizing } from "@/types/product"
+import type { CurrencyCode } from "@/types/money"
+
+export interface ApplianceLoad {
+  name: string
+  watts: number
+  quantity: number
+  hoursPerDay: number
+}
+
+export interface SizingInput {
+  appliances: ApplianceLoad[]
+  peakSunHours: number
+  // Days the battery should carry the loads without any sun
+  autonomyDays: number
+}
+
+export interface SystemRequirements {
+  dailyEnergyWh: number
+  // Every appliance running at once
+  peakLoadW: number
+  pvWp: number
+  batteryKWh: number
+  inverterKVA: number
+}
+
+export type SizingRole = ProductSizing["role"]
+
+export interface BillOfMaterialsLine {
+  product: Product
+  role: SizingRole
+  quantity: number
+  // Combined rating of the line, in the role's unit
+  provided: number
+  required: number
+}
+
+export interface SystemDesign {
+  requirements: SystemRequirements
+  lines: BillOfMaterialsLine[]
+  // Roles the catalog has no suitable product for
+  unavailable: SizingRole[]
+  // Roles that would take more units of any product than a single quote can hold
+  tooLarge: SizingRole[]
+  // The lines priced in the requested currency
+  quote: Quote
+}
+
+export const SIZING_UNITS: Record<SizingRole, string> = { pv: "Wp", battery: "kWh", inverter: "kVA" }
+
+const SIZING_ORDER: SizingRole[] = ["pv", "battery", "inverter"]
+
+export function computeRequirements(
+  { appliances, peakSunHours, autonomyDays }: SizingInput,
+  assumptions: SizingAssumptions = SIZING_ASSUMPTIONS,
+): SystemRequirements {
+  const loads = appliances.filter((appliance) => appliance.watts > 0 && appliance.quantity > 0)
+  const dailyEnergyWh = loads.reduce(
+    (sum, appliance) => sum + appliance.watts * appliance.quantity * Math.max(0, appliance.hoursPerDay),
+    0,
+  )
+  const peakLoadW = loads.reduce((sum, appliance) => sum + appliance.watts * appliance.quantity, 0)
+
+  // Energy drawn from the battery passes through the inverter, so size for its losses too
+  const batteryWh = (dailyEnergyWh * autonomyDays) / (assumptions.depthOfDischarge * assumptions.inverterEfficiency)
+
+  return {
+    dailyEnergyWh,
+    peakLoadW,
+    pvWp: peakSunHours > 0 ? dailyEnergyWh / (peakSunHours * assumptions.performanceRatio) : 0,
+    batteryKWh: batteryWh / 1000,
+    inverterKVA: (peakLoadW * assumptions.inverterHeadroom) / assumptions.powerFactor / 1000,
+  }
+}
+
+const requiredFor = (role: SizingRole, requirements: SystemRequirements) =>
+  role === "pv" ? requirements.pvWp : role === "battery" ? requirements.batteryKWh : requirements.inverterKVA
+
+/**
+ * Picks the cheapest way to cover each requirement with a single catalog product:
+ * for every candidate, enough units to meet the requirement, then the lowest total,
+ * preferring fewer units on a tie. Candidates needing more than MAX_QUOTE_QUANTITY
+ * units are passed over. Roles with nothing to cover are skipped.
+ */
+export function recommendSystem(
+  requirements: SystemRequirements,
+  products: Product[],
+  currency?: CurrencyCode,
+): SystemDesign {
+  const lines: BillOfMaterialsLine[] = []
+  const unavailable: SizingRole[] = []
+  const tooLarge: SizingRole[] = []
+
+  for (const role of SIZING_ORDER) {
+    const required = requiredFor(role, requirements)
+    if (required <= 0) continue
+
+    const candidates = products
+      .filter((product) => product.sizing?.role === role)
+      .map((product) => {
+        const rating = sizingValue(product.sizing!)
+        const quantity = Math.ceil(required / rating - 1e-9)
+        return { product, quantity, provided: quantity * rating, cost: quantity * product.price }
+      })
+    const options = candidates
+      .filter((option) => option.quantity <= MAX_QUOTE_QUANTITY)
+      .sort((a, b) => a.cost - b.cost || a.quantity - b.quantity)
+
+    if (options.length === 0) {
+      if (candidates.length === 0) unavailable.push(role)
+      else tooLarge.push(role)
+      continue
+    }
+    const { product, quantity, provided } = options[0]
+    lines.push({ product, role, quantity, provided, required })
+  }
+
+  const quote = buildQuote(
+    lines.map((line) => ({ productId: line.product.id, quantity: line.quantity })),
+    products,
+    currency,
+  )
+  return { requirements, lines, unavailable, tooLarge, quote }
+}
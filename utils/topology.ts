@@ -0,0 +1,304 @@
+/**
+ * System Topology
+ *
+ * Helpers for declarative system diagrams: validation, layout into pixel
+ * coordinates, and which nodes and edges are powered given the energy store.
+ */
+
+import type { EnergySystemState, SystemComponent } from "@/store/energySystemStore"
+import type {
+  SystemTopology,
+  TopologyEdgeKind,
+  TopologyNode,
+  TopologyNodeType,
+  TopologyPosition,
+} from "@/types/topology"
+
+export interface TopologyIssue {
+  message: string
+  nodeId?: string
+  edgeId?: string
+}
+
+export interface Point {
+  x: number
+  y: number
+}
+
+export type SystemFlags = Pick<EnergySystemState, "inverterActive" | "switchActive" | "bulbActive" | "wordActive">
+
+// Store flag each node type follows; other types are powered whenever the inverter is on
+export const NODE_BINDINGS: Partial<Record<TopologyNodeType, SystemComponent>> = {
+  inverter: "inverter",
+  switch: "switch",
+  bulb: "bulb",
+  word: "word",
+}
+
+export const DEFAULT_NODE_SCALE = 0.7
+
+// Unscaled footprint of each node type in pixels
+export const NODE_SIZES: Record<TopologyNodeType, { width: number; height: number }> = {
+  inverter: { width: 400, height: 590 },
+  solarPanel: { width: 320, height: 444 },
+  battery: { width: 160, height: 240 },
+  monitor: { width: 240, height: 192 },
+  switch: { width: 128, height: 128 },
+  bulb: { width: 112, height: 192 },
+  word: { width: 150, height: 80 },
+  accessory: { width: 160, height: 160 },
+}
+
+export const NODE_TYPE_LABELS: Record<TopologyNodeType, string> = {
+  inverter: "inverter",
+  solarPanel: "solar panel",
+  battery: "battery",
+  monitor: "monitor",
+  switch: "switch",
+  bulb: "bulb",
+  word: "word",
+  accessory: "accessory",
+}
+
+// Which node types each type may feed, and what flows along the connection
+export const CONNECTION_RULES: Record<TopologyNodeType, Partial<Record<TopologyNodeType, TopologyEdgeKind>>> = {
+  solarPanel: { inverter: "dc", accessory: "dc" },
+  battery: { inverter: "dc", accessory: "dc" },
+  accessory: { inverter: "dc", battery: "dc" },
+  inverter: { switch: "ac", bulb: "ac", monitor: "data", battery: "dc" },
+  monitor: { inverter: "data" },
+  switch: { bulb: "ac", word: "ac" },
+  bulb: { word: "ac" },
+  word: {},
+}
+
+// DC sources have to reach an inverter; AC loads have to be reached from one
+const DC_SOURCES: TopologyNodeType[] = ["solarPanel", "battery"]
+const AC_LOADS: TopologyNodeType[] = ["switch", "bulb", "word"]
+
+const FLAG_KEYS: Record<SystemComponent, keyof SystemFlags> = {
+  inverter: "inverterActive",
+  switch: "switchActive",
+  bulb: "bulbActive",
+  word: "wordActive",
+}
+
+// Reason a connection is not allowed, or null if it is
+export function validateConnection(topology: SystemTopology, fromId: string, toId: string): string | null {
+  const from = topology.nodes.find((node) => node.id === fromId)
+  const to = topology.nodes.find((node) => node.id === toId)
+  if (!from || !to) return "Both ends of a connection must be on the canvas"
+  if (from.id === to.id) return "A node can't be connected to itself"
+
+  const exists = topology.edges.some(
+    (edge) => (edge.from === fromId && edge.to === toId) || (edge.from === toId && edge.to === fromId),
+  )
+  if (exists) return "These nodes are already connected"
+
+  if (!CONNECTION_RULES[from.type][to.type]) {
+    const fromLabel = NODE_TYPE_LABELS[from.type]
+    const toLabel = NODE_TYPE_LABELS[to.type]
+    if (DC_SOURCES.includes(from.type) && AC_LOADS.includes(to.type)) {
+      return `A ${fromLabel} can't connect directly to a ${toLabel}; route it through an inverter`
+    }
+    return `A ${fromLabel} can't feed a ${toLabel}`
+  }
+  return null
+}
+
+export function connectionKind(from: TopologyNodeType, to: TopologyNodeType): TopologyEdgeKind {
+  return CONNECTION_RULES[from][to] ?? "ac"
+}
+
+// Node ids reachable from the given node, following edges in either direction
+function connectedComponent(topology: SystemTopology, startId: string) {
+  const seen = new Set([startId])
+  const queue = [startId]
+  while (queue.length > 0) {
+    const id = queue.shift()!
+    topology.edges.forEach((edge) => {
+      const next = edge.from === id ? edge.to : edge.to === id ? edge.from : null
+      if (next && !seen.has(next)) {
+        seen.add(next)
+        queue.push(next)
+      }
+    })
+  }
+  return seen
+}
+
+export function validateTopology(topology: SystemTopology): TopologyIssue[] {
+  const issues: TopologyIssue[] = []
+  const nodeIds = new Set<string>()
+
+  topology.nodes.forEach((node) => {
+    if (nodeIds.has(node.id)) {
+      issues.push({ nodeId: node.id, message: `Duplicate node id "${node.id}"` })
+    }
+    nodeIds.add(node.id)
+
+    const { x, y } = node.position
+    if (x < 0 || x > 1 || y < 0 || y > 1) {
+      issues.push({ nodeId: node.id, message: `Node "${node.id}" is positioned outside the diagram` })
+    }
+  })
+
+  const edgeIds = new Set<string>()
+  topology.edges.forEach((edge) => {
+    if (edgeIds.has(edge.id)) {
+      issues.push({ edgeId: edge.id, message: `Duplicate edge id "${edge.id}"` })
+    }
+    edgeIds.add(edge.id)
+
+    if (!nodeIds.has(edge.from)) {
+      issues.push({ edgeId: edge.id, message: `Edge "${edge.id}" starts at unknown node "${edge.from}"` })
+    }
+    if (!nodeIds.has(edge.to)) {
+      issues.push({ edgeId: edge.id, message: `Edge "${edge.id}" ends at unknown node "${edge.to}"` })
+    }
+    if (edge.from === edge.to) {
+      issues.push({ edgeId: edge.id, message: `Edge "${edge.id}" connects a node to itself` })
+    }
+
+    const from = topology.nodes.find((node) => node.id === edge.from)
+    const to = topology.nodes.find((node) => node.id === edge.to)
+    if (from && to && !CONNECTION_RULES[from.type][to.type]) {
+      issues.push({
+        edgeId: edge.id,
+        message: `A ${NODE_TYPE_LABELS[from.type]} can't feed a ${NODE_TYPE_LABELS[to.type]}`,
+      })
+    }
+  })
+
+  // The simulation drives one inverter, so a second would share (and double count) its battery and loads
+  const inverters = topology.nodes.filter((node) => node.type === "inverter")
+  inverters.slice(1).forEach((node) => {
+    issues.push({ nodeId: node.id, message: "Only one inverter per system is supported; remove this one" })
+  })
+
+  // Sources and loads only work when they share a circuit with an inverter
+  topology.nodes.forEach((node) => {
+    if (!DC_SOURCES.includes(node.type) && !AC_LOADS.includes(node.type)) return
+    const circuit = connectedComponent(topology, node.id)
+    const hasInverter = topology.nodes.some((other) => other.type === "inverter" && circuit.has(other.id))
+    if (!hasInverter) {
+      const label = NODE_TYPE_LABELS[node.type]
+      issues.push({
+        nodeId: node.id,
+        message: DC_SOURCES.includes(node.type)
+          ? `This ${label} is not connected to an inverter`
+          : `This ${label} has no inverter supplying it`,
+      })
+    }
+  })
+
+  return issues
+}
+
+// Layout files are plain JSON with a version tag so older saves can be recognised
+const LAYOUT_FILE_VERSION = 1
+
+export function serializeTopology(topology: SystemTopology) {
+  return JSON.stringify({ version: LAYOUT_FILE_VERSION, topology }, null, 2)
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === "object" && value !== null
+const isCoordinate = (value: unknown) => typeof value === "number" && Number.isFinite(value)
+
+// Malformed entries in a hand-edited or foreign file, caught before the topology checks rely on their fields
+function layoutShapeIssues(nodes: unknown[], edges: unknown[]): TopologyIssue[] {
+  const issues: TopologyIssue[] = []
+  const knownTypes = Object.keys(NODE_SIZES)
+
+  nodes.forEach((node, i) => {
+    if (!isRecord(node)) {
+      issues.push({ message: `Node ${i + 1} is not an object` })
+      return
+    }
+    const label = typeof node.id === "string" ? `Node "${node.id}"` : `Node ${i + 1}`
+    const nodeId = typeof node.id === "string" ? node.id : undefined
+    if (!nodeId) issues.push({ message: `${label} has no id` })
+    if (typeof node.type !== "string" || !knownTypes.includes(node.type)) {
+      issues.push({ nodeId, message: `${label} has unknown type "${String(node.type)}"` })
+    }
+    if (!isRecord(node.position) || !isCoordinate(node.position.x) || !isCoordinate(node.position.y)) {
+      issues.push({ nodeId, message: `${label} has no numeric x and y position` })
+    }
+  })
+
+  edges.forEach((edge, i) => {
+    if (!isRecord(edge)) {
+      issues.push({ message: `Connection ${i + 1} is not an object` })
+      return
+    }
+    const edgeId = typeof edge.id === "string" ? edge.id : undefined
+    const label = edgeId ? `Connection "${edgeId}"` : `Connection ${i + 1}`
+    if (!edgeId) issues.push({ message: `${label} has no id` })
+    if (typeof edge.from !== "string" || typeof edge.to !== "string") {
+      issues.push({ edgeId, message: `${label} is missing the node it starts or ends at` })
+    }
+  })
+
+  return issues
+}
+
+export function parseTopology(json: string): { topology: SystemTopology | null; issues: TopologyIssue[] } {
+  let data: unknown
+  try {
+    data = JSON.parse(json)
+  } catch {
+    return { topology: null, issues: [{ message: "The file is not valid JSON" }] }
+  }
+
+  const file = data as { version?: unknown; topology?: Partial<SystemTopology> }
+  if (file.version !== LAYOUT_FILE_VERSION || !file.topology) {
+    return { topology: null, issues: [{ message: "The file is not a saved system layout" }] }
+  }
+
+  const { id, name, nodes, edges } = file.topology
+  if (typeof id !== "string" || typeof name !== "string" || !Array.isArray(nodes) || !Array.isArray(edges)) {
+    return { topology: null, issues: [{ message: "The layout is missing its nodes or connections" }] }
+  }
+
+  const shapeIssues = layoutShapeIssues(nodes, edges)
+  if (shapeIssues.length > 0) return { topology: null, issues: shapeIssues }
+
+  const topology = file.topology as SystemTopology
+  return { topology, issues: validateTopology(topology) }
+}
+
+export function resolvePosition(position: TopologyPosition, width: number, height: number): Point {
+  return {
+    x: position.x * width + (position.offsetX ?? 0),
+    y: position.y * height + (position.offsetY ?? 0),
+  }
+}
+
+// Pixel coordinates of every node for a diagram of the given size
+export function layoutTopology(topology: SystemTopology, width: number, height: number) {
+  const positions: Record<string, Point> = {}
+  topology.nodes.forEach((node) => {
+    positions[node.id] = resolvePosition(node.position, width, height)
+  })
+  return positions
+}
+
+// Which DC sources share a circuit with the given inverter
+export function inverterConnections(topology: SystemTopology, inverterId: string) {
+  const circuit = connectedComponent(topology, inverterId)
+  const connected = (type: TopologyNodeType) =>
+    topology.nodes.some((node) => node.type === type && circuit.has(node.id))
+  return { solarConnected: connected("solarPanel"), batteryConnected: connected("battery") }
+}
+
+export function isNodeEnergized(node: TopologyNode, flags: SystemFlags) {
+  const binding = NODE_BINDINGS[node.type]
+  return flags[FLAG_KEYS[binding ?? "inverter"]]
+}
+
+// An edge carries power (or data) whenever the node it leaves is energized
+export function isEdgeActive(topology: SystemTopology, edgeId: string, flags: SystemFlags) {
+  const edge = topology.edges.find((e) => e.id === edgeId)
+  const source = edge && topology.nodes.find((node) => node.id === edge.from)
+  return source ? isNodeEnergized(source, flags) : false
+}